@@ -12,10 +12,12 @@ import {
   validateVideoFilePath,
   validateAudioFilePath,
   validateImageFilePath,
+  validateFilePath,
   validateFilePaths,
   validateUrl,
   sanitizeErrorMessage,
-  validateNumericInput
+  validateNumericInput,
+  validateStringLength
 } from './utils/security.js'
 import { AppError, ErrorCode, serializeErrorForIPC } from './utils/errorCodes.js'
 import { initializeFfmpeg } from './utils/ffmpeg/config.js'
@@ -24,9 +26,110 @@ import {
   cleanupTempFiles,
   getSafeOutputPath,
   concatenateAudios,
-  extractFirstFrameAsThumbnail
+  extractFirstFrameAsThumbnail,
+  measureLoudness,
+  detectSilence
 } from './utils/ffmpeg/index.js'
 import type { FfmpegMetadata } from './utils/ffmpeg/types.js'
+import type { KenBurnsOptions } from './utils/ffmpeg/kenBurns.js'
+import { buildChapters, embedChapters, fitChaptersToDuration, type Chapter } from './utils/ffmpeg/chapters.js'
+import { normalizeOutputMetadata, buildMetadataOptions, type OutputMetadata } from './utils/ffmpeg/outputMetadata.js'
+import { embedLyricsSubtitles, burnLyrics } from './utils/ffmpeg/lyricsTrack.js'
+import {
+  DEFAULT_LOUDNESS_TARGET,
+  LOUDNESS_TARGETS,
+  buildGainFilter,
+  computeLoudnessGain,
+  formatLoudnessReport,
+  normalizeLoudnessOptions,
+  type LoudnessOptions
+} from './utils/ffmpeg/loudness.js'
+import {
+  DEFAULT_CROSSFADE_CURVE,
+  DEFAULT_CROSSFADE_SECONDS,
+  MAX_CROSSFADE_SECONDS,
+  MIN_CROSSFADE_SECONDS,
+  isCrossfadeCurve,
+  normalizeCrossfadeOptions,
+  resolveCrossfadeOverlaps,
+  type CrossfadeOptions
+} from './utils/ffmpeg/crossfade.js'
+import { buildTrimInputOptions, getTrimmedDuration, normalizeTrackTrims, type TrackTrim } from './utils/ffmpeg/trackTrim.js'
+import {
+  DEFAULT_SILENCE_MIN_DURATION,
+  DEFAULT_SILENCE_THRESHOLD_DB,
+  MAX_SILENCE_MIN_DURATION,
+  MAX_SILENCE_THRESHOLD_DB,
+  MIN_SILENCE_MIN_DURATION,
+  MIN_SILENCE_THRESHOLD_DB,
+  normalizeSilenceOptions,
+  type SilenceDetection
+} from './utils/ffmpeg/silence.js'
+import {
+  applyTrackVolumes,
+  formatTrackVolume,
+  isVolumeChanged,
+  normalizeTrackVolumes,
+  type TrackVolume
+} from './utils/ffmpeg/trackVolume.js'
+import {
+  LYRICS_EXTENSIONS,
+  MAX_LYRICS_FILE_BYTES,
+  buildLyricsCues,
+  getLyricsCandidatePaths,
+  isLyricsMode,
+  parseLyrics,
+  trimLyrics,
+  type LyricsMode,
+  type ParsedLyrics
+} from './utils/lyrics.js'
+import {
+  DEFAULT_TRACK_TITLE_SOURCE,
+  TRACK_TITLE_SOURCES,
+  extractMediaTags,
+  formatTrackTitle,
+  isTrackTitleSource,
+  type MediaTags,
+  type TrackTitleSource
+} from './utils/trackTitle.js'
+import {
+  DEFAULT_TIMESTAMP_TEMPLATE,
+  normalizeTimestampTemplate,
+  formatTimestampLine
+} from './utils/timestampTemplate.js'
+import {
+  formatTimestampExport,
+  getTimestampExportPath,
+  isTimestampExportFormat,
+  tracksFromChapters,
+  tracksFromTimestampText,
+  type TimestampExportFormat
+} from './utils/timestampExport.js'
+import {
+  DEFAULT_VIDEO_ENCODER_SETTINGS,
+  FFPROBE_CODEC_NAMES,
+  normalizeVideoEncoderSettings,
+  resolveVideoEncoder,
+  getSupportedVideoCodecs,
+  getAvailableVideoEncoders,
+  buildVideoEncoderOptions,
+  buildAudioCodecOptions,
+  buildContainerOptions,
+  type VideoCodec,
+  type VideoEncoderSettings,
+  type ResolvedVideoEncoder
+} from './utils/ffmpeg/videoEncoder.js'
+import {
+  DEFAULT_OUTPUT_SETTINGS,
+  formatDurationForFilename,
+  normalizeOutputSettings,
+  renderOutputFilename,
+  resolveOutputDirectory,
+  templateUsesToken,
+  type OutputJobType,
+  type OutputSettings,
+  type OutputTemplateValues
+} from './utils/outputTemplate.js'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
@@ -135,26 +238,199 @@ function removeExtension(fileName: string): string {
   return fileName.replace(/\.[^/.]+$/, '')
 }
 
-function generateTimestamps(filePaths: string[], durations: number[]): string {
-  if (filePaths.length < 2) {
-    return ''
+// Track title shown in timestamps and "Now playing" overlays
+function getTrackTitle(filePath: string): string {
+  return removeExtension(path.basename(filePath))
+}
+
+function getTrackTitleSource(): TrackTitleSource {
+  const saved = store.get('settings.trackTitleSource')
+  return isTrackTitleSource(saved) ? saved : DEFAULT_TRACK_TITLE_SOURCE
+}
+
+function getTimestampTemplate(): string {
+  try {
+    return normalizeTimestampTemplate(store.get('settings.timestampTemplate'))
+  } catch (error) {
+    log.warn('[Timestamps] Invalid saved timestamp template, using default:', error)
+    return DEFAULT_TIMESTAMP_TEMPLATE
+  }
+}
+
+interface TrackInfo {
+  title: string
+  artist?: string  // Only read when the timestamp template uses {artist}
+}
+
+// Track titles from the user's title source (file name as fallback)
+// Tags are read with ffprobe when the title source or the timestamp template needs them
+async function getTrackInfos(filePaths: string[]): Promise<TrackInfo[]> {
+  const source = getTrackTitleSource()
+  if (source === 'filename' && !getTimestampTemplate().includes('{artist}')) {
+    return filePaths.map((filePath) => ({ title: getTrackTitle(filePath) }))
+  }
+
+  const infos: TrackInfo[] = []
+  for (const filePath of filePaths) {
+    try {
+      const metadata = await new Promise<ffmpeg.FfprobeData>((resolveProbe, rejectProbe) => {
+        ffmpeg.ffprobe(filePath, (err, data) => {
+          if (err) {
+            rejectProbe(err)
+            return
+          }
+          resolveProbe(data)
+        })
+      })
+      const tags = extractMediaTags(metadata)
+      infos.push({ title: formatTrackTitle(filePath, tags, source), artist: tags.artist })
+    } catch (err) {
+      log.warn(`[TrackTitle] Failed to read tags, using file name: ${path.basename(filePath)}`, err)
+      infos.push({ title: getTrackTitle(filePath) })
+    }
+  }
+  return infos
+}
+
+async function getTrackTitles(filePaths: string[]): Promise<string[]> {
+  return (await getTrackInfos(filePaths)).map((info) => info.title)
+}
+
+// Chapters are the single source for both the timestamp text and the embedded chapter markers
+// The text uses the user's line template ({time} {index} {title} {artist})
+function generateTimestamps(chapters: Chapter[], artists: Array<string | undefined> = []): string {
+  const template = getTimestampTemplate()
+  return chapters
+    .map((chapter, i) => formatTimestampLine(template, {
+      time: formatTimestamp(chapter.start),
+      index: i + 1,
+      title: chapter.title,
+      artist: artists[i]
+    }))
+    .join('\n')
+}
+
+// First loudness pass: measure every input and log the gain it gets (0 dB when it can't be measured)
+async function measureLoudnessGains(inputPaths: string[], options: LoudnessOptions, trims?: TrackTrim[]): Promise<number[]> {
+  const gains: number[] = []
+  for (const [i, inputPath] of inputPaths.entries()) {
+    const measurement = await measureLoudness(inputPath, options, trims?.[i])
+    if (!measurement) {
+      log.warn(`[Loudness] ${path.basename(inputPath)}: not measured, left unchanged`)
+      gains.push(0)
+      continue
+    }
+    const gain = computeLoudnessGain(measurement, options)
+    log.info(`[Loudness] ${formatLoudnessReport(path.basename(inputPath), measurement, gain, options)}`)
+    gains.push(gain.gain)
   }
+  return gains
+}
+
+// One log line per input whose volume was changed by hand
+function logTrackVolumes(inputPaths: string[], volumes: TrackVolume[]): void {
+  for (const [i, inputPath] of inputPaths.entries()) {
+    if (isVolumeChanged(volumes[i])) {
+      log.info(`[Volume] ${path.basename(inputPath)}: ${formatTrackVolume(volumes[i])}`)
+    }
+  }
+}
 
-  const timestamps: string[] = []
-  let cumulativeTime = 0
+// Lyrics of an image+music job: one parsed file per audio file (null = none)
+interface OutputLyrics {
+  mode: LyricsMode
+  tracks: Array<ParsedLyrics | null>
+  encoder: ResolvedVideoEncoder
+  size: { width: number; height: number }
+}
 
-  for (let i = 0; i < filePaths.length; i++) {
-    const filePath = filePaths[i]
-    const duration = durations[i]
-    const fileName = path.basename(filePath)
-    const fileNameWithoutExt = removeExtension(fileName)
-    const timeString = formatTimestamp(cumulativeTime)
+// Read the lyrics of each track: the attached file, otherwise <audio>.lrc / <audio>.txt
+// Unreadable or empty auto-detected files are skipped; an attached file must be valid
+function loadTrackLyrics(audioPaths: string[], attachedPaths: unknown): Array<ParsedLyrics | null> {
+  if (attachedPaths !== undefined && (!Array.isArray(attachedPaths) || attachedPaths.length !== audioPaths.length)) {
+    const appError = new AppError(ErrorCode.INVALID_PARAMETERS, `Expected ${audioPaths.length} lyrics paths`)
+    throw new Error(serializeErrorForIPC(appError, appError.code))
+  }
 
-    timestamps.push(`${timeString} - ${fileNameWithoutExt}`)
-    cumulativeTime += duration
+  const readLyrics = (lyricsPath: string): ParsedLyrics | null => {
+    if (fs.statSync(lyricsPath).size > MAX_LYRICS_FILE_BYTES) {
+      throw new Error(`Lyrics file is too large: ${path.basename(lyricsPath)}`)
+    }
+    return parseLyrics(fs.readFileSync(lyricsPath, 'utf-8'))
   }
 
-  return timestamps.join('\n')
+  return audioPaths.map((audioPath, i) => {
+    const attachedPath = (attachedPaths as unknown[] | undefined)?.[i]
+    if (attachedPath) {
+      try {
+        const lyricsPath = validateFilePath(String(attachedPath), new Set(LYRICS_EXTENSIONS))
+        return readLyrics(lyricsPath)
+      } catch (error) {
+        const appError = new AppError(
+          ErrorCode.INVALID_INPUT,
+          `Invalid lyrics file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          error instanceof Error ? error : undefined
+        )
+        throw new Error(serializeErrorForIPC(appError, appError.code))
+      }
+    }
+    for (const candidatePath of getLyricsCandidatePaths(path.resolve(audioPath))) {
+      if (!fs.existsSync(candidatePath)) continue
+      try {
+        const lyrics = readLyrics(candidatePath)
+        if (lyrics) {
+          log.info(`[Lyrics] Found ${path.basename(candidatePath)} for ${path.basename(audioPath)}`)
+          return lyrics
+        }
+      } catch (error) {
+        log.warn(`[Lyrics] Skipping ${candidatePath}:`, error)
+      }
+    }
+    return null
+  })
+}
+
+// Embed chapter markers and output tags into the finished output (stream copy, non-fatal like the thumbnail)
+// The last chapter is fitted to the real output length (-shortest can end it a few frames early)
+// Lyrics are timed on the same track spans (the whole output for a single track)
+async function finalizeOutput(
+  outputPath: string,
+  { chapters = [], metadata = {}, lyrics }: { chapters?: Chapter[]; metadata?: OutputMetadata; lyrics?: OutputLyrics }
+): Promise<void> {
+  const metadataOptions = buildMetadataOptions(metadata)
+  const hasLyrics = !!lyrics && lyrics.tracks.some(Boolean)
+  if (chapters.length === 0 && metadataOptions.length === 0 && !hasLyrics) return
+  const duration = chapters.length > 0 || hasLyrics ? await getTotalMediaDuration([outputPath]).catch(() => 0) : 0
+  if (chapters.length > 0) {
+    chapters = fitChaptersToDuration(chapters, duration)
+  }
+
+  if (lyrics && hasLyrics) {
+    try {
+      const spans = chapters.length > 0 ? chapters : [{ start: 0, end: duration }]
+      const cues = buildLyricsCues(lyrics.tracks.map((trackLyrics, i) => ({
+        lyrics: trackLyrics,
+        start: spans[i]?.start ?? 0,
+        end: spans[i]?.end ?? 0
+      })))
+      if (lyrics.mode === 'burn') {
+        await burnLyrics(outputPath, cues, lyrics.encoder, lyrics.size)
+      } else {
+        await embedLyricsSubtitles(outputPath, cues, lyrics.encoder.container)
+      }
+      log.info(`[Output] ✅ Added ${cues.length} lyrics lines (${lyrics.mode})`)
+    } catch (err) {
+      log.error('[Output] Failed to add lyrics (non-fatal):', err)
+    }
+  }
+
+  if (chapters.length === 0 && metadataOptions.length === 0) return
+  try {
+    await embedChapters(outputPath, chapters, metadataOptions)
+    log.info(`[Output] ✅ Embedded ${chapters.length} chapters and ${metadataOptions.length / 2} tags`)
+  } catch (err) {
+    log.error('[Output] Failed to embed chapters/tags (non-fatal):', err)
+  }
 }
 
 function cleanupAudioTempFiles(
@@ -252,6 +528,180 @@ function getAudioQualityConfig(): AudioQualityConfig {
   return AUDIO_QUALITY_PRESETS[quality] || AUDIO_QUALITY_PRESETS.high
 }
 
+// Output Resolution Presets
+type OutputResolutionPreset = '720p' | '1080p' | '1440p' | '4k' | 'vertical' | 'square'
+
+interface OutputSize {
+  width: number
+  height: number
+}
+
+const OUTPUT_RESOLUTION_PRESETS: Record<OutputResolutionPreset, OutputSize> = {
+  '720p': { width: 1280, height: 720 },
+  '1080p': { width: 1920, height: 1080 },
+  '1440p': { width: 2560, height: 1440 },
+  '4k': { width: 3840, height: 2160 },
+  vertical: { width: 1080, height: 1920 }, // 9:16 (Shorts/Reels)
+  square: { width: 1080, height: 1080 }    // 1:1
+}
+
+function isOutputResolutionPreset(value: unknown): value is OutputResolutionPreset {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(OUTPUT_RESOLUTION_PRESETS, value)
+}
+
+// Get output size for a job (per-job preset overrides the saved default)
+function getOutputSize(preset?: string): OutputSize {
+  if (preset !== undefined) {
+    if (!isOutputResolutionPreset(preset)) {
+      throw new Error(`Invalid output resolution: ${preset}. Valid options: ${Object.keys(OUTPUT_RESOLUTION_PRESETS).join(', ')}`)
+    }
+    return OUTPUT_RESOLUTION_PRESETS[preset]
+  }
+  const saved = store.get('settings.outputResolution')
+  if (isOutputResolutionPreset(saved)) {
+    return OUTPUT_RESOLUTION_PRESETS[saved]
+  }
+  // Legacy explicit size
+  return {
+    width: store.get('settings.video.width', DEFAULT_VIDEO_WIDTH) as number,
+    height: store.get('settings.video.height', DEFAULT_VIDEO_HEIGHT) as number
+  }
+}
+
+// Fit a video into the output size without distortion (black letterbox/pillarbox)
+function buildFitFilters(size: OutputSize): string[] {
+  return [
+    `scale=${size.width}:${size.height}:force_original_aspect_ratio=decrease`,
+    `pad=${size.width}:${size.height}:(ow-iw)/2:(oh-ih)/2:black`,
+    'setsar=1'
+  ]
+}
+
+// Saved video encoder settings (invalid values fall back to the defaults)
+function getSavedVideoEncoderSettings(): VideoEncoderSettings {
+  try {
+    return normalizeVideoEncoderSettings(store.get('settings.videoEncoder') as Partial<VideoEncoderSettings> | undefined)
+  } catch (error) {
+    log.warn('[VideoEncoder] Invalid saved encoder settings, using defaults:', error)
+    return DEFAULT_VIDEO_ENCODER_SETTINGS
+  }
+}
+
+// Video encoder for re-encodes, checked against the bundled ffmpeg (falls back to H.264/MP4)
+async function getVideoEncoder(): Promise<ResolvedVideoEncoder> {
+  const settings = getSavedVideoEncoderSettings()
+  // libx264 is always bundled - skip the capability probe for the default codec
+  if (settings.codec === 'h264') {
+    return { ...settings, encoderName: 'libx264' }
+  }
+  try {
+    const resolved = resolveVideoEncoder(settings, await getAvailableVideoEncoders())
+    if (resolved) {
+      return resolved
+    }
+    log.warn(`[VideoEncoder] No ${settings.codec} encoder in the bundled ffmpeg, falling back to H.264`)
+  } catch (error) {
+    log.warn('[VideoEncoder] Encoder capability check failed, falling back to H.264:', error)
+  }
+  return { ...DEFAULT_VIDEO_ENCODER_SETTINGS, encoderName: 'libx264' }
+}
+
+// Saved output folder and filename templates (invalid values fall back to the defaults)
+function getOutputSettings(): OutputSettings {
+  try {
+    return normalizeOutputSettings(store.get('settings.output') as Partial<OutputSettings> | undefined)
+  } catch (error) {
+    log.warn('[Output] Invalid saved output settings, using defaults:', error)
+    return DEFAULT_OUTPUT_SETTINGS
+  }
+}
+
+/**
+ * Output path for a finished job: filename template + output folder, made unique by getSafeOutputPath
+ *
+ * @param getDuration - Output length in seconds, only called if the template uses {duration}
+ */
+async function resolveJobOutputPath(options: {
+  type: OutputJobType
+  sourcePath: string
+  extension: string
+  outputDir?: string
+  values?: Pick<OutputTemplateValues, 'mode' | 'length' | 'iterations' | 'trackCount'>
+  getDuration?: () => Promise<number>
+}): Promise<string> {
+  const { type, sourcePath, extension, outputDir, values, getDuration } = options
+  const settings = getOutputSettings()
+  const template = settings.templates[type]
+  const date = new Date()
+
+  if (outputDir !== undefined && (typeof outputDir !== 'string' || !path.isAbsolute(outputDir))) {
+    throw new Error('Output folder must be an absolute path')
+  }
+
+  let duration: string | undefined
+  if (getDuration && templateUsesToken(template, 'duration')) {
+    duration = formatDurationForFilename(await getDuration())
+  }
+
+  const filename = renderOutputFilename(template, {
+    name: path.basename(sourcePath, path.extname(sourcePath)),
+    type,
+    duration,
+    date,
+    ...values
+  })
+  const directory = resolveOutputDirectory(settings, sourcePath, date, outputDir)
+  fs.mkdirSync(directory, { recursive: true })
+
+  return getSafeOutputPath(path.join(directory, `${filename}${extension}`))
+}
+
+/**
+ * Sum of media durations (for the {duration} filename token)
+ *
+ * @param knownDurations - Durations already probed or sent by the renderer (same order as filePaths);
+ *                         only files without a valid known duration are probed
+ */
+async function getTotalMediaDuration(filePaths: string[], knownDurations: Array<number | undefined> = []): Promise<number> {
+  let total = 0
+  for (const [i, filePath] of filePaths.entries()) {
+    const known = knownDurations[i]
+    if (typeof known === 'number' && Number.isFinite(known) && known > 0) {
+      total += known
+      continue
+    }
+    total += await new Promise<number>((resolveProbe, rejectProbe) => {
+      ffmpeg.ffprobe(filePath, (err, metadata) => {
+        if (err) {
+          rejectProbe(err)
+          return
+        }
+        resolveProbe(metadata.format.duration || 0)
+      })
+    })
+  }
+  return total
+}
+
+/**
+ * Planned length of a merged playlist (for the {duration} filename token while the audio doesn't exist yet)
+ * Trimmed track lengths, plus the padding between tracks or minus the crossfade overlaps
+ */
+async function getPlannedPlaylistDuration(
+  audioPaths: string[],
+  options: { trackTrims?: TrackTrim[]; paddingDuration: number; crossfade?: CrossfadeOptions }
+): Promise<number> {
+  const trackLengths: number[] = []
+  for (const [i, audioPath] of audioPaths.entries()) {
+    trackLengths.push(getTrimmedDuration(await getTotalMediaDuration([audioPath]), options.trackTrims?.[i]))
+  }
+  const total = trackLengths.reduce((sum, length) => sum + length, 0)
+  if (options.crossfade) {
+    return total - resolveCrossfadeOverlaps(trackLengths, options.crossfade.duration).reduce((sum, overlap) => sum + overlap, 0)
+  }
+  return total + Math.max(0, options.paddingDuration) * Math.max(0, audioPaths.length - 1)
+}
+
 function setupAutoUpdater() {
   if (isDev) {
     log.info('Skipping auto updater setup in development mode')
@@ -457,7 +907,7 @@ function createWindow() {
   })
 }
 
-ipcMain.handle('dialog:open-file', async (_event, type?: 'video' | 'image' | 'audio', multiSelect = false) => {
+ipcMain.handle('dialog:open-file', async (_event, type?: 'video' | 'image' | 'audio' | 'lyrics', multiSelect = false) => {
 let filters: Electron.FileFilter[] = []
 
 const imageExtensions = store.get('settings.fileExtensions.image', DEFAULT_IMAGE_EXTENSIONS) as string[]
@@ -474,6 +924,9 @@ case 'audio':
 case 'video':
     filters = [{ name: 'Videos', extensions: videoExtensions.map(ext => ext.replace(/^\./, '')) }]
     break
+case 'lyrics':
+    filters = [{ name: 'Lyrics', extensions: LYRICS_EXTENSIONS.map(ext => ext.replace(/^\./, '')) }]
+    break
 
 default:
     filters = [{ name: 'All Media', extensions: [...videoExtensions, ...audioExtensions, ...imageExtensions].map(ext => ext.replace(/^\./, '')).slice(0, 10) }]
@@ -494,6 +947,16 @@ if (canceled) return null
 return multiSelect ? filePaths : filePaths[0]
 })
 
+ipcMain.handle('dialog:open-directory', async () => {
+const { canceled, filePaths } = await dialog.showOpenDialog({
+properties: ['openDirectory', 'createDirectory']
+})
+
+if (canceled) return null
+
+return filePaths[0]
+})
+
 ipcMain.handle('notification:show', async (_event, { title, body }) => {
 if (Notification.isSupported()) {
     new Notification({
@@ -789,6 +1252,83 @@ ipcMain.handle('settings:set-audio-quality', async (_event, { quality }: { quali
   return { success: true }
 })
 
+// Output Resolution Settings
+ipcMain.handle('settings:get-output-resolution', async () => {
+  const saved = store.get('settings.outputResolution')
+  return {
+    resolution: isOutputResolutionPreset(saved) ? saved : '1080p'
+  }
+})
+
+ipcMain.handle('settings:set-output-resolution', async (_event, { resolution }: { resolution: string }) => {
+  if (!isOutputResolutionPreset(resolution)) {
+    throw new Error(`Invalid output resolution: ${resolution}. Valid options: ${Object.keys(OUTPUT_RESOLUTION_PRESETS).join(', ')}`)
+  }
+  
+  store.set('settings.outputResolution', resolution)
+  return { success: true }
+})
+
+// Output Folder / Filename Template Settings
+ipcMain.handle('settings:get-output-settings', async () => {
+  return { output: getOutputSettings() }
+})
+
+ipcMain.handle('settings:set-output-settings', async (_event, { output }: { output: Partial<OutputSettings> }) => {
+  const settings = normalizeOutputSettings(output)
+  
+  store.set('settings.output', settings)
+  return { success: true }
+})
+
+// Track Title Source Settings
+ipcMain.handle('settings:get-track-title-source', async () => {
+  return { source: getTrackTitleSource() }
+})
+
+ipcMain.handle('settings:set-track-title-source', async (_event, { source }: { source: string }) => {
+  if (!isTrackTitleSource(source)) {
+    throw new Error(`Invalid track title source: ${source}. Valid options: ${TRACK_TITLE_SOURCES.join(', ')}`)
+  }
+  
+  store.set('settings.trackTitleSource', source)
+  return { success: true }
+})
+
+// Timestamp Template Settings
+ipcMain.handle('settings:get-timestamp-template', async () => {
+  return { template: getTimestampTemplate() }
+})
+
+ipcMain.handle('settings:set-timestamp-template', async (_event, { template }: { template: string }) => {
+  store.set('settings.timestampTemplate', normalizeTimestampTemplate(template))
+  return { success: true }
+})
+
+// Video Encoder Settings
+ipcMain.handle('settings:get-video-encoder', async () => {
+  let availableCodecs: VideoCodec[] = ['h264']
+  try {
+    availableCodecs = getSupportedVideoCodecs(await getAvailableVideoEncoders())
+  } catch (error) {
+    log.warn('[VideoEncoder] Encoder capability check failed:', error)
+  }
+  return {
+    encoder: getSavedVideoEncoderSettings(),
+    availableCodecs
+  }
+})
+
+ipcMain.handle('settings:set-video-encoder', async (_event, { encoder }: { encoder: Partial<VideoEncoderSettings> }) => {
+  const settings = normalizeVideoEncoderSettings(encoder)
+  if (settings.codec !== 'h264' && !getSupportedVideoCodecs(await getAvailableVideoEncoders()).includes(settings.codec)) {
+    throw new Error(`Video codec not supported by the bundled ffmpeg: ${settings.codec}`)
+  }
+  
+  store.set('settings.videoEncoder', settings)
+  return { success: true }
+})
+
 // Fast Mode Settings
 ipcMain.handle('settings:get-fast-mode', async () => {
   return {
@@ -812,7 +1352,33 @@ const DEFAULT_UI_PREFERENCES = {
     enableFadeOut: false,
     fadeOutDuration: 2,
     enablePadding: false,
-    paddingDuration: 3
+    paddingDuration: 3,
+    enableVisualizer: false,
+    visualizerStyle: 'waveform',
+    visualizerPosition: 'bottom',
+    visualizerSize: 25,
+    visualizerColor: '#ffffff',
+    visualizerOpacity: 0.8,
+    enableNowPlaying: false,
+    nowPlayingArtist: '',
+    nowPlayingDuration: 5,
+    enableMotion: false,
+    motionMode: 'zoom',
+    motionCycleDuration: 20,
+    resolution: 'default',
+    fillMode: 'black',
+    focalX: 50,
+    focalY: 50,
+    enableLyrics: false,
+    lyricsMode: 'soft',
+    enableLoudness: false,
+    loudnessTarget: DEFAULT_LOUDNESS_TARGET,
+    enableCrossfade: false,
+    crossfadeDuration: DEFAULT_CROSSFADE_SECONDS,
+    crossfadeCurve: DEFAULT_CROSSFADE_CURVE,
+    enableSilenceTrim: false,
+    silenceThreshold: DEFAULT_SILENCE_THRESHOLD_DB,
+    silenceMinDuration: DEFAULT_SILENCE_MIN_DURATION
   },
   concat: {
     advancedOpen: false,
@@ -820,10 +1386,23 @@ const DEFAULT_UI_PREFERENCES = {
     fadeOutDuration: 2,
     enablePadding: false,
     paddingDuration: 3,
-    enableFadeIn: false
+    enableFadeIn: false,
+    resolution: 'default',
+    enableLoudness: false,
+    loudnessTarget: DEFAULT_LOUDNESS_TARGET,
+    enableSilenceTrim: false,
+    silenceThreshold: DEFAULT_SILENCE_THRESHOLD_DB,
+    silenceMinDuration: DEFAULT_SILENCE_MIN_DURATION
   },
   loop: {
-    advancedOpen: false
+    advancedOpen: false,
+    enableSeamCrossfade: false,
+    seamCrossfadeDuration: 1,
+    enableFadeIn: false,
+    enableFadeOut: false,
+    fadeOutDuration: 2,
+    enablePingPong: false,
+    pingPongAudio: 'keep'
   }
 }
 
@@ -845,7 +1424,33 @@ ipcMain.handle('settings:set-ui-preferences', async (_event, prefs: Record<strin
       enableFadeOut: !!prefs?.imageMusic?.enableFadeOut,
       fadeOutDuration: validateNumericInput(prefs?.imageMusic?.fadeOutDuration ?? 2, 0.5, 10, 'imageMusic.fadeOutDuration'),
       enablePadding: !!prefs?.imageMusic?.enablePadding,
-      paddingDuration: validateNumericInput(prefs?.imageMusic?.paddingDuration ?? 3, 0, 60, 'imageMusic.paddingDuration')
+      paddingDuration: validateNumericInput(prefs?.imageMusic?.paddingDuration ?? 3, 0, 60, 'imageMusic.paddingDuration'),
+      enableVisualizer: !!prefs?.imageMusic?.enableVisualizer,
+      visualizerStyle: ['waveform', 'spectrum', 'vu'].includes(prefs?.imageMusic?.visualizerStyle) ? prefs?.imageMusic?.visualizerStyle : 'waveform',
+      visualizerPosition: ['top', 'center', 'bottom'].includes(prefs?.imageMusic?.visualizerPosition) ? prefs?.imageMusic?.visualizerPosition : 'bottom',
+      visualizerSize: validateNumericInput(prefs?.imageMusic?.visualizerSize ?? 25, 10, 100, 'imageMusic.visualizerSize'),
+      visualizerColor: /^#[0-9a-fA-F]{6}$/.test(String(prefs?.imageMusic?.visualizerColor)) ? prefs?.imageMusic?.visualizerColor : '#ffffff',
+      visualizerOpacity: validateNumericInput(prefs?.imageMusic?.visualizerOpacity ?? 0.8, 0.1, 1, 'imageMusic.visualizerOpacity'),
+      enableNowPlaying: !!prefs?.imageMusic?.enableNowPlaying,
+      nowPlayingArtist: validateStringLength(String(prefs?.imageMusic?.nowPlayingArtist ?? ''), 200, 'imageMusic.nowPlayingArtist'),
+      nowPlayingDuration: validateNumericInput(prefs?.imageMusic?.nowPlayingDuration ?? 5, 2, 15, 'imageMusic.nowPlayingDuration'),
+      enableMotion: !!prefs?.imageMusic?.enableMotion,
+      motionMode: ['zoom', 'pan'].includes(prefs?.imageMusic?.motionMode) ? prefs?.imageMusic?.motionMode : 'zoom',
+      motionCycleDuration: validateNumericInput(prefs?.imageMusic?.motionCycleDuration ?? 20, 5, 120, 'imageMusic.motionCycleDuration'),
+      resolution: isOutputResolutionPreset(prefs?.imageMusic?.resolution) ? prefs?.imageMusic?.resolution : 'default',
+      fillMode: ['black', 'color', 'blur', 'crop'].includes(prefs?.imageMusic?.fillMode) ? prefs?.imageMusic?.fillMode : 'black',
+      focalX: validateNumericInput(prefs?.imageMusic?.focalX ?? 50, 0, 100, 'imageMusic.focalX'),
+      focalY: validateNumericInput(prefs?.imageMusic?.focalY ?? 50, 0, 100, 'imageMusic.focalY'),
+      enableLyrics: !!prefs?.imageMusic?.enableLyrics,
+      lyricsMode: isLyricsMode(prefs?.imageMusic?.lyricsMode) ? prefs?.imageMusic?.lyricsMode : 'soft',
+      enableLoudness: !!prefs?.imageMusic?.enableLoudness,
+      loudnessTarget: LOUDNESS_TARGETS.includes(prefs?.imageMusic?.loudnessTarget) ? prefs?.imageMusic?.loudnessTarget : DEFAULT_LOUDNESS_TARGET,
+      enableCrossfade: !!prefs?.imageMusic?.enableCrossfade,
+      crossfadeDuration: validateNumericInput(prefs?.imageMusic?.crossfadeDuration ?? DEFAULT_CROSSFADE_SECONDS, MIN_CROSSFADE_SECONDS, MAX_CROSSFADE_SECONDS, 'imageMusic.crossfadeDuration'),
+      crossfadeCurve: isCrossfadeCurve(prefs?.imageMusic?.crossfadeCurve) ? prefs?.imageMusic?.crossfadeCurve : DEFAULT_CROSSFADE_CURVE,
+      enableSilenceTrim: !!prefs?.imageMusic?.enableSilenceTrim,
+      silenceThreshold: validateNumericInput(prefs?.imageMusic?.silenceThreshold ?? DEFAULT_SILENCE_THRESHOLD_DB, MIN_SILENCE_THRESHOLD_DB, MAX_SILENCE_THRESHOLD_DB, 'imageMusic.silenceThreshold'),
+      silenceMinDuration: validateNumericInput(prefs?.imageMusic?.silenceMinDuration ?? DEFAULT_SILENCE_MIN_DURATION, MIN_SILENCE_MIN_DURATION, MAX_SILENCE_MIN_DURATION, 'imageMusic.silenceMinDuration')
     },
     concat: {
       advancedOpen: !!prefs?.concat?.advancedOpen,
@@ -853,10 +1458,23 @@ ipcMain.handle('settings:set-ui-preferences', async (_event, prefs: Record<strin
       fadeOutDuration: validateNumericInput(prefs?.concat?.fadeOutDuration ?? 2, 0.5, 10, 'concat.fadeOutDuration'),
       enablePadding: !!prefs?.concat?.enablePadding,
       paddingDuration: validateNumericInput(prefs?.concat?.paddingDuration ?? 3, 0, 60, 'concat.paddingDuration'),
-      enableFadeIn: !!prefs?.concat?.enableFadeIn
+      enableFadeIn: !!prefs?.concat?.enableFadeIn,
+      resolution: isOutputResolutionPreset(prefs?.concat?.resolution) ? prefs?.concat?.resolution : 'default',
+      enableLoudness: !!prefs?.concat?.enableLoudness,
+      loudnessTarget: LOUDNESS_TARGETS.includes(prefs?.concat?.loudnessTarget) ? prefs?.concat?.loudnessTarget : DEFAULT_LOUDNESS_TARGET,
+      enableSilenceTrim: !!prefs?.concat?.enableSilenceTrim,
+      silenceThreshold: validateNumericInput(prefs?.concat?.silenceThreshold ?? DEFAULT_SILENCE_THRESHOLD_DB, MIN_SILENCE_THRESHOLD_DB, MAX_SILENCE_THRESHOLD_DB, 'concat.silenceThreshold'),
+      silenceMinDuration: validateNumericInput(prefs?.concat?.silenceMinDuration ?? DEFAULT_SILENCE_MIN_DURATION, MIN_SILENCE_MIN_DURATION, MAX_SILENCE_MIN_DURATION, 'concat.silenceMinDuration')
     },
     loop: {
-      advancedOpen: !!prefs?.loop?.advancedOpen
+      advancedOpen: !!prefs?.loop?.advancedOpen,
+      enableSeamCrossfade: !!prefs?.loop?.enableSeamCrossfade,
+      seamCrossfadeDuration: validateNumericInput(prefs?.loop?.seamCrossfadeDuration ?? 1, 0.1, 5, 'loop.seamCrossfadeDuration'),
+      enableFadeIn: !!prefs?.loop?.enableFadeIn,
+      enableFadeOut: !!prefs?.loop?.enableFadeOut,
+      fadeOutDuration: validateNumericInput(prefs?.loop?.fadeOutDuration ?? 2, 0.5, 10, 'loop.fadeOutDuration'),
+      enablePingPong: !!prefs?.loop?.enablePingPong,
+      pingPongAudio: ['keep', 'reverse', 'drop'].includes(prefs?.loop?.pingPongAudio) ? prefs?.loop?.pingPongAudio : 'keep'
     }
   }
 
@@ -955,6 +1573,111 @@ try {
 }
 })
 
+// Input tags (pre-fill the output metadata editor)
+ipcMain.handle('media:get-tags', async (_event, filePath: string) => {
+try {
+    const videoExtensions = store.get('settings.fileExtensions.video', DEFAULT_VIDEO_EXTENSIONS) as string[]
+    const audioExtensions = store.get('settings.fileExtensions.audio', DEFAULT_AUDIO_EXTENSIONS) as string[]
+    const [validatedPath] = validateFilePaths([filePath], new Set([...videoExtensions, ...audioExtensions]))
+    
+    return new Promise<MediaTags>((resolve, reject) => {
+      ffmpeg.ffprobe(validatedPath, (err, metadata) => {
+        if (err) {
+          log.error('FFprobe Error (Tags):', err)
+          reject(new Error(sanitizeErrorMessage(err, 'Failed to read media tags')))
+          return
+        }
+        resolve(extractMediaTags(metadata))
+      })
+    })
+} catch (error) {
+    log.error('Media tags validation error:', error)
+    const sanitizedError = sanitizeErrorMessage(error, 'Invalid media file path')
+    throw new Error(sanitizedError)
+}
+})
+
+// Head/tail silence of each input (audio files or concat videos), shown per track before the job starts
+// One entry per path, null when the file couldn't be decoded
+ipcMain.handle('media:detect-silence', async (_event, { paths, threshold, minDuration }) => {
+try {
+    const videoExtensions = store.get('settings.fileExtensions.video', DEFAULT_VIDEO_EXTENSIONS) as string[]
+    const audioExtensions = store.get('settings.fileExtensions.audio', DEFAULT_AUDIO_EXTENSIONS) as string[]
+    const validatedPaths = validateFilePaths(paths, new Set([...videoExtensions, ...audioExtensions]))
+    const options = normalizeSilenceOptions({ threshold, minDuration })
+
+    const detections: Array<SilenceDetection | null> = []
+    for (const inputPath of validatedPaths) {
+      const detection = await detectSilence(inputPath, options)
+      if (detection) {
+        log.info(`[Silence] ${path.basename(inputPath)}: head ${detection.head.toFixed(2)}s, tail ${detection.tail.toFixed(2)}s (${options.threshold} dB, ${options.minDuration}s)`)
+      }
+      detections.push(detection)
+    }
+    return detections
+} catch (error) {
+    log.error('Silence detection error:', error)
+    const sanitizedError = sanitizeErrorMessage(error, 'Failed to detect silence')
+    throw new Error(sanitizedError)
+}
+})
+
+// Save the track list of a finished output as txt/cue/vtt/srt/json next to it
+ipcMain.handle('timestamps:export', async (_event, data: {
+  outputFile: string
+  timestampText: string
+  sourceFiles?: string[]
+  format: TimestampExportFormat
+}) => {
+try {
+    if (!isTimestampExportFormat(data?.format)) {
+      throw new Error(`Invalid export format: ${String(data?.format)}`)
+    }
+    if (typeof data.timestampText !== 'string' || data.timestampText.length > 100_000) {
+      throw new Error('Invalid timestamp text')
+    }
+    const sourceFiles = Array.isArray(data.sourceFiles)
+      ? data.sourceFiles.filter((file): file is string => typeof file === 'string')
+      : []
+    const videoExtensions = store.get('settings.fileExtensions.video', DEFAULT_VIDEO_EXTENSIONS) as string[]
+    const outputPath = validateVideoFilePath(data.outputFile, new Set(videoExtensions))
+
+    const probe = await new Promise<ffmpeg.FfprobeData>((resolve, reject) => {
+      ffmpeg.ffprobe(outputPath, (err, metadata) => err ? reject(err) : resolve(metadata))
+    })
+    // Embedded chapters have exact times and raw titles; older outputs only have the text
+    let tracks = tracksFromChapters(probe.chapters, sourceFiles)
+    if (tracks.length === 0) {
+      tracks = tracksFromTimestampText(data.timestampText, probe.format.duration || 0, sourceFiles)
+    }
+    if (tracks.length === 0) {
+      throw new Error('No timestamps to export')
+    }
+
+    const exportPath = getTimestampExportPath(outputPath, data.format)
+    fs.writeFileSync(exportPath, formatTimestampExport(data.format, tracks, outputPath, data.timestampText), 'utf-8')
+    log.info(`Timestamps exported (${data.format}): ${exportPath}`)
+    return { success: true, path: exportPath }
+} catch (error) {
+    log.error('Timestamp export error:', error)
+    const sanitizedError = sanitizeErrorMessage(error, 'Failed to export timestamps')
+    throw new Error(sanitizedError)
+}
+})
+
+// Track titles for timestamps (uses the title source setting)
+ipcMain.handle('video:get-track-titles', async (_event, videoPaths: string[]) => {
+try {
+    const videoExtensions = store.get('settings.fileExtensions.video', DEFAULT_VIDEO_EXTENSIONS) as string[]
+    const validatedPaths = validateFilePaths(videoPaths, new Set(videoExtensions))
+    return await getTrackTitles(validatedPaths)
+} catch (error) {
+    log.error('Track title error:', error)
+    const sanitizedError = sanitizeErrorMessage(error, 'Failed to read track titles')
+    throw new Error(sanitizedError)
+}
+})
+
 // Get video duration (in seconds)
 // SECURITY: Validate file path to prevent Path Traversal attacks
 ipcMain.handle('video:get-duration', async (_event, videoPath: string) => {
@@ -983,7 +1706,21 @@ try {
 }
 })
 
-ipcMain.handle('video:process', async (_event, { inputPath, iterations }) => {
+ipcMain.handle('video:process', async (_event, {
+  inputPath,
+  iterations,
+  targetDuration,
+  enableSeamCrossfade = false,
+  seamCrossfadeDuration = 1,
+  enableFadeIn = false,
+  enableFadeOut = false,
+  fadeOutDuration = 2,
+  enablePingPong = false,
+  pingPongAudio = 'keep',
+  clipDuration,
+  outputDir,
+  metadata
+}) => {
   if (!win) return;
   
   // Reset progress tracker at start of new job
@@ -991,8 +1728,119 @@ ipcMain.handle('video:process', async (_event, { inputPath, iterations }) => {
   
   try {
     const ext = path.extname(inputPath)
-    const desiredPath = inputPath.replace(ext, `_looped_${iterations}x${ext}`)
-    const outPath = getSafeOutputPath(desiredPath)
+    const outputMetadata = normalizeOutputMetadata(metadata)
+    const useTargetDuration = targetDuration !== undefined && targetDuration !== null
+    // Seam crossfade and fades need re-encoded edge segments (the body is still stream-copied)
+    const useSegments = enableSeamCrossfade || enableFadeIn || enableFadeOut
+
+    // 🎯 OPTIMIZED LOOP MODES: target duration, seam crossfade, fade in/out, ping-pong (see loopOptimizer.ts)
+    if (useTargetDuration || useSegments || enablePingPong) {
+      if (useTargetDuration) {
+        validateNumericInput(targetDuration, 1, 100 * 3600, 'targetDuration')
+      }
+      if (enableSeamCrossfade) {
+        validateNumericInput(seamCrossfadeDuration, 0.1, 5, 'seamCrossfadeDuration')
+      }
+      if (enableFadeIn || enableFadeOut) {
+        validateNumericInput(fadeOutDuration, 0.5, 10, 'fadeOutDuration')
+      }
+      if (enablePingPong && !['keep', 'reverse', 'drop'].includes(pingPongAudio)) {
+        throw new Error(`Invalid pingPongAudio: ${pingPongAudio}`)
+      }
+
+      const { loopVideoToDuration, loopVideoWithSegments, loopVideoPingPong } = await import('./utils/ffmpeg/loopOptimizer.js')
+      const clipInfo = await new Promise<{ duration: number; hasAudio: boolean }>((resolveProbe, rejectProbe) => {
+        ffmpeg.ffprobe(inputPath, (err, metadata) => {
+          if (err) {
+            rejectProbe(err)
+            return
+          }
+          resolveProbe({
+            duration: metadata.format.duration || 0,
+            hasAudio: metadata.streams.some(s => s.codec_type === 'audio')
+          })
+        })
+      })
+
+      const lengthLabel = useTargetDuration ? formatDurationForFilename(targetDuration) : `${iterations}x`
+      // Segmented and ping-pong output is re-encoded, so it takes the configured encoder's container
+      const videoEncoder = await getVideoEncoder()
+      const outPath = await resolveJobOutputPath({
+        type: 'video-loop',
+        sourcePath: inputPath,
+        extension: enablePingPong || useSegments ? `.${videoEncoder.container}` : ext,
+        outputDir,
+        values: {
+          mode: enablePingPong ? 'pingpong' : enableSeamCrossfade ? 'crossfade' : undefined,
+          length: lengthLabel,
+          iterations: useTargetDuration ? undefined : iterations
+        },
+        getDuration: async () => useTargetDuration ? targetDuration : clipInfo.duration * iterations
+      })
+      const workDir = createJobTempDir()
+      const currentCommandRef = {
+        get current() { return currentFfmpegCommand },
+        set current(command) { currentFfmpegCommand = command }
+      }
+
+      log.info(`[FFmpeg] Starting optimized loop (${useTargetDuration ? `${targetDuration}s` : `${iterations}x`}, clip ${clipInfo.duration}s, ping-pong: ${enablePingPong}, crossfade: ${enableSeamCrossfade}, fade in: ${enableFadeIn}, fade out: ${enableFadeOut})...`)
+      try {
+        let result: string
+        if (enablePingPong) {
+          // The reversed half already joins seamlessly, so seam crossfade is not applied
+          result = await loopVideoPingPong(inputPath, outPath, {
+            clipDuration: clipInfo.duration,
+            hasAudio: clipInfo.hasAudio,
+            audioMode: pingPongAudio,
+            iterations,
+            targetDuration: useTargetDuration ? targetDuration : undefined,
+            enableFadeIn,
+            enableFadeOut,
+            fadeDuration: fadeOutDuration,
+            videoEncoder,
+            tempDir: workDir,
+            onProgress: (progress) => sendProgress(progress),
+            currentCommandRef
+          })
+        } else if (useSegments) {
+          result = await loopVideoWithSegments(inputPath, outPath, {
+            clipDuration: clipInfo.duration,
+            hasAudio: clipInfo.hasAudio,
+            iterations,
+            targetDuration: useTargetDuration ? targetDuration : undefined,
+            crossfadeDuration: enableSeamCrossfade ? seamCrossfadeDuration : 0,
+            enableFadeIn,
+            enableFadeOut,
+            fadeDuration: fadeOutDuration,
+            videoEncoder,
+            tempDir: workDir,
+            onProgress: (progress) => sendProgress(progress),
+            currentCommandRef
+          })
+        } else {
+          result = await loopVideoToDuration(inputPath, outPath, {
+            clipDuration: clipInfo.duration,
+            targetDuration,
+            tempDir: workDir,
+            onProgress: (progress) => sendProgress(progress),
+            currentCommandRef
+          })
+        }
+        await finalizeOutput(result, { metadata: outputMetadata })
+        return result
+      } finally {
+        await safeRm(workDir, { recursive: true })
+      }
+    }
+
+    const outPath = await resolveJobOutputPath({
+      type: 'video-loop',
+      sourcePath: inputPath,
+      extension: ext,
+      outputDir,
+      values: { length: `${iterations}x`, iterations },
+      getDuration: async () => (await getTotalMediaDuration([inputPath], [clipDuration])) * iterations
+    })
 
     return new Promise((resolve, reject) => {
       log.info('[FFmpeg] Starting video processing...')
@@ -1004,8 +1852,9 @@ ipcMain.handle('video:process', async (_event, { inputPath, iterations }) => {
           const clampedProgress = Math.max(0, Math.min(Math.round(p.percent || 0), 99))
           sendProgress(clampedProgress)
         })
-        .on('end', () => {
+        .on('end', async () => {
           currentFfmpegCommand = null
+          await finalizeOutput(outPath, { metadata: outputMetadata })
           sendProgress(100)
           resolve(outPath)
         })
@@ -1026,11 +1875,25 @@ ipcMain.handle('video:process', async (_event, { inputPath, iterations }) => {
 
 ipcMain.handle('video:create-from-image', async (_event, { 
   imagePath, 
+  backgroundVideoPath,
   audioPath, 
   enablePadding = false,
   paddingDuration = 3,
   enableFadeOut = true,
-  fadeOutDuration = 2
+  fadeOutDuration = 2,
+  visualizer,
+  nowPlaying,
+  motion,
+  trackImagePaths,
+  resolution,
+  imageFill,
+  lyrics,
+  loudness,
+  crossfade,
+  trackTrims,
+  trackVolumes,
+  outputDir,
+  metadata
 }) => {
   let jobTempDir: string | undefined
   let tempMergedAudio: string | undefined = undefined
@@ -1044,6 +1907,68 @@ ipcMain.handle('video:create-from-image', async (_event, {
 
     // Temp workdir (cross-platform, OS-managed temp location)
     const workDir = (jobTempDir = createJobTempDir())
+
+    // Output size: per-job resolution preset, otherwise the saved default
+    const outputSize = getOutputSize(resolution)
+    log.info(`[CreateFromImage] Output resolution: ${outputSize.width}x${outputSize.height}`)
+    const videoEncoder = await getVideoEncoder()
+    log.info(`[CreateFromImage] Video encoder: ${videoEncoder.encoderName} (${videoEncoder.container}, CRF ${videoEncoder.crf}, preset ${videoEncoder.preset})`)
+    // Output tags (title, artist, ...) written with the chapters after the final mux
+    const outputMetadata = normalizeOutputMetadata(metadata)
+    // 🔊 LOUDNESS: per-track gain to an EBU R128 target (measured below, once the track list is known)
+    const loudnessOptions = normalizeLoudnessOptions(loudness)
+    // 🎤 LYRICS: soft subtitles or burned-in text, timed per track after the final mux
+    let outputLyrics: OutputLyrics | undefined
+    if (lyrics) {
+      if (!isLyricsMode(lyrics.mode)) {
+        const appError = new AppError(ErrorCode.INVALID_PARAMETERS, `Invalid lyrics mode: ${lyrics.mode}`)
+        throw new Error(serializeErrorForIPC(appError, appError.code))
+      }
+      const lyricsAudioPaths: string[] = Array.isArray(audioPath) ? audioPath : [audioPath]
+      outputLyrics = {
+        mode: lyrics.mode,
+        tracks: loadTrackLyrics(lyricsAudioPaths, lyrics.paths),
+        encoder: videoEncoder,
+        size: outputSize
+      }
+      log.info(`[CreateFromImage] Lyrics (${lyrics.mode}) for ${outputLyrics.tracks.filter(Boolean).length}/${lyricsAudioPaths.length} tracks`)
+    }
+
+    // 🎵 VISUALIZER: validate options up front (renderer is untrusted)
+    let visualizerFilterGraph: string[] | undefined
+    let visualizerVideoOptions: string[] = []
+    if (visualizer) {
+      const { normalizeVisualizerOptions, buildVisualizerFilterGraph, buildVisualizerVideoOptions } = await import('./utils/ffmpeg/visualizerOverlay.js')
+      const visualizerOptions = normalizeVisualizerOptions(visualizer)
+      const { width: videoWidth, height: videoHeight } = outputSize
+      visualizerFilterGraph = buildVisualizerFilterGraph(visualizerOptions, videoWidth, videoHeight)
+      visualizerVideoOptions = buildVisualizerVideoOptions(buildVideoEncoderOptions(videoEncoder))
+      log.info('[CreateFromImage] Visualizer enabled:', visualizerOptions)
+    }
+
+    // 🎞️ KEN BURNS: slow zoom/pan on the background image (image background only)
+    let kenBurnsOptions: KenBurnsOptions | undefined
+    if (motion && imagePath && !backgroundVideoPath) {
+      const { normalizeKenBurnsOptions } = await import('./utils/ffmpeg/kenBurns.js')
+      kenBurnsOptions = normalizeKenBurnsOptions(motion)
+      log.info('[CreateFromImage] Ken Burns motion enabled:', kenBurnsOptions)
+    }
+
+    // 🖼️ IMAGE FILL: what fills the frame around images that don't match the output aspect ratio
+    const { normalizeImageFillOptions, buildImageFillFilters, detectDominantColor } = await import('./utils/ffmpeg/imageFill.js')
+    const imageFillOptions = normalizeImageFillOptions(imageFill)
+    const getImageFillFilters = async (sourceImagePath: string): Promise<string[]> => {
+      let fillColor: string | undefined
+      if (imageFillOptions.mode === 'color') {
+        try {
+          fillColor = await detectDominantColor(sourceImagePath)
+          log.info(`[CreateFromImage] Dominant color of ${path.basename(sourceImagePath)}: ${fillColor}`)
+        } catch (err) {
+          log.warn('[CreateFromImage] Dominant color detection failed, using black:', err)
+        }
+      }
+      return buildImageFillFilters(imageFillOptions, outputSize.width, outputSize.height, fillColor)
+    }
     
   // NOTE: enableFadeOut is only used for audio fade out.
   // Video fade in/out is not applied in image-based video creation.
@@ -1053,14 +1978,86 @@ ipcMain.handle('video:create-from-image', async (_event, {
 const audioPaths = Array.isArray(audioPath) ? audioPath : [audioPath]
 let finalAudioPath: string
 let playlistTimestamps: string | undefined = undefined // YouTube timestamps (for playlist)
+let playlistChapters: Chapter[] = [] // Same track list, embedded as container chapters
+
+  // ✂️ TRIM: per-track in/out points, honored wherever a track is read (and by its lyrics)
+  const normalizedTrackTrims = normalizeTrackTrims(trackTrims, audioPaths.length)
+  if (normalizedTrackTrims) {
+    log.info('[CreateFromImage] Track trims:', normalizedTrackTrims)
+    if (outputLyrics) {
+      outputLyrics.tracks = outputLyrics.tracks.map((trackLyrics, i) => trimLyrics(trackLyrics, normalizedTrackTrims[i].start))
+    }
+  }
+
+  // 🔀 CROSSFADE: consecutive tracks overlap instead of fade-out + padding silence
+  const crossfadeOptions = audioPaths.length > 1 ? normalizeCrossfadeOptions(crossfade) : undefined
+  if (crossfadeOptions) {
+    log.info(`[CreateFromImage] Crossfade between tracks: ${crossfadeOptions.duration}s (${crossfadeOptions.curve})`)
+  }
+
+  // 🎚️ VOLUME: per-track gain/mute, added to the loudness gain of each track
+  const normalizedTrackVolumes = normalizeTrackVolumes(trackVolumes, audioPaths.length)
+
+  // Loudness pass 1: one gain per track, applied while merging/segmenting (pass 2)
+  let trackGains: number[] | undefined
+  if (loudnessOptions) {
+    log.info(`[CreateFromImage] Measuring loudness of ${audioPaths.length} track(s) (target ${loudnessOptions.target} LUFS)...`)
+    trackGains = await measureLoudnessGains(audioPaths, loudnessOptions, normalizedTrackTrims)
+  }
+  if (normalizedTrackVolumes) {
+    logTrackVolumes(audioPaths, normalizedTrackVolumes)
+    trackGains = applyTrackVolumes(trackGains, normalizedTrackVolumes, audioPaths.length)
+  }
 
   // 🚀 PLAYLIST OPTIMIZATION: Check if we should use segmented encoding
   const { shouldUseSegmentedOptimization, createPlaylistWithSegments } = await import('./utils/ffmpeg/playlistOptimizer.js')
   
-  // Check if segmented optimization should be used
-  const useSegmentedOptimization = audioPaths.length > 1 && 
-    (enablePadding || enableFadeOut) &&
-    await shouldUseSegmentedOptimization(audioPaths, enableFadeOut, enablePadding)
+  // "Now playing" titles are burned into per-track segments, so they need the segmented path
+  const useNowPlaying = !!nowPlaying && audioPaths.length > 1 && !backgroundVideoPath && !visualizerFilterGraph && !kenBurnsOptions
+  if (useNowPlaying) {
+    validateNumericInput(nowPlaying.duration, 2, 15, 'nowPlaying.duration')
+    if (nowPlaying.artist) {
+      validateStringLength(nowPlaying.artist, 200, 'nowPlaying.artist')
+    }
+  }
+
+  // 🖼️ PER-TRACK IMAGES: one entry per audio file ('' = shared background image)
+  // Each track gets its own base segment, so they also need the segmented path
+  let normalizedTrackImagePaths: string[] | undefined
+  if (Array.isArray(trackImagePaths) && trackImagePaths.some(Boolean) &&
+    audioPaths.length > 1 && !backgroundVideoPath && !visualizerFilterGraph && !kenBurnsOptions) {
+    if (trackImagePaths.length !== audioPaths.length) {
+      const appError = new AppError(ErrorCode.IMAGE_VALIDATION_FAILED, `Expected ${audioPaths.length} track images, got ${trackImagePaths.length}`)
+      throw new Error(serializeErrorForIPC(appError, appError.code))
+    }
+    const imageExtensions = store.get('settings.fileExtensions.image', DEFAULT_IMAGE_EXTENSIONS) as string[]
+    normalizedTrackImagePaths = trackImagePaths.map((trackImagePath: string) => {
+      if (!trackImagePath) return ''
+      let normalizedPath: string
+      try {
+        normalizedPath = validateImageFilePath(trackImagePath, new Set(imageExtensions))
+      } catch (error) {
+        const appError = new AppError(
+          ErrorCode.IMAGE_VALIDATION_FAILED,
+          `Invalid track image path: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          error instanceof Error ? error : undefined
+        )
+        throw new Error(serializeErrorForIPC(appError, appError.code))
+      }
+      if (!fs.existsSync(normalizedPath)) {
+        const appError = new AppError(ErrorCode.IMAGE_NOT_FOUND, `Track image not found: ${normalizedPath}`)
+        throw new Error(serializeErrorForIPC(appError, appError.code))
+      }
+      return normalizedPath
+    })
+  }
+
+  // Check if segmented optimization should be used (still image/black background only -
+  // a visualizer, motion or background video changes every frame, so those use the merged-audio path below)
+  const useSegmentedOptimization = !backgroundVideoPath && !visualizerFilterGraph && !kenBurnsOptions &&
+    audioPaths.length > 1 && 
+    (useNowPlaying || !!normalizedTrackImagePaths || ((enablePadding || enableFadeOut || !!crossfadeOptions) &&
+    await shouldUseSegmentedOptimization(audioPaths, enableFadeOut, enablePadding, !!crossfadeOptions)))
 
   if (useSegmentedOptimization) {
     // 🚀🚀🚀 ULTRA-FAST PLAYLIST MODE: Segmented Encoding!
@@ -1068,60 +2065,100 @@ let playlistTimestamps: string | undefined = undefined // YouTube timestamps (fo
     log.info('[CreateFromImage] This will be 10-15x FASTER than traditional method!')
     log.info('[CreateFromImage] Tracks:', audioPaths.length)
     
-    // Preprocess image first (if needed)
-    let processedImagePath: string | null = imagePath
-    if (imagePath && imagePath !== '') {
-      const normalizedImagePath = path.resolve(imagePath)
-      const videoWidth = store.get('settings.video.width', DEFAULT_VIDEO_WIDTH) as number
-      const videoHeight = store.get('settings.video.height', DEFAULT_VIDEO_HEIGHT) as number
+    const { width: videoWidth, height: videoHeight } = outputSize
+    
+    // Fit an image to the output size (only 1 frame), reusing results for repeated images
+    const processedImages = new Map<string, string>()
+    const preprocessImage = async (sourceImagePath: string): Promise<string> => {
+      const normalizedImagePath = path.resolve(sourceImagePath)
+      const existingImagePath = processedImages.get(normalizedImagePath)
+      if (existingImagePath) return existingImagePath
       
       // Create temp padded image
-      const tempImagePath = path.join(workDir, `temp_padded_${Date.now()}.png`)
+      const tempImagePath = path.join(workDir, `temp_padded_${processedImages.size}_${Date.now()}.png`)
       tempFadedFiles.push(tempImagePath)
       
-      log.info(`[CreateFromImage] Pre-processing image...`)
+      log.info(`[CreateFromImage] Pre-processing image: ${path.basename(normalizedImagePath)} (fill: ${imageFillOptions.mode})`)
+      const fillFilters = await getImageFillFilters(normalizedImagePath)
       await new Promise<void>((resolvePreprocess, rejectPreprocess) => {
         ffmpeg(normalizedImagePath)
-          .videoFilters([
-            `scale=${videoWidth}:${videoHeight}:force_original_aspect_ratio=decrease`,
-            `pad=${videoWidth}:${videoHeight}:(ow-iw)/2:(oh-ih)/2:black`
-          ])
+          .videoFilters(fillFilters)
           .outputOptions(['-vframes', '1', '-f', 'image2', '-pix_fmt', 'yuv420p'])
           .on('end', () => resolvePreprocess())
           .on('error', (err) => rejectPreprocess(err))
           .save(tempImagePath)
       })
       
-      processedImagePath = tempImagePath
+      processedImages.set(normalizedImagePath, tempImagePath)
+      return tempImagePath
+    }
+    
+    // Preprocess image first (if needed)
+    let processedImagePath: string | null = imagePath
+    if (imagePath && imagePath !== '') {
+      processedImagePath = await preprocessImage(imagePath)
+    }
+    
+    // Preprocess per-track images ('' keeps the shared background)
+    let processedTrackImagePaths: string[] | undefined
+    if (normalizedTrackImagePaths) {
+      processedTrackImagePaths = []
+      for (const trackImagePath of normalizedTrackImagePaths) {
+        processedTrackImagePaths.push(trackImagePath ? await preprocessImage(trackImagePath) : '')
+      }
     }
     
     // Use segmented optimization
     const firstAudioPath = audioPaths[0]
-    const outPath = firstAudioPath.replace(path.extname(firstAudioPath), '.mp4')
-    const safeOutPath = getSafeOutputPath(outPath)
+    const safeOutPath = await resolveJobOutputPath({
+      type: 'music-video',
+      sourcePath: firstAudioPath,
+      extension: `.${videoEncoder.container}`,
+      outputDir,
+      values: { trackCount: audioPaths.length },
+      getDuration: () => getPlannedPlaylistDuration(audioPaths, {
+        trackTrims: normalizedTrackTrims,
+        paddingDuration: enablePadding ? paddingDuration : 0,
+        crossfade: crossfadeOptions
+      })
+    })
+    
+    const trackInfos = await getTrackInfos(audioPaths)
+    const trackTitles = trackInfos.map((info) => info.title)
     
     try {
-      const result = await createPlaylistWithSegments({
+      const { outputPath: result, trackDurations } = await createPlaylistWithSegments({
         imagePath: processedImagePath || '',
         audioFiles: audioPaths,
+        trackImagePaths: processedTrackImagePaths,
+        videoWidth,
+        videoHeight,
+        videoEncoder,
         outputPath: safeOutPath,
         enablePadding,
         paddingDuration,
         enableFadeOut,
         fadeOutDuration,
+        nowPlaying: useNowPlaying
+          ? {
+              titles: trackTitles,
+              artist: nowPlaying.artist?.trim() || undefined,
+              duration: nowPlaying.duration
+            }
+          : undefined,
+        trackGains,
+        crossfade: crossfadeOptions,
+        trackTrims: normalizedTrackTrims,
         tempDir: workDir,
         onProgress: (progress) => {
           sendProgress(progress)
         }
       })
       
-      // Generate YouTube timestamps
-      const audioDurations: number[] = []
-      for (const audioPath of audioPaths) {
-        const validation = await validateAudioFile(path.resolve(audioPath))
-        audioDurations.push(validation.duration)
-      }
-      playlistTimestamps = generateTimestamps(audioPaths, audioDurations)
+      // Generate YouTube timestamps from the measured segment lengths (padding included, crossfades overlapped)
+      playlistChapters = buildChapters(trackTitles, trackDurations)
+      playlistTimestamps = generateTimestamps(playlistChapters, trackInfos.map((info) => info.artist))
+      await finalizeOutput(result, { chapters: playlistChapters, metadata: outputMetadata, lyrics: outputLyrics })
       
       // Keep return type consistent with non-segmented path: JSON string
       return JSON.stringify({
@@ -1135,7 +2172,9 @@ let playlistTimestamps: string | undefined = undefined // YouTube timestamps (fo
   }
   
   // If multiple audio files, merge them first (OPTIMIZED: Use fast concat with stream copy)
-if (audioPaths.length > 1) {
+  // A single track also goes through the merge when it gets a gain (loudness/volume) or is trimmed
+const mergesAudio = audioPaths.length > 1 || !!trackGains || !!normalizedTrackTrims
+if (mergesAudio) {
     const firstAudioPath = audioPaths[0]
     // Use .mp3 extension for better compatibility
     const mergedPath = path.join(
@@ -1155,17 +2194,22 @@ if (audioPaths.length > 1) {
       enableFadeOut,
       fadeOutDuration,
       audioBitrate: audioConfig.bitrate,
-      fastMode: !enablePadding && !enableFadeOut
+      crossfade: crossfadeOptions,
+      fastMode: !enablePadding && !enableFadeOut && !crossfadeOptions
     })
       
     // Use optimized concatenateAudios (stream copy when no effects)
+    let mergedTrackLengths: number[] = []
     try {
-      await concatenateAudios(audioPaths, mergedPath, {
+      mergedTrackLengths = await concatenateAudios(audioPaths, mergedPath, {
         enablePadding,
         paddingDuration,
         enableFadeOut,
         fadeOutDuration,
         audioBitrate: audioConfig.bitrate,
+        trackGains,
+        crossfade: crossfadeOptions,
+        trackTrims: normalizedTrackTrims,
         tempDir: workDir,
         onProgress: (progress) => {
           // Merge progress: 0-49%
@@ -1204,19 +2248,14 @@ if (audioPaths.length > 1) {
       
     finalAudioPath = mergedPath
     
-    // Collect durations for timestamp generation
-    const audioDurations: number[] = []
-    log.info('[CreateFromImage] Collecting audio durations for timestamps...')
-    for (const audioPath of audioPaths) {
-      const normalizedPath = path.resolve(audioPath)
-      const validation = await validateAudioFile(normalizedPath)
-      audioDurations.push(validation.duration)
+    // Generate YouTube timestamps for playlist from the track lengths measured in the merged audio
+    if (audioPaths.length > 1) {
+      log.info('[CreateFromImage] Generating YouTube timestamps for playlist...')
+      const trackInfos = await getTrackInfos(audioPaths)
+      playlistChapters = buildChapters(trackInfos.map((info) => info.title), mergedTrackLengths)
+      playlistTimestamps = generateTimestamps(playlistChapters, trackInfos.map((info) => info.artist))
+      log.info('[CreateFromImage] Generated timestamps:', playlistTimestamps)
     }
-    
-    // Generate YouTube timestamps for playlist
-    log.info('[CreateFromImage] Generating YouTube timestamps for playlist...')
-    playlistTimestamps = generateTimestamps(audioPaths, audioDurations)
-    log.info('[CreateFromImage] Generated timestamps:', playlistTimestamps)
 } else {
     // Single file: normalize path and validate
     finalAudioPath = path.resolve(audioPaths[0])
@@ -1231,8 +2270,16 @@ if (audioPaths.length > 1) {
     }
 }
 
-const desiredPath = finalAudioPath.replace(path.extname(finalAudioPath), '.mp4')
-const outPath = getSafeOutputPath(desiredPath)
+// Named after the first audio file (finalAudioPath is the temp merged audio for playlists)
+const outPath = await resolveJobOutputPath({
+    type: 'music-video',
+    sourcePath: path.resolve(audioPaths[0]),
+    extension: `.${videoEncoder.container}`,
+    outputDir,
+    values: { trackCount: audioPaths.length },
+    // The merged audio already has the trims, padding and crossfades
+    getDuration: () => getTotalMediaDuration([finalAudioPath])
+})
     
   // CRITICAL: Await the Promise to ensure FFmpeg completes before finally block executes
   const result = await new Promise<string>((resolve, reject) => {
@@ -1303,12 +2350,117 @@ const outPath = getSafeOutputPath(desiredPath)
         
       const command = ffmpeg()
         
-      // If no image, create black background (1920x1080, 16:9 ratio)
+      // If no image, create black background (output size)
       // NOTE: Video fade in/out is not applied in image-based video creation.
       // Audio fade out is only applied when there are multiple audio files.
-      if (!imagePath || imagePath === '') {
-        const videoWidth = store.get('settings.video.width', DEFAULT_VIDEO_WIDTH) as number
-        const videoHeight = store.get('settings.video.height', DEFAULT_VIDEO_HEIGHT) as number
+      if (backgroundVideoPath) {
+        // 🚀 BACKGROUND VIDEO: Loop the clip itself under the audio (stream copy, no re-encoding!)
+        let normalizedVideoPath: string
+        try {
+          const videoExtensions = store.get('settings.fileExtensions.video', DEFAULT_VIDEO_EXTENSIONS) as string[]
+          normalizedVideoPath = validateVideoFilePath(backgroundVideoPath, new Set(videoExtensions))
+        } catch (error) {
+          const appError = new AppError(
+            ErrorCode.INVALID_FILE_PATH,
+            `Invalid background video path: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            error instanceof Error ? error : undefined
+          )
+          reject(new Error(serializeErrorForIPC(appError, appError.code)))
+          return
+        }
+        if (!fs.existsSync(normalizedVideoPath)) {
+          const appError = new AppError(ErrorCode.FILE_NOT_FOUND, `Background video not found: ${normalizedVideoPath}`)
+          reject(new Error(serializeErrorForIPC(appError, appError.code)))
+          return
+        }
+
+        let clipDuration = 0
+        let clipWidth = 0
+        let clipHeight = 0
+        let clipCodec = ''
+        try {
+          const clipInfo = await new Promise<{ duration: number; width: number; height: number; codec: string }>((resolveProbe, rejectProbe) => {
+            ffmpeg.ffprobe(normalizedVideoPath, (probeErr, probeMetadata) => {
+              if (probeErr) {
+                rejectProbe(probeErr)
+                return
+              }
+              const clipVideoStream = probeMetadata.streams.find((stream) => stream.codec_type === 'video')
+              resolveProbe({
+                duration: probeMetadata.format.duration || 0,
+                width: clipVideoStream?.width || 0,
+                height: clipVideoStream?.height || 0,
+                codec: clipVideoStream?.codec_name || ''
+              })
+            })
+          })
+          clipDuration = clipInfo.duration
+          clipWidth = clipInfo.width
+          clipHeight = clipInfo.height
+          clipCodec = clipInfo.codec
+        } catch (error) {
+          const appError = new AppError(
+            ErrorCode.VIDEO_METADATA_ERROR,
+            `Background video analysis failed: ${path.basename(normalizedVideoPath)}`,
+            error instanceof Error ? error : undefined
+          )
+          reject(new Error(serializeErrorForIPC(appError, appError.code)))
+          return
+        }
+        if (clipDuration <= 0) {
+          const appError = new AppError(
+            ErrorCode.VIDEO_METADATA_ERROR,
+            `Invalid background video duration: ${clipDuration}s\nFile: ${path.basename(normalizedVideoPath)}`
+          )
+          reject(new Error(serializeErrorForIPC(appError, appError.code)))
+          return
+        }
+
+        // Fit the clip to the output size and codec once (only the short clip is re-encoded, the loop is still stream copy)
+        // The visualizer graph scales and re-encodes the background itself, so the clip is used as-is there
+        let backgroundClipPath = normalizedVideoPath
+        const { width: videoWidth, height: videoHeight } = outputSize
+        const clipMatchesEncoder = clipCodec === FFPROBE_CODEC_NAMES[videoEncoder.codec]
+        if (!visualizerFilterGraph && (clipWidth !== videoWidth || clipHeight !== videoHeight || !clipMatchesEncoder)) {
+          const fittedClipPath = path.join(workDir, `temp_background_clip_${Date.now()}.mp4`)
+          tempFadedFiles.push(fittedClipPath)
+          log.info(`[CreateFromImage] Fitting background video ${clipWidth}x${clipHeight} (${clipCodec}) -> ${videoWidth}x${videoHeight} (${videoEncoder.codec})...`)
+          try {
+            await new Promise<void>((resolveFit, rejectFit) => {
+              ffmpeg(normalizedVideoPath)
+                .videoFilters(buildFitFilters(outputSize))
+                .outputOptions([
+                  '-an',                  // Audio comes from the music
+                  ...buildVideoEncoderOptions(videoEncoder),
+                  '-pix_fmt', 'yuv420p',
+                  '-movflags', '+faststart'
+                ])
+                .on('end', () => resolveFit())
+                .on('error', (err) => rejectFit(err))
+                .save(fittedClipPath)
+            })
+          } catch (error) {
+            const appError = new AppError(
+              ErrorCode.VIDEO_PROCESSING_FAILED,
+              `Background video resize failed: ${error instanceof Error ? error.message : String(error)}`,
+              error instanceof Error ? error : undefined
+            )
+            reject(new Error(serializeErrorForIPC(appError, appError.code)))
+            return
+          }
+          backgroundClipPath = fittedClipPath
+        }
+
+        // Loop count: -stream_loop N plays the clip N + 1 times; -shortest trims the video to the audio
+        // IMPORTANT: audioDuration already includes padding if multiple audio files with padding enabled
+        const loopCount = Math.max(0, Math.ceil(audioDuration / clipDuration) - 1)
+        log.info(`[CreateFromImage] 🚀 Background video: -stream_loop ${loopCount} (audio: ${audioDuration.toFixed(2)}s, clip: ${clipDuration.toFixed(2)}s)`)
+
+        command
+          .input(backgroundClipPath)
+          .inputOptions(['-stream_loop', String(loopCount)]) // Exact loop count (not infinite!)
+      } else if (!imagePath || imagePath === '') {
+        const { width: videoWidth, height: videoHeight } = outputSize
         
         // 🚀 FAST MODE: Create short black video segment and loop it
         log.info(`[CreateFromImage] 🚀 FAST MODE: Creating short black video segment...`)
@@ -1321,8 +2473,7 @@ const outPath = getSafeOutputPath(desiredPath)
           .inputFormat('lavfi')
             .outputOptions([
               '-t', '1',              // 1 second duration
-              '-c:v', 'libx264',      // Encode once
-              '-preset', 'ultrafast', // Fast encoding
+              ...buildVideoEncoderOptions(videoEncoder, { stillImage: true, defaultPreset: 'ultrafast' }), // Encode once
               '-pix_fmt', 'yuv420p',
               '-g', '1',              // Keyframe every frame
               '-movflags', '+faststart'
@@ -1370,7 +2521,7 @@ const outPath = getSafeOutputPath(desiredPath)
           .inputOptions(['-stream_loop', String(loopCount)]) // Exact loop count (not infinite!)
       } else {
         // 🚀 OPTIMIZATION: Pre-process image with padding (0.01 sec instead of processing every frame!)
-        // If image exists, fit to 16:9 ratio (add black letterbox)
+        // If image exists, fit to the output size (letterbox filled per the image fill mode)
         // Validate path, normalize, and check file existence
         let normalizedImagePath: string
         try {
@@ -1391,8 +2542,7 @@ const outPath = getSafeOutputPath(desiredPath)
           return
         }
         
-        const videoWidth = store.get('settings.video.width', DEFAULT_VIDEO_WIDTH) as number
-        const videoHeight = store.get('settings.video.height', DEFAULT_VIDEO_HEIGHT) as number
+        const { width: videoWidth, height: videoHeight } = outputSize
         
         // 🚀 Pre-process image with padding (FAST!)
         const tempImagePath = path.join(workDir, `temp_padded_${Date.now()}.png`)
@@ -1401,12 +2551,10 @@ const outPath = getSafeOutputPath(desiredPath)
         log.info(`[CreateFromImage] 🚀 FAST MODE: Creating short video segment with stream copy strategy...`)
         
         // Step 1: Create padded image (only 1 frame! <0.1 sec)
+        const fillFilters = await getImageFillFilters(normalizedImagePath)
         await new Promise<void>((resolvePreprocess, rejectPreprocess) => {
           ffmpeg(normalizedImagePath)
-          .videoFilters([
-              `scale=${videoWidth}:${videoHeight}:force_original_aspect_ratio=decrease`,
-              `pad=${videoWidth}:${videoHeight}:(ow-iw)/2:(oh-ih)/2:black`
-            ])
+          .videoFilters(fillFilters)
             .outputOptions([
               '-vframes', '1',  // Only 1 frame!
               '-f', 'image2',
@@ -1423,79 +2571,126 @@ const outPath = getSafeOutputPath(desiredPath)
             .save(tempImagePath)
         })
         
-        // Step 2: Create a short video segment (1 second, 1 FPS = 1 frame) from padded image
-        const tempVideoSegmentPath = path.join(workDir, `temp_segment_${Date.now()}.mp4`)
-        tempFadedFiles.push(tempVideoSegmentPath) // Will be cleaned up later
-        
-        log.info(`[CreateFromImage] Creating 1-second video segment...`)
-        await new Promise<void>((resolveSegment, rejectSegment) => {
-          ffmpeg(tempImagePath)
-            .inputOptions(['-loop', '1'])
-            .outputOptions([
-              '-t', '1',              // 1 second duration
-              '-r', '1',              // 1 FPS (only 1 frame)
-              '-c:v', 'libx264',      // Encode once
-              '-preset', 'ultrafast', // Fast encoding
-              '-tune', 'stillimage',  // Optimize for still image
-              '-pix_fmt', 'yuv420p',
-              '-g', '1',              // Keyframe every frame
-              '-movflags', '+faststart'
-            ])
-            .on('end', () => {
-              log.info(`[CreateFromImage] ✅ Step 2/3: Video segment created (<1s)`)
-              resolveSegment()
-            })
-            .on('error', (err) => {
-              log.error(`[CreateFromImage] Video segment creation failed:`, err)
-              rejectSegment(err)
-            })
-            .save(tempVideoSegmentPath)
-        })
+        if (kenBurnsOptions) {
+          // Step 2 (motion): Render one Ken Burns cycle, then loop it by stream copy
+          const tempCycleSegmentPath = path.join(workDir, `temp_kenburns_${Date.now()}.mp4`)
+          tempFadedFiles.push(tempCycleSegmentPath) // Will be cleaned up later
         
-        // Step 3: Calculate exact loop count based on audio duration
-        // CRITICAL: audioDuration must be > 0, otherwise we get infinite loop!
-        if (audioDuration <= 0) {
-          const appError = new AppError(
-            ErrorCode.AUDIO_VALIDATION_FAILED,
-            `Cannot determine audio duration (${audioDuration}s). Audio file may be corrupted.`
-          )
-          reject(new Error(serializeErrorForIPC(appError, appError.code)))
-          return
-        }
+          log.info(`[CreateFromImage] 🎞️ Creating ${kenBurnsOptions.cycleDuration}s Ken Burns cycle (${kenBurnsOptions.mode})...`)
+          try {
+            const { createKenBurnsCycle } = await import('./utils/ffmpeg/kenBurns.js')
+            // Expose the cycle render to cancel-processing
+            const currentCommandRef = {
+              get current() { return currentFfmpegCommand },
+              set current(cycleCommand) { currentFfmpegCommand = cycleCommand }
+            }
+            await createKenBurnsCycle(tempImagePath, tempCycleSegmentPath, kenBurnsOptions, videoWidth, videoHeight, videoEncoder, currentCommandRef)
+          } catch (err) {
+            const appError = new AppError(
+              ErrorCode.VIDEO_PROCESSING_FAILED,
+              `Ken Burns motion failed: ${err instanceof Error ? err.message : String(err)}`,
+              err instanceof Error ? err : undefined
+            )
+            reject(new Error(serializeErrorForIPC(appError, appError.code)))
+            return
+          }
         
-        // Loop count = ceil(audio duration) - 1 (because -stream_loop 0 means play once, 1 means play twice, etc.)
-        // IMPORTANT: audioDuration already includes padding if multiple audio files with padding enabled
-        let loopCount = Math.max(1, Math.ceil(audioDuration) - 1)
-        let videoDuration = loopCount + 1
+          // Step 3 (motion): -stream_loop N plays the cycle N + 1 times; -shortest trims the video to the audio
+          const loopCount = Math.max(0, Math.ceil(audioDuration / kenBurnsOptions.cycleDuration) - 1)
+          log.info(`[CreateFromImage] 🚀 Using -stream_loop ${loopCount} (audio: ${audioDuration.toFixed(2)}s, cycle: ${kenBurnsOptions.cycleDuration}s)`)
         
-        // Safety check: ensure video is at least as long as audio (with small tolerance for floating point)
-        if (videoDuration < audioDuration - 0.1) {
-          log.warn(`[CreateFromImage] ⚠️ Video duration (${videoDuration}s) is shorter than audio (${audioDuration.toFixed(2)}s), adjusting loop count`)
-          loopCount = Math.max(1, Math.ceil(audioDuration))
-          videoDuration = loopCount + 1
-          log.info(`[CreateFromImage] 🚀 Adjusted loop count: ${loopCount} (total: ${videoDuration}s)`)
+          command
+            .input(tempCycleSegmentPath)
+            .inputOptions(['-stream_loop', String(loopCount)]) // Exact loop count (not infinite!)
+          // Will use -c:v copy later (no re-encoding!)
         } else {
-          log.info(`[CreateFromImage] 🚀 Using -stream_loop ${loopCount} (audio: ${audioDuration.toFixed(2)}s, segment: 1s, total: ${videoDuration}s)`)
-        }
+          // Step 2: Create a short video segment (1 second, 1 FPS = 1 frame) from padded image
+          const tempVideoSegmentPath = path.join(workDir, `temp_segment_${Date.now()}.mp4`)
+          tempFadedFiles.push(tempVideoSegmentPath) // Will be cleaned up later
         
-        command
-          .input(tempVideoSegmentPath)
-          .inputOptions(['-stream_loop', String(loopCount)]) // Exact loop count (not infinite!)
-        // Will use -c:v copy later (no re-encoding!)
+          log.info(`[CreateFromImage] Creating 1-second video segment...`)
+          await new Promise<void>((resolveSegment, rejectSegment) => {
+            ffmpeg(tempImagePath)
+              .inputOptions(['-loop', '1'])
+              .outputOptions([
+                '-t', '1',              // 1 second duration
+                '-r', '1',              // 1 FPS (only 1 frame)
+                ...buildVideoEncoderOptions(videoEncoder, { stillImage: true, defaultPreset: 'ultrafast' }), // Encode once (still image tune)
+                '-pix_fmt', 'yuv420p',
+                '-g', '1',              // Keyframe every frame
+                '-movflags', '+faststart'
+              ])
+              .on('end', () => {
+                log.info(`[CreateFromImage] ✅ Step 2/3: Video segment created (<1s)`)
+                resolveSegment()
+              })
+              .on('error', (err) => {
+                log.error(`[CreateFromImage] Video segment creation failed:`, err)
+                rejectSegment(err)
+              })
+              .save(tempVideoSegmentPath)
+          })
+        
+          // Step 3: Calculate exact loop count based on audio duration
+          // CRITICAL: audioDuration must be > 0, otherwise we get infinite loop!
+          if (audioDuration <= 0) {
+            const appError = new AppError(
+              ErrorCode.AUDIO_VALIDATION_FAILED,
+              `Cannot determine audio duration (${audioDuration}s). Audio file may be corrupted.`
+            )
+            reject(new Error(serializeErrorForIPC(appError, appError.code)))
+            return
+          }
+        
+          // Loop count = ceil(audio duration) - 1 (because -stream_loop 0 means play once, 1 means play twice, etc.)
+          // IMPORTANT: audioDuration already includes padding if multiple audio files with padding enabled
+          let loopCount = Math.max(1, Math.ceil(audioDuration) - 1)
+          let videoDuration = loopCount + 1
+        
+          // Safety check: ensure video is at least as long as audio (with small tolerance for floating point)
+          if (videoDuration < audioDuration - 0.1) {
+            log.warn(`[CreateFromImage] ⚠️ Video duration (${videoDuration}s) is shorter than audio (${audioDuration.toFixed(2)}s), adjusting loop count`)
+            loopCount = Math.max(1, Math.ceil(audioDuration))
+            videoDuration = loopCount + 1
+            log.info(`[CreateFromImage] 🚀 Adjusted loop count: ${loopCount} (total: ${videoDuration}s)`)
+          } else {
+            log.info(`[CreateFromImage] 🚀 Using -stream_loop ${loopCount} (audio: ${audioDuration.toFixed(2)}s, segment: 1s, total: ${videoDuration}s)`)
+          }
+        
+          command
+            .input(tempVideoSegmentPath)
+            .inputOptions(['-stream_loop', String(loopCount)]) // Exact loop count (not infinite!)
+          // Will use -c:v copy later (no re-encoding!)
+        }
       }
         
       // Normalize audio file path as well
       const normalizedFinalAudioPath = path.resolve(finalAudioPath)
       const audioConfig = getAudioQualityConfig()
+
+      // Video stream: visualizer overlay (re-encode) or the looped segment as-is (stream copy).
+      // Background video audio (if any) is always replaced by the playlist.
+      let videoOutputOptions = ['-c:v', 'copy'] // 🚀 STREAM COPY: No re-encoding! (10-30x faster!)
+      if (visualizerFilterGraph) {
+        log.info('[CreateFromImage] 🎵 Rendering visualizer overlay (re-encoding video)...')
+        command.complexFilter(visualizerFilterGraph)
+        videoOutputOptions = ['-map', '[v]', '-map', '1:a:0', ...visualizerVideoOptions]
+      } else if (backgroundVideoPath) {
+        videoOutputOptions = ['-map', '0:v:0', '-map', '1:a:0', '-c:v', 'copy']
+      }
+
       command
         .input(normalizedFinalAudioPath)
         .outputOptions([
-          '-c:v', 'copy',              // 🚀 STREAM COPY: No re-encoding! (10-30x faster!)
-          '-c:a', audioConfig.codec,   // Audio codec
-          '-b:a', audioConfig.bitrate, // Audio bitrate (user setting)
-          '-ar', audioConfig.sampleRate, // Sample rate (user setting)
+          ...videoOutputOptions,
+          // Audio codec, bitrate and sample rate (user setting; Opus at 48 kHz for WebM)
+          ...buildAudioCodecOptions(videoEncoder.container, {
+            codec: audioConfig.codec,
+            bitrate: audioConfig.bitrate,
+            sampleRate: audioConfig.sampleRate
+          }),
           '-shortest',                 // End video when audio ends
-          '-movflags', '+faststart'    // 🚀 OPTIMIZATION: fast start
+          ...buildContainerOptions(videoEncoder.container) // 🚀 OPTIMIZATION: fast start (MP4/MOV)
         ])
         .on('progress', (p) => {
           // Parse timemark to calculate actual progress
@@ -1507,9 +2702,9 @@ const outPath = getSafeOutputPath(desiredPath)
               parseFloat(timeParts[2])
             const progressPercent = Math.round((currentSeconds / audioDuration) * 100)
               
-            // If multiple audio files, start from 50% (0-50% used for merging)
-            const baseProgress = audioPaths.length > 1 ? 50 : 0
-            const rangeProgress = audioPaths.length > 1 ? 49 : 99 // 50-99% or 0-99%
+            // If the audio was merged first, start from 50% (0-50% used for merging)
+            const baseProgress = mergesAudio ? 50 : 0
+            const rangeProgress = mergesAudio ? 49 : 99 // 50-99% or 0-99%
             const adjustedProgress = baseProgress + Math.round((progressPercent / 100) * rangeProgress)
               
             // Guardrail: limit final progress
@@ -1522,6 +2717,7 @@ const outPath = getSafeOutputPath(desiredPath)
           cleanupAudioTempFiles(tempMergedAudio, tempFadedFiles)
             
           currentFfmpegCommand = null
+          await finalizeOutput(outPath, { chapters: playlistChapters, metadata: outputMetadata, lyrics: outputLyrics })
           sendProgress(100) // 100% on completion
           
           // Return output path and timestamps (if playlist)
@@ -1535,6 +2731,7 @@ const outPath = getSafeOutputPath(desiredPath)
           log.error('FFmpeg stderr:', stderr)
           log.error('Audio path:', normalizedFinalAudioPath)
           log.error('Image path:', imagePath ? path.resolve(imagePath) : 'None')
+          log.error('Background video path:', backgroundVideoPath ? path.resolve(backgroundVideoPath) : 'None')
           // Delete temp files even on error
           cleanupAudioTempFiles(tempMergedAudio, tempFadedFiles)
           currentFfmpegCommand = null
@@ -1588,7 +2785,13 @@ ipcMain.handle('video:concat', async (_event, {
   paddingDuration = 3,
   enableFadeOut = true,
   fadeOutDuration = 2,
-  enableFadeIn = false
+  enableFadeIn = false,
+  resolution,
+  loudness,
+  clipTrims,
+  clipVolumes,
+  outputDir,
+  metadata
 }) => {
 if (!win) return
     
@@ -1613,6 +2816,26 @@ if (!win) return
     if (enableFadeOut) {
       validateNumericInput(fadeOutDuration, 0, 10, 'fadeOutDuration')
     }
+    // Output resolution preset (optional): otherwise the first video's size is kept
+    const requestedOutputSize = resolution !== undefined ? getOutputSize(resolution) : undefined
+    const videoEncoder = await getVideoEncoder()
+    log.info(`[Concat] Video encoder: ${videoEncoder.encoderName} (${videoEncoder.container}, CRF ${videoEncoder.crf}, preset ${videoEncoder.preset})`)
+    const outputMetadata = normalizeOutputMetadata(metadata)
+    // ✂️ TRIM: per-clip in/out points (head/tail silence removal), applied where each clip is read
+    const normalizedClipTrims = normalizeTrackTrims(clipTrims, validatedVideoPaths.length)
+    // 🎚️ VOLUME: per-clip gain/mute, added to the loudness gain of each clip
+    const normalizedClipVolumes = normalizeTrackVolumes(clipVolumes, validatedVideoPaths.length)
+    // 🔊 LOUDNESS: one gain per clip (measured here, applied in the re-encode)
+    const loudnessOptions = normalizeLoudnessOptions(loudness)
+    let clipGains: number[] = []
+    if (loudnessOptions) {
+      log.info(`[Concat] Measuring loudness of ${validatedVideoPaths.length} clip(s) (target ${loudnessOptions.target} LUFS)...`)
+      clipGains = await measureLoudnessGains(validatedVideoPaths, loudnessOptions, normalizedClipTrims)
+    }
+    if (normalizedClipVolumes) {
+      logTrackVolumes(validatedVideoPaths, normalizedClipVolumes)
+      clipGains = applyTrackVolumes(clipGains, normalizedClipVolumes, validatedVideoPaths.length) ?? []
+    }
       
     const firstVideoPath = validatedVideoPaths[0]
     const tempDir = workDir
@@ -1624,10 +2847,14 @@ if (!win) return
     log.info(`[SmartConcat] Analyzing ${validatedVideoPaths.length} video file(s)`)
     
     // CRITICAL: Calculate hasEffects in outer scope so it's accessible in Promise block
-    const hasEffects = enableFadeOut || enableFadeIn || enablePadding
+    // (a trim cuts between keyframes, so it rules out stream copy like the fades)
+    const hasEffects = enableFadeOut || enableFadeIn || enablePadding || !!normalizedClipTrims
+    // Clip gains only change the audio: applied by the audio-only re-encode below when possible
+    const hasClipGains = clipGains.some((gain) => gain !== 0)
     
     let analysisResult: AnalysisResult
     let useStreamCopy = false
+    let needsResize = false
     let audioResampledPaths: string[] | null = null
       
     try {
@@ -1641,16 +2868,20 @@ if (!win) return
       // 2. No fade effects (fade requires re-encoding)
       // 3. No padding (padding requires re-encoding)
       // CRITICAL: If allMatch is true AND no effects are enabled, MUST use Fast Mode
-      useStreamCopy = analysisResult.allMatch && !hasEffects
+      // An output resolution preset keeps stream copy only if every video already has that size
+      needsResize = !!requestedOutputSize && analysisResult.specs.some((spec) =>
+        spec.width !== requestedOutputSize.width || spec.height !== requestedOutputSize.height)
+      useStreamCopy = analysisResult.allMatch && !hasEffects && !needsResize && !hasClipGains
 
       // SMART CONCAT IMPROVEMENT:
-      // If ONLY audio sample rate mismatches, avoid full re-encode:
-      // - Resample audio to target sample rate (copy video)
+      // If ONLY the audio differs (sample rate mismatch and/or clip gains), avoid full re-encode:
+      // - Re-encode audio at the target sample rate with each clip's gain (copy video)
       // - Then concat with -c copy
       // CRITICAL: Effects must be disabled for audio-only resample
       const canTryAudioOnlyResample =
         !useStreamCopy &&
         !hasEffects &&
+        !needsResize &&
         analysisResult.targetSpec !== null &&
         analysisResult.targetSpec.videoCodec === 'h264' &&
         analysisResult.targetSpec.audioCodec === 'aac'
@@ -1669,18 +2900,19 @@ if (!win) return
 
           // Allow ONLY sample rate mismatch
           return resolutionMatch && videoCodecMatch && audioCodecMatch && pixelFormatMatch && frameRateMatch && (sampleRateMatch || spec.audioSampleRate > 0)
-        }) && analysisResult.specs.some(s => Math.abs(s.audioSampleRate - target.audioSampleRate) > 100)
+        }) && (hasClipGains || analysisResult.specs.some(s => Math.abs(s.audioSampleRate - target.audioSampleRate) > 100))
 
         if (isOnlyAudioSampleRateMismatch) {
-          log.info('[SmartConcat] ✅ Detected audio sample-rate-only mismatch. Trying audio-only resample + stream copy concat.')
+          log.info('[SmartConcat] ✅ Only the audio differs (sample rate / clip gain). Trying audio-only re-encode + stream copy concat.')
 
           const resampled: string[] = []
           for (let i = 0; i < validatedVideoPaths.length; i++) {
             const inputPath = path.resolve(validatedVideoPaths[i])
             const spec = analysisResult.specs[i]
+            const gainFilter = buildGainFilter(clipGains[i] ?? 0)
 
-            // If sample rate already matches, keep original file
-            if (Math.abs(spec.audioSampleRate - target.audioSampleRate) <= 100) {
+            // If sample rate already matches and the clip keeps its volume, keep original file
+            if (Math.abs(spec.audioSampleRate - target.audioSampleRate) <= 100 && !gainFilter) {
               resampled.push(inputPath)
               continue
             }
@@ -1691,16 +2923,18 @@ if (!win) return
               file: path.basename(inputPath),
               from: spec.audioSampleRate,
               to: target.audioSampleRate,
+              gain: gainFilter ?? 'unchanged',
               out: path.basename(out)
             })
 
             await new Promise<void>((resolveResample, rejectResample) => {
               const cmd = ffmpeg(inputPath)
                 .outputOptions([
-                  // Copy video, re-encode audio to match sample rate
+                  // Copy video, re-encode audio to match sample rate (with the clip's gain)
                   '-map', '0:v:0',
                   '-map', '0:a:0?',
                   '-c:v', 'copy',
+                  ...(gainFilter ? ['-af', gainFilter] : []),
                   '-c:a', 'aac',
                   '-b:a', '192k',
                   '-ar', String(Math.round(target.audioSampleRate)),
@@ -1742,6 +2976,8 @@ if (!win) return
         enableFadeIn,
         enablePadding,
         hasEffects,
+        hasClipGains,
+        needsResize,
         decision: useStreamCopy ? '✅ FAST MODE (Stream Copy)' : '❌ Slow Mode (Re-encoding)'
       })
         
@@ -1763,6 +2999,7 @@ if (!win) return
       }
     } catch (error) {
       log.error('[SmartConcat] Failed to analyze video files, defaulting to re-encoding:', error)
+      needsResize = !!requestedOutputSize
       log.warn('[SmartConcat] Decision: Re-encoding (Fallback Mode)')
       log.warn('[SmartConcat] Reason: Analysis failed, using safe fallback')
       // On analysis failure, default to re-encoding for safety
@@ -1785,29 +3022,40 @@ if (validatedVideoPaths.length === 1) {
       throw new Error(`Video file not found: ${singleVideoPath}`)
     }
 
-    const desiredPath = singleVideoPath.replace(path.extname(singleVideoPath), '_processed.mp4')
-    const outPath = getSafeOutputPath(desiredPath)
+    const outPath = await resolveJobOutputPath({
+      type: 'video-concat',
+      sourcePath: singleVideoPath,
+      extension: `.${videoEncoder.container}`,
+      outputDir,
+      values: { mode: 'processed', trackCount: 1 },
+      getDuration: () => getTotalMediaDuration([singleVideoPath], [analysisResult.specs[0]?.duration])
+    })
 
     // Simple conversion (re-encode to standard format)
     return new Promise((resolve, reject) => {
       log.info('[FFmpeg] Starting video processing...')
+      const singleGainFilter = buildGainFilter(clipGains[0] ?? 0)
       const command = ffmpeg(singleVideoPath)
+        .inputOptions(buildTrimInputOptions(normalizedClipTrims?.[0]))
+        .videoFilters(requestedOutputSize ? buildFitFilters(requestedOutputSize) : [])
+        .audioFilters(singleGainFilter ? [singleGainFilter] : [])
         .outputOptions([
-          '-c:v', 'libx264',
-          '-c:a', 'aac',
-          '-preset', 'ultrafast',  // 🚀 OPTIMIZATION: ultrafast preset
+          ...buildVideoEncoderOptions(videoEncoder, { defaultPreset: 'ultrafast' }),  // 🚀 OPTIMIZATION: ultrafast unless a preset is selected
+          ...buildAudioCodecOptions(videoEncoder.container),
           '-pix_fmt', 'yuv420p',
-          '-movflags', '+faststart'
+          ...buildContainerOptions(videoEncoder.container)
         ])
         .on('progress', (p) => {
           const clampedProgress = Math.max(0, Math.min(Math.round(p.percent || 0), 99))
           sendProgress(clampedProgress)
         })
-        .on('end', () => {
+        .on('end', async () => {
+          currentFfmpegCommand = null
+          await finalizeOutput(outPath, { metadata: outputMetadata })
           sendProgress(100)
       log.info('[FFmpeg] Processing completed (100%)')
-          currentFfmpegCommand = null
-          resolve(outPath)
+          // Same JSON shape as the multi-clip result (one clip has no timestamps)
+          resolve(JSON.stringify({ outputPath: outPath }))
         })
         .on('error', (err) => {
           log.error('FFmpeg Error (Single Video):', err)
@@ -1821,8 +3069,24 @@ if (validatedVideoPaths.length === 1) {
 }
 
   // Multiple files: use existing logic
-const desiredPath = firstVideoPath.replace(path.extname(firstVideoPath), '_merged.mp4')
-const outPath = getSafeOutputPath(desiredPath)
+  // Stream copy keeps the source codecs - WebM can only hold them if they are already VP9/AV1 + Opus/Vorbis
+const streamCopyFitsContainer = videoEncoder.container !== 'webm' || analysisResult.specs.every((spec) =>
+    ['vp9', 'av1'].includes(spec.videoCodec) && ['opus', 'vorbis'].includes(spec.audioCodec))
+const outputContainer = useStreamCopy && !streamCopyFitsContainer ? 'mp4' : videoEncoder.container
+if (outputContainer !== videoEncoder.container) {
+    log.warn(`[Concat] Sources can't be stream-copied into ${videoEncoder.container}, writing ${outputContainer} instead`)
+}
+const outPath = await resolveJobOutputPath({
+    type: 'video-concat',
+    sourcePath: path.resolve(firstVideoPath),
+    extension: `.${outputContainer}`,
+    outputDir,
+    values: { mode: 'merged', trackCount: validatedVideoPaths.length },
+    getDuration: async () => {
+      const videosDuration = await getTotalMediaDuration(validatedVideoPaths, analysisResult.specs.map((spec) => spec.duration))
+      return videosDuration + (enablePadding ? paddingDuration * (validatedVideoPaths.length - 1) : 0)
+    }
+})
 
   // Get first video format info (to process all videos and black screen in the same format)
 const firstVideoResolved = path.resolve(firstVideoPath)
@@ -1842,9 +3106,9 @@ const firstVideoMetadata = await new Promise<FfmpegMetadata>((resolve, reject) =
     
 const firstVideoStream = firstVideoMetadata.streams.find((s) => s.codec_type === 'video')
 const firstAudioStream = firstVideoMetadata.streams.find((s) => s.codec_type === 'audio')
-// Use video stream dimensions or fallback to defaults
-const targetWidth = firstVideoStream?.width || (store.get('settings.video.width', DEFAULT_VIDEO_WIDTH) as number)
-const targetHeight = firstVideoStream?.height || (store.get('settings.video.height', DEFAULT_VIDEO_HEIGHT) as number)
+// Use the requested preset, else video stream dimensions, else the saved default
+const targetWidth = requestedOutputSize?.width || firstVideoStream?.width || getOutputSize().width
+const targetHeight = requestedOutputSize?.height || firstVideoStream?.height || getOutputSize().height
 // SECURITY: Avoid eval() - use safer parsing
 const targetFps = (() => {
   if (firstVideoStream?.r_frame_rate) {
@@ -1873,6 +3137,7 @@ if (enablePadding) {
         .inputFormat('lavfi')
         .inputOptions(['-t', String(paddingDuration)])
         .outputOptions([
+          // Intermediate only: padding always goes through the final re-encode with the selected encoder
           '-c:v', 'libx264',                    // Video codec
           '-c:a', 'aac',                        // Audio codec
           '-b:a', '128k',                       // Audio bitrate
@@ -1926,7 +3191,8 @@ if (enableFadeOut || enableFadeIn) {
           resolve(metadata)
         })
       })
-      const duration = metadata.format.duration || 0
+      // Fades are placed on the trimmed clip
+      const duration = getTrimmedDuration(metadata.format.duration || 0, normalizedClipTrims?.[i])
         
       // Apply fade to each video (process all videos in the same format)
       await new Promise<void>((resolve, reject) => {
@@ -1947,7 +3213,8 @@ if (enableFadeOut || enableFadeIn) {
         })()
           
         if (currentWidth !== targetWidth || currentHeight !== targetHeight) {
-          filters.push(`scale=${targetWidth}:${targetHeight}`)
+          // Preset: keep the aspect ratio (letterbox); otherwise match the first video as before
+          filters.push(...(requestedOutputSize ? buildFitFilters(requestedOutputSize) : [`scale=${targetWidth}:${targetHeight}`]))
         }
         if (Math.abs(currentFps - targetFps) > 0.1) {
           filters.push(`fps=${targetFps}`)
@@ -1964,7 +3231,7 @@ if (enableFadeOut || enableFadeIn) {
           audioFilters.push(`afade=t=out:st=${fadeOutStart}:d=${fadeOutDuration}`)
         }
           
-        const command = ffmpeg(videoPath)
+        const command = ffmpeg(videoPath).inputOptions(buildTrimInputOptions(normalizedClipTrims?.[i]))
         log.info('[FFmpeg] Starting video processing...')
         if (filters.length > 0) {
           command.videoFilters(filters)
@@ -1975,6 +3242,7 @@ if (enableFadeOut || enableFadeIn) {
           
         command
           .outputOptions([
+            // Intermediate only: faded videos always go through the final re-encode with the selected encoder
             '-c:v', 'libx264',
             '-c:a', 'aac',
             '-preset', 'ultrafast',  // 🚀 OPTIMIZATION: ultrafast for fade processing
@@ -2044,6 +3312,8 @@ if (enableFadeOut || enableFadeIn) {
       return resolved
     }))
 }
+// Clip trims still to apply in the final pass (the fade pass already read the trimmed clips)
+const pendingClipTrims = enableFadeOut || enableFadeIn ? undefined : normalizedClipTrims
 
   // Normalize all paths to absolute paths and check file existence and access permissions
   const normalizedPaths: string[] = []
@@ -2089,6 +3359,7 @@ if (enableFadeOut || enableFadeIn) {
   // If hasEffects is true, use filter_complex mode, concat list not needed
   let concatListPath: string | null = null
   let totalConcatDuration = 0
+  const videoDurations: number[] = [] // Per input video (for chapters)
   
   if (useStreamCopy) {
     // Fast Mode: create list file for concat demuxer
@@ -2116,6 +3387,7 @@ if (enableFadeOut || enableFadeIn) {
         })
       })
       const duration = metadata.format.duration || 0
+      videoDurations.push(duration)
         
       concatItems.push({ path: escapedPath, duration })
       // CRITICAL: Must be written in 'file ' + escapedPath + '' format
@@ -2141,7 +3413,7 @@ if (enableFadeOut || enableFadeIn) {
     log.info(`[Concat] Total concat duration: ${totalConcatDuration}s`)
   } else {
     // Slow Mode: calculate total duration for progress estimation
-    for (const p of normalizedPaths) {
+    for (const [i, p] of normalizedPaths.entries()) {
       const metadata = await new Promise<FfmpegMetadata>((resolve, reject) => {
         ffmpeg.ffprobe(p, (err, metadata) => {
           if (err) {
@@ -2151,12 +3423,23 @@ if (enableFadeOut || enableFadeIn) {
           resolve(metadata)
         })
       })
-      totalConcatDuration += metadata.format.duration || 0
+      const duration = getTrimmedDuration(metadata.format.duration || 0, pendingClipTrims?.[i])
+      videoDurations.push(duration)
+      totalConcatDuration += duration
     }
     if (enablePadding && blackScreenNormalized) {
       totalConcatDuration += paddingDuration * Math.max(0, normalizedPaths.length - 1)
     }
   }
+  
+  // One chapter per input video (black screen padding included), from the lengths of the files
+  // actually concatenated - the encoded black screen can be a few frames off paddingDuration
+  const concatGap = enablePadding && blackScreenNormalized
+    ? await getTotalMediaDuration([blackScreenNormalized]).catch(() => paddingDuration)
+    : 0
+  const concatTrackInfos = await getTrackInfos(validatedVideoPaths)
+  const concatChapters = buildChapters(concatTrackInfos.map((info) => info.title), videoDurations, concatGap)
+  const concatTimestamps = generateTimestamps(concatChapters, concatTrackInfos.map((info) => info.artist))
 
   // CRITICAL: Await the Promise to ensure FFmpeg completes before finally block executes
   const result = await new Promise<string>((resolve, reject) => {
@@ -2177,8 +3460,9 @@ if (enableFadeOut || enableFadeIn) {
         .outputOptions(['-c', 'copy'])  // ⚡ NO RE-ENCODING! Just copy streams!
       log.info('[SmartConcat] ⚡⚡⚡ Using FAST MODE: Stream copy (-c copy) - No re-encoding!')
       log.info('[SmartConcat] Expected time: 1-5 seconds!')
-    } else if (hasEffects) {
-      // Slow mode with effects: filter_complex required (fade/padding effects)
+    } else if (hasEffects || needsResize || hasClipGains) {
+      // Slow mode with effects: filter_complex required (fade/padding effects, output resolution preset,
+      // clip gains the audio-only re-encode couldn't apply)
       // CRITICAL: All segment files (processed videos + black screen padding) must be added as inputs
       const targetSpec = analysisResult?.targetSpec
       
@@ -2186,22 +3470,31 @@ if (enableFadeOut || enableFadeIn) {
         reject(new Error('Target spec is required for filter_complex mode'))
         return
       }
+      // Output resolution preset overrides the analyzed target size (fit without distortion)
+      const outputWidth = requestedOutputSize?.width ?? targetSpec.width
+      const outputHeight = requestedOutputSize?.height ?? targetSpec.height
+      const resizeFilter = requestedOutputSize
+        ? buildFitFilters(requestedOutputSize).join(',')
+        : `scale=${targetSpec.width}:${targetSpec.height}`
       
       // Build list of all input files in order (videos + padding between them)
       // CRITICAL: Use path.resolve() to ensure all paths are absolute, but DO NOT add quotes manually
       const allInputFiles: string[] = []
       const inputTypeMap: Array<'video' | 'padding'> = []
+      const inputTrims: Array<TrackTrim | undefined> = []
       
       for (let i = 0; i < normalizedPaths.length; i++) {
         // normalizedPaths already contains absolute paths from path.resolve()
         allInputFiles.push(normalizedPaths[i])
         inputTypeMap.push('video')
+        inputTrims.push(pendingClipTrims?.[i])
         
         // Add padding between videos (except after last video)
         if (enablePadding && i < normalizedPaths.length - 1 && blackScreenNormalized) {
           // blackScreenNormalized already contains absolute path from path.resolve()
           allInputFiles.push(blackScreenNormalized)
           inputTypeMap.push('padding')
+          inputTrims.push(undefined)
         }
       }
       
@@ -2226,7 +3519,7 @@ if (enableFadeOut || enableFadeIn) {
         }
         
         // Add input - fluent-ffmpeg handles path escaping automatically
-        command.input(absolutePath)
+        command.input(absolutePath).inputOptions(buildTrimInputOptions(inputTrims[i]))
         log.info(`[SmartConcat]   Input[${i}]: ${path.basename(absolutePath)} (${absolutePath})`)
       }
       
@@ -2256,32 +3549,33 @@ if (enableFadeOut || enableFadeIn) {
           const spec = videoIndex >= 0 && videoIndex < analysisResult.specs.length 
             ? analysisResult.specs[videoIndex] 
             : null
+          const gainFilter = buildGainFilter(clipGains[videoIndex] ?? 0)
           
           if (spec) {
             // Scale video if resolution differs
-            if (spec.width !== targetSpec.width || spec.height !== targetSpec.height) {
+            if (spec.width !== outputWidth || spec.height !== outputHeight) {
               // Use input index [inputIndex:v] to reference the input
-              scaleFilters.push(`[${inputIndex}:v]scale=${targetSpec.width}:${targetSpec.height}[${videoLabel}]`)
+              scaleFilters.push(`[${inputIndex}:v]${resizeFilter}[${videoLabel}]`)
             } else {
               scaleFilters.push(`[${inputIndex}:v]copy[${videoLabel}]`)
             }
             
-            // Resample audio if sample rate differs
+            // Loudness gain, then resample audio if sample rate differs
+            const audioChain = gainFilter ? [gainFilter] : []
             if (Math.abs(spec.audioSampleRate - targetSpec.audioSampleRate) > 100) {
-              // Use input index [inputIndex:a] to reference the input
-              audioFilters.push(`[${inputIndex}:a]aresample=${targetSpec.audioSampleRate}[${audioLabel}]`)
-            } else {
-              audioFilters.push(`[${inputIndex}:a]acopy[${audioLabel}]`)
+              audioChain.push(`aresample=${targetSpec.audioSampleRate}`)
             }
+            // Use input index [inputIndex:a] to reference the input
+            audioFilters.push(`[${inputIndex}:a]${audioChain.length > 0 ? audioChain.join(',') : 'acopy'}[${audioLabel}]`)
           } else {
             // Fallback: copy streams if spec not found
             scaleFilters.push(`[${inputIndex}:v]copy[${videoLabel}]`)
-            audioFilters.push(`[${inputIndex}:a]acopy[${audioLabel}]`)
+            audioFilters.push(`[${inputIndex}:a]${gainFilter || 'acopy'}[${audioLabel}]`)
           }
         } else {
           // Padding segment: scale and process to match target spec
           // Use input index [inputIndex:v] and [inputIndex:a]
-          scaleFilters.push(`[${inputIndex}:v]scale=${targetSpec.width}:${targetSpec.height}[${videoLabel}]`)
+          scaleFilters.push(`[${inputIndex}:v]${resizeFilter}[${videoLabel}]`)
           audioFilters.push(`[${inputIndex}:a]aresample=${targetSpec.audioSampleRate}[${audioLabel}]`)
         }
       }
@@ -2308,16 +3602,14 @@ if (enableFadeOut || enableFadeIn) {
         .outputOptions([
           '-map', '[outv]',
           '-map', '[outa]',
-          '-c:v', 'libx264',
-          '-c:a', 'aac',
-          '-preset', 'ultrafast',
+          ...buildVideoEncoderOptions(videoEncoder, { defaultPreset: 'ultrafast' }),
+          ...buildAudioCodecOptions(outputContainer, { sampleRate: targetSpec.audioSampleRate }),
           '-pix_fmt', 'yuv420p',
           '-r', String(Math.round(targetSpec.frameRate)),
-          '-ar', String(targetSpec.audioSampleRate),
-          '-movflags', '+faststart'
+          ...buildContainerOptions(outputContainer)
         ])
       
-      log.info(`[SmartConcat] ✅ filter_complex mode configured: ${totalInputs} segments, scaling to ${targetSpec.width}x${targetSpec.height}, ${targetSpec.audioSampleRate}Hz`)
+      log.info(`[SmartConcat] ✅ filter_complex mode configured: ${totalInputs} segments, scaling to ${outputWidth}x${outputHeight}, ${targetSpec.audioSampleRate}Hz`)
     } else {
       // Slow mode without effects: concat demuxer with re-encoding (no filter_complex needed)
       // Create concat list for re-encoding mode
@@ -2345,16 +3637,13 @@ if (enableFadeOut || enableFadeIn) {
       command
         .input(concatListPath)
         .inputOptions(['-f', 'concat', '-safe', '0'])
+        .videoFilters(requestedOutputSize ? buildFitFilters(requestedOutputSize) : [])
         .outputOptions([
-          '-c:v', 'libx264',
-          '-c:a', 'aac',
-          '-preset', 'ultrafast',
+          ...buildVideoEncoderOptions(videoEncoder, { defaultPreset: 'ultrafast' }),
+          ...buildAudioCodecOptions(outputContainer, { sampleRate: targetSpec?.audioSampleRate }),
           '-pix_fmt', 'yuv420p',
-          ...(targetSpec ? [
-            '-r', String(Math.round(targetSpec.frameRate)),
-            '-ar', String(targetSpec.audioSampleRate)
-          ] : []),
-          '-movflags', '+faststart'
+          ...(targetSpec ? ['-r', String(Math.round(targetSpec.frameRate))] : []),
+          ...buildContainerOptions(outputContainer)
         ])
       log.info('[SmartConcat] Using concat demuxer with re-encoding (no effects, compatibility mode)')
     }
@@ -2398,77 +3687,80 @@ if (enableFadeOut || enableFadeIn) {
           
         currentFfmpegCommand = null
         
-        // 🖼️ Add thumbnail from first video frame
-        try {
-          log.info('[Thumbnail] Adding thumbnail to concatenated video...')
-          const thumbnailPath = path.join(tempDir, `thumbnail_${Date.now()}.jpg`)
-          const tempOutputWithThumbnail = path.join(tempDir, `temp_with_thumbnail_${Date.now()}.mp4`)
+        // 🖼️ Add thumbnail from first video frame (WebM has no cover art)
+        if (outputContainer !== 'webm') {
+          try {
+            log.info('[Thumbnail] Adding thumbnail to concatenated video...')
+            const thumbnailPath = path.join(tempDir, `thumbnail_${Date.now()}.jpg`)
+            const tempOutputWithThumbnail = path.join(tempDir, `temp_with_thumbnail_${Date.now()}.${outputContainer}`)
           
-          // Extract first frame from first video
-          await extractFirstFrameAsThumbnail(firstVideoPathOriginal, thumbnailPath)
+            // Extract first frame from first video
+            await extractFirstFrameAsThumbnail(firstVideoPathOriginal, thumbnailPath, { width: targetWidth, height: targetHeight })
           
-          // Add thumbnail to the concatenated video
-          await new Promise<void>((thumbResolve, thumbReject) => {
-            ffmpeg()
-              .input(outPath)
-              .input(thumbnailPath)
-              .outputOptions([
-                '-map', '0',              // Map all streams from first input (video)
-                '-map', '1',              // Map thumbnail image
-                '-c', 'copy',             // Copy all streams (no re-encoding!)
-                '-disposition:v:1', 'attached_pic'  // Set second video stream as thumbnail
-              ])
-              .output(tempOutputWithThumbnail)
-              .on('end', () => {
-                log.info('[Thumbnail] ✅ Thumbnail attached successfully')
+            // Add thumbnail to the concatenated video
+            await new Promise<void>((thumbResolve, thumbReject) => {
+              ffmpeg()
+                .input(outPath)
+                .input(thumbnailPath)
+                .outputOptions([
+                  '-map', '0',              // Map all streams from first input (video)
+                  '-map', '1',              // Map thumbnail image
+                  '-c', 'copy',             // Copy all streams (no re-encoding!)
+                  '-disposition:v:1', 'attached_pic'  // Set second video stream as thumbnail
+                ])
+                .output(tempOutputWithThumbnail)
+                .on('end', () => {
+                  log.info('[Thumbnail] ✅ Thumbnail attached successfully')
                 
-                // Replace original output with thumbnail version
-                try {
-                  if (fs.existsSync(outPath)) {
-                    safeRmSync(outPath)
-                  }
-                  fs.renameSync(tempOutputWithThumbnail, outPath)
+                  // Replace original output with thumbnail version
+                  try {
+                    if (fs.existsSync(outPath)) {
+                      safeRmSync(outPath)
+                    }
+                    fs.renameSync(tempOutputWithThumbnail, outPath)
                   
-                  // Cleanup thumbnail file
-                  if (fs.existsSync(thumbnailPath)) {
-                    safeRmSync(thumbnailPath)
+                    // Cleanup thumbnail file
+                    if (fs.existsSync(thumbnailPath)) {
+                      safeRmSync(thumbnailPath)
+                    }
+                  } catch (err) {
+                    log.error('[Thumbnail] Failed to replace output file:', err)
+                    thumbReject(err)
+                    return
                   }
-                } catch (err) {
-                  log.error('[Thumbnail] Failed to replace output file:', err)
-                  thumbReject(err)
-                  return
-                }
                 
-                thumbResolve()
-              })
-              .on('error', (err) => {
-                log.error('[Thumbnail] ❌ Failed to attach thumbnail:', err)
-                // Cleanup on error
-                if (fs.existsSync(thumbnailPath)) {
-                  try {
-                    safeRmSync(thumbnailPath)
-                  } catch (e) {
-                    log.error('[Thumbnail] Failed to delete thumbnail file:', e)
+                  thumbResolve()
+                })
+                .on('error', (err) => {
+                  log.error('[Thumbnail] ❌ Failed to attach thumbnail:', err)
+                  // Cleanup on error
+                  if (fs.existsSync(thumbnailPath)) {
+                    try {
+                      safeRmSync(thumbnailPath)
+                    } catch (e) {
+                      log.error('[Thumbnail] Failed to delete thumbnail file:', e)
+                    }
                   }
-                }
-                if (fs.existsSync(tempOutputWithThumbnail)) {
-                  try {
-                    safeRmSync(tempOutputWithThumbnail)
-                  } catch (e) {
-                    log.error('[Thumbnail] Failed to delete temp file:', e)
+                  if (fs.existsSync(tempOutputWithThumbnail)) {
+                    try {
+                      safeRmSync(tempOutputWithThumbnail)
+                    } catch (e) {
+                      log.error('[Thumbnail] Failed to delete temp file:', e)
+                    }
                   }
-                }
-                thumbReject(err)
-                // Don't reject - continue with video without thumbnail
-                thumbResolve()
-              })
-              .run()
-          })
-        } catch (err) {
-          log.error('[Thumbnail] Failed to add thumbnail (non-fatal):', err)
-          // Continue anyway - thumbnail is optional
+                  thumbReject(err)
+                  // Don't reject - continue with video without thumbnail
+                  thumbResolve()
+                })
+                .run()
+            })
+          } catch (err) {
+            log.error('[Thumbnail] Failed to add thumbnail (non-fatal):', err)
+            // Continue anyway - thumbnail is optional
+          }
         }
         
+        await finalizeOutput(outPath, { chapters: concatChapters, metadata: outputMetadata })
         sendProgress(100) // 100% on completion
         resolve(outPath)
       })
@@ -2486,7 +3778,11 @@ if (enableFadeOut || enableFadeIn) {
   
   // CRITICAL: Return result after Promise completes
   // This ensures finally block only runs after FFmpeg finishes
-  return result
+  // JSON like the music-video playlist: the timestamps match the embedded chapters
+  return JSON.stringify({
+    outputPath: result,
+    timestamps: concatTimestamps
+  })
   } catch (error) {
     log.error('Video concat error:', error)
     throw error
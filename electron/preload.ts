@@ -10,7 +10,11 @@ import { ipcRenderer, contextBridge, IpcRendererEvent } from 'electron'
 
 contextBridge.exposeInMainWorld('electronAPI', {
   openFileDialog: (...args) => ipcRenderer.invoke('dialog:open-file', ...args),
+  openDirectoryDialog: () => ipcRenderer.invoke('dialog:open-directory'),
   getVideoDuration: (videoPath) => ipcRenderer.invoke('video:get-duration', videoPath),
+  getTrackTitles: (videoPaths) => ipcRenderer.invoke('video:get-track-titles', videoPaths),
+  getMediaTags: (filePath) => ipcRenderer.invoke('media:get-tags', filePath),
+  exportTimestamps: (data) => ipcRenderer.invoke('timestamps:export', data),
   processVideo: (data) => ipcRenderer.invoke('video:process', data),
   createFromImage: (data) => ipcRenderer.invoke('video:create-from-image', data),
   concatVideos: (data) => ipcRenderer.invoke('video:concat', data),
@@ -21,6 +25,7 @@ contextBridge.exposeInMainWorld('electronAPI', {
   getPlatformInfo: () => ipcRenderer.invoke('app:get-platform-info'),
   getImageDataUrl: (filePath: string) => ipcRenderer.invoke('file:get-image-data-url', filePath),
   getAudioDuration: (audioPath: string) => ipcRenderer.invoke('audio:get-duration', audioPath),
+  detectSilence: (data) => ipcRenderer.invoke('media:detect-silence', data),
   onProgress: (callback) => {
     const handler = (_event: IpcRendererEvent, value: number) => callback(value)
     ipcRenderer.on('video:progress', handler)
@@ -42,6 +47,16 @@ contextBridge.exposeInMainWorld('electronAPI', {
   setAudioQuality: (data) => ipcRenderer.invoke('settings:set-audio-quality', data),
   getFastMode: () => ipcRenderer.invoke('settings:get-fast-mode'),
   setFastMode: (data) => ipcRenderer.invoke('settings:set-fast-mode', data),
+  getOutputResolution: () => ipcRenderer.invoke('settings:get-output-resolution'),
+  setOutputResolution: (data) => ipcRenderer.invoke('settings:set-output-resolution', data),
+  getOutputSettings: () => ipcRenderer.invoke('settings:get-output-settings'),
+  setOutputSettings: (data) => ipcRenderer.invoke('settings:set-output-settings', data),
+  getVideoEncoder: () => ipcRenderer.invoke('settings:get-video-encoder'),
+  setVideoEncoder: (data) => ipcRenderer.invoke('settings:set-video-encoder', data),
+  getTrackTitleSource: () => ipcRenderer.invoke('settings:get-track-title-source'),
+  setTrackTitleSource: (data) => ipcRenderer.invoke('settings:set-track-title-source', data),
+  getTimestampTemplate: () => ipcRenderer.invoke('settings:get-timestamp-template'),
+  setTimestampTemplate: (data) => ipcRenderer.invoke('settings:set-timestamp-template', data),
   getUIPreferences: () => ipcRenderer.invoke('settings:get-ui-preferences'),
   setUIPreferences: (data) => ipcRenderer.invoke('settings:set-ui-preferences', data),
   saveQueue: (data) => ipcRenderer.invoke('store:save-queue', data),
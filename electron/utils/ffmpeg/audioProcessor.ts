@@ -7,10 +7,18 @@
 import ffmpeg from 'fluent-ffmpeg'
 import path from 'node:path'
 import fs from 'node:fs'
-import { validateAudioFile } from './metadataAnalyzer.js'
+import { validateAudioFile, getAudioDuration } from './metadataAnalyzer.js'
 import { log } from '../logger.js'
 import { ProgressCallback } from './types.js'
 import { safeRmSync } from '../fsSafe.js'
+import { buildGainFilter } from './loudness.js'
+import {
+  applyCrossfadeOverlaps,
+  buildCrossfadeFilter,
+  resolveCrossfadeOverlaps,
+  type CrossfadeOptions
+} from './crossfade.js'
+import { buildTrimInputOptions, getTrimmedDuration, type TrackTrim } from './trackTrim.js'
 
 /**
  * Apply fade out to audio file
@@ -142,113 +150,89 @@ async function concatenateAudiosStreamCopy(
 }
 
 /**
- * Concatenate multiple audio files
- * Uses fast stream copy when no effects are applied, re-encodes only when necessary
+ * Encode one track as a lossless segment of the merge (trim, loudness gain and fade-out applied)
+ * FLAC stores the exact sample count, so the probed segment length is exactly what it adds to the merge.
  */
-export async function concatenateAudios(
-  audioPaths: string[],
+async function createTrackSegment(
+  audioPath: string,
   outputPath: string,
-  options: {
-    enablePadding?: boolean
-    paddingDuration?: number
-    enableFadeOut?: boolean
-    fadeOutDuration?: number
-    audioBitrate?: string  // e.g., '192k', '256k', '320k'
-    tempDir?: string
-    onProgress?: ProgressCallback
-  } = {}
+  options: { trim?: TrackTrim; gainFilter: string | null; fadeOut?: { start: number; duration: number } }
 ): Promise<void> {
-  const { 
-    enablePadding = false, 
-    paddingDuration = 3, 
-    enableFadeOut = false, 
-    fadeOutDuration = 2,
-    audioBitrate = '192k',
-    tempDir,
-    onProgress 
-  } = options
+  const { trim, gainFilter, fadeOut } = options
+  const filters = [
+    ...(gainFilter ? [gainFilter] : []),
+    'aresample=44100',
+    'aformat=channel_layouts=stereo',
+    ...(fadeOut ? [`afade=t=out:st=${fadeOut.start}:d=${fadeOut.duration}`] : [])
+  ]
 
-  // Validate all audio files first
-  const invalidFiles: string[] = []
-  for (const audioPath of audioPaths) {
-    const normalizedPath = path.resolve(audioPath)
-    const validation = await validateAudioFile(normalizedPath)
-    if (!validation.valid) {
-      invalidFiles.push(path.basename(normalizedPath))
-    }
-  }
-
-  if (invalidFiles.length > 0) {
-    throw new Error(`Processing failed due to corrupted file.\nProblematic files: ${invalidFiles.join(', ')}`)
-  }
-
-  // FAST PATH: No effects - use concat demuxer with re-encoding
-  if (!enablePadding && !enableFadeOut && audioPaths.length > 1) {
-    log.info('[AudioProcessor] Using fast concat - no effects')
-    return concatenateAudiosStreamCopy(audioPaths, outputPath, audioBitrate, onProgress, tempDir)
-  }
-
-  // EFFECTS PATH: filter_complex with re-encoding (fade / padding)
-  log.info('[AudioProcessor] Using filter_complex concat with effects')
-  log.info(`[AudioProcessor] Options: enablePadding=${enablePadding}, paddingDuration=${paddingDuration}, enableFadeOut=${enableFadeOut}, fadeOutDuration=${fadeOutDuration}`)
-
-  const processedAudioPaths: string[] = audioPaths.map(p => path.resolve(p))
+  return new Promise<void>((resolve, reject) => {
+    ffmpeg(audioPath)
+      .inputOptions(buildTrimInputOptions(trim))
+      .outputOptions([
+        '-map', '0:a:0',  // Audio only (cover art isn't part of the merge)
+        '-af', filters.join(','),
+        '-c:a', 'flac',
+        '-compression_level', '0'
+      ])
+      .on('end', () => resolve())
+      .on('error', (err, _stdout, stderr) => {
+        log.error('[AudioProcessor] FFmpeg Error (Track Segment):', err)
+        log.error('[AudioProcessor] FFmpeg stderr:', stderr)
+        reject(new Error(`Track segment failed: ${path.basename(audioPath)}\n${stderr || ''}`))
+      })
+      .save(outputPath)
+  })
+}
 
-  // We need durations to:
-  // - compute fade-out start times
-  // - compute total duration for progress (timemark-based)
-  log.info('[AudioProcessor] Getting audio durations (parallel)...')
-  const startTime = Date.now()
-  const validations = await Promise.all(processedAudioPaths.map(p => validateAudioFile(p)))
-  const durations = validations.map(v => v.duration)
-  const totalContentDuration = durations.reduce((sum, d) => sum + d, 0)
-  const totalPaddingDuration = enablePadding ? Math.max(0, (processedAudioPaths.length - 1) * paddingDuration) : 0
-  const totalDuration = totalContentDuration + totalPaddingDuration
-  log.info(`[AudioProcessor] ✅ Got ${durations.length} durations in ${((Date.now() - startTime) / 1000).toFixed(1)}s. Total ~${totalDuration.toFixed(2)}s`)
-  if (!Number.isFinite(totalDuration) || totalDuration <= 0) {
-    throw new Error(`[AudioProcessor] Invalid total duration: ${totalDuration}`)
-  }
+/**
+ * Encode the silence inserted between tracks (lossless, like the track segments)
+ */
+async function createSilenceSegment(outputPath: string, duration: number): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    ffmpeg()
+      .input('anullsrc=channel_layout=stereo:sample_rate=44100')
+      .inputFormat('lavfi')
+      .outputOptions([
+        // CRITICAL: bound duration at OUTPUT level (lavfi sources are infinite by default)
+        '-t', String(duration),
+        '-c:a', 'flac',
+        '-compression_level', '0'
+      ])
+      .on('end', () => resolve())
+      .on('error', (err) => {
+        log.error('[AudioProcessor] FFmpeg Error (Silence Segment):', err)
+        reject(new Error(`Silence segment failed: ${err.message}`))
+      })
+      .save(outputPath)
+  })
+}
 
+/**
+ * Blend consecutive track segments into each other (acrossfade chain) and encode the merged audio
+ */
+async function crossfadeSegments(
+  segmentPaths: string[],
+  outputPath: string,
+  overlaps: number[],
+  crossfade: CrossfadeOptions,
+  totalDuration: number,
+  audioBitrate: string,
+  onProgress?: ProgressCallback
+): Promise<void> {
   return new Promise<void>((resolve, reject) => {
     const command = ffmpeg()
+    segmentPaths.forEach((segmentPath) => command.input(segmentPath))
 
-    // Add all audio inputs
-    processedAudioPaths.forEach(audioPath => command.input(audioPath))
-
-    // Build filter_complex (NO extra lavfi inputs).
-    // Important: Generate finite-duration silence segments inside filtergraph to avoid "infinite audio" bugs.
+    // Chain the crossfades: each track is blended into the mix built so far
     const filterParts: string[] = []
-    const streamLabels: string[] = []
-
-    // Normalize each input to stereo @ 44100Hz to keep concat stable
-    for (let i = 0; i < processedAudioPaths.length; i++) {
-      const baseLabel = `p${i}`
-      filterParts.push(`[${i}:a]aresample=44100,aformat=channel_layouts=stereo[${baseLabel}]`)
-
-      if (enableFadeOut && durations[i] > fadeOutDuration) {
-        const fadeOutStart = Math.max(0, durations[i] - fadeOutDuration)
-        filterParts.push(`[${baseLabel}]afade=t=out:st=${fadeOutStart}:d=${fadeOutDuration}[a${i}]`)
-        streamLabels.push(`[a${i}]`)
-      } else {
-        streamLabels.push(`[${baseLabel}]`)
-      }
+    let mixLabel = '[0:a]'
+    for (let i = 1; i < segmentPaths.length; i++) {
+      const outLabel = i === segmentPaths.length - 1 ? '[outa_raw]' : `[x${i}]`
+      const blend = overlaps[i - 1] > 0 ? buildCrossfadeFilter(overlaps[i - 1], crossfade.curve) : 'concat=n=2:v=0:a=1'
+      filterParts.push(`${mixLabel}[${i}:a]${blend}${outLabel}`)
+      mixLabel = outLabel
     }
-
-    const concatInputs: string[] = []
-    for (let i = 0; i < streamLabels.length; i++) {
-      concatInputs.push(streamLabels[i])
-
-      if (enablePadding && paddingDuration > 0 && i < streamLabels.length - 1) {
-        const sLabel = `s${i}`
-        // Generate silence and trim to exact duration
-        filterParts.push(`anullsrc=channel_layout=stereo:sample_rate=44100,atrim=duration=${paddingDuration},asetpts=PTS-STARTPTS[${sLabel}]`)
-        concatInputs.push(`[${sLabel}]`)
-      }
-    }
-
-    const concatN = concatInputs.length
-    // Concatenate all segments
-    filterParts.push(`${concatInputs.join('')}concat=n=${concatN}:v=0:a=1[outa_raw]`)
     // SAFETY: Force final duration to the expected total (prevents runaway hours-long output)
     filterParts.push(`[outa_raw]atrim=duration=${totalDuration},asetpts=PTS-STARTPTS[outa]`)
 
@@ -284,19 +268,123 @@ export async function concatenateAudios(
         // Fallback: use reported percent if present
         onProgress(Math.max(0, Math.min(p.percent || 0, 99)))
       })
-      .on('end', () => {
-        log.info('[AudioProcessor] ✅ Audio concatenation completed')
-        onProgress?.(100)
-        resolve()
-      })
-      .on('error', (err, stdout, stderr) => {
-        log.error('[AudioProcessor] FFmpeg Error (Concat Audio):', err)
+      .on('end', () => resolve())
+      .on('error', (err, _stdout, stderr) => {
+        log.error('[AudioProcessor] FFmpeg Error (Crossfade Audio):', err)
         log.error('[AudioProcessor] FFmpeg stderr:', stderr)
-        log.error('[AudioProcessor] Audio paths:', audioPaths)
-        log.error('[AudioProcessor] Options:', { enablePadding, paddingDuration, enableFadeOut, fadeOutDuration })
-        reject(new Error(`Audio concatenation failed: ${err.message}\n${stderr || ''}`))
+        reject(new Error(`Audio crossfade failed: ${err.message}\n${stderr || ''}`))
       })
       .save(outputPath)
   })
 }
 
+/**
+ * Concatenate multiple audio files
+ *
+ * Each track is encoded once as a lossless segment (trim, loudness gain,
+ * fade-out), then the segments are joined (padding in between) or crossfaded.
+ * Track lengths come from the segments themselves, so timestamps match the
+ * merged audio even where VBR durations or encoder delay would drift.
+ *
+ * @returns Length of each track in the merged audio (seconds, padding included)
+ */
+export async function concatenateAudios(
+  audioPaths: string[],
+  outputPath: string,
+  options: {
+    enablePadding?: boolean
+    paddingDuration?: number
+    enableFadeOut?: boolean
+    fadeOutDuration?: number
+    audioBitrate?: string  // e.g., '192k', '256k', '320k'
+    trackGains?: number[]  // Loudness normalization gain per track (dB)
+    crossfade?: CrossfadeOptions  // Overlap consecutive tracks (replaces fade-out and padding)
+    trackTrims?: TrackTrim[]      // In/out points per track (only the trimmed part is merged)
+    tempDir?: string
+    onProgress?: ProgressCallback
+  } = {}
+): Promise<number[]> {
+  const { 
+    enablePadding = false, 
+    paddingDuration = 3, 
+    enableFadeOut = false, 
+    fadeOutDuration = 2,
+    audioBitrate = '192k',
+    trackGains = [],
+    crossfade,
+    trackTrims = [],
+    tempDir,
+    onProgress 
+  } = options
+  const processedAudioPaths: string[] = audioPaths.map(p => path.resolve(p))
+
+  // Validate all audio files first (the probed durations place the fade-outs)
+  const validations = await Promise.all(processedAudioPaths.map(p => validateAudioFile(p)))
+  const invalidFiles = processedAudioPaths.filter((_, i) => !validations[i].valid).map(p => path.basename(p))
+  if (invalidFiles.length > 0) {
+    throw new Error(`Processing failed due to corrupted file.\nProblematic files: ${invalidFiles.join(', ')}`)
+  }
+  const durations = validations.map((v, i) => getTrimmedDuration(v.duration, trackTrims[i]))
+
+  log.info(`[AudioProcessor] Merging ${processedAudioPaths.length} track(s): enablePadding=${enablePadding}, paddingDuration=${paddingDuration}, enableFadeOut=${enableFadeOut}, fadeOutDuration=${fadeOutDuration}, crossfade=${crossfade ? `${crossfade.duration}s ${crossfade.curve}` : 'off'}`)
+
+  const workDir = tempDir || path.dirname(path.resolve(outputPath))
+  const stamp = Date.now()
+  const tempFiles: string[] = []
+  const segmentProgress = (done: number) => onProgress?.(Math.round((done / processedAudioPaths.length) * 50))
+
+  try {
+    // 1. One segment per track (each source is decoded once)
+    const segmentPaths: string[] = []
+    for (let i = 0; i < processedAudioPaths.length; i++) {
+      const segmentPath = path.join(workDir, `audio_track_${i}_${stamp}.flac`)
+      tempFiles.push(segmentPath)
+      // Crossfades replace the fade-out between tracks
+      const fadeOut = enableFadeOut && !crossfade && durations[i] > fadeOutDuration
+        ? { start: Math.max(0, durations[i] - fadeOutDuration), duration: fadeOutDuration }
+        : undefined
+      await createTrackSegment(processedAudioPaths[i], segmentPath, {
+        trim: trackTrims[i],
+        gainFilter: buildGainFilter(trackGains[i] ?? 0),
+        fadeOut
+      })
+      segmentPaths.push(segmentPath)
+      segmentProgress(i + 1)
+    }
+
+    // 2. Real length of every segment (what the merge actually adds)
+    const trackLengths = await Promise.all(segmentPaths.map((segmentPath, i) =>
+      getAudioDuration(segmentPath).then((length) => length > 0 ? length : durations[i])))
+    log.info('[AudioProcessor] Track segment lengths:', trackLengths.map((length) => length.toFixed(3)))
+
+    // 3a. Crossfade: blend the segments into each other
+    if (crossfade && segmentPaths.length > 1) {
+      const overlaps = resolveCrossfadeOverlaps(trackLengths, crossfade.duration)
+      const totalDuration = trackLengths.reduce((sum, d) => sum + d, 0) - overlaps.reduce((sum, d) => sum + d, 0)
+      await crossfadeSegments(segmentPaths, outputPath, overlaps, crossfade, totalDuration, audioBitrate, (p) => onProgress?.(50 + Math.round(p / 2)))
+      log.info('[AudioProcessor] ✅ Audio concatenation completed')
+      onProgress?.(100)
+      return applyCrossfadeOverlaps(trackLengths, overlaps)
+    }
+
+    // 3b. Join the segments (with the silence segment between tracks)
+    let paddingLength = 0
+    const joinPaths: string[] = []
+    if (enablePadding && paddingDuration > 0 && segmentPaths.length > 1) {
+      const silencePath = path.join(workDir, `audio_padding_${stamp}.flac`)
+      tempFiles.push(silencePath)
+      await createSilenceSegment(silencePath, paddingDuration)
+      paddingLength = await getAudioDuration(silencePath).then((length) => length > 0 ? length : paddingDuration)
+      segmentPaths.forEach((segmentPath, i) => joinPaths.push(...(i < segmentPaths.length - 1 ? [segmentPath, silencePath] : [segmentPath])))
+    } else {
+      joinPaths.push(...segmentPaths)
+    }
+    await concatenateAudiosStreamCopy(joinPaths, outputPath, audioBitrate, (p) => onProgress?.(50 + Math.round(p / 2)), workDir)
+    onProgress?.(100)
+    return trackLengths.map((length, i) => length + (i < trackLengths.length - 1 ? paddingLength : 0))
+  } finally {
+    for (const tempFile of tempFiles) {
+      safeRmSync(tempFile)
+    }
+  }
+}
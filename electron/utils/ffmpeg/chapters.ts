@@ -0,0 +1,138 @@
+/**
+ * Chapters - Container Chapter Markers for Playlists and Concats
+ *
+ * The track list shown as YouTube timestamp text is also written into the
+ * output as real chapters (ffmetadata [CHAPTER] entries), so players like
+ * VLC and mpv offer chapter navigation.
+ *
+ * Chapters are added by remuxing the finished output with stream copy
+ * (no re-encode) - MP4/MOV, MKV and WebM all support them. The same pass
+ * writes the output tags (title, artist, ...) when set.
+ */
+
+import ffmpeg from 'fluent-ffmpeg'
+import path from 'node:path'
+import fs from 'node:fs'
+
+export interface Chapter {
+  title: string
+  start: number  // Seconds
+  end: number    // Seconds
+}
+
+// ffmetadata TIMEBASE=1/1000 (milliseconds)
+const CHAPTER_TIMEBASE = 1000
+
+/**
+ * Build one chapter per track
+ *
+ * @param gap - Silence/black screen between tracks (seconds); it belongs to the preceding chapter
+ * @returns Empty list for a single track (nothing to navigate)
+ */
+export function buildChapters(titles: string[], durations: number[], gap = 0): Chapter[] {
+  if (titles.length < 2) {
+    return []
+  }
+
+  const chapters: Chapter[] = []
+  let start = 0
+  for (let i = 0; i < titles.length; i++) {
+    const isLast = i === titles.length - 1
+    const length = Math.max(0, durations[i] || 0) + (isLast ? 0 : gap)
+    chapters.push({ title: titles[i], start, end: start + length })
+    start += length
+  }
+  return chapters
+}
+
+/**
+ * Fit chapters to the real output length (-shortest and frame rounding can end it early)
+ * Chapters starting after the end are dropped and the last one ends with the output.
+ */
+export function fitChaptersToDuration(chapters: Chapter[], duration: number): Chapter[] {
+  if (!(duration > 0)) {
+    return chapters
+  }
+  const fitted = chapters.filter((chapter) => chapter.start < duration)
+  return fitted.map((chapter, i) => i === fitted.length - 1 ? { ...chapter, end: duration } : chapter)
+}
+
+/**
+ * Escape a value for ffmetadata ('=', ';', '#', '\' and newlines are special)
+ */
+function escapeMetadataValue(value: string): string {
+  return value.replace(/[=;#\\\n]/g, (char) => `\\${char}`)
+}
+
+/**
+ * Format chapters as an ffmetadata file
+ */
+export function formatChapterMetadata(chapters: Chapter[]): string {
+  const lines = [';FFMETADATA1']
+  for (const chapter of chapters) {
+    const start = Math.round(chapter.start * CHAPTER_TIMEBASE)
+    // Zero-length chapters are dropped by some players
+    const end = Math.max(start + 1, Math.round(chapter.end * CHAPTER_TIMEBASE))
+    lines.push(
+      '',
+      '[CHAPTER]',
+      `TIMEBASE=1/${CHAPTER_TIMEBASE}`,
+      `START=${start}`,
+      `END=${end}`,
+      `title=${escapeMetadataValue(chapter.title)}`
+    )
+  }
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Write chapters (and output tags) into an existing video (stream copy, replaces the file)
+ *
+ * @param metadataOptions - '-metadata key=value' options for the output tags
+ */
+export async function embedChapters(
+  videoPath: string,
+  chapters: Chapter[],
+  metadataOptions: string[] = []
+): Promise<void> {
+  if (chapters.length === 0 && metadataOptions.length === 0) {
+    return
+  }
+
+  // Work next to the output so the final rename never crosses drives
+  const extension = path.extname(videoPath)
+  const workPath = path.join(path.dirname(videoPath), `.${path.basename(videoPath, extension)}.chapters`)
+  const metadataPath = `${workPath}.txt`
+  const remuxedPath = `${workPath}${extension}`
+  if (chapters.length > 0) {
+    fs.writeFileSync(metadataPath, formatChapterMetadata(chapters), 'utf-8')
+  }
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const command = ffmpeg().input(videoPath)
+      if (chapters.length > 0) {
+        command.input(metadataPath)
+      }
+      // Spread as separate arguments: an array would split tag values with a single space
+      command
+        .outputOptions(...[
+          '-map', '0',              // All streams (including an attached thumbnail)
+          '-map_metadata', '0',     // Keep the output's own tags
+          ...(chapters.length > 0 ? ['-map_chapters', '1'] : []),  // Chapters from the ffmetadata file
+          ...metadataOptions,
+          '-c', 'copy'
+        ])
+        .on('end', () => resolve())
+        .on('error', (err) => reject(err))
+        .save(remuxedPath)
+    })
+    fs.renameSync(remuxedPath, videoPath)
+  } finally {
+    for (const tempPath of [metadataPath, remuxedPath]) {
+      if (fs.existsSync(tempPath)) {
+        fs.rmSync(tempPath, { force: true })
+      }
+    }
+  }
+}
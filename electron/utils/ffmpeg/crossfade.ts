@@ -0,0 +1,76 @@
+/**
+ * Crossfade - Overlapping Transitions Between Playlist Tracks
+ *
+ * Instead of a fade-out followed by padding silence, the end of each track
+ * is blended into the start of the next one with acrossfade (DJ-style mix).
+ * The overlap is shared by both tracks, so every boundary shortens the output
+ * by its crossfade duration and the next track's chapter/timestamp starts
+ * where its audio begins to fade in.
+ */
+
+// acrossfade curve names (c1/c2): the same curve fades one track out and the next in
+export type CrossfadeCurve = 'tri' | 'qsin' | 'hsin' | 'log' | 'exp'
+
+export const CROSSFADE_CURVES: CrossfadeCurve[] = ['tri', 'qsin', 'hsin', 'log', 'exp']
+
+export const DEFAULT_CROSSFADE_CURVE: CrossfadeCurve = 'qsin'
+
+export const MIN_CROSSFADE_SECONDS = 2
+export const MAX_CROSSFADE_SECONDS = 12
+export const DEFAULT_CROSSFADE_SECONDS = 5
+
+export interface CrossfadeOptions {
+  duration: number  // Seconds of overlap between consecutive tracks
+  curve: CrossfadeCurve
+}
+
+export function isCrossfadeCurve(value: unknown): value is CrossfadeCurve {
+  return typeof value === 'string' && (CROSSFADE_CURVES as string[]).includes(value)
+}
+
+/**
+ * Validate crossfade options coming from the renderer (untrusted)
+ * @returns undefined when crossfading is off
+ */
+export function normalizeCrossfadeOptions(raw: unknown): CrossfadeOptions | undefined {
+  if (raw === undefined || raw === null) {
+    return undefined
+  }
+  const { duration, curve } = raw as { duration?: unknown; curve?: unknown }
+  if (typeof duration !== 'number' || !Number.isFinite(duration) ||
+    duration < MIN_CROSSFADE_SECONDS || duration > MAX_CROSSFADE_SECONDS) {
+    throw new Error(`Invalid crossfade duration: ${String(duration)} (${MIN_CROSSFADE_SECONDS}-${MAX_CROSSFADE_SECONDS}s)`)
+  }
+  if (!isCrossfadeCurve(curve)) {
+    throw new Error(`Invalid crossfade curve: ${String(curve)}`)
+  }
+  return { duration, curve }
+}
+
+/**
+ * Overlap of each pair of consecutive tracks (seconds, one entry per boundary)
+ * A short track gives at most half its length to each neighbour, so two
+ * crossfades never overlap inside it.
+ */
+export function resolveCrossfadeOverlaps(trackDurations: number[], duration: number): number[] {
+  const overlaps: number[] = []
+  for (let i = 0; i < trackDurations.length - 1; i++) {
+    const overlap = Math.min(duration, trackDurations[i] / 2, trackDurations[i + 1] / 2)
+    overlaps.push(overlap > 0 ? Math.floor(overlap * 1000) / 1000 : 0)
+  }
+  return overlaps
+}
+
+/**
+ * Blend the end of the first input into the start of the second
+ */
+export function buildCrossfadeFilter(overlap: number, curve: CrossfadeCurve): string {
+  return `acrossfade=d=${overlap.toFixed(3)}:c1=${curve}:c2=${curve}`
+}
+
+/**
+ * Track lengths in the mixed output: each track ends where the crossfade into the next one begins
+ */
+export function applyCrossfadeOverlaps(trackLengths: number[], overlaps: number[]): number[] {
+  return trackLengths.map((length, i) => Math.max(0, length - (overlaps[i] ?? 0)))
+}
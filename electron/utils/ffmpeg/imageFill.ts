@@ -0,0 +1,131 @@
+/**
+ * Image Fill - What Fills the Frame Around Mismatched Images
+ *
+ * Images whose aspect ratio doesn't match the output are fitted by the 1-frame
+ * pre-processing step. The remaining area is filled with:
+ * - black: black letterbox (fastest, previous behavior)
+ * - color: solid fill using the image's dominant color
+ * - blur: blurred and darkened zoomed-in copy of the image behind it
+ * - crop: no bars - the image is zoomed to fill and cropped around a focal point
+ */
+
+import ffmpeg from 'fluent-ffmpeg'
+
+export type ImageFillMode = 'black' | 'color' | 'blur' | 'crop'
+
+export interface ImageFillOptions {
+  mode: ImageFillMode
+  focalX: number  // Crop focal point, % from the left (0-100)
+  focalY: number  // Crop focal point, % from the top (0-100)
+}
+
+const IMAGE_FILL_MODES: ImageFillMode[] = ['black', 'color', 'blur', 'crop']
+
+// Size of the downscaled copy used for dominant color detection
+const COLOR_SAMPLE_SIZE = 32
+
+/**
+ * Validate image fill options coming from the renderer (untrusted)
+ */
+export function normalizeImageFillOptions(raw?: Partial<ImageFillOptions>): ImageFillOptions {
+  const mode = raw?.mode ?? 'black'
+  if (!IMAGE_FILL_MODES.includes(mode)) {
+    throw new Error(`Invalid image fill mode: ${mode}`)
+  }
+  const focalX = Number(raw?.focalX ?? 50)
+  const focalY = Number(raw?.focalY ?? 50)
+  if (!Number.isFinite(focalX) || focalX < 0 || focalX > 100 ||
+    !Number.isFinite(focalY) || focalY < 0 || focalY > 100) {
+    throw new Error('Invalid image fill focal point: must be between 0 and 100')
+  }
+  return { mode, focalX, focalY }
+}
+
+/**
+ * Build the 1-frame pre-processing filters for the given fill mode
+ *
+ * @param fillColor - Hex color (#RRGGBB) for 'color' mode
+ */
+export function buildImageFillFilters(
+  options: ImageFillOptions,
+  videoWidth: number,
+  videoHeight: number,
+  fillColor = '#000000'
+): string[] {
+  const fit = `scale=${videoWidth}:${videoHeight}:force_original_aspect_ratio=decrease`
+  const cover = `scale=${videoWidth}:${videoHeight}:force_original_aspect_ratio=increase`
+
+  if (options.mode === 'crop') {
+    const x = (options.focalX / 100).toFixed(2)
+    const y = (options.focalY / 100).toFixed(2)
+    return [cover, `crop=${videoWidth}:${videoHeight}:(iw-ow)*${x}:(ih-oh)*${y}`]
+  }
+
+  if (options.mode === 'blur') {
+    // Blur strength follows the output size so 720p and 4K look the same
+    const radius = Math.max(2, Math.round(Math.min(videoWidth, videoHeight) / 40))
+    return [
+      `split[fillbg][fillfg];` +
+      `[fillbg]${cover},crop=${videoWidth}:${videoHeight},boxblur=${radius}:2,eq=brightness=-0.15[fillblur];` +
+      `[fillfg]${fit}[fillfit];` +
+      `[fillblur][fillfit]overlay=(W-w)/2:(H-h)/2`
+    ]
+  }
+
+  const padColor = options.mode === 'color' ? fillColor.replace('#', '0x') : 'black'
+  return [fit, `pad=${videoWidth}:${videoHeight}:(ow-iw)/2:(oh-ih)/2:${padColor}`]
+}
+
+/**
+ * Pick the dominant color from raw RGB24 pixels
+ * Pixels are bucketed by their top 3 bits per channel; the most common
+ * bucket wins and its pixels are averaged for the final color.
+ */
+export function pickDominantColor(pixels: Uint8Array): string {
+  const counts = new Map<number, { count: number; r: number; g: number; b: number }>()
+  for (let i = 0; i + 2 < pixels.length; i += 3) {
+    const r = pixels[i]
+    const g = pixels[i + 1]
+    const b = pixels[i + 2]
+    const key = ((r >> 5) << 6) | ((g >> 5) << 3) | (b >> 5)
+    const bucket = counts.get(key) ?? { count: 0, r: 0, g: 0, b: 0 }
+    bucket.count++
+    bucket.r += r
+    bucket.g += g
+    bucket.b += b
+    counts.set(key, bucket)
+  }
+
+  let dominant: { count: number; r: number; g: number; b: number } | undefined
+  for (const bucket of counts.values()) {
+    if (!dominant || bucket.count > dominant.count) {
+      dominant = bucket
+    }
+  }
+  if (!dominant) return '#000000'
+
+  const { count, r, g, b } = dominant
+  const toHex = (sum: number) => Math.round(sum / count).toString(16).padStart(2, '0')
+  return `#${toHex(r)}${toHex(g)}${toHex(b)}`
+}
+
+/**
+ * Detect the dominant color of an image (decodes a 32x32 copy, only 1 frame)
+ * Raw pixels are piped back from ffmpeg, so no temp file is written.
+ *
+ * @returns Hex color (#RRGGBB)
+ */
+export async function detectDominantColor(imagePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    const stream = ffmpeg(imagePath)
+      .videoFilters([`scale=${COLOR_SAMPLE_SIZE}:${COLOR_SAMPLE_SIZE}`])
+      .outputOptions(['-frames:v', '1', '-pix_fmt', 'rgb24'])
+      .format('rawvideo')
+      .on('error', (err) => reject(err))
+      .pipe()
+
+    stream.on('data', (chunk: Buffer) => chunks.push(chunk))
+    stream.on('end', () => resolve(pickDominantColor(Buffer.concat(chunks))))
+  })
+}
@@ -13,7 +13,9 @@ export {
   getVideoDuration,
   getVideoMetadata,
   validateAudioFile,
-  getAudioDuration
+  getAudioDuration,
+  measureLoudness,
+  detectSilence
 } from './metadataAnalyzer.js'
 
 // Audio processing
@@ -0,0 +1,114 @@
+/**
+ * Ken Burns - Slow Zoom/Pan Motion for Still Backgrounds
+ *
+ * Renders ONE motion cycle from the padded background image:
+ * - zoom: slowly zooms in, then back out
+ * - pan: slowly pans left to right, then back (slightly zoomed in)
+ *
+ * Motion follows (1 - cos) / 2, so the last frame meets the first one and
+ * the cycle can be looped by stream copy for the full audio duration.
+ */
+
+import ffmpeg from 'fluent-ffmpeg'
+import path from 'node:path'
+import { log } from '../logger.js'
+import { buildVideoEncoderOptions, type ResolvedVideoEncoder } from './videoEncoder.js'
+
+export type KenBurnsMode = 'zoom' | 'pan'
+
+export interface KenBurnsOptions {
+  mode: KenBurnsMode
+  cycleDuration: number  // Seconds per zoom/pan cycle (5-120)
+}
+
+// Frame rate of the motion cycle
+export const KEN_BURNS_FPS = 25
+
+// Maximum zoom factor (zoom mode) / fixed zoom used to make room for panning (pan mode)
+const MAX_ZOOM = 1.15
+
+/**
+ * Validate Ken Burns options coming from the renderer (untrusted)
+ */
+export function normalizeKenBurnsOptions(raw: Partial<KenBurnsOptions>): KenBurnsOptions {
+  const mode = raw?.mode ?? 'zoom'
+  if (mode !== 'zoom' && mode !== 'pan') {
+    throw new Error(`Invalid motion mode: ${mode}`)
+  }
+  const cycleDuration = Number(raw?.cycleDuration ?? 20)
+  if (!Number.isFinite(cycleDuration) || cycleDuration < 5 || cycleDuration > 120) {
+    throw new Error('Invalid motion cycle duration: must be between 5 and 120')
+  }
+  return { mode, cycleDuration }
+}
+
+/**
+ * Build the zoompan filter chain for one cycle
+ * The image is upscaled 2x first so sub-pixel motion doesn't jitter.
+ */
+export function buildKenBurnsFilters(
+  options: KenBurnsOptions,
+  videoWidth: number,
+  videoHeight: number
+): string[] {
+  const totalFrames = Math.round(options.cycleDuration * KEN_BURNS_FPS)
+  // 0 -> 1 -> 0 over the cycle
+  const phase = `(1-cos(2*PI*on/${totalFrames}))/2`
+
+  let zoomPan: string
+  if (options.mode === 'zoom') {
+    zoomPan = `zoompan=z='1+${(MAX_ZOOM - 1).toFixed(2)}*${phase}':x='iw/2-(iw/zoom/2)':y='ih/2-(ih/zoom/2)'`
+  } else {
+    zoomPan = `zoompan=z='${MAX_ZOOM}':x='(iw-iw/zoom)*${phase}':y='(ih-ih/zoom)/2'`
+  }
+
+  return [
+    `scale=${videoWidth * 2}:${videoHeight * 2}`,
+    `${zoomPan}:d=1:s=${videoWidth}x${videoHeight}:fps=${KEN_BURNS_FPS}`,
+    'format=yuv420p'
+  ]
+}
+
+/**
+ * Render one motion cycle from the padded image (the only re-encode)
+ */
+export async function createKenBurnsCycle(
+  paddedImagePath: string,
+  outputPath: string,
+  options: KenBurnsOptions,
+  videoWidth: number,
+  videoHeight: number,
+  encoder: ResolvedVideoEncoder,
+  currentCommandRef?: { current: ffmpeg.FfmpegCommand | null }
+): Promise<void> {
+  const totalFrames = Math.round(options.cycleDuration * KEN_BURNS_FPS)
+
+  return new Promise((resolve, reject) => {
+    const command = ffmpeg(paddedImagePath)
+      .inputOptions(['-loop', '1', '-framerate', String(KEN_BURNS_FPS)])
+      .videoFilters(buildKenBurnsFilters(options, videoWidth, videoHeight))
+      .outputOptions([
+        '-frames:v', String(totalFrames),
+        ...buildVideoEncoderOptions(encoder),
+        '-pix_fmt', 'yuv420p',
+        '-r', String(KEN_BURNS_FPS),
+        '-movflags', '+faststart'
+      ])
+      .on('start', (cmdLine) => {
+        log.info(`[FFmpeg:kenburns:${path.basename(outputPath)}] ${cmdLine}`)
+      })
+      .on('end', () => {
+        if (currentCommandRef) currentCommandRef.current = null
+        log.info(`✅ Ken Burns cycle created: ${path.basename(outputPath)} (${options.mode}, ${options.cycleDuration}s)`)
+        resolve()
+      })
+      .on('error', (err) => {
+        if (currentCommandRef) currentCommandRef.current = null
+        log.error(`❌ Failed to create Ken Burns cycle: ${err.message}`)
+        reject(err)
+      })
+
+    if (currentCommandRef) currentCommandRef.current = command
+    command.save(outputPath)
+  })
+}
@@ -0,0 +1,738 @@
+/**
+ * Loop Optimizer - Fast Video Loops via Stream Copy
+ *
+ * Exact-duration loops:
+ * 1. Repeating the whole clip as many times as it fits (stream copy!)
+ * 2. Cutting one trimmed partial iteration from the start of the clip (stream copy!)
+ * 3. Joining everything with the concat demuxer (stream copy!)
+ *
+ * Segmented loops (seam crossfade / fade in / fade out - "sandwich" style, like sandwichOptimizer.ts):
+ * 1. Encoding the clip once as Head + Body + Tail sections, plus the short edge pieces:
+ *    faded Intro, faded Outro and/or one Seam transition (tail blended into head)
+ * 2. Joining Intro + Body + (Seam + Body) x (N - 1) + Outro with the concat demuxer (stream copy!)
+ *
+ * Ping-pong loops (boomerang):
+ * 1. Encoding one Forward + Reversed unit of the clip (the only re-encode)
+ * 2. Looping that unit like a regular clip (stream copy!)
+ *
+ * Result: "exactly 10 hours" of a 37-second clip in seconds.
+ */
+
+import ffmpeg from 'fluent-ffmpeg'
+import path from 'node:path'
+import fs from 'node:fs'
+import { log } from '../logger.js'
+import { ProgressCallback } from './types.js'
+import { safeRmSync } from '../fsSafe.js'
+import { calculateLoopPlan, MIN_PARTIAL_DURATION } from '../loopPlan.js'
+import {
+  buildVideoEncoderOptions,
+  buildAudioCodecOptions,
+  buildContainerOptions,
+  type ResolvedVideoEncoder
+} from './videoEncoder.js'
+
+// The reverse filter buffers every decoded frame in memory, so ping-pong is limited to short clips
+const MAX_PING_PONG_CLIP_DURATION = 60
+
+function attachStartLog(command: ffmpeg.FfmpegCommand, label: string) {
+  command.on('start', (cmdLine) => {
+    log.info(`[FFmpeg:${label}] ${cmdLine}`)
+  })
+}
+
+function escapePathForConcatDemuxer(p: string): string {
+  // FFmpeg concat demuxer expects POSIX-style paths even on Windows.
+  // Also escape single quotes to keep `file '...'` lines valid.
+  return p.replace(/\\/g, '/').replace(/'/g, "'\\''")
+}
+
+function timemarkToSeconds(timemark: string): number {
+  const timeParts = String(timemark).split(':')
+  return parseInt(timeParts[0]) * 3600 + parseInt(timeParts[1]) * 60 + parseFloat(timeParts[2])
+}
+
+/**
+ * Encoding settings shared by every re-encoded loop segment (must match for stream-copy concat)
+ */
+function buildSegmentOptions(encoder: ResolvedVideoEncoder, withAudio: boolean): string[] {
+  const isMovFamily = encoder.container === 'mp4' || encoder.container === 'mov'
+  return [
+    ...buildVideoEncoderOptions(encoder),
+    '-pix_fmt', 'yuv420p',
+    // Same timescale in every MP4/MOV segment, or the joined timestamps drift
+    ...(isMovFamily ? ['-video_track_timescale', '90000'] : []),
+    ...(withAudio
+      ? [...buildAudioCodecOptions(encoder.container, { bitrate: '192k', sampleRate: 48000 }), '-ac', '2']
+      : ['-an'])
+  ]
+}
+
+interface LoopToDurationOptions {
+  clipDuration: number       // Duration of one iteration (seconds, from ffprobe)
+  targetDuration: number     // Exact output duration (seconds)
+  containerOptions?: string[]  // Output options of the joined file (e.g. MP4 faststart)
+  tempDir?: string
+  onProgress?: ProgressCallback
+  currentCommandRef?: { current: ffmpeg.FfmpegCommand | null }
+}
+
+interface SegmentedLoopOptions {
+  clipDuration: number        // Duration of one iteration (seconds, from ffprobe)
+  hasAudio: boolean           // Whether the clip has an audio stream
+  iterations: number          // Used when targetDuration is not set
+  targetDuration?: number     // Exact output duration (seconds)
+  crossfadeDuration?: number  // Length of the blended seam (seconds, 0 = hard cut)
+  enableFadeIn?: boolean      // Fade from black / silence at the start
+  enableFadeOut?: boolean     // Fade to black / silence at the end
+  fadeDuration?: number
+  videoEncoder: ResolvedVideoEncoder  // Codec/container of the re-encoded segments and the output
+  tempDir?: string
+  onProgress?: ProgressCallback
+  currentCommandRef?: { current: ffmpeg.FfmpegCommand | null }
+}
+
+/**
+ * How the audio of a ping-pong unit is handled
+ * - keep: original audio plays forward in both halves
+ * - reverse: audio follows the video (forward, then reversed)
+ * - drop: output has no audio
+ */
+export type PingPongAudioMode = 'keep' | 'reverse' | 'drop'
+
+interface PingPongLoopOptions {
+  clipDuration: number        // Duration of the forward clip (seconds, from ffprobe)
+  hasAudio: boolean           // Whether the clip has an audio stream
+  audioMode: PingPongAudioMode
+  iterations: number          // Forward + reversed units, used when targetDuration is not set
+  targetDuration?: number     // Exact output duration (seconds)
+  enableFadeIn?: boolean
+  enableFadeOut?: boolean
+  fadeDuration?: number
+  videoEncoder: ResolvedVideoEncoder  // Codec/container of the re-encoded segments and the output
+  tempDir?: string
+  onProgress?: ProgressCallback
+  currentCommandRef?: { current: ffmpeg.FfmpegCommand | null }
+}
+
+interface LoopSegment {
+  path: string
+  duration: number
+}
+
+/**
+ * Cut the first N seconds of the clip (stream copy)
+ * The clip starts on a keyframe, so only the end is cut - which stream copy handles per frame.
+ */
+async function createPartialIteration(
+  inputPath: string,
+  outputPath: string,
+  duration: number,
+  currentCommandRef?: { current: ffmpeg.FfmpegCommand | null }
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const command = ffmpeg(inputPath)
+      .outputOptions([
+        '-t', duration.toFixed(3),
+        '-c', 'copy'  // ⚡ STREAM COPY - NO RE-ENCODING!
+      ])
+      .on('end', () => {
+        if (currentCommandRef) currentCommandRef.current = null
+        log.info(`✅ Partial iteration created: ${path.basename(outputPath)} (${duration.toFixed(3)}s)`)
+        resolve()
+      })
+      .on('error', (err) => {
+        if (currentCommandRef) currentCommandRef.current = null
+        log.error(`❌ Failed to create partial iteration: ${err.message}`)
+        reject(err)
+      })
+
+    if (currentCommandRef) currentCommandRef.current = command
+    attachStartLog(command, `loop:partial:${path.basename(outputPath)}`)
+    command.save(outputPath)
+  })
+}
+
+/**
+ * Concatenate clip files using the concat demuxer (stream copy)
+ */
+async function concatenateIterations(
+  files: string[],
+  outputPath: string,
+  concatListPath: string,
+  totalDuration: number,
+  onProgress?: ProgressCallback,
+  currentCommandRef?: { current: ffmpeg.FfmpegCommand | null },
+  containerOptions: string[] = []
+): Promise<void> {
+  const concatList = files
+    .map(f => `file '${escapePathForConcatDemuxer(f)}'`)
+    .join('\n')
+
+  fs.writeFileSync(concatListPath, concatList, 'utf-8')
+
+  log.info(`📝 Concat list created with ${files.length} entries`)
+
+  return new Promise((resolve, reject) => {
+    const command = ffmpeg()
+      .input(concatListPath)
+      .inputOptions([
+        '-f', 'concat',
+        '-safe', '0'
+      ])
+      .outputOptions([
+        '-c', 'copy',  // ⚡⚡⚡ STREAM COPY - NO RE-ENCODING!
+        ...containerOptions
+      ])
+      .on('progress', (p) => {
+        // percent is unreliable for concat demuxer input; use timemark instead
+        if (onProgress && p.timemark) {
+          const progressPercent = Math.round((timemarkToSeconds(p.timemark) / totalDuration) * 100)
+          onProgress(Math.max(0, Math.min(progressPercent, 99)))
+        }
+      })
+      .on('end', () => {
+        if (currentCommandRef) currentCommandRef.current = null
+        log.info(`✅ Loop assembled: ${outputPath}`)
+        resolve()
+      })
+      .on('error', (err) => {
+        if (currentCommandRef) currentCommandRef.current = null
+        log.error(`❌ Failed to assemble loop: ${err.message}`)
+        reject(err)
+      })
+
+    if (currentCommandRef) currentCommandRef.current = command
+    attachStartLog(command, `loop:concat:${path.basename(outputPath)}`)
+    command.save(outputPath)
+  })
+}
+
+/**
+ * Re-encode a section of the clip (accurate seek, shared segment settings)
+ */
+async function createClipSection(
+  inputPath: string,
+  outputPath: string,
+  startTime: number,
+  duration: number,
+  hasAudio: boolean,
+  encoder: ResolvedVideoEncoder,
+  options: {
+    fadeIn?: number   // Fade-in duration at the start of the section
+    fadeOut?: number  // Fade-out duration at the end of the section
+    currentCommandRef?: { current: ffmpeg.FfmpegCommand | null }
+  } = {}
+): Promise<void> {
+  const { fadeIn = 0, fadeOut = 0, currentCommandRef } = options
+
+  return new Promise((resolve, reject) => {
+    const command = ffmpeg(inputPath)
+      .inputOptions(['-ss', startTime.toFixed(3), '-t', duration.toFixed(3)])
+
+    // Apply fade filters if needed
+    const videoFilters: string[] = []
+    const audioFilters: string[] = []
+    if (fadeIn > 0) {
+      videoFilters.push(`fade=t=in:st=0:d=${fadeIn}`)
+      audioFilters.push(`afade=t=in:st=0:d=${fadeIn}`)
+    }
+    if (fadeOut > 0) {
+      const fadeStart = Math.max(0, duration - fadeOut).toFixed(3)
+      videoFilters.push(`fade=t=out:st=${fadeStart}:d=${fadeOut}`)
+      audioFilters.push(`afade=t=out:st=${fadeStart}:d=${fadeOut}`)
+    }
+    if (videoFilters.length > 0) {
+      command.videoFilters(videoFilters)
+    }
+    if (hasAudio && audioFilters.length > 0) {
+      command.audioFilters(audioFilters)
+    }
+
+    command
+      .outputOptions([
+        ...buildSegmentOptions(encoder, hasAudio)
+      ])
+      .on('end', () => {
+        if (currentCommandRef) currentCommandRef.current = null
+        log.info(`✅ Clip section created: ${path.basename(outputPath)} (${startTime.toFixed(3)}s +${duration.toFixed(3)}s)`)
+        resolve()
+      })
+      .on('error', (err) => {
+        if (currentCommandRef) currentCommandRef.current = null
+        log.error(`❌ Failed to create clip section: ${err.message}`)
+        reject(err)
+      })
+
+    if (currentCommandRef) currentCommandRef.current = command
+    attachStartLog(command, `loop:section:${path.basename(outputPath)}`)
+    command.save(outputPath)
+  })
+}
+
+/**
+ * Create the seam transition: Tail section blended into Head section
+ * (video xfade + audio acrossfade over the last N seconds of the tail)
+ */
+async function createSeamTransition(
+  inputPath: string,
+  outputPath: string,
+  clipDuration: number,
+  edgeDuration: number,
+  crossfadeDuration: number,
+  hasAudio: boolean,
+  encoder: ResolvedVideoEncoder,
+  currentCommandRef?: { current: ffmpeg.FfmpegCommand | null }
+): Promise<void> {
+  const tailStart = (clipDuration - edgeDuration).toFixed(3)
+  const edge = edgeDuration.toFixed(3)
+  const xfade = crossfadeDuration.toFixed(3)
+  const offset = (edgeDuration - crossfadeDuration).toFixed(3)
+  const transitionDuration = (edgeDuration * 2 - crossfadeDuration).toFixed(3)
+
+  const filters = [
+    '[0:v]split[vtail][vhead]',
+    `[vtail]trim=start=${tailStart},setpts=PTS-STARTPTS[vt]`,
+    `[vhead]trim=end=${edge},setpts=PTS-STARTPTS[vh]`,
+    `[vt][vh]xfade=transition=fade:duration=${xfade}:offset=${offset},format=yuv420p[v]`
+  ]
+  if (hasAudio) {
+    filters.push(
+      '[0:a]asplit[atail][ahead]',
+      `[atail]atrim=start=${tailStart},asetpts=PTS-STARTPTS[at]`,
+      `[ahead]atrim=end=${edge},asetpts=PTS-STARTPTS[ah]`,
+      `[at][ah]acrossfade=d=${xfade}[a]`
+    )
+  }
+
+  return new Promise((resolve, reject) => {
+    const command = ffmpeg(inputPath)
+      .complexFilter(filters)
+      .outputOptions([
+        '-map', '[v]',
+        ...(hasAudio ? ['-map', '[a]'] : []),
+        '-t', transitionDuration,
+        ...buildSegmentOptions(encoder, hasAudio)
+      ])
+      .on('end', () => {
+        if (currentCommandRef) currentCommandRef.current = null
+        log.info(`✅ Seam transition created: ${path.basename(outputPath)} (${transitionDuration}s, ${xfade}s crossfade)`)
+        resolve()
+      })
+      .on('error', (err) => {
+        if (currentCommandRef) currentCommandRef.current = null
+        log.error(`❌ Failed to create seam transition: ${err.message}`)
+        reject(err)
+      })
+
+    if (currentCommandRef) currentCommandRef.current = command
+    attachStartLog(command, `loop:transition:${path.basename(outputPath)}`)
+    command.save(outputPath)
+  })
+}
+
+/**
+ * Re-encode the last N seconds of a segment sequence with a fade-out
+ * (used when the output ends at an arbitrary point of the clip)
+ */
+async function createFadeOutEnding(
+  segments: LoopSegment[],
+  outputPath: string,
+  concatListPath: string,
+  startOffset: number,
+  duration: number,
+  hasAudio: boolean,
+  encoder: ResolvedVideoEncoder,
+  currentCommandRef?: { current: ffmpeg.FfmpegCommand | null }
+): Promise<void> {
+  const concatList = segments
+    .map(s => `file '${escapePathForConcatDemuxer(s.path)}'`)
+    .join('\n')
+  fs.writeFileSync(concatListPath, concatList, 'utf-8')
+
+  return new Promise((resolve, reject) => {
+    const command = ffmpeg()
+      .input(concatListPath)
+      .inputOptions([
+        '-f', 'concat',
+        '-safe', '0',
+        '-ss', startOffset.toFixed(3)
+      ])
+      .videoFilters([`fade=t=out:st=0:d=${duration.toFixed(3)}`])
+
+    if (hasAudio) {
+      command.audioFilters([`afade=t=out:st=0:d=${duration.toFixed(3)}`])
+    }
+
+    command
+      .outputOptions([
+        '-t', duration.toFixed(3),
+        ...buildSegmentOptions(encoder, hasAudio)
+      ])
+      .on('end', () => {
+        if (currentCommandRef) currentCommandRef.current = null
+        log.info(`✅ Fade-out ending created: ${path.basename(outputPath)} (${duration.toFixed(3)}s)`)
+        resolve()
+      })
+      .on('error', (err) => {
+        if (currentCommandRef) currentCommandRef.current = null
+        log.error(`❌ Failed to create fade-out ending: ${err.message}`)
+        reject(err)
+      })
+
+    if (currentCommandRef) currentCommandRef.current = command
+    attachStartLog(command, `loop:ending:${path.basename(outputPath)}`)
+    command.save(outputPath)
+  })
+}
+
+/**
+ * Encode one ping-pong unit: the clip played forward, then reversed
+ */
+async function createPingPongUnit(
+  inputPath: string,
+  outputPath: string,
+  audioMode: PingPongAudioMode,
+  hasAudio: boolean,
+  encoder: ResolvedVideoEncoder,
+  currentCommandRef?: { current: ffmpeg.FfmpegCommand | null }
+): Promise<void> {
+  const withAudio = hasAudio && audioMode !== 'drop'
+
+  const filters = [
+    '[0:v]split[vfwd][vsrc]',
+    '[vsrc]reverse[vrev]',
+    '[vfwd][vrev]concat=n=2:v=1:a=0,format=yuv420p[v]'
+  ]
+  if (withAudio) {
+    filters.push('[0:a]asplit[afwd][asrc]')
+    if (audioMode === 'reverse') {
+      filters.push('[asrc]areverse[aback]', '[afwd][aback]concat=n=2:v=0:a=1[a]')
+    } else {
+      filters.push('[afwd][asrc]concat=n=2:v=0:a=1[a]')
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    const command = ffmpeg(inputPath)
+      .complexFilter(filters)
+      .outputOptions([
+        '-map', '[v]',
+        ...(withAudio ? ['-map', '[a]'] : []),
+        ...buildSegmentOptions(encoder, withAudio)
+      ])
+      .on('end', () => {
+        if (currentCommandRef) currentCommandRef.current = null
+        log.info(`✅ Ping-pong unit created: ${path.basename(outputPath)} (audio: ${withAudio ? audioMode : 'none'})`)
+        resolve()
+      })
+      .on('error', (err) => {
+        if (currentCommandRef) currentCommandRef.current = null
+        log.error(`❌ Failed to create ping-pong unit: ${err.message}`)
+        reject(err)
+      })
+
+    if (currentCommandRef) currentCommandRef.current = command
+    attachStartLog(command, `loop:pingpong:${path.basename(outputPath)}`)
+    command.save(outputPath)
+  })
+}
+
+/**
+ * Loop a video to an exact target duration
+ *
+ * This is the main entry point for target-duration loops
+ */
+export async function loopVideoToDuration(
+  inputPath: string,
+  outputPath: string,
+  options: LoopToDurationOptions
+): Promise<string> {
+  const { clipDuration, targetDuration, containerOptions, tempDir, onProgress, currentCommandRef } = options
+
+  const plan = calculateLoopPlan(clipDuration, targetDuration)
+  if (!plan) {
+    throw new Error(`Invalid loop durations: clip ${clipDuration}s, target ${targetDuration}s`)
+  }
+  const { fullIterations, partialDuration } = plan
+  const workDir = tempDir || path.dirname(outputPath)
+  const ext = path.extname(inputPath)
+  const tempFiles: string[] = []
+
+  try {
+    log.info(`🔁 Looping to ${targetDuration}s: ${fullIterations} full iteration(s) + ${partialDuration.toFixed(3)}s partial`)
+
+    const files: string[] = new Array(fullIterations).fill(inputPath)
+
+    // 1. Trimmed partial iteration (if the target isn't a whole multiple of the clip)
+    if (partialDuration > 0) {
+      const partialPath = path.join(workDir, `loop_partial_${Date.now()}${ext}`)
+      tempFiles.push(partialPath)
+      await createPartialIteration(inputPath, partialPath, partialDuration, currentCommandRef)
+      files.push(partialPath)
+    }
+
+    if (onProgress) onProgress(5)
+
+    // 2. Join whole iterations + partial iteration using stream copy
+    const concatListPath = path.join(workDir, `loop_concat_${Date.now()}.txt`)
+    tempFiles.push(concatListPath)
+    await concatenateIterations(files, outputPath, concatListPath, targetDuration, (p) => {
+      if (onProgress) onProgress(5 + Math.round(p * 0.95))
+    }, currentCommandRef, containerOptions)
+
+    if (onProgress) onProgress(100)
+    return outputPath
+  } finally {
+    for (const tempFile of tempFiles) {
+      if (fs.existsSync(tempFile)) {
+        try {
+          safeRmSync(tempFile)
+        } catch (e) {
+          log.warn(`Failed to delete temp file: ${tempFile}`)
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Loop a video with seam crossfade and/or fade in/out
+ *
+ * Only the clip itself (once) and a few short edge pieces are re-encoded;
+ * the long output is assembled by stream copy.
+ */
+export async function loopVideoWithSegments(
+  inputPath: string,
+  outputPath: string,
+  options: SegmentedLoopOptions
+): Promise<string> {
+  const {
+    clipDuration,
+    hasAudio,
+    iterations,
+    targetDuration,
+    crossfadeDuration = 0,
+    enableFadeIn = false,
+    enableFadeOut = false,
+    fadeDuration = 2,
+    videoEncoder,
+    tempDir,
+    onProgress,
+    currentCommandRef
+  } = options
+
+  if (!Number.isFinite(clipDuration) || clipDuration <= 0) {
+    throw new Error(`Invalid clip duration: ${clipDuration}`)
+  }
+
+  // Head/Tail sections must cover both the seam crossfade and the fades
+  const fadeLength = enableFadeIn || enableFadeOut ? fadeDuration : 0
+  const edgeDuration = Math.max(crossfadeDuration, fadeLength)
+  const bodyDuration = clipDuration - edgeDuration * 2
+  if (bodyDuration <= 0) {
+    throw new Error(`Clip is too short (${clipDuration.toFixed(2)}s) for ${edgeDuration}s crossfade/fade effects`)
+  }
+  if (targetDuration !== undefined && targetDuration < edgeDuration * 2) {
+    throw new Error(`Target duration is too short (${targetDuration}s) for ${edgeDuration}s crossfade/fade effects`)
+  }
+
+  const workDir = tempDir || path.dirname(outputPath)
+  const stamp = Date.now()
+  const tempFiles: string[] = []
+  const tempPath = (name: string, ext = `.${videoEncoder.container}`) => {
+    const p = path.join(workDir, `loop_${name}_${stamp}${ext}`)
+    tempFiles.push(p)
+    return p
+  }
+
+  try {
+    log.info(`🔁 Segmented loop: edge ${edgeDuration}s, crossfade ${crossfadeDuration}s, fade in: ${enableFadeIn}, fade out: ${enableFadeOut}, ${hasAudio ? 'with' : 'without'} audio`)
+
+    // 1. Encode the clip once as Head + Body + Tail sections
+    const head: LoopSegment = { path: tempPath('head'), duration: edgeDuration }
+    const body: LoopSegment = { path: tempPath('body'), duration: bodyDuration }
+    const tail: LoopSegment = { path: tempPath('tail'), duration: edgeDuration }
+    await createClipSection(inputPath, head.path, 0, edgeDuration, hasAudio, videoEncoder, { currentCommandRef })
+    await createClipSection(inputPath, body.path, edgeDuration, bodyDuration, hasAudio, videoEncoder, { currentCommandRef })
+    await createClipSection(inputPath, tail.path, clipDuration - edgeDuration, edgeDuration, hasAudio, videoEncoder, { currentCommandRef })
+    if (onProgress) onProgress(20)
+
+    // 2. Edge pieces: faded Intro, Seam (crossfade transition or plain Tail + Head)
+    let intro = head
+    if (enableFadeIn) {
+      intro = { path: tempPath('intro'), duration: edgeDuration }
+      await createClipSection(inputPath, intro.path, 0, edgeDuration, hasAudio, videoEncoder, { fadeIn: fadeDuration, currentCommandRef })
+    }
+
+    let seam: LoopSegment[] = [tail, head]
+    if (crossfadeDuration > 0) {
+      const transition = { path: tempPath('transition'), duration: edgeDuration * 2 - crossfadeDuration }
+      await createSeamTransition(inputPath, transition.path, clipDuration, edgeDuration, crossfadeDuration, hasAudio, videoEncoder, currentCommandRef)
+      seam = [transition]
+    }
+    if (onProgress) onProgress(30)
+
+    // 3. Build the sequence: Intro + Body + (Seam + Body) x (N - 1) + Outro
+    const segments: LoopSegment[] = [intro, body]
+
+    if (targetDuration === undefined) {
+      for (let i = 1; i < iterations; i++) {
+        segments.push(...seam, body)
+      }
+      let outro = tail
+      if (enableFadeOut) {
+        outro = { path: tempPath('outro'), duration: edgeDuration }
+        await createClipSection(inputPath, outro.path, clipDuration - edgeDuration, edgeDuration, hasAudio, videoEncoder, { fadeOut: fadeDuration, currentCommandRef })
+      }
+      segments.push(outro)
+    } else {
+      // Exact duration: repeat Seam + Body until the target is covered, then trim the end
+      const seamDuration = seam.reduce((sum, s) => sum + s.duration, 0)
+      let coveredDuration = intro.duration + body.duration
+      while (coveredDuration < targetDuration) {
+        segments.push(...seam, body)
+        coveredDuration += seamDuration + body.duration
+      }
+
+      // Everything before cutPoint is stream-copied; a fade-out ending is re-encoded after it
+      const fadeOutLength = enableFadeOut ? Math.min(fadeDuration, targetDuration) : 0
+      const cutPoint = targetDuration - fadeOutLength
+
+      const kept: LoopSegment[] = []
+      const ending: LoopSegment[] = []
+      let endingOffset = 0
+      let position = 0
+      for (const segment of segments) {
+        const segmentEnd = position + segment.duration
+        if (segmentEnd <= cutPoint + MIN_PARTIAL_DURATION) {
+          kept.push(segment)
+        } else {
+          if (position < cutPoint - MIN_PARTIAL_DURATION) {
+            // Segment spans the cut point: stream-copy its first part
+            const partial = { path: tempPath(`partial${kept.length}`), duration: cutPoint - position }
+            await createPartialIteration(segment.path, partial.path, partial.duration, currentCommandRef)
+            kept.push(partial)
+          }
+          if (fadeOutLength > 0 && position < targetDuration) {
+            if (ending.length === 0) endingOffset = Math.max(0, cutPoint - position)
+            ending.push(segment)
+          }
+        }
+        position = segmentEnd
+      }
+
+      if (ending.length > 0) {
+        const outro = { path: tempPath('ending'), duration: fadeOutLength }
+        await createFadeOutEnding(ending, outro.path, tempPath('ending_list', '.txt'), endingOffset, fadeOutLength, hasAudio, videoEncoder, currentCommandRef)
+        kept.push(outro)
+      }
+      segments.splice(0, segments.length, ...kept)
+    }
+
+    const totalDuration = segments.reduce((sum, s) => sum + s.duration, 0)
+    log.info(`📊 Sequence: ${segments.length} segments, ${totalDuration.toFixed(3)}s total`)
+    if (onProgress) onProgress(40)
+
+    // 4. Join everything using stream copy
+    await concatenateIterations(segments.map(s => s.path), outputPath, tempPath('concat', '.txt'), totalDuration, (p) => {
+      if (onProgress) onProgress(40 + Math.round(p * 0.6))
+    }, currentCommandRef, buildContainerOptions(videoEncoder.container))
+
+    if (onProgress) onProgress(100)
+    return outputPath
+  } finally {
+    for (const tempFile of tempFiles) {
+      if (fs.existsSync(tempFile)) {
+        try {
+          safeRmSync(tempFile)
+        } catch (e) {
+          log.warn(`Failed to delete temp file: ${tempFile}`)
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Loop a video back and forth (ping-pong / boomerang)
+ *
+ * Short clips that don't loop get no jump cut: the forward + reversed unit
+ * is encoded once, then looped like a regular clip by stream copy.
+ */
+export async function loopVideoPingPong(
+  inputPath: string,
+  outputPath: string,
+  options: PingPongLoopOptions
+): Promise<string> {
+  const {
+    clipDuration,
+    hasAudio,
+    audioMode,
+    iterations,
+    targetDuration,
+    enableFadeIn = false,
+    enableFadeOut = false,
+    fadeDuration = 2,
+    videoEncoder,
+    tempDir,
+    onProgress,
+    currentCommandRef
+  } = options
+
+  if (!Number.isFinite(clipDuration) || clipDuration <= 0) {
+    throw new Error(`Invalid clip duration: ${clipDuration}`)
+  }
+  if (clipDuration > MAX_PING_PONG_CLIP_DURATION) {
+    throw new Error(`Ping-pong loop supports clips up to ${MAX_PING_PONG_CLIP_DURATION}s (clip is ${clipDuration.toFixed(2)}s)`)
+  }
+
+  const workDir = tempDir || path.dirname(outputPath)
+  const unitPath = path.join(workDir, `loop_pingpong_${Date.now()}.${videoEncoder.container}`)
+  const unitDuration = clipDuration * 2
+  const unitHasAudio = hasAudio && audioMode !== 'drop'
+
+  try {
+    log.info(`🔁 Ping-pong loop: ${clipDuration}s clip -> ${unitDuration}s unit, audio: ${unitHasAudio ? audioMode : 'none'}`)
+
+    // 1. Forward + Reversed unit (the only full re-encode)
+    await createPingPongUnit(inputPath, unitPath, audioMode, hasAudio, videoEncoder, currentCommandRef)
+    if (onProgress) onProgress(30)
+
+    // 2. Loop the unit like a regular clip
+    const loopProgress: ProgressCallback = (p) => {
+      if (onProgress) onProgress(30 + Math.round(p * 0.7))
+    }
+    if (enableFadeIn || enableFadeOut) {
+      return await loopVideoWithSegments(unitPath, outputPath, {
+        clipDuration: unitDuration,
+        hasAudio: unitHasAudio,
+        iterations,
+        targetDuration,
+        enableFadeIn,
+        enableFadeOut,
+        fadeDuration,
+        videoEncoder,
+        tempDir: workDir,
+        onProgress: loopProgress,
+        currentCommandRef
+      })
+    }
+    return await loopVideoToDuration(unitPath, outputPath, {
+      clipDuration: unitDuration,
+      targetDuration: targetDuration ?? unitDuration * iterations,
+      containerOptions: buildContainerOptions(videoEncoder.container),
+      tempDir: workDir,
+      onProgress: loopProgress,
+      currentCommandRef
+    })
+  } finally {
+    if (fs.existsSync(unitPath)) {
+      try {
+        safeRmSync(unitPath)
+      } catch (e) {
+        log.warn(`Failed to delete temp file: ${unitPath}`)
+      }
+    }
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Loudness - EBU R128 Normalization Across Tracks and Clips
+ *
+ * Two passes: the first runs loudnorm in analysis mode on each input
+ * (integrated loudness, true peak, loudness range), the second applies one
+ * static gain per track so every track lands on the chosen target.
+ *
+ * A static gain (instead of loudnorm's dynamic mode) keeps the dynamics of
+ * each track and is the same for every segment of a track, so segmented
+ * playlists stay seamless. The gain is capped so the true peak stays under
+ * the limit - a track that can't reach the target without clipping ends up
+ * slightly quieter instead.
+ */
+
+export type LoudnessTarget = -14 | -16 | -23
+
+// -14 LUFS: YouTube/streaming, -16: podcasts/Apple, -23: EBU R128 broadcast
+export const LOUDNESS_TARGETS: LoudnessTarget[] = [-14, -16, -23]
+
+export const DEFAULT_LOUDNESS_TARGET: LoudnessTarget = -14
+
+// dBTP ceiling (leaves headroom for lossy encoding)
+export const LOUDNESS_TRUE_PEAK_LIMIT = -1
+
+// Near-silent tracks are not boosted beyond this
+const MAX_GAIN_DB = 20
+
+export interface LoudnessOptions {
+  target: LoudnessTarget
+  truePeak: number  // dBTP
+}
+
+export interface LoudnessMeasurement {
+  integrated: number  // LUFS
+  truePeak: number    // dBTP
+  range: number       // LU (LRA)
+  threshold: number   // LUFS
+}
+
+export interface LoudnessGain {
+  gain: number          // dB
+  peakLimited: boolean  // Capped by the true-peak limit
+}
+
+/**
+ * Validate loudness options coming from the renderer (untrusted)
+ * @returns undefined when normalization is off
+ */
+export function normalizeLoudnessOptions(raw: unknown): LoudnessOptions | undefined {
+  if (raw === undefined || raw === null) {
+    return undefined
+  }
+  const target = (raw as { target?: unknown }).target
+  if (!(LOUDNESS_TARGETS as unknown[]).includes(target)) {
+    throw new Error(`Invalid loudness target: ${String(target)}`)
+  }
+  return { target: target as LoudnessTarget, truePeak: LOUDNESS_TRUE_PEAK_LIMIT }
+}
+
+/**
+ * First pass: loudnorm in analysis mode (prints its measurement as JSON)
+ */
+export function buildLoudnessMeasureFilter(options: LoudnessOptions): string {
+  return `loudnorm=I=${options.target}:TP=${options.truePeak}:LRA=11:print_format=json`
+}
+
+/**
+ * Read the measurement loudnorm printed at the end of ffmpeg's stderr
+ * Silent inputs report -inf, which becomes -Infinity.
+ * @returns null when no measurement was printed
+ */
+export function parseLoudnormStats(stderr: string): LoudnessMeasurement | null {
+  const start = stderr.lastIndexOf('"input_i"')
+  if (start < 0) return null
+  const open = stderr.lastIndexOf('{', start)
+  const close = stderr.indexOf('}', start)
+  if (open < 0 || close < 0) return null
+
+  let stats: Record<string, string>
+  try {
+    stats = JSON.parse(stderr.slice(open, close + 1))
+  } catch {
+    return null
+  }
+  const toNumber = (value: string | undefined): number => {
+    if (value === undefined) return NaN
+    const trimmed = value.trim()
+    if (trimmed === '-inf') return -Infinity
+    if (trimmed === 'inf' || trimmed === '+inf') return Infinity
+    return Number(trimmed)
+  }
+  const measurement = {
+    integrated: toNumber(stats.input_i),
+    truePeak: toNumber(stats.input_tp),
+    range: toNumber(stats.input_lra),
+    threshold: toNumber(stats.input_thresh)
+  }
+  return Number.isNaN(measurement.integrated) ? null : measurement
+}
+
+/**
+ * Static gain that brings a track to the target without passing the true-peak limit
+ */
+export function computeLoudnessGain(measurement: LoudnessMeasurement, options: LoudnessOptions): LoudnessGain {
+  // Silence (or a failed measurement) is left alone
+  if (!Number.isFinite(measurement.integrated)) {
+    return { gain: 0, peakLimited: false }
+  }
+  const targetGain = Math.min(options.target - measurement.integrated, MAX_GAIN_DB)
+  const peakHeadroom = Number.isFinite(measurement.truePeak) ? options.truePeak - measurement.truePeak : Infinity
+  const gain = Math.min(targetGain, peakHeadroom)
+  return { gain: Math.round(gain * 100) / 100, peakLimited: peakHeadroom < targetGain }
+}
+
+/**
+ * Second pass: the per-track gain as an audio filter
+ * -Infinity is a muted track (see trackVolume.ts).
+ * @returns null for 0 dB (nothing to apply)
+ */
+export function buildGainFilter(gain: number): string | null {
+  if (gain === 0) return null
+  return gain === -Infinity ? 'volume=0' : `volume=${gain.toFixed(2)}dB`
+}
+
+/**
+ * One log line per track: measured values and the applied gain
+ */
+export function formatLoudnessReport(
+  name: string,
+  measurement: LoudnessMeasurement,
+  { gain, peakLimited }: LoudnessGain,
+  options: LoudnessOptions
+): string {
+  const format = (value: number) => (Number.isFinite(value) ? value.toFixed(1) : String(value))
+  const sign = gain > 0 ? '+' : ''
+  return `${name}: ${format(measurement.integrated)} LUFS, ${format(measurement.truePeak)} dBTP, LRA ${format(measurement.range)} LU` +
+    ` -> ${sign}${gain.toFixed(2)} dB (target ${options.target} LUFS${peakLimited ? `, limited by ${options.truePeak} dBTP peak` : ''})`
+}
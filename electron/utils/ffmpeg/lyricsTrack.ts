@@ -0,0 +1,147 @@
+/**
+ * Lyrics Track - Lyrics Cues Written Into the Finished Output
+ *
+ * - soft: muxed as a subtitle stream (stream copy): mov_text in MP4/MOV,
+ *         SRT in MKV, WebVTT in WebM
+ * - burn: drawn into the picture with the ass filter (video re-encode,
+ *         audio copied). Still image outputs run at 1 fps, so they are
+ *         raised to LYRICS_BURN_MIN_FPS to change lines on time.
+ *
+ * Work files live next to the output so the final rename never crosses drives.
+ */
+
+import ffmpeg from 'fluent-ffmpeg'
+import path from 'node:path'
+import fs from 'node:fs'
+import { log } from '../logger.js'
+import { safeRmSync } from '../fsSafe.js'
+import { formatLyricsAss, formatLyricsSrt, type LyricsCue } from '../lyrics.js'
+import {
+  buildVideoEncoderOptions,
+  buildContainerOptions,
+  type OutputContainer,
+  type ResolvedVideoEncoder
+} from './videoEncoder.js'
+
+const LYRICS_BURN_MIN_FPS = 10
+
+const SUBTITLE_CODECS: Record<OutputContainer, string> = {
+  mp4: 'mov_text',
+  mov: 'mov_text',
+  mkv: 'srt',
+  webm: 'webvtt'
+}
+
+function escapeFilterPath(p: string): string {
+  // Same quoting as the drawtext paths in playlistOptimizer
+  return p.replace(/\\/g, '/').replace(/:/g, '\\:').replace(/'/g, "'\\''")
+}
+
+function getWorkPath(videoPath: string): string {
+  const extension = path.extname(videoPath)
+  return path.join(path.dirname(videoPath), `.${path.basename(videoPath, extension)}.lyrics`)
+}
+
+function removeFiles(filePaths: string[]): void {
+  for (const filePath of filePaths) {
+    safeRmSync(filePath)
+  }
+}
+
+async function getFrameRate(videoPath: string): Promise<number> {
+  return new Promise((resolve) => {
+    ffmpeg.ffprobe(videoPath, (err, metadata) => {
+      const stream = err ? undefined : metadata.streams.find((s) => s.codec_type === 'video')
+      const [num, den] = String(stream?.avg_frame_rate || stream?.r_frame_rate || '0/1').split('/').map(Number)
+      resolve(den ? num / den : 0)
+    })
+  })
+}
+
+/**
+ * Add the lyrics as a subtitle stream (stream copy, replaces the file)
+ */
+export async function embedLyricsSubtitles(
+  videoPath: string,
+  cues: LyricsCue[],
+  container: OutputContainer
+): Promise<void> {
+  if (cues.length === 0) return
+
+  const workPath = getWorkPath(videoPath)
+  const subtitlePath = `${workPath}.srt`
+  const remuxedPath = `${workPath}${path.extname(videoPath)}`
+  fs.writeFileSync(subtitlePath, formatLyricsSrt(cues), 'utf-8')
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      ffmpeg()
+        .input(videoPath)
+        .input(subtitlePath)
+        .outputOptions(...[
+          '-map', '0',
+          '-map', '1:s:0',
+          '-map_metadata', '0',
+          '-map_chapters', '0',
+          '-c', 'copy',
+          '-c:s', SUBTITLE_CODECS[container],
+          '-metadata:s:s:0', 'title=Lyrics',
+          ...buildContainerOptions(container)
+        ])
+        .on('start', (cmdLine) => log.info(`[FFmpeg:LyricsSubtitles] ${cmdLine}`))
+        .on('end', () => resolve())
+        .on('error', (err) => reject(err))
+        .save(remuxedPath)
+    })
+    fs.renameSync(remuxedPath, videoPath)
+  } finally {
+    removeFiles([subtitlePath, remuxedPath])
+  }
+}
+
+/**
+ * Burn the lyrics into the picture as karaoke text (re-encodes the video, replaces the file)
+ */
+export async function burnLyrics(
+  videoPath: string,
+  cues: LyricsCue[],
+  encoder: ResolvedVideoEncoder,
+  size: { width: number; height: number }
+): Promise<void> {
+  if (cues.length === 0) return
+
+  const workPath = getWorkPath(videoPath)
+  const assPath = `${workPath}.ass`
+  const burnedPath = `${workPath}${path.extname(videoPath)}`
+  fs.writeFileSync(assPath, formatLyricsAss(cues, size.width, size.height), 'utf-8')
+
+  const filters = [`ass='${escapeFilterPath(assPath)}'`]
+  if (await getFrameRate(videoPath) < LYRICS_BURN_MIN_FPS) {
+    filters.unshift(`fps=${LYRICS_BURN_MIN_FPS}`)
+  }
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      ffmpeg()
+        .input(videoPath)
+        .videoFilters(filters)
+        .outputOptions(...[
+          '-map', '0:v:0',
+          '-map', '0:a?',
+          '-map_metadata', '0',
+          '-map_chapters', '0',
+          ...buildVideoEncoderOptions(encoder),
+          '-pix_fmt', 'yuv420p',
+          '-c:a', 'copy',
+          ...buildContainerOptions(encoder.container)
+        ])
+        .on('start', (cmdLine) => log.info(`[FFmpeg:LyricsBurn] ${cmdLine}`))
+        .on('end', () => resolve())
+        .on('error', (err) => reject(err))
+        .save(burnedPath)
+    })
+    fs.renameSync(burnedPath, videoPath)
+  } finally {
+    removeFiles([assPath, burnedPath])
+  }
+}
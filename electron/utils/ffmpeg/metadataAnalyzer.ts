@@ -8,6 +8,10 @@
 import ffmpeg from 'fluent-ffmpeg'
 import { VideoMetadata, AudioValidationResult, FfmpegMetadata } from './types.js'
 import { log } from '../logger.js'
+import { parseLastTimemark } from './trackTimeline.js'
+import { buildLoudnessMeasureFilter, parseLoudnormStats, type LoudnessMeasurement, type LoudnessOptions } from './loudness.js'
+import { buildTrimInputOptions, type TrackTrim } from './trackTrim.js'
+import { buildSilenceDetectFilter, computeSilenceTrim, isSilenceDetectLine, parseSilenceDetect, type SilenceDetection, type SilenceOptions } from './silence.js'
 import path from 'node:path'
 import fs from 'node:fs'
 
@@ -90,3 +94,56 @@ export async function getAudioDuration(audioPath: string): Promise<number> {
   return validation.duration
 }
 
+/**
+ * Measure the loudness of the first audio stream (EBU R128, loudnorm analysis pass)
+ * A trimmed track is measured over the part that gets encoded.
+ * @returns null when the file can't be decoded or loudnorm printed nothing
+ */
+export async function measureLoudness(
+  inputPath: string,
+  options: LoudnessOptions,
+  trim?: TrackTrim
+): Promise<LoudnessMeasurement | null> {
+  const normalizedPath = path.resolve(inputPath)
+  return new Promise<LoudnessMeasurement | null>((resolve) => {
+    ffmpeg(normalizedPath)
+      .inputOptions(buildTrimInputOptions(trim))
+      .outputOptions(['-map', '0:a:0', '-af', buildLoudnessMeasureFilter(options), '-f', 'null'])
+      .on('end', (_stdout, stderr) => resolve(parseLoudnormStats(stderr || '')))
+      .on('error', (err) => {
+        log.warn(`Loudness measurement failed: ${path.basename(normalizedPath)}`, err.message)
+        resolve(null)
+      })
+      .save('-')
+  })
+}
+
+/**
+ * Find the silence at the head and tail of the first audio stream (silencedetect pass)
+ * The decoded length is taken from the same pass, so a tail that runs to the
+ * end of the file is measured against what actually plays.
+ * @returns null when the file can't be decoded
+ */
+export async function detectSilence(inputPath: string, options: SilenceOptions): Promise<SilenceDetection | null> {
+  const normalizedPath = path.resolve(inputPath)
+  // Head events scroll out of the stderr kept for 'end' behind the progress lines, so collect them as they arrive
+  const silenceLines: string[] = []
+  return new Promise<SilenceDetection | null>((resolve) => {
+    ffmpeg(normalizedPath)
+      .outputOptions(['-map', '0:a:0', '-af', buildSilenceDetectFilter(options), '-f', 'null'])
+      .on('stderr', (line: string) => {
+        if (isSilenceDetectLine(line)) {
+          silenceLines.push(line)
+        }
+      })
+      .on('end', (_stdout, stderr) => {
+        const duration = parseLastTimemark(stderr || '') ?? 0
+        resolve(computeSilenceTrim(parseSilenceDetect(silenceLines.join('\n')), duration))
+      })
+      .on('error', (err) => {
+        log.warn(`Silence detection failed: ${path.basename(normalizedPath)}`, err.message)
+        resolve(null)
+      })
+      .save('-')
+  })
+}
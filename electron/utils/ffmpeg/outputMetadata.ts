@@ -0,0 +1,65 @@
+/**
+ * Output Metadata - Tags Written Into the Finished Video
+ *
+ * Title, artist, album, comment, year and genre are written with -metadata
+ * in the stream-copy pass that also embeds chapters (no re-encode).
+ * Empty fields are left out, so the output keeps whatever the mux produced.
+ */
+
+export interface OutputMetadata {
+  title?: string
+  artist?: string
+  album?: string
+  comment?: string  // Also written as 'description' (MP4 'desc' atom)
+  year?: string
+  genre?: string
+}
+
+const METADATA_FIELDS: Array<keyof OutputMetadata> = ['title', 'artist', 'album', 'comment', 'year', 'genre']
+
+const MAX_FIELD_LENGTH = 200
+const MAX_COMMENT_LENGTH = 2000
+
+/**
+ * Validate output metadata coming from the renderer (untrusted)
+ * @returns Only the non-empty fields
+ */
+export function normalizeOutputMetadata(raw?: Partial<Record<keyof OutputMetadata, unknown>>): OutputMetadata {
+  const metadata: OutputMetadata = {}
+  if (!raw) return metadata
+
+  for (const field of METADATA_FIELDS) {
+    const value = raw[field]
+    if (value === undefined || value === null) continue
+    if (typeof value !== 'string') {
+      throw new Error(`Invalid metadata ${field}: must be text`)
+    }
+    const text = value.trim()
+    if (!text) continue
+    const maxLength = field === 'comment' ? MAX_COMMENT_LENGTH : MAX_FIELD_LENGTH
+    if (text.length > maxLength) {
+      throw new Error(`Invalid metadata ${field}: must be at most ${maxLength} characters`)
+    }
+    if (field === 'year' && !/^\d{4}$/.test(text)) {
+      throw new Error(`Invalid metadata year: ${text} (expected YYYY)`)
+    }
+    metadata[field] = text
+  }
+  return metadata
+}
+
+/**
+ * Build '-metadata key=value' options (year is written as 'date', the key MP4/MKV players read)
+ */
+export function buildMetadataOptions(metadata: OutputMetadata): string[] {
+  const tags: Array<[string, string | undefined]> = [
+    ['title', metadata.title],
+    ['artist', metadata.artist],
+    ['album', metadata.album],
+    ['comment', metadata.comment],
+    ['description', metadata.comment],
+    ['date', metadata.year],
+    ['genre', metadata.genre]
+  ]
+  return tags.flatMap(([key, value]) => value ? ['-metadata', `${key}=${value}`] : [])
+}
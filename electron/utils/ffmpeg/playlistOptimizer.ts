@@ -2,8 +2,17 @@
  * Playlist Optimizer - Fast Segmented Encoding for Multi-Track Videos
  * 
  * This module implements ultra-fast playlist video generation by:
- * 1. Segmenting each track into: Fade-In + Body (stream copy!) + Fade-Out + Padding
+ * 1. Segmenting each track into: Fade-In + Title + Body (stream copy!) + Fade-Out + Padding
  * 2. Concatenating all segments using stream copy (no re-encoding!)
+ *
+ * The optional "Now playing" lower-third is burned only into the short Title
+ * segment at the start of each track, so the body stays stream-copied.
+ *
+ * Each track may use its own background image: base/padding segments are
+ * created once per distinct image and still concatenated by stream copy.
+ *
+ * With crossfades, consecutive tracks overlap: only the overlap is re-encoded
+ * as a Crossfade segment (both tracks mixed) and the bodies stay stream-copied.
  * 
  * Result: 1-hour playlist in 1-2 minutes instead of 10-30 minutes!
  */
@@ -14,6 +23,22 @@ import fs from 'node:fs'
 import { log } from '../logger.js'
 import { ProgressCallback } from './types.js'
 import { safeRmSync } from '../fsSafe.js'
+import { sumTrackSegments } from './trackTimeline.js'
+import { buildGainFilter } from './loudness.js'
+import {
+  buildCrossfadeFilter,
+  resolveCrossfadeOverlaps,
+  type CrossfadeCurve,
+  type CrossfadeOptions
+} from './crossfade.js'
+import { getTrimmedDuration, type TrackTrim } from './trackTrim.js'
+import {
+  DEFAULT_VIDEO_ENCODER_SETTINGS,
+  buildVideoEncoderOptions,
+  buildAudioCodecOptions,
+  buildContainerOptions,
+  type ResolvedVideoEncoder
+} from './videoEncoder.js'
 
 function attachStartLog(command: ffmpeg.FfmpegCommand, label: string) {
   command.on('start', (cmdLine) => {
@@ -27,17 +52,30 @@ function escapePathForConcatDemuxer(p: string): string {
   return p.replace(/\\/g, '/').replace(/'/g, "'\\''")
 }
 
-function addImageOrBlackBackground(command: ffmpeg.FfmpegCommand, imagePath: string) {
+// Still background of a segment: padded image, or black at the output size
+// Every segment uses the same encoder so they can be concatenated by stream copy
+interface SegmentBackground {
+  imagePath: string
+  width: number
+  height: number
+  encoder: ResolvedVideoEncoder
+}
+
+// Still segments keep their own small bitrate cap, encoded at the fastest speed
+const STILL_SEGMENT_ENCODING = { stillImage: true, defaultPreset: 'ultrafast' } as const
+
+function addImageOrBlackBackground(command: ffmpeg.FfmpegCommand, background: SegmentBackground) {
+  const { imagePath, width, height } = background
   if (imagePath && imagePath.trim() !== '') {
     command.input(imagePath).inputOptions(['-loop', '1'])
     return
   }
   // Fallback: no image selected -> use black background
-  command.input('color=c=black:s=1920x1080:r=1').inputFormat('lavfi')
+  command.input(`color=c=black:s=${width}x${height}:r=1`).inputFormat('lavfi')
 }
 
 async function createBaseImageSegment1s(
-  imagePath: string,
+  background: SegmentBackground,
   outputPath: string
 ): Promise<void> {
   // Reuse if exists and looks sane
@@ -58,21 +96,17 @@ async function createBaseImageSegment1s(
 
   return new Promise((resolve, reject) => {
     const command = ffmpeg()
-    addImageOrBlackBackground(command, imagePath)
+    addImageOrBlackBackground(command, background)
     command
       .outputOptions([
         '-t', '1',               // 1 second segment
-        '-c:v', 'libx264',
-        '-tune', 'stillimage',
+        ...buildVideoEncoderOptions(background.encoder, STILL_SEGMENT_ENCODING),
         '-b:v', '200k',          // keep tiny (will be stream-copied later)
         '-maxrate', '200k',
         '-bufsize', '400k',
         '-pix_fmt', 'yuv420p',
-        '-preset', 'ultrafast',
         '-r', '1',
         '-g', '1',
-        '-profile:v', 'main',
-        '-level', '4.0',
         '-movflags', '+faststart'
       ])
       .on('end', () => {
@@ -89,20 +123,58 @@ async function createBaseImageSegment1s(
   })
 }
 
+// Font candidates for the "Now playing" overlay (CJK-capable fonts first)
+const NOW_PLAYING_FONT_CANDIDATES: Record<string, string[]> = {
+  win32: ['C:/Windows/Fonts/malgun.ttf', 'C:/Windows/Fonts/msyh.ttc', 'C:/Windows/Fonts/arial.ttf'],
+  darwin: ['/System/Library/Fonts/AppleSDGothicNeo.ttc', '/System/Library/Fonts/Helvetica.ttc'],
+  linux: ['/usr/share/fonts/opentype/noto/NotoSansCJK-Regular.ttc', '/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf']
+}
+
+function findNowPlayingFont(): string | undefined {
+  const candidates = NOW_PLAYING_FONT_CANDIDATES[process.platform] || []
+  return candidates.find(fontPath => fs.existsSync(fontPath))
+}
+
+function escapeFilterPath(p: string): string {
+  // Quoted filter option values: POSIX-style slashes, escaped drive colon,
+  // and single quotes closed/escaped/reopened like in escapePathForConcatDemuxer
+  return p.replace(/\\/g, '/').replace(/:/g, '\\:').replace(/'/g, "'\\''")
+}
+
 interface TrackSegment {
   path: string
-  type: 'fade-in' | 'body' | 'fade-out' | 'padding'
+  type: 'crossfade' | 'fade-in' | 'title' | 'body' | 'fade-out' | 'padding'
   duration: number
+  track: number  // Index of the audio file the segment belongs to
+}
+
+export interface PlaylistResult {
+  outputPath: string
+  trackDurations: number[]  // Measured length of each track in the output (padding included)
+}
+
+export interface NowPlayingOptions {
+  titles: string[]           // One title per audio file (same names as the YouTube timestamps)
+  artist?: string            // Optional second line shown under every title
+  duration: number           // Seconds the lower-third stays on screen at the start of each track
 }
 
 interface PlaylistOptions {
-  imagePath: string          // Preprocessed image (already padded to 1920x1080)
+  imagePath: string          // Preprocessed image (already padded to videoWidth x videoHeight)
   audioFiles: string[]       // Array of audio file paths
+  trackImagePaths?: string[] // Preprocessed per-track images (same order as audioFiles, '' = imagePath)
+  videoWidth: number         // Output size (also used for the black background)
+  videoHeight: number
+  videoEncoder?: ResolvedVideoEncoder  // Segment encoder and output container (default: H.264/MP4)
   outputPath: string
   enablePadding: boolean
   paddingDuration: number
   enableFadeOut: boolean
   fadeOutDuration: number
+  nowPlaying?: NowPlayingOptions
+  trackGains?: number[]      // Loudness normalization gain per track (dB), applied to every segment of the track
+  crossfade?: CrossfadeOptions  // Overlap consecutive tracks (replaces fade-out and padding)
+  trackTrims?: TrackTrim[]   // In/out points per track (segments are cut from the trimmed part)
   tempDir?: string
   onProgress?: ProgressCallback
 }
@@ -123,29 +195,34 @@ async function getAudioDuration(audioPath: string): Promise<number> {
 }
 
 /**
- * Create a fade-in segment (first N seconds with fade)
+ * Create a fade-in segment (first N seconds from startTime, with fade)
  */
 async function createFadeInSegment(
-  imagePath: string,
+  background: SegmentBackground,
   audioPath: string,
   outputPath: string,
-  fadeDuration: number
+  startTime: number,
+  fadeDuration: number,
+  gainFilter: string | null = null
 ): Promise<void> {
   return new Promise((resolve, reject) => {
     const command = ffmpeg()
-    addImageOrBlackBackground(command, imagePath)
+    addImageOrBlackBackground(command, background)
     command
       .input(audioPath)
-      .inputOptions(['-t', String(fadeDuration)])  // Only first N seconds
+      .inputOptions([
+        '-ss', String(startTime),
+        '-t', String(fadeDuration)  // Only first N seconds
+      ])
       .videoFilters([
         `fade=t=in:st=0:d=${fadeDuration}`
       ])
       .audioFilters([
+        ...(gainFilter ? [gainFilter] : []),
         `afade=t=in:st=0:d=${fadeDuration}`
       ])
       .outputOptions([
-        '-c:v', 'libx264',
-        '-tune', 'stillimage',
+        ...buildVideoEncoderOptions(background.encoder, STILL_SEGMENT_ENCODING),
         '-c:a', 'aac',
         '-b:a', '192k',
         '-b:v', '500k',
@@ -153,11 +230,8 @@ async function createFadeInSegment(
         '-bufsize', '1000k',
         '-shortest',
         '-pix_fmt', 'yuv420p',
-        '-preset', 'ultrafast',
         '-r', '1',           // 1 FPS for still image
         '-g', '1',           // Every frame is keyframe
-        '-profile:v', 'main', // Consistent profile
-        '-level', '4.0',
         '-ar', '44100',      // Consistent audio sample rate
         '-movflags', '+faststart'
       ])
@@ -182,7 +256,8 @@ async function createBodySegment(
   audioPath: string,
   outputPath: string,
   startTime: number,
-  duration: number
+  duration: number,
+  gainFilter: string | null = null
 ): Promise<void> {
   return new Promise((resolve, reject) => {
     if (!Number.isFinite(duration) || duration <= 0) {
@@ -220,6 +295,9 @@ async function createBodySegment(
         log.error(`❌ Failed to create body segment: ${err.message}`)
         reject(err)
       })
+    if (gainFilter) {
+      command.audioFilters(gainFilter)  // Audio is re-encoded anyway; video stays stream copy
+    }
     attachStartLog(command, `playlist:body:${path.basename(outputPath)}`)
     command.save(outputPath)
   })
@@ -231,15 +309,16 @@ async function createBodySegment(
  * This prevents white borders and improves performance
  */
 async function createFadeOutSegment(
-  imagePath: string,
+  background: SegmentBackground,
   audioPath: string,
   outputPath: string,
   startTime: number,
-  fadeDuration: number
+  fadeDuration: number,
+  gainFilter: string | null = null
 ): Promise<void> {
   return new Promise((resolve, reject) => {
     const command = ffmpeg()
-    addImageOrBlackBackground(command, imagePath)
+    addImageOrBlackBackground(command, background)
     command
       .input(audioPath)
       .inputOptions([
@@ -248,11 +327,11 @@ async function createFadeOutSegment(
       ])
       // NO video fade - image is static, video fade causes white borders
       .audioFilters([
+        ...(gainFilter ? [gainFilter] : []),
         `afade=t=out:st=0:d=${fadeDuration}`
       ])
       .outputOptions([
-        '-c:v', 'libx264',
-        '-tune', 'stillimage',
+        ...buildVideoEncoderOptions(background.encoder, STILL_SEGMENT_ENCODING),
         '-c:a', 'aac',
         '-b:a', '192k',
         '-b:v', '500k',
@@ -260,11 +339,8 @@ async function createFadeOutSegment(
         '-bufsize', '1000k',
         '-shortest',
         '-pix_fmt', 'yuv420p',
-        '-preset', 'ultrafast',
         '-r', '1',           // 1 FPS for still image
         '-g', '1',           // Every frame is keyframe
-        '-profile:v', 'main', // Consistent profile
-        '-level', '4.0',
         '-ar', '44100',      // Consistent audio sample rate
         '-movflags', '+faststart'
       ])
@@ -281,17 +357,151 @@ async function createFadeOutSegment(
   })
 }
 
+/**
+ * Create a title segment (start of the track with the "Now playing" lower-third)
+ * Text is read from files so titles need no filter escaping
+ */
+async function createTitleSegment(
+  background: SegmentBackground,
+  audioPath: string,
+  outputPath: string,
+  startTime: number,
+  duration: number,
+  titleFilePath: string,
+  artistFilePath?: string,
+  gainFilter: string | null = null
+): Promise<void> {
+  const fontFile = findNowPlayingFont()
+  const fontOption = fontFile ? `:fontfile='${escapeFilterPath(fontFile)}'` : ''
+
+  const drawFilters = [
+    `drawtext=textfile='${escapeFilterPath(titleFilePath)}'${fontOption}:fontsize=h/18:fontcolor=white:box=1:boxcolor=black@0.5:boxborderw=16:x=w*0.05:y=h*0.78`
+  ]
+  if (artistFilePath) {
+    drawFilters.push(
+      `drawtext=textfile='${escapeFilterPath(artistFilePath)}'${fontOption}:fontsize=h/30:fontcolor=white@0.85:box=1:boxcolor=black@0.5:boxborderw=10:x=w*0.05:y=h*0.78+h/18+28`
+    )
+  }
+
+  return new Promise((resolve, reject) => {
+    const command = ffmpeg()
+    addImageOrBlackBackground(command, background)
+    command
+      .input(audioPath)
+      .inputOptions([
+        '-ss', String(startTime),
+        '-t', String(duration)
+      ])
+      .videoFilters(drawFilters)
+      .audioFilters(gainFilter ? [gainFilter] : [])
+      .outputOptions([
+        ...buildVideoEncoderOptions(background.encoder, STILL_SEGMENT_ENCODING),
+        '-c:a', 'aac',
+        '-b:a', '192k',
+        '-b:v', '500k',
+        '-maxrate', '500k',
+        '-bufsize', '1000k',
+        '-shortest',
+        '-pix_fmt', 'yuv420p',
+        '-r', '1',           // 1 FPS for still image
+        '-g', '1',           // Every frame is keyframe
+        '-ar', '44100',      // Consistent audio sample rate
+        '-movflags', '+faststart'
+      ])
+      .on('end', () => {
+        log.info(`✅ Title segment created: ${path.basename(outputPath)} (${duration}s)`)
+        resolve()
+      })
+      .on('error', (err) => {
+        log.error(`❌ Failed to create title segment: ${err.message}`)
+        reject(err)
+      })
+    attachStartLog(command, `playlist:title:${path.basename(outputPath)}`)
+    command.save(outputPath)
+  })
+}
+
+// One side of a crossfade: where its audio starts and its loudness gain
+interface CrossfadeSource {
+  audioPath: string
+  startTime: number
+  gainFilter: string | null
+}
+
+/**
+ * Create a crossfade segment (end of the outgoing track mixed into the start of the incoming one)
+ * Uses the incoming track's background, since its chapter starts here.
+ */
+async function createCrossfadeSegment(
+  background: SegmentBackground,
+  outgoing: CrossfadeSource,
+  incoming: CrossfadeSource,
+  outputPath: string,
+  duration: number,
+  curve: CrossfadeCurve
+): Promise<void> {
+  const prepareAudio = (source: CrossfadeSource) =>
+    [source.gainFilter, 'aresample=44100', 'aformat=channel_layouts=stereo'].filter(Boolean).join(',')
+
+  return new Promise((resolve, reject) => {
+    const command = ffmpeg()
+    addImageOrBlackBackground(command, background)
+    command
+      .input(outgoing.audioPath)
+      .inputOptions([
+        '-ss', String(outgoing.startTime),
+        '-t', String(duration)
+      ])
+      .input(incoming.audioPath)
+      .inputOptions([
+        '-ss', String(incoming.startTime),
+        '-t', String(duration)
+      ])
+      .complexFilter([
+        `[1:a]${prepareAudio(outgoing)}[aout]`,
+        `[2:a]${prepareAudio(incoming)}[ain]`,
+        `[aout][ain]${buildCrossfadeFilter(duration, curve)}[a]`
+      ])
+      .outputOptions([
+        '-map', '0:v',
+        '-map', '[a]',
+        '-t', String(duration),
+        ...buildVideoEncoderOptions(background.encoder, STILL_SEGMENT_ENCODING),
+        '-c:a', 'aac',
+        '-b:a', '192k',
+        '-b:v', '500k',
+        '-maxrate', '500k',
+        '-bufsize', '1000k',
+        '-pix_fmt', 'yuv420p',
+        '-r', '1',           // 1 FPS for still image
+        '-g', '1',           // Every frame is keyframe
+        '-ar', '44100',      // Consistent audio sample rate
+        '-movflags', '+faststart'
+      ])
+      .on('end', () => {
+        log.info(`✅ Crossfade segment created: ${path.basename(outputPath)} (${duration}s)`)
+        resolve()
+      })
+      .on('error', (err) => {
+        log.error(`❌ Failed to create crossfade segment: ${err.message}`)
+        reject(err)
+      })
+    attachStartLog(command, `playlist:crossfade:${path.basename(outputPath)}`)
+    command.save(outputPath)
+  })
+}
+
 /**
  * Create or reuse a padding segment (image continues + silence)
  * This can be reused for all tracks!
  * 
- * @param imagePath - Image path to use (if empty, uses black background)
+ * @param background - Image path to use (if empty, uses black background) and output size
  * @param outputPath - Output segment path
  * @param duration - Duration in seconds
  * @param reuseIfExists - Whether to reuse existing segment if it exists
  */
 async function createPaddingSegment(
-  imagePath: string,
+  background: SegmentBackground,
   outputPath: string,
   duration: number,
   reuseIfExists: boolean = true
@@ -317,15 +527,14 @@ async function createPaddingSegment(
   return new Promise((resolve, reject) => {
     const command = ffmpeg()
     // Use image if provided, otherwise black background
-    addImageOrBlackBackground(command, imagePath)
+    addImageOrBlackBackground(command, background)
     command
       .input('anullsrc=channel_layout=stereo:sample_rate=44100')
       .inputFormat('lavfi')
       .outputOptions([
         // CRITICAL: bound duration at OUTPUT level (lavfi sources are infinite by default)
         '-t', String(duration),
-        '-c:v', 'libx264',
-        '-tune', 'stillimage',
+        ...buildVideoEncoderOptions(background.encoder, STILL_SEGMENT_ENCODING),
         '-c:a', 'aac',
         '-b:a', '192k',
         '-b:v', '200k',        // padding segment; keep tiny
@@ -333,11 +542,8 @@ async function createPaddingSegment(
         '-bufsize', '400k',
         '-shortest',
         '-pix_fmt', 'yuv420p',
-        '-preset', 'ultrafast',
         '-r', '1',
         '-g', '1',
-        '-profile:v', 'main',
-        '-level', '4.0',
         '-ar', '44100',
         '-movflags', '+faststart'
       ])
@@ -360,6 +566,7 @@ async function createPaddingSegment(
 async function concatenateSegments(
   segments: TrackSegment[],
   outputPath: string,
+  encoder: ResolvedVideoEncoder,
   onProgress?: ProgressCallback
 ): Promise<void> {
   const tempDir = path.dirname(segments[0].path)
@@ -381,10 +588,15 @@ async function concatenateSegments(
         '-f', 'concat',
         '-safe', '0'
       ])
-      .outputOptions([
-        '-c', 'copy',  // ⚡⚡⚡ STREAM COPY - NO RE-ENCODING!
-        '-movflags', '+faststart'
-      ])
+      .outputOptions(encoder.container === 'webm'
+        ? [
+          '-c:v', 'copy',  // ⚡⚡⚡ STREAM COPY video - WebM can't hold AAC, only the audio is re-encoded
+          ...buildAudioCodecOptions('webm', { bitrate: '192k' })
+        ]
+        : [
+          '-c', 'copy',  // ⚡⚡⚡ STREAM COPY - NO RE-ENCODING!
+          ...buildContainerOptions(encoder.container)
+        ])
       .on('progress', (p) => {
         if (onProgress && p.percent) {
           onProgress(Math.min(Math.round(p.percent), 99))
@@ -422,15 +634,23 @@ async function concatenateSegments(
  */
 export async function createPlaylistWithSegments(
   options: PlaylistOptions
-): Promise<string> {
+): Promise<PlaylistResult> {
   const {
     imagePath,
     audioFiles,
+    trackImagePaths,
+    videoWidth,
+    videoHeight,
+    videoEncoder = { ...DEFAULT_VIDEO_ENCODER_SETTINGS, encoderName: 'libx264' },
     outputPath,
     enablePadding,
     paddingDuration,
     enableFadeOut,
     fadeOutDuration,
+    nowPlaying,
+    trackGains = [],
+    crossfade,
+    trackTrims = [],
     tempDir,
     onProgress
   } = options
@@ -446,109 +666,211 @@ export async function createPlaylistWithSegments(
     const fadeDuration = fadeOutDuration || 2
     const totalTracks = audioFiles.length
     
-    // Create reusable 1-second base video segment (for FAST body segments via stream copy)
-    const baseSegmentPath = path.join(workDir, `image_1s_${Date.now()}.mp4`)
-    tempFiles.push(baseSegmentPath)
-    await createBaseImageSegment1s(imagePath, baseSegmentPath)
-    
-    // Create reusable padding segment once (with image if provided)
-    let paddingSegmentPath: string | null = null
-    if (enablePadding && paddingDuration > 0) {
-      paddingSegmentPath = path.join(workDir, `padding_${paddingDuration}s.mp4`)
-      tempFiles.push(paddingSegmentPath)
-      await createPaddingSegment(imagePath, paddingSegmentPath, paddingDuration, true)
+    // Reusable 1-second base video segments (for FAST body segments via stream copy)
+    // and padding segments - created once per distinct background image
+    const baseSegmentPaths = new Map<string, string>()
+    const paddingSegmentPaths = new Map<string, string>()
+    // Crossfades replace the fade-out and padding between tracks
+    const usePadding = enablePadding && paddingDuration > 0 && !crossfade
+
+    const prepareImageSegments = async (background: SegmentBackground): Promise<string> => {
+      const trackImagePath = background.imagePath
+      const existingSegmentPath = baseSegmentPaths.get(trackImagePath)
+      if (existingSegmentPath) return existingSegmentPath
+      const imageIndex = baseSegmentPaths.size
+      const baseSegmentPath = path.join(workDir, `image_1s_${imageIndex}_${Date.now()}.mp4`)
+      tempFiles.push(baseSegmentPath)
+      await createBaseImageSegment1s(background, baseSegmentPath)
+      baseSegmentPaths.set(trackImagePath, baseSegmentPath)
+
+      // Padding segment (image continues + silence)
+      if (usePadding) {
+        const paddingSegmentPath = path.join(workDir, `padding_${paddingDuration}s_${imageIndex}.mp4`)
+        tempFiles.push(paddingSegmentPath)
+        await createPaddingSegment(background, paddingSegmentPath, paddingDuration, true)
+        paddingSegmentPaths.set(trackImagePath, paddingSegmentPath)
+      }
+      return baseSegmentPath
+    }
+
+    // "Now playing" artist line is the same for every track - write it once
+    let artistFilePath: string | undefined
+    if (nowPlaying?.artist) {
+      artistFilePath = path.join(workDir, `now_playing_artist_${Date.now()}.txt`)
+      tempFiles.push(artistFilePath)
+      fs.writeFileSync(artistFilePath, nowPlaying.artist, 'utf-8')
+    }
+
+    // Track durations up front (trimmed): each crossfade depends on both of its tracks
+    const durations: number[] = []
+    for (const [i, audioFile] of audioFiles.entries()) {
+      durations.push(getTrimmedDuration(await getAudioDuration(audioFile), trackTrims[i]))
     }
+    // Segment start times are relative to the in point; the file is read from here
+    const trimStarts = audioFiles.map((_, i) => trackTrims[i]?.start ?? 0)
+    const overlaps = crossfade ? resolveCrossfadeOverlaps(durations, crossfade.duration) : []
 
     // Process each track
     for (let i = 0; i < audioFiles.length; i++) {
       const audioFile = audioFiles[i]
       const trackNum = i + 1
-      const duration = await getAudioDuration(audioFile)
+      const duration = durations[i]
+      const overlapBefore = i > 0 ? overlaps[i - 1] : 0  // Already played in the crossfade segment
+      const overlapAfter = overlaps[i] ?? 0               // Played in the next track's crossfade segment
+      const trimStart = trimStarts[i]
+      const trackImagePath = trackImagePaths?.[i] || imagePath
+      const background = { imagePath: trackImagePath, width: videoWidth, height: videoHeight, encoder: videoEncoder }
+      const gainFilter = buildGainFilter(trackGains[i] ?? 0)
       
       log.info(`\n🎵 Processing Track ${trackNum}/${totalTracks}: ${path.basename(audioFile)} (${duration}s)`)
+      const baseSegmentPath = await prepareImageSegments(background)
 
       // Determine segment durations
       const hasFadeIn = false  // Currently not implemented in UI, but easy to add
-      const hasFadeOut = enableFadeOut && duration > fadeDuration * 2
+      const hasFadeOut = enableFadeOut && !crossfade && duration > fadeDuration * 2
       
       const fadeInDuration = hasFadeIn ? fadeDuration : 0
-      const fadeOutStart = hasFadeOut ? duration - fadeDuration : duration
-      const bodyStart = fadeInDuration
+      const trackStart = overlapBefore + fadeInDuration
+      // Body ends at the fade-out, or where the crossfade into the next track begins
+      const fadeOutStart = hasFadeOut ? duration - fadeDuration : duration - overlapAfter
+      const titleTrack = nowPlaying?.titles[i]
+      const titleDuration = titleTrack && nowPlaying ? Math.min(nowPlaying.duration, fadeOutStart - trackStart) : 0
+      const bodyStart = trackStart + titleDuration
       const bodyDuration = fadeOutStart - bodyStart
 
       // Progress calculation
       const trackProgress = (i / totalTracks) * 90  // 0-90% for track processing
       const progressPerSegment = (90 / totalTracks) / 4  // Each track has up to 4 segments
 
+      // 0. Crossfade segment (previous track blended into this one)
+      if (crossfade && overlapBefore > 0) {
+        const crossfadePath = path.join(workDir, `track${trackNum}_crossfade.mp4`)
+        tempFiles.push(crossfadePath)
+
+        log.info(`  🔀 Creating Crossfade segment (${overlapBefore}s, ${crossfade.curve})...`)
+        await createCrossfadeSegment(
+          background,
+          { audioPath: audioFiles[i - 1], startTime: trimStarts[i - 1] + durations[i - 1] - overlapBefore, gainFilter: buildGainFilter(trackGains[i - 1] ?? 0) },
+          { audioPath: audioFile, startTime: trimStart, gainFilter },
+          crossfadePath,
+          overlapBefore,
+          crossfade.curve
+        )
+
+        allSegments.push({
+          path: crossfadePath,
+          type: 'crossfade',
+          duration: overlapBefore,
+          track: i
+        })
+      }
+
       // 1. Fade-In segment (if enabled)
       if (hasFadeIn) {
         const fadeInPath = path.join(workDir, `track${trackNum}_fadein.mp4`)
         tempFiles.push(fadeInPath)
         
         log.info(`  🎬 Creating Fade-In segment (${fadeDuration}s)...`)
-        await createFadeInSegment(imagePath, audioFile, fadeInPath, fadeDuration)
+        await createFadeInSegment(background, audioFile, fadeInPath, trimStart, fadeDuration, gainFilter)
         
         allSegments.push({
           path: fadeInPath,
           type: 'fade-in',
-          duration: fadeDuration
+          duration: fadeDuration,
+          track: i
         })
         
         if (onProgress) onProgress(Math.round(trackProgress + progressPerSegment))
       }
 
-      // 2. Body segment (FAST - no filters!)
+      // 2. Title segment ("Now playing" lower-third, if enabled)
+      if (titleTrack && titleDuration > 0) {
+        const titlePath = path.join(workDir, `track${trackNum}_title.mp4`)
+        const titleFilePath = path.join(workDir, `track${trackNum}_title.txt`)
+        tempFiles.push(titlePath, titleFilePath)
+        fs.writeFileSync(titleFilePath, titleTrack, 'utf-8')
+
+        log.info(`  🏷️  Creating Title segment (${titleDuration.toFixed(1)}s): ${titleTrack}`)
+        await createTitleSegment(background, audioFile, titlePath, trimStart + trackStart, titleDuration, titleFilePath, artistFilePath, gainFilter)
+
+        allSegments.push({
+          path: titlePath,
+          type: 'title',
+          duration: titleDuration,
+          track: i
+        })
+      }
+
+      // 3. Body segment (FAST - no filters!)
       if (bodyDuration > 0) {
         const bodyPath = path.join(workDir, `track${trackNum}_body.mp4`)
         tempFiles.push(bodyPath)
         
         log.info(`  ⚡ Creating Body segment (${bodyDuration.toFixed(1)}s) - FAST MODE!`)
-        await createBodySegment(baseSegmentPath, audioFile, bodyPath, bodyStart, bodyDuration)
+        await createBodySegment(baseSegmentPath, audioFile, bodyPath, trimStart + bodyStart, bodyDuration, gainFilter)
         
         allSegments.push({
           path: bodyPath,
           type: 'body',
-          duration: bodyDuration
+          duration: bodyDuration,
+          track: i
         })
         
         if (onProgress) onProgress(Math.round(trackProgress + progressPerSegment * 2))
       }
 
-      // 3. Fade-Out segment (if enabled)
+      // 4. Fade-Out segment (if enabled)
       if (hasFadeOut) {
         const fadeOutPath = path.join(workDir, `track${trackNum}_fadeout.mp4`)
         tempFiles.push(fadeOutPath)
         
         log.info(`  🎬 Creating Fade-Out segment (${fadeDuration}s)...`)
-        await createFadeOutSegment(imagePath, audioFile, fadeOutPath, fadeOutStart, fadeDuration)
+        await createFadeOutSegment(background, audioFile, fadeOutPath, trimStart + fadeOutStart, fadeDuration, gainFilter)
         
         allSegments.push({
           path: fadeOutPath,
           type: 'fade-out',
-          duration: fadeDuration
+          duration: fadeDuration,
+          track: i
         })
         
         if (onProgress) onProgress(Math.round(trackProgress + progressPerSegment * 3))
       }
 
-      // 4. Padding segment (if enabled and not last track)
-      if (enablePadding && paddingSegmentPath && i < audioFiles.length - 1) {
+      // 5. Padding segment (if enabled and not last track) - keeps this track's image
+      const paddingSegmentPath = paddingSegmentPaths.get(trackImagePath)
+      if (paddingSegmentPath && i < audioFiles.length - 1) {
         log.info(`  📏 Adding Padding segment (${paddingDuration}s)`)
         allSegments.push({
           path: paddingSegmentPath,
           type: 'padding',
-          duration: paddingDuration
+          duration: paddingDuration,
+          track: i
         })
       }
 
       if (onProgress) onProgress(Math.round(trackProgress + progressPerSegment * 4))
     }
 
+    // Timestamps follow the real segment lengths: the concat demuxer starts each
+    // segment where the previous file ends, not where the planned duration says
+    const measuredDurations = new Map<string, number>()
+    for (const segment of allSegments) {
+      if (!measuredDurations.has(segment.path)) {
+        const measured = await getAudioDuration(segment.path).catch(() => 0)
+        measuredDurations.set(segment.path, measured > 0 ? measured : segment.duration)
+      }
+    }
+    const trackDurations = sumTrackSegments(
+      allSegments.map((segment) => ({ track: segment.track, duration: measuredDurations.get(segment.path)! })),
+      audioFiles.length
+    )
+
     // Final concatenation using stream copy
     log.info(`\n🔗 Concatenating ${allSegments.length} segments using STREAM COPY...`)
     log.info(`⚡ This will be VERY fast (no re-encoding!)`)
     
-    await concatenateSegments(allSegments, outputPath, (p) => {
+    await concatenateSegments(allSegments, outputPath, videoEncoder, (p) => {
       if (onProgress) {
         onProgress(90 + Math.round(p / 10))  // 90-100%
       }
@@ -570,7 +892,7 @@ export async function createPlaylistWithSegments(
     log.info(`\n✅ Playlist generation completed successfully!`)
     log.info(`📹 Output: ${outputPath}`)
     
-    return outputPath
+    return { outputPath, trackDurations }
 
   } catch (error) {
     // Cleanup on error
@@ -592,19 +914,20 @@ export async function createPlaylistWithSegments(
  * 
  * Conditions:
  * - Multiple audio files (>= 2)
- * - Fade or Padding enabled
+ * - Fade, Padding or Crossfade enabled
  * - Total duration > 5 minutes (worth the optimization)
  */
 export async function shouldUseSegmentedOptimization(
   audioFiles: string[],
   enableFadeOut: boolean,
-  enablePadding: boolean
+  enablePadding: boolean,
+  enableCrossfade: boolean = false
 ): Promise<boolean> {
   if (audioFiles.length < 2) {
     return false
   }
 
-  if (!enableFadeOut && !enablePadding) {
+  if (!enableFadeOut && !enablePadding && !enableCrossfade) {
     return false  // Already using stream copy
   }
 
@@ -16,6 +16,14 @@ import fs from 'node:fs'
 import { log } from '../logger.js'
 import { ProgressCallback } from './types.js'
 import { safeRmSync } from '../fsSafe.js'
+import {
+  DEFAULT_VIDEO_ENCODER_SETTINGS,
+  buildVideoEncoderOptions,
+  buildAudioCodecOptions,
+  type ResolvedVideoEncoder
+} from './videoEncoder.js'
+
+const DEFAULT_ENCODER: ResolvedVideoEncoder = { ...DEFAULT_VIDEO_ENCODER_SETTINGS, encoderName: 'libx264' }
 
 function escapePathForConcatDemuxer(p: string): string {
   // FFmpeg concat demuxer expects POSIX-style paths even on Windows.
@@ -40,6 +48,7 @@ async function createVideoSegment(
     fadeIn?: boolean    // Apply fade in at start
     fadeOut?: boolean   // Apply fade out at end
     fadeDuration?: number
+    encoder?: ResolvedVideoEncoder  // Same encoder for all segments (stream copy concat)
   } = {}
 ): Promise<void> {
   const {
@@ -47,7 +56,8 @@ async function createVideoSegment(
     duration,
     fadeIn = false,
     fadeOut = false,
-    fadeDuration = 2
+    fadeDuration = 2,
+    encoder = DEFAULT_ENCODER
   } = options
 
   return new Promise((resolve, reject) => {
@@ -73,13 +83,10 @@ async function createVideoSegment(
 
     // Video codec settings (consistent for all segments)
     const outputOptions = [
-      '-c:v', 'libx264',
-      '-tune', 'stillimage',
-      '-c:a', 'aac',
-      '-b:a', '192k',
+      ...buildVideoEncoderOptions(encoder, { stillImage: true, defaultPreset: 'fast' }),
+      ...buildAudioCodecOptions(encoder.container, { bitrate: '192k' }),
       '-shortest',
       '-pix_fmt', 'yuv420p',
-      '-preset', 'fast',
       '-r', '30'  // Ensure consistent frame rate
     ]
 
@@ -135,9 +142,10 @@ async function createVideoSegmentFast(
   options: {
     startTime: number
     duration: number
+    encoder?: ResolvedVideoEncoder
   }
 ): Promise<void> {
-  const { startTime, duration } = options
+  const { startTime, duration, encoder = DEFAULT_ENCODER } = options
 
   return new Promise((resolve, reject) => {
     const command = ffmpeg()
@@ -158,13 +166,10 @@ async function createVideoSegmentFast(
     // Use fast settings (no filters!)
     command
       .outputOptions([
-        '-c:v', 'libx264',
-        '-tune', 'stillimage',
-        '-c:a', 'aac',
-        '-b:a', '192k',
+        ...buildVideoEncoderOptions(encoder, { stillImage: true, defaultPreset: 'ultrafast' }),  // Fastest preset
+        ...buildAudioCodecOptions(encoder.container, { bitrate: '192k' }),
         '-shortest',
         '-pix_fmt', 'yuv420p',
-        '-preset', 'ultrafast',  // Fastest preset
         '-r', '30'
       ])
       .on('end', () => {
@@ -278,6 +283,7 @@ export async function createVideoWithSandwichStrategy(
     enableFadeIn?: boolean
     enableFadeOut?: boolean
     fadeDuration?: number
+    videoEncoder?: ResolvedVideoEncoder  // Default: H.264/MP4
     tempDir?: string
     onProgress?: ProgressCallback
   } = {}
@@ -286,6 +292,7 @@ export async function createVideoWithSandwichStrategy(
     enableFadeIn = false,
     enableFadeOut = false,
     fadeDuration = 2,
+    videoEncoder = DEFAULT_ENCODER,
     tempDir,
     onProgress
   } = options
@@ -301,13 +308,13 @@ export async function createVideoWithSandwichStrategy(
     // If no fade effects, just create simple video
     if (!enableFadeIn && !enableFadeOut) {
       log.info(`⚡ No fade effects - using simple fast creation`)
-      return await createSimpleFastVideo(imagePath, audioPath, outputPath, onProgress)
+      return await createSimpleFastVideo(imagePath, audioPath, outputPath, videoEncoder, onProgress)
     }
 
     // If video is very short (<10s), use traditional method
     if (audioDuration < 10) {
       log.info(`⚠️ Video is short (<10s) - using traditional method`)
-      return await createSimpleFastVideo(imagePath, audioPath, outputPath, onProgress)
+      return await createSimpleFastVideo(imagePath, audioPath, outputPath, videoEncoder, onProgress)
     }
 
     log.info(`🥪 Using Sandwich Strategy for optimal performance!`)
@@ -333,7 +340,8 @@ export async function createVideoWithSandwichStrategy(
         duration: segmentDuration,
         fadeIn: true,
         fadeOut: false,
-        fadeDuration
+        fadeDuration,
+        encoder: videoEncoder
       })
       if (onProgress) onProgress(30)
     }
@@ -348,7 +356,8 @@ export async function createVideoWithSandwichStrategy(
       log.info(`⚡ Creating Body segment (${bodyDuration}s) - FAST MODE...`)
       await createVideoSegmentFast(imagePath, audioPath, bodyPath, {
         startTime: bodyStartTime,
-        duration: bodyDuration
+        duration: bodyDuration,
+        encoder: videoEncoder
       })
       if (onProgress) onProgress(60)
     }
@@ -366,7 +375,8 @@ export async function createVideoWithSandwichStrategy(
         duration: segmentDuration,
         fadeIn: false,
         fadeOut: true,
-        fadeDuration
+        fadeDuration,
+        encoder: videoEncoder
       })
       if (onProgress) onProgress(80)
     }
@@ -426,6 +436,7 @@ async function createSimpleFastVideo(
   imagePath: string,
   audioPath: string,
   outputPath: string,
+  encoder: ResolvedVideoEncoder,
   onProgress?: ProgressCallback
 ): Promise<string> {
   return new Promise((resolve, reject) => {
@@ -434,13 +445,10 @@ async function createSimpleFastVideo(
       .inputOptions(['-loop 1'])
       .input(audioPath)
       .outputOptions([
-        '-c:v', 'libx264',
-        '-tune', 'stillimage',
-        '-c:a', 'aac',
-        '-b:a', '192k',
+        ...buildVideoEncoderOptions(encoder, { stillImage: true, defaultPreset: 'fast' }),
+        ...buildAudioCodecOptions(encoder.container, { bitrate: '192k' }),
         '-shortest',
         '-pix_fmt', 'yuv420p',
-        '-preset', 'fast',
         '-r', '30'
       ])
       .on('progress', (p) => {
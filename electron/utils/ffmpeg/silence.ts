@@ -0,0 +1,118 @@
+/**
+ * Silence - Automatic Head/Tail Silence Trimming
+ *
+ * silencedetect runs over the decoded audio of each input and reports every
+ * stretch quieter than the threshold that lasts at least the minimum duration.
+ * Only silence touching the start or the end of a file is removed (pauses
+ * inside a track are part of the music), and the result is an ordinary
+ * TrackTrim - the user sees it per track before the job starts and can
+ * change or drop it like a manual trim.
+ */
+
+import type { TrackTrim } from './trackTrim.js'
+
+export const DEFAULT_SILENCE_THRESHOLD_DB = -50
+export const MIN_SILENCE_THRESHOLD_DB = -90
+export const MAX_SILENCE_THRESHOLD_DB = -10
+
+export const DEFAULT_SILENCE_MIN_DURATION = 0.5
+export const MIN_SILENCE_MIN_DURATION = 0.1
+export const MAX_SILENCE_MIN_DURATION = 10
+
+// Silence that starts/ends this close to the file boundary still counts as head/tail
+const EDGE_TOLERANCE_SECONDS = 0.05
+
+// Audio that must remain after trimming (MIN_TRIMMED_SECONDS, so the trim passes normalizeTrackTrims)
+const MIN_REMAINING_SECONDS = 1
+
+export interface SilenceOptions {
+  threshold: number    // dB; quieter audio counts as silence
+  minDuration: number  // Seconds; shorter gaps are ignored
+}
+
+export interface SilenceInterval {
+  start: number
+  end?: number  // Unset when the silence runs to the end of the file
+}
+
+export interface SilenceDetection {
+  trim: TrackTrim | null  // null when there is nothing to remove
+  head: number            // Seconds removed at the start
+  tail: number            // Seconds removed at the end
+}
+
+/**
+ * Validate silence detection options coming from the renderer (untrusted)
+ */
+export function normalizeSilenceOptions(raw: unknown): SilenceOptions {
+  const { threshold = DEFAULT_SILENCE_THRESHOLD_DB, minDuration = DEFAULT_SILENCE_MIN_DURATION } =
+    (raw ?? {}) as { threshold?: unknown; minDuration?: unknown }
+  if (typeof threshold !== 'number' || !Number.isFinite(threshold) ||
+    threshold < MIN_SILENCE_THRESHOLD_DB || threshold > MAX_SILENCE_THRESHOLD_DB) {
+    throw new Error(`Invalid silence threshold: ${String(threshold)} (${MIN_SILENCE_THRESHOLD_DB} to ${MAX_SILENCE_THRESHOLD_DB} dB)`)
+  }
+  if (typeof minDuration !== 'number' || !Number.isFinite(minDuration) ||
+    minDuration < MIN_SILENCE_MIN_DURATION || minDuration > MAX_SILENCE_MIN_DURATION) {
+    throw new Error(`Invalid silence minimum duration: ${String(minDuration)} (${MIN_SILENCE_MIN_DURATION}-${MAX_SILENCE_MIN_DURATION}s)`)
+  }
+  return { threshold, minDuration }
+}
+
+export function buildSilenceDetectFilter(options: SilenceOptions): string {
+  return `silencedetect=noise=${options.threshold}dB:d=${options.minDuration}`
+}
+
+/**
+ * Whether one ffmpeg stderr line is a silencedetect event
+ */
+export function isSilenceDetectLine(line: string): boolean {
+  return line.includes('silence_start') || line.includes('silence_end')
+}
+
+/**
+ * Read the silence_start/silence_end lines silencedetect printed to ffmpeg's stderr
+ */
+export function parseSilenceDetect(stderr: string): SilenceInterval[] {
+  const intervals: SilenceInterval[] = []
+  const pattern = /silence_(start|end):\s*(-?\d+(?:\.\d+)?)/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(stderr)) !== null) {
+    const value = Math.max(0, Number(match[2]))
+    if (match[1] === 'start') {
+      intervals.push({ start: value })
+    } else if (intervals.length > 0 && intervals[intervals.length - 1].end === undefined) {
+      intervals[intervals.length - 1].end = value
+    }
+  }
+  return intervals
+}
+
+/**
+ * Trim that removes the silence at the head and tail of a file
+ * A file that is (almost) all silence is left alone - trimming it would leave
+ * less than MIN_REMAINING_SECONDS of audio.
+ */
+export function computeSilenceTrim(intervals: SilenceInterval[], duration: number): SilenceDetection {
+  const none: SilenceDetection = { trim: null, head: 0, tail: 0 }
+  if (!(duration > 0)) return none
+
+  const first = intervals[0]
+  const last = intervals[intervals.length - 1]
+  const headEnd = first && first.start <= EDGE_TOLERANCE_SECONDS && first.end !== undefined ? first.end : 0
+  const tailStart = last && (last.end === undefined || last.end >= duration - EDGE_TOLERANCE_SECONDS) && last.start > headEnd
+    ? last.start
+    : duration
+
+  const start = Math.floor(headEnd * 1000) / 1000
+  const end = Math.ceil(Math.min(tailStart, duration) * 1000) / 1000
+  if (end - start < MIN_REMAINING_SECONDS || (start === 0 && end >= duration)) {
+    return none
+  }
+  const head = start
+  const tail = end < duration ? Math.round((duration - end) * 1000) / 1000 : 0
+  return {
+    trim: tail > 0 ? { start, end } : { start },
+    head,
+    tail
+  }
+}
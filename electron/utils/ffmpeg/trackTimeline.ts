@@ -0,0 +1,32 @@
+/**
+ * Track Timeline - Track Lengths Measured From What Was Actually Encoded
+ *
+ * Summing the ffprobe durations of the inputs drifts over long playlists:
+ * VBR MP3 durations are estimates, encoder delay/AAC priming add samples and
+ * segments are cut to whole frames. Timestamps and chapters are built from
+ * these measured lengths instead.
+ */
+
+/**
+ * Read the last 'time=HH:MM:SS.xx' ffmpeg printed (the decoded length of a null encode)
+ * @returns Seconds, or null when ffmpeg printed no time
+ */
+export function parseLastTimemark(stderr: string): number | null {
+  const matches = [...stderr.matchAll(/time=\s*(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/g)]
+  const last = matches[matches.length - 1]
+  if (!last) return null
+  return Number(last[1]) * 3600 + Number(last[2]) * 60 + Number(last[3])
+}
+
+/**
+ * Add up the measured segment lengths of each track (padding segments belong to the preceding track)
+ */
+export function sumTrackSegments(segments: Array<{ track: number; duration: number }>, trackCount: number): number[] {
+  const lengths = new Array<number>(trackCount).fill(0)
+  for (const segment of segments) {
+    if (segment.track >= 0 && segment.track < trackCount) {
+      lengths[segment.track] += Math.max(0, segment.duration)
+    }
+  }
+  return lengths
+}
@@ -0,0 +1,75 @@
+/**
+ * Track Trim - Per-Track In/Out Points for Playlist Audio
+ *
+ * Each playlist entry may skip a weak intro (start) and stop before a long
+ * silent tail (end). The offsets are applied where each track is read, so the
+ * trimmed track is what gets encoded, measured and timestamped.
+ */
+
+export interface TrackTrim {
+  start: number  // Seconds skipped at the beginning of the file (0 = from the start)
+  end?: number   // Position in the file where the track stops (unset = end of file)
+}
+
+// A trimmed track must keep at least this much audio
+export const MIN_TRIMMED_SECONDS = 1
+
+export function isTrimmed(trim: TrackTrim | undefined): boolean {
+  return !!trim && (trim.start > 0 || trim.end !== undefined)
+}
+
+/**
+ * Validate per-track trims coming from the renderer (untrusted)
+ * One entry per audio file, null for tracks that play in full.
+ * @returns undefined when no track is trimmed
+ */
+export function normalizeTrackTrims(raw: unknown, trackCount: number): TrackTrim[] | undefined {
+  if (raw === undefined || raw === null) {
+    return undefined
+  }
+  if (!Array.isArray(raw) || raw.length !== trackCount) {
+    throw new Error(`Expected ${trackCount} track trims, got ${Array.isArray(raw) ? raw.length : typeof raw}`)
+  }
+
+  const trims = raw.map((entry, i): TrackTrim => {
+    if (entry === undefined || entry === null) {
+      return { start: 0 }
+    }
+    const { start = 0, end } = entry as { start?: unknown; end?: unknown }
+    if (typeof start !== 'number' || !Number.isFinite(start) || start < 0) {
+      throw new Error(`Invalid trim start for track ${i + 1}: ${String(start)}`)
+    }
+    if (end === undefined || end === null) {
+      return { start }
+    }
+    if (typeof end !== 'number' || !Number.isFinite(end) || end < start + MIN_TRIMMED_SECONDS) {
+      throw new Error(`Invalid trim end for track ${i + 1}: ${String(end)} (must be at least ${MIN_TRIMMED_SECONDS}s after the start)`)
+    }
+    return { start, end }
+  })
+  return trims.some(isTrimmed) ? trims : undefined
+}
+
+/**
+ * Length of a track once trimmed (the end never runs past the file)
+ */
+export function getTrimmedDuration(duration: number, trim: TrackTrim | undefined): number {
+  if (!trim) return duration
+  return Math.max(0, Math.min(duration, trim.end ?? duration) - trim.start)
+}
+
+/**
+ * Input options that read only the trimmed part of a track
+ * (-t instead of -to: the length counts from the seek point)
+ */
+export function buildTrimInputOptions(trim: TrackTrim | undefined): string[] {
+  if (!trim) return []
+  const options: string[] = []
+  if (trim.start > 0) {
+    options.push('-ss', String(trim.start))
+  }
+  if (trim.end !== undefined) {
+    options.push('-t', String(trim.end - trim.start))
+  }
+  return options
+}
@@ -0,0 +1,74 @@
+/**
+ * Track Volume - Per-Track Gain and Mute
+ *
+ * A manual dB gain (or mute) set on individual playlist tracks or concat
+ * clips. It is added to the loudness normalization gain, so the same
+ * per-input gain filter applies both; tracks left at 0 dB keep the
+ * stream-copy fast path.
+ */
+
+export interface TrackVolume {
+  gain: number      // dB added to the track (0 = unchanged)
+  muted?: boolean   // Silence the track (its length and timestamps are kept)
+}
+
+export const MIN_TRACK_VOLUME_DB = -30
+export const MAX_TRACK_VOLUME_DB = 12
+
+// Gain of a muted track (buildGainFilter turns it into volume=0)
+export const MUTED_GAIN = -Infinity
+
+export function isVolumeChanged(volume: TrackVolume | undefined): boolean {
+  return !!volume && (!!volume.muted || volume.gain !== 0)
+}
+
+/**
+ * Validate per-track volumes coming from the renderer (untrusted)
+ * One entry per input, null for inputs left unchanged.
+ * @returns undefined when no volume is changed
+ */
+export function normalizeTrackVolumes(raw: unknown, trackCount: number): TrackVolume[] | undefined {
+  if (raw === undefined || raw === null) {
+    return undefined
+  }
+  if (!Array.isArray(raw) || raw.length !== trackCount) {
+    throw new Error(`Expected ${trackCount} track volumes, got ${Array.isArray(raw) ? raw.length : typeof raw}`)
+  }
+
+  const volumes = raw.map((entry, i): TrackVolume => {
+    if (entry === undefined || entry === null) {
+      return { gain: 0 }
+    }
+    const { gain = 0, muted } = entry as { gain?: unknown; muted?: unknown }
+    if (typeof gain !== 'number' || !Number.isFinite(gain) || gain < MIN_TRACK_VOLUME_DB || gain > MAX_TRACK_VOLUME_DB) {
+      throw new Error(`Invalid gain for track ${i + 1}: ${String(gain)} (${MIN_TRACK_VOLUME_DB} to +${MAX_TRACK_VOLUME_DB} dB)`)
+    }
+    return muted === true ? { gain, muted: true } : { gain }
+  })
+  return volumes.some(isVolumeChanged) ? volumes : undefined
+}
+
+/**
+ * Add the manual volumes to the measured loudness gains (dB per track)
+ * @returns undefined when neither is set, so single tracks skip the merge
+ */
+export function applyTrackVolumes(
+  gains: number[] | undefined,
+  volumes: TrackVolume[] | undefined,
+  trackCount: number
+): number[] | undefined {
+  if (!volumes) return gains
+  return Array.from({ length: trackCount }, (_, i) => {
+    const volume = volumes[i]
+    if (volume?.muted) return MUTED_GAIN
+    return Math.round(((gains?.[i] ?? 0) + (volume?.gain ?? 0)) * 100) / 100
+  })
+}
+
+/**
+ * Log line for one track's manual volume
+ */
+export function formatTrackVolume(volume: TrackVolume): string {
+  if (volume.muted) return 'muted'
+  return `${volume.gain > 0 ? '+' : ''}${volume.gain.toFixed(1)} dB`
+}
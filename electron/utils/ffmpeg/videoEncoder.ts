@@ -0,0 +1,250 @@
+/**
+ * Video Encoder - Codec, Container and Quality for Re-encodes
+ *
+ * Every path that re-encodes video builds its codec options here, so still
+ * segments, black screens, playlist segments and concat re-encodes all use the
+ * same encoder and can still be joined by stream copy:
+ * - h264: libx264          (MP4, MKV, MOV)
+ * - h265: libx265          (MP4, MKV, MOV)
+ * - vp9:  libvpx-vp9       (WebM, MKV)
+ * - av1:  libsvtav1 or libaom-av1 (MP4, WebM, MKV)
+ *
+ * Only encoders compiled into the bundled ffmpeg are offered (capability check).
+ */
+
+import ffmpeg from 'fluent-ffmpeg'
+
+export type VideoCodec = 'h264' | 'h265' | 'vp9' | 'av1'
+export type OutputContainer = 'mp4' | 'mkv' | 'mov' | 'webm'
+export type EncoderPreset = 'auto' | 'ultrafast' | 'superfast' | 'veryfast' | 'faster' | 'fast' | 'medium' | 'slow' | 'slower' | 'veryslow'
+export type EncoderTune = 'auto' | 'none' | 'film' | 'animation' | 'grain'
+
+export interface VideoEncoderSettings {
+  codec: VideoCodec
+  container: OutputContainer
+  crf: number            // Constant quality (h264/h265: 0-51, vp9/av1: 0-63)
+  preset: EncoderPreset  // 'auto' keeps each path's own speed (e.g. ultrafast for black screens)
+  tune: EncoderTune      // 'auto' uses stillimage for still segments (h264)
+}
+
+// Settings resolved against the bundled ffmpeg
+export interface ResolvedVideoEncoder extends VideoEncoderSettings {
+  encoderName: string    // ffmpeg encoder, e.g. 'libx264'
+}
+
+export const DEFAULT_VIDEO_ENCODER_SETTINGS: VideoEncoderSettings = {
+  codec: 'h264',
+  container: 'mp4',
+  crf: 20,
+  preset: 'auto',
+  tune: 'auto'
+}
+
+// Sensible CRF per codec (scales differ between x264/x265 and vp9/av1)
+export const DEFAULT_CRF: Record<VideoCodec, number> = {
+  h264: 20,
+  h265: 24,
+  vp9: 32,
+  av1: 32
+}
+
+const MAX_CRF: Record<VideoCodec, number> = {
+  h264: 51,
+  h265: 51,
+  vp9: 63,
+  av1: 63
+}
+
+// ffmpeg encoders per codec, in order of preference
+const CODEC_ENCODERS: Record<VideoCodec, string[]> = {
+  h264: ['libx264'],
+  h265: ['libx265'],
+  vp9: ['libvpx-vp9'],
+  av1: ['libsvtav1', 'libaom-av1']
+}
+
+// Codec names as reported by ffprobe (to tell whether a source already matches)
+export const FFPROBE_CODEC_NAMES: Record<VideoCodec, string> = {
+  h264: 'h264',
+  h265: 'hevc',
+  vp9: 'vp9',
+  av1: 'av1'
+}
+
+// Codecs each container can hold
+export const CONTAINER_CODECS: Record<OutputContainer, VideoCodec[]> = {
+  mp4: ['h264', 'h265', 'av1'],
+  mkv: ['h264', 'h265', 'vp9', 'av1'],
+  mov: ['h264', 'h265'],
+  webm: ['vp9', 'av1']
+}
+
+const PRESETS: EncoderPreset[] = ['auto', 'ultrafast', 'superfast', 'veryfast', 'faster', 'fast', 'medium', 'slow', 'slower', 'veryslow']
+const TUNES: EncoderTune[] = ['auto', 'none', 'film', 'animation', 'grain']
+
+// x264-style preset -> speed index (0 = fastest) for encoders with other speed scales
+const PRESET_SPEED_INDEX: Record<Exclude<EncoderPreset, 'auto'>, number> = {
+  ultrafast: 0, superfast: 1, veryfast: 2, faster: 3, fast: 4, medium: 5, slow: 6, slower: 7, veryslow: 8
+}
+const VPX_CPU_USED = [5, 5, 5, 4, 3, 2, 1, 1, 0]         // libvpx-vp9 -cpu-used ('good' deadline: 0-5)
+const SVT_AV1_PRESET = [12, 11, 10, 9, 8, 7, 5, 4, 2]    // libsvtav1 -preset (0-13)
+const AOM_CPU_USED = [8, 7, 6, 5, 4, 3, 2, 1, 0]         // libaom-av1 -cpu-used (0-8)
+
+/**
+ * Validate encoder settings coming from the renderer or store (untrusted)
+ */
+export function normalizeVideoEncoderSettings(raw?: Partial<VideoEncoderSettings>): VideoEncoderSettings {
+  const codec = raw?.codec ?? DEFAULT_VIDEO_ENCODER_SETTINGS.codec
+  if (!Object.prototype.hasOwnProperty.call(CODEC_ENCODERS, codec)) {
+    throw new Error(`Invalid video codec: ${codec}`)
+  }
+  const container = raw?.container ?? DEFAULT_VIDEO_ENCODER_SETTINGS.container
+  if (!Object.prototype.hasOwnProperty.call(CONTAINER_CODECS, container)) {
+    throw new Error(`Invalid container: ${container}`)
+  }
+  if (!CONTAINER_CODECS[container].includes(codec)) {
+    throw new Error(`${codec} cannot be stored in ${container}`)
+  }
+  const crf = Number(raw?.crf ?? DEFAULT_CRF[codec])
+  if (!Number.isInteger(crf) || crf < 0 || crf > MAX_CRF[codec]) {
+    throw new Error(`Invalid CRF for ${codec}: must be between 0 and ${MAX_CRF[codec]}`)
+  }
+  const preset = raw?.preset ?? 'auto'
+  if (!PRESETS.includes(preset)) {
+    throw new Error(`Invalid encoder preset: ${preset}`)
+  }
+  const tune = raw?.tune ?? 'auto'
+  if (!TUNES.includes(tune)) {
+    throw new Error(`Invalid encoder tune: ${tune}`)
+  }
+  return { codec, container, crf, preset, tune }
+}
+
+/**
+ * Pick the ffmpeg encoder for the settings from the encoders the binary supports
+ *
+ * @returns null if no encoder for the codec is available
+ */
+export function resolveVideoEncoder(
+  settings: VideoEncoderSettings,
+  availableEncoders: string[]
+): ResolvedVideoEncoder | null {
+  const encoderName = CODEC_ENCODERS[settings.codec].find((name) => availableEncoders.includes(name))
+  return encoderName ? { ...settings, encoderName } : null
+}
+
+/**
+ * Codecs that have at least one encoder in the given list
+ */
+export function getSupportedVideoCodecs(availableEncoders: string[]): VideoCodec[] {
+  return (Object.keys(CODEC_ENCODERS) as VideoCodec[]).filter((codec) =>
+    CODEC_ENCODERS[codec].some((name) => availableEncoders.includes(name)))
+}
+
+let availableEncodersPromise: Promise<string[]> | null = null
+
+/**
+ * List the video encoders compiled into the bundled ffmpeg (cached)
+ */
+export function getAvailableVideoEncoders(): Promise<string[]> {
+  if (!availableEncodersPromise) {
+    availableEncodersPromise = new Promise<string[]>((resolve, reject) => {
+      ffmpeg.getAvailableEncoders((err, encoders) => {
+        if (err) {
+          reject(err)
+          return
+        }
+        resolve(Object.keys(encoders).filter((name) => encoders[name].type === 'video'))
+      })
+    }).catch((err) => {
+      // Don't cache failures - the next job probes again
+      availableEncodersPromise = null
+      throw err
+    })
+  }
+  return availableEncodersPromise
+}
+
+/**
+ * Build the video codec options for a re-encode
+ *
+ * @param stillImage - Still image segment: x264 'stillimage' tune, fixed profile, no CRF
+ *                     (callers keep their own small bitrate cap for still segments)
+ * @param defaultPreset - Speed used when the preset is 'auto'
+ */
+export function buildVideoEncoderOptions(
+  encoder: ResolvedVideoEncoder,
+  { stillImage = false, defaultPreset = 'veryfast' }: { stillImage?: boolean; defaultPreset?: Exclude<EncoderPreset, 'auto'> } = {}
+): string[] {
+  const preset = encoder.preset === 'auto' ? defaultPreset : encoder.preset
+  const speed = PRESET_SPEED_INDEX[preset]
+  const options = ['-c:v', encoder.encoderName]
+
+  if (encoder.encoderName === 'libx264') {
+    options.push('-preset', preset)
+    const tune = encoder.tune === 'auto' ? (stillImage ? 'stillimage' : 'none') : encoder.tune
+    if (tune !== 'none') {
+      options.push('-tune', tune)
+    }
+    if (stillImage) {
+      // Same profile/level for every segment so they concat by stream copy
+      options.push('-profile:v', 'main', '-level', '4.0')
+    }
+  } else if (encoder.encoderName === 'libx265') {
+    options.push('-preset', preset)
+    // x265 has no film/stillimage tune
+    if (encoder.tune === 'animation' || encoder.tune === 'grain') {
+      options.push('-tune', encoder.tune)
+    }
+    options.push('-x265-params', 'log-level=error')
+  } else if (encoder.encoderName === 'libvpx-vp9') {
+    options.push('-deadline', 'good', '-cpu-used', String(VPX_CPU_USED[speed]), '-row-mt', '1')
+  } else if (encoder.encoderName === 'libsvtav1') {
+    options.push('-preset', String(SVT_AV1_PRESET[speed]))
+  } else if (encoder.encoderName === 'libaom-av1') {
+    options.push('-cpu-used', String(AOM_CPU_USED[speed]), '-row-mt', '1')
+  }
+
+  // Apple players need the hvc1 tag for HEVC in MP4/MOV
+  if (encoder.codec === 'h265' && encoder.container !== 'mkv') {
+    options.push('-tag:v', 'hvc1')
+  }
+
+  if (!stillImage) {
+    options.push('-crf', String(encoder.crf))
+    // libvpx/libaom: -b:v 0 selects constant quality mode
+    if (encoder.encoderName === 'libvpx-vp9' || encoder.encoderName === 'libaom-av1') {
+      options.push('-b:v', '0')
+    }
+  }
+
+  return options
+}
+
+/**
+ * Audio codec for the final output container
+ * WebM only holds Opus/Vorbis, and Opus only runs at 48 kHz.
+ */
+export function buildAudioCodecOptions(
+  container: OutputContainer,
+  { codec = 'aac', bitrate, sampleRate }: { codec?: string; bitrate?: string; sampleRate?: string | number } = {}
+): string[] {
+  const isWebm = container === 'webm'
+  const options = ['-c:a', isWebm ? 'libopus' : codec]
+  if (bitrate) {
+    options.push('-b:a', bitrate)
+  }
+  if (isWebm) {
+    options.push('-ar', '48000')
+  } else if (sampleRate) {
+    options.push('-ar', String(sampleRate))
+  }
+  return options
+}
+
+/**
+ * Container-specific output options (faststart only applies to MP4/MOV)
+ */
+export function buildContainerOptions(container: OutputContainer): string[] {
+  return container === 'mp4' || container === 'mov' ? ['-movflags', '+faststart'] : []
+}
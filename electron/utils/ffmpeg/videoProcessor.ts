@@ -13,6 +13,14 @@ import { ProgressCallback } from './types.js'
 import { concatenateAudios } from './audioProcessor.js'
 import { safeRmSync } from '../fsSafe.js'
 import { getAudioDuration } from './metadataAnalyzer.js'
+import { buildImageFillFilters, detectDominantColor, type ImageFillOptions } from './imageFill.js'
+import {
+  DEFAULT_VIDEO_ENCODER_SETTINGS,
+  buildVideoEncoderOptions,
+  buildAudioCodecOptions,
+  buildContainerOptions,
+  type ResolvedVideoEncoder
+} from './videoEncoder.js'
 
 /**
  * Get safe output path (avoid overwriting existing files)
@@ -43,18 +51,25 @@ function getSafeOutputPath(desiredPath: string): string {
  * 
  * @param imagePath - Input image path
  * @param outputPath - Output padded image path (should be .png for lossless)
+ * @param width - Output width
+ * @param height - Output height
+ * @param imageFill - What fills the frame around the image (default: black letterbox)
  * @returns Promise that resolves to the output path
  */
 async function preprocessImageWithPadding(
   imagePath: string,
-  outputPath: string
+  outputPath: string,
+  width: number,
+  height: number,
+  imageFill: ImageFillOptions = { mode: 'black', focalX: 50, focalY: 50 }
 ): Promise<string> {
+  const fillColor = imageFill.mode === 'color'
+    ? await detectDominantColor(imagePath)
+    : undefined
+
   return new Promise((resolve, reject) => {
     ffmpeg(imagePath)
-      .videoFilters([
-        'scale=1920:1080:force_original_aspect_ratio=decrease',
-        'pad=1920:1080:(ow-iw)/2:(oh-ih)/2:black'
-      ])
+      .videoFilters(buildImageFillFilters(imageFill, width, height, fillColor))
       .outputOptions([
         '-vframes 1',  // Only process 1 frame
         '-f image2',   // Image format
@@ -78,12 +93,21 @@ async function preprocessImageWithPadding(
  * 
  * @param videoPath - Input video path
  * @param outputPath - Output thumbnail image path (should be .jpg or .png)
+ * @param outputSize - Size of the final video; the frame is letterboxed to its aspect ratio
  * @returns Promise that resolves to the output thumbnail path
  */
 export async function extractFirstFrameAsThumbnail(
   videoPath: string,
-  outputPath: string
+  outputPath: string,
+  outputSize?: { width: number; height: number }
 ): Promise<string> {
+  let scaleFilter = 'scale=320:-1'
+  if (outputSize) {
+    // 320px wide, height follows the output aspect ratio (kept even for yuv420p)
+    const thumbHeight = Math.max(2, Math.round((320 * outputSize.height) / outputSize.width / 2) * 2)
+    scaleFilter = `scale=320:${thumbHeight}:force_original_aspect_ratio=decrease,pad=320:${thumbHeight}:(ow-iw)/2:(oh-ih)/2:black`
+  }
+
   return new Promise((resolve, reject) => {
     log.info(`[Thumbnail] Extracting first frame from: ${videoPath}`)
     
@@ -91,7 +115,7 @@ export async function extractFirstFrameAsThumbnail(
       .outputOptions([
         '-vframes 1',           // Extract only 1 frame
         '-q:v 2',               // High quality (2-5 is best for JPEG)
-        '-vf scale=320:-1',     // Resize to 320px width (maintain aspect ratio)
+        `-vf ${scaleFilter}`,   // Resize to 320px width (output aspect ratio if given)
         '-f image2'             // Image format
       ])
       .output(outputPath)
@@ -189,6 +213,10 @@ export async function createVideoFromImage(
     enableFadeOut?: boolean
     fadeOutDuration?: number
     audioBitrate?: string
+    width?: number
+    height?: number
+    imageFill?: ImageFillOptions
+    videoEncoder?: ResolvedVideoEncoder  // Default: H.264/MP4
     tempDir?: string
     onProgress?: ProgressCallback
     currentCommandRef?: { current: FfmpegCommand | null }
@@ -200,6 +228,10 @@ export async function createVideoFromImage(
     enableFadeOut = true,
     fadeOutDuration = 2,
     audioBitrate = '192k',
+    width = 1920,
+    height = 1080,
+    imageFill,
+    videoEncoder = { ...DEFAULT_VIDEO_ENCODER_SETTINGS, encoderName: 'libx264' },
     tempDir,
     onProgress,
     currentCommandRef
@@ -272,7 +304,7 @@ export async function createVideoFromImage(
 
     log.info(`🚀 Preprocessing image with padding (fast!)...`)
     try {
-      await preprocessImageWithPadding(normalizedImagePath, tempImagePath)
+      await preprocessImageWithPadding(normalizedImagePath, tempImagePath, width, height, imageFill)
       processedImagePath = tempImagePath
       log.info(`✅ Image preprocessed in <0.1 seconds!`)
     } catch (err) {
@@ -298,14 +330,14 @@ export async function createVideoFromImage(
     // Image or black background
     if (!processedImagePath) {
       command
-        .input('color=c=black:s=1920x1080:r=30')
+        .input(`color=c=black:s=${width}x${height}:r=30`)
         .inputFormat('lavfi')
     } else {
       // Use preprocessed image (already padded, no filters needed!)
       command
         .input(processedImagePath)
         .inputOptions(['-loop 1'])
-      // NO videoFilters needed! Image is already 1920x1080 with padding
+      // NO videoFilters needed! Image is already padded to width x height
     }
 
     // Add audio
@@ -313,19 +345,17 @@ export async function createVideoFromImage(
     command
       .input(normalizedFinalAudioPath)
       .outputOptions([
-        '-c:v', 'libx264',
-        '-tune', 'stillimage',
-        '-c:a', 'aac',
-        '-b:a', '192k',
+        // 🚀 OPTIMIZATION: ultrafast preset (2-3x faster than 'fast') unless a preset is selected
+        ...buildVideoEncoderOptions(videoEncoder, { stillImage: true, defaultPreset: 'ultrafast' }),
+        ...buildAudioCodecOptions(videoEncoder.container, { bitrate: '192k' }),
         '-b:v', '500k',          // 🎯 VIDEO BITRATE: 500k for still image (prevents huge files!)
         '-maxrate', '500k',      // 🎯 MAX BITRATE: cap at 500k
         '-bufsize', '1000k',     // 🎯 BUFFER SIZE: 2x maxrate
         '-shortest',
         '-pix_fmt', 'yuv420p',
-        '-preset', 'ultrafast',  // 🚀 OPTIMIZATION: ultrafast preset (2-3x faster than 'fast')
         '-r', '1',               // 🚀 OPTIMIZATION: 1 FPS for still image (30x fewer frames!)
         '-g', '1',               // 🚀 OPTIMIZATION: Every frame is keyframe (better seeking)
-        '-movflags', '+faststart' // 🚀 OPTIMIZATION: Fast start for web playback
+        ...buildContainerOptions(videoEncoder.container) // 🚀 OPTIMIZATION: Fast start for web playback
       ])
       .on('progress', (p) => {
         if (onProgress && audioDuration > 0 && p.timemark) {
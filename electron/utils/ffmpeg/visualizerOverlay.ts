@@ -0,0 +1,116 @@
+/**
+ * Visualizer Overlay - Audio-Reactive Layer for Image + Music Videos
+ *
+ * Builds the filter graph that draws an audio visualizer on top of the background:
+ * - waveform: showwaves (centered line waveform)
+ * - spectrum: showfreqs (frequency bars, log scale)
+ * - vu: avectorscope (circular stereo scope that pulses with the level)
+ *
+ * Every frame changes, so the video can no longer be stream-copied from a
+ * 1-frame segment - the output is re-encoded at VISUALIZER_FPS.
+ */
+
+export type VisualizerStyle = 'waveform' | 'spectrum' | 'vu'
+export type VisualizerPosition = 'top' | 'center' | 'bottom'
+
+export interface VisualizerOptions {
+  style: VisualizerStyle
+  position: VisualizerPosition
+  size: number      // Percentage of the frame height (10-100)
+  color: string     // Hex color (#RRGGBB)
+  opacity: number   // 0.1-1
+}
+
+// Frame rate of the re-encoded output (background is resampled to match)
+export const VISUALIZER_FPS = 25
+
+// Encoding settings for the visualizer output (codec options come from the selected video encoder)
+export function buildVisualizerVideoOptions(videoCodecOptions: string[]): string[] {
+  return [
+    ...videoCodecOptions,
+    '-pix_fmt', 'yuv420p',
+    '-r', String(VISUALIZER_FPS)
+  ]
+}
+
+const VISUALIZER_STYLES: VisualizerStyle[] = ['waveform', 'spectrum', 'vu']
+const VISUALIZER_POSITIONS: VisualizerPosition[] = ['top', 'center', 'bottom']
+
+/**
+ * Validate visualizer options coming from the renderer (untrusted)
+ */
+export function normalizeVisualizerOptions(raw: Partial<VisualizerOptions>): VisualizerOptions {
+  const style = raw?.style ?? 'waveform'
+  if (!VISUALIZER_STYLES.includes(style)) {
+    throw new Error(`Invalid visualizer style: ${style}`)
+  }
+  const position = raw?.position ?? 'bottom'
+  if (!VISUALIZER_POSITIONS.includes(position)) {
+    throw new Error(`Invalid visualizer position: ${position}`)
+  }
+  const size = Number(raw?.size ?? 25)
+  if (!Number.isFinite(size) || size < 10 || size > 100) {
+    throw new Error('Invalid visualizer size: must be between 10 and 100')
+  }
+  const color = String(raw?.color ?? '#ffffff')
+  if (!/^#[0-9a-fA-F]{6}$/.test(color)) {
+    throw new Error(`Invalid visualizer color: ${color}`)
+  }
+  const opacity = Number(raw?.opacity ?? 0.8)
+  if (!Number.isFinite(opacity) || opacity < 0.1 || opacity > 1) {
+    throw new Error('Invalid visualizer opacity: must be between 0.1 and 1')
+  }
+
+  return { style, position, size, color, opacity }
+}
+
+// libx264 + yuv420p need even dimensions
+function toEven(value: number): number {
+  return Math.max(2, Math.round(value / 2) * 2)
+}
+
+/**
+ * Build the complex filter graph for the visualizer
+ *
+ * Inputs: [0:v] background (image segment, black segment or video), [1:a] audio
+ * Output: [v] background + visualizer (audio is mapped from 1:a as-is)
+ */
+export function buildVisualizerFilterGraph(
+  options: VisualizerOptions,
+  videoWidth: number,
+  videoHeight: number
+): string[] {
+  const { style, position, size, color, opacity } = options
+  const hex = color.replace('#', '')
+  const alpha = opacity.toFixed(2)
+
+  const layerHeight = toEven(videoHeight * (size / 100))
+  // Waveform and spectrum span the full width; the circular scope is square
+  const layerWidth = style === 'vu' ? layerHeight : toEven(videoWidth)
+
+  let visualizer: string
+  if (style === 'waveform') {
+    visualizer = `[1:a]showwaves=s=${layerWidth}x${layerHeight}:mode=cline:rate=${VISUALIZER_FPS}:colors=0x${hex}`
+  } else if (style === 'spectrum') {
+    visualizer = `[1:a]showfreqs=s=${layerWidth}x${layerHeight}:mode=bar:fscale=log:ascale=log:colors=0x${hex},fps=${VISUALIZER_FPS}`
+  } else {
+    const red = parseInt(hex.slice(0, 2), 16)
+    const green = parseInt(hex.slice(2, 4), 16)
+    const blue = parseInt(hex.slice(4, 6), 16)
+    // avectorscope draws on black - key it out so only the scope is overlaid
+    visualizer = `[1:a]avectorscope=s=${layerWidth}x${layerHeight}:mode=lissajous:draw=line:scale=sqrt:rate=${VISUALIZER_FPS}:rc=${red}:gc=${green}:bc=${blue}:ac=255,colorkey=black:0.1:0.1`
+  }
+
+  let y = 'H-h'
+  if (position === 'top') {
+    y = '0'
+  } else if (position === 'center') {
+    y = '(H-h)/2'
+  }
+
+  return [
+    `[0:v]fps=${VISUALIZER_FPS},scale=${videoWidth}:${videoHeight}:force_original_aspect_ratio=decrease,pad=${videoWidth}:${videoHeight}:(ow-iw)/2:(oh-ih)/2:black,setsar=1[bg]`,
+    `${visualizer},format=rgba,colorchannelmixer=aa=${alpha}[viz]`,
+    `[bg][viz]overlay=x=(W-w)/2:y=${y}:shortest=1,format=yuv420p[v]`
+  ]
+}
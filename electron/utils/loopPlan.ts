@@ -0,0 +1,34 @@
+/**
+ * Loop plan for target-duration loops
+ *
+ * Shared by the main process (loopOptimizer.ts) and the loop tab preview,
+ * so the UI shows exactly the iterations the job will encode.
+ * Keep this module free of imports - the renderer bundles it too.
+ */
+
+// Partial iterations shorter than this are dropped (less than a frame at 1000 fps)
+export const MIN_PARTIAL_DURATION = 0.001
+
+export interface LoopPlan {
+  fullIterations: number
+  partialDuration: number  // Seconds of the trimmed last iteration (0 = none)
+}
+
+/**
+ * Split a target duration into whole iterations plus a trimmed partial iteration
+ * @returns null if either duration is not a positive number
+ */
+export function calculateLoopPlan(clipDuration: number, targetDuration: number): LoopPlan | null {
+  if (!Number.isFinite(clipDuration) || clipDuration <= 0 || !Number.isFinite(targetDuration) || targetDuration <= 0) {
+    return null
+  }
+
+  // Small epsilon so 3 x 20s = 60s doesn't turn into 2 iterations + 19.999s
+  const fullIterations = Math.floor(targetDuration / clipDuration + 1e-9)
+  const partialDuration = targetDuration - fullIterations * clipDuration
+
+  return {
+    fullIterations,
+    partialDuration: partialDuration >= MIN_PARTIAL_DURATION ? partialDuration : 0
+  }
+}
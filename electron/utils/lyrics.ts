@@ -0,0 +1,226 @@
+/**
+ * Lyrics - LRC/Plain Text Lyrics as Subtitles for Image+Music Videos
+ *
+ * Each track may come with a lyrics file: an '.lrc' or '.txt' next to the
+ * audio file (song.mp3 -> song.lrc, song.txt) or one attached manually.
+ * - LRC: '[mm:ss.xx] line' (several time tags per line, [offset:] in ms)
+ * - Plain text without time tags: lines are spread evenly over the track
+ *
+ * Line times are relative to their track and become absolute cues by adding
+ * the track start (the same track spans as the chapters/timestamps).
+ * Cues are written as a soft subtitle stream (SRT) or burned in as
+ * karaoke-style text (ASS: current line highlighted, next line dimmed).
+ */
+
+import path from 'node:path'
+
+export type LyricsMode = 'soft' | 'burn'
+
+export const LYRICS_MODES: LyricsMode[] = ['soft', 'burn']
+
+export const LYRICS_EXTENSIONS = ['.lrc', '.txt']
+
+export const MAX_LYRICS_FILE_BYTES = 512 * 1024
+
+export interface LyricsLine {
+  time: number  // Seconds from the start of the track
+  text: string  // '' clears the previous line
+}
+
+// Timed LRC lines, or plain text lines without times
+export type ParsedLyrics =
+  | { timed: true; lines: LyricsLine[] }
+  | { timed: false; lines: string[] }
+
+export interface LyricsCue {
+  start: number  // Seconds in the output
+  end: number    // Seconds in the output
+  text: string
+}
+
+export interface LyricsTrack {
+  lyrics: ParsedLyrics | null  // null: no lyrics for this track
+  start: number                // Track span in the output (seconds)
+  end: number
+}
+
+// Lines shorter than this are stretched so a cue never flashes by
+const MIN_CUE_SECONDS = 0.5
+
+export function isLyricsMode(value: unknown): value is LyricsMode {
+  return typeof value === 'string' && (LYRICS_MODES as string[]).includes(value)
+}
+
+/**
+ * Lyrics files looked up next to an audio file, in order of preference
+ */
+export function getLyricsCandidatePaths(audioPath: string): string[] {
+  const extension = path.extname(audioPath)
+  const base = path.join(path.dirname(audioPath), path.basename(audioPath, extension))
+  return LYRICS_EXTENSIONS.map((lyricsExtension) => base + lyricsExtension)
+}
+
+/**
+ * Parse an LRC or plain text lyrics file
+ * ID tags ([ar:], [ti:], ...) and enhanced LRC word times (<mm:ss.xx>) are ignored.
+ * @returns null when the file has no lyrics lines
+ */
+export function parseLyrics(content: string): ParsedLyrics | null {
+  const timedLines: LyricsLine[] = []
+  const plainLines: string[] = []
+  let offset = 0
+
+  for (const rawLine of content.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const offsetMatch = rawLine.match(/^\s*\[offset:\s*([+-]?\d+)\s*\]/i)
+    if (offsetMatch) {
+      offset = Number(offsetMatch[1]) / 1000
+      continue
+    }
+
+    // Leading time tags: '[01:02.50][02:10.00]text'
+    const times: number[] = []
+    let rest = rawLine.trim()
+    let tag: RegExpMatchArray | null
+    while ((tag = rest.match(/^\[(\d+):(\d{1,2}(?:[.:]\d{1,3})?)\]/))) {
+      times.push(Number(tag[1]) * 60 + Number(tag[2].replace(':', '.')))
+      rest = rest.slice(tag[0].length).trimStart()
+    }
+    // Other tags ([ar:Artist], [length:...]) carry no lyrics
+    if (times.length === 0 && /^\[[a-z#]+:.*\]$/i.test(rest)) continue
+
+    const text = rest.replace(/<\d+:\d{1,2}(?:[.:]\d{1,3})?>/g, '').replace(/\s{2,}/g, ' ').trim()
+    if (times.length > 0) {
+      for (const time of times) {
+        timedLines.push({ time, text })
+      }
+    } else if (text) {
+      plainLines.push(text)
+    }
+  }
+
+  if (timedLines.length > 0) {
+    // A positive offset shows the lyrics earlier
+    const lines = timedLines
+      .map((line) => ({ time: Math.max(0, line.time - offset), text: line.text }))
+      .sort((a, b) => a.time - b.time)
+    return lines.some((line) => line.text) ? { timed: true, lines } : null
+  }
+  return plainLines.length > 0 ? { timed: false, lines: plainLines } : null
+}
+
+/**
+ * Move timed lines to a trimmed track (its in point becomes time 0)
+ * The line still showing at the in point starts at 0; earlier lines are dropped.
+ * Plain lyrics are spread over whatever is left, so they are unchanged.
+ */
+export function trimLyrics(lyrics: ParsedLyrics | null, trimStart: number): ParsedLyrics | null {
+  if (!lyrics || !lyrics.timed || trimStart <= 0) return lyrics
+  const firstKept = lyrics.lines.findIndex((line) => line.time > trimStart)
+  const startIndex = firstKept < 0 ? lyrics.lines.length - 1 : Math.max(0, firstKept - 1)
+  const lines = lyrics.lines
+    .slice(startIndex)
+    .map((line) => ({ time: Math.max(0, line.time - trimStart), text: line.text }))
+  return lines.some((line) => line.text) ? { timed: true, lines } : null
+}
+
+/**
+ * Turn the lyrics of each track into cues on the output timeline
+ * A line lasts until the next line or the end of its track.
+ */
+export function buildLyricsCues(tracks: LyricsTrack[]): LyricsCue[] {
+  const cues: LyricsCue[] = []
+
+  for (const track of tracks) {
+    if (!track.lyrics || track.end <= track.start) continue
+    const trackLength = track.end - track.start
+
+    const lines: LyricsLine[] = track.lyrics.timed
+      ? track.lyrics.lines
+      : track.lyrics.lines.map((text, i, all) => ({ time: (trackLength * i) / all.length, text }))
+
+    lines.forEach((line, i) => {
+      if (!line.text || line.time >= trackLength) return
+      const start = track.start + line.time
+      const nextTime = i < lines.length - 1 ? Math.min(lines[i + 1].time, trackLength) : trackLength
+      const end = Math.min(track.end, Math.max(track.start + nextTime, start + MIN_CUE_SECONDS))
+      if (end > start) {
+        cues.push({ start, end, text: line.text })
+      }
+    })
+  }
+  return cues
+}
+
+/**
+ * HH:MM:SS,mmm (SRT)
+ */
+function formatSrtTime(seconds: number): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000))
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0')
+  return `${pad(Math.floor(totalMs / 3600000))}:${pad(Math.floor((totalMs % 3600000) / 60000))}:${pad(Math.floor((totalMs % 60000) / 1000))},${pad(totalMs % 1000, 3)}`
+}
+
+/**
+ * H:MM:SS.cc (ASS uses centiseconds)
+ */
+function formatAssTime(seconds: number): string {
+  const totalCs = Math.max(0, Math.round(seconds * 100))
+  const pad = (value: number) => value.toString().padStart(2, '0')
+  return `${Math.floor(totalCs / 360000)}:${pad(Math.floor((totalCs % 360000) / 6000))}:${pad(Math.floor((totalCs % 6000) / 100))}.${pad(totalCs % 100)}`
+}
+
+/**
+ * Format cues as SubRip (muxed as the soft subtitle stream)
+ */
+export function formatLyricsSrt(cues: LyricsCue[]): string {
+  return cues.map((cue, i) =>
+    `${i + 1}\n${formatSrtTime(cue.start)} --> ${formatSrtTime(cue.end)}\n${cue.text.replace(/-->/g, '->')}`
+  ).join('\n\n') + '\n'
+}
+
+// Braces start override blocks and backslashes start tags in ASS text
+function assText(value: string): string {
+  return value.replace(/[{}]/g, (char) => (char === '{' ? '(' : ')')).replace(/\\/g, '/')
+}
+
+/**
+ * Format cues as an ASS script for burning in
+ * The current line is shown in the highlight color with the next line dimmed under it.
+ *
+ * @param width - Output width (script resolution, so sizes match the video)
+ * @param height - Output height
+ */
+export function formatLyricsAss(cues: LyricsCue[], width: number, height: number): string {
+  const fontSize = Math.round(height / 16)
+  const nextFontSize = Math.round(height / 22)
+  const marginV = Math.round(height * 0.06)
+  const lines = [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${width}`,
+    `PlayResY: ${height}`,
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    // Colours are &HAABBGGRR: highlight is warm yellow, next line is translucent white
+    `Style: Current,Arial,${fontSize},&H0000D7FF,&H00FFFFFF,&H00000000,&H80000000,-1,0,0,0,100,100,0,0,1,3,1,2,40,40,${marginV + nextFontSize + Math.round(height * 0.02)},1`,
+    `Style: Next,Arial,${nextFontSize},&H60FFFFFF,&H60FFFFFF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,2,0,2,40,40,${marginV},1`,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text'
+  ]
+
+  cues.forEach((cue, i) => {
+    const start = formatAssTime(cue.start)
+    const end = formatAssTime(cue.end)
+    lines.push(`Dialogue: 0,${start},${end},Current,,0,0,0,,${assText(cue.text)}`)
+    // Preview the next line only when it directly follows (not across a track gap)
+    const next = cues[i + 1]
+    if (next && next.start - cue.end < 1) {
+      lines.push(`Dialogue: 0,${start},${end},Next,,0,0,0,,${assText(next.text)}`)
+    }
+  })
+  return lines.join('\n') + '\n'
+}
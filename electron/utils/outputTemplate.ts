@@ -0,0 +1,158 @@
+/**
+ * Output location and filename templates
+ *
+ * Decides where finished videos are written:
+ * - directory: default output folder ('' = next to the first input, previous behavior)
+ * - datedSubfolder: write into a YYYY-MM-DD subfolder of the output folder
+ * - templates: filename per job type, built from tokens such as {name} or {date}
+ *
+ * Templates only produce a file name - path separators and characters that are
+ * invalid on Windows are replaced, so the output always stays in the chosen folder.
+ */
+
+import path from 'node:path'
+
+export type OutputJobType = 'video-loop' | 'music-video' | 'video-concat'
+
+export interface OutputSettings {
+  directory: string         // Absolute path, '' = next to the first input
+  datedSubfolder: boolean   // Append a YYYY-MM-DD folder
+  templates: Record<OutputJobType, string>
+}
+
+// Values available to the templates (missing values render as '')
+export interface OutputTemplateValues {
+  name: string              // First input file name without extension
+  type: OutputJobType
+  mode?: string             // Variant of the job, e.g. 'pingpong', 'crossfade', 'merged'
+  length?: string           // Loop length label, e.g. '10x' or '1h'
+  iterations?: number
+  duration?: string         // Output length label, e.g. '1h30m'
+  trackCount?: number
+  date: Date
+}
+
+export const OUTPUT_TEMPLATE_TOKENS = ['name', 'type', 'mode', 'length', 'iterations', 'duration', 'trackCount', 'date'] as const
+
+// Defaults reproduce the previous file names
+export const DEFAULT_OUTPUT_SETTINGS: OutputSettings = {
+  directory: '',
+  datedSubfolder: false,
+  templates: {
+    'video-loop': '{name}_looped_{length}_{mode}',
+    'music-video': '{name}',
+    'video-concat': '{name}_{mode}'
+  }
+}
+
+const MAX_TEMPLATE_LENGTH = 200
+const MAX_FILENAME_LENGTH = 180
+
+/**
+ * Validate output settings coming from the renderer or store (untrusted)
+ */
+export function normalizeOutputSettings(raw?: Partial<OutputSettings>): OutputSettings {
+  const directory = typeof raw?.directory === 'string' ? raw.directory.trim() : ''
+  if (directory && !path.isAbsolute(directory)) {
+    throw new Error('Output folder must be an absolute path')
+  }
+
+  const templates = { ...DEFAULT_OUTPUT_SETTINGS.templates }
+  for (const jobType of Object.keys(templates) as OutputJobType[]) {
+    const template = raw?.templates?.[jobType]
+    if (template === undefined) continue
+    if (typeof template !== 'string' || template.trim() === '' || template.length > MAX_TEMPLATE_LENGTH) {
+      throw new Error(`Invalid filename template for ${jobType}: must be 1-${MAX_TEMPLATE_LENGTH} characters`)
+    }
+    const unknownToken = [...template.matchAll(/\{(\w+)\}/g)]
+      .map((match) => match[1])
+      .find((token) => !(OUTPUT_TEMPLATE_TOKENS as readonly string[]).includes(token))
+    if (unknownToken) {
+      throw new Error(`Unknown filename template token: {${unknownToken}}`)
+    }
+    templates[jobType] = template.trim()
+  }
+
+  return { directory, datedSubfolder: !!raw?.datedSubfolder, templates }
+}
+
+/**
+ * Format a date as YYYY-MM-DD (local time)
+ */
+export function formatDateForFilename(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Format a duration for file names (e.g. 3600 -> "1h00m00s", 95 -> "1m35s")
+ */
+export function formatDurationForFilename(seconds: number): string {
+  const totalSeconds = Math.round(seconds)
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const secs = totalSeconds % 60
+
+  if (hours > 0) {
+    return `${hours}h${minutes.toString().padStart(2, '0')}m${secs.toString().padStart(2, '0')}s`
+  }
+  if (minutes > 0) {
+    return `${minutes}m${secs.toString().padStart(2, '0')}s`
+  }
+  return `${secs}s`
+}
+
+/**
+ * Replace characters that aren't allowed in file names (Windows is the strictest)
+ * and tidy up separators left behind by empty tokens
+ */
+export function sanitizeFilename(name: string): string {
+  return name
+    // eslint-disable-next-line no-control-regex
+    .replace(/[<>:"/\\|?*\u0000-\u001f]/g, '_')
+    .replace(/_{2,}/g, '_')                 // '__' left by an empty token
+    .slice(0, MAX_FILENAME_LENGTH)
+    .replace(/^[_\-. ]+|[_\-. ]+$/g, '')    // No leading/trailing separators or dots
+}
+
+/**
+ * Render a filename template (without extension)
+ * Falls back to the input name if the template renders to nothing.
+ */
+export function renderOutputFilename(template: string, values: OutputTemplateValues): string {
+  const tokens: Record<string, string> = {
+    name: values.name,
+    type: values.type,
+    mode: values.mode ?? '',
+    length: values.length ?? '',
+    iterations: values.iterations !== undefined ? String(values.iterations) : '',
+    duration: values.duration ?? '',
+    trackCount: values.trackCount !== undefined ? String(values.trackCount) : '',
+    date: formatDateForFilename(values.date)
+  }
+  const rendered = sanitizeFilename(template.replace(/\{(\w+)\}/g, (match, token: string) => tokens[token] ?? match))
+  return rendered || sanitizeFilename(values.name) || 'output'
+}
+
+/**
+ * Whether a template needs the given token (e.g. to skip probing durations)
+ */
+export function templateUsesToken(template: string, token: typeof OUTPUT_TEMPLATE_TOKENS[number]): boolean {
+  return template.includes(`{${token}}`)
+}
+
+/**
+ * Folder the output is written to
+ *
+ * @param overrideDirectory - Per-job output folder (takes precedence over the default)
+ */
+export function resolveOutputDirectory(
+  settings: OutputSettings,
+  sourcePath: string,
+  date: Date,
+  overrideDirectory?: string
+): string {
+  const baseDirectory = overrideDirectory || settings.directory || path.dirname(sourcePath)
+  return settings.datedSubfolder ? path.join(baseDirectory, formatDateForFilename(date)) : baseDirectory
+}
@@ -0,0 +1,195 @@
+/**
+ * Timestamp Export - Track List Files Next to the Output
+ *
+ * The track list of a playlist/concat output can be saved as:
+ * - txt:  the YouTube timestamp text as shown in the app
+ * - cue:  CUE sheet (INDEX in MM:SS:FF, 75 frames per second)
+ * - vtt:  WebVTT chapters
+ * - srt:  SubRip
+ * - json: manifest with start/end/duration/title/source per track
+ *
+ * Tracks come from the chapters embedded in the output when present
+ * (exact times and raw titles), otherwise from the timestamp text.
+ */
+
+import path from 'node:path'
+
+export type TimestampExportFormat = 'txt' | 'cue' | 'vtt' | 'srt' | 'json'
+
+export const TIMESTAMP_EXPORT_FORMATS: TimestampExportFormat[] = ['txt', 'cue', 'vtt', 'srt', 'json']
+
+export interface ExportTrack {
+  title: string
+  start: number     // Seconds
+  end: number       // Seconds
+  source?: string   // Input file the track came from
+}
+
+// Shape of ffprobe chapters this module reads (subset of FfprobeData)
+interface ProbedChapter {
+  start_time?: number | string
+  end_time?: number | string
+  tags?: { title?: string }
+}
+
+// File name suffix per format (.vtt/.srt stay distinct from a same-named subtitle track)
+const EXPORT_SUFFIXES: Record<TimestampExportFormat, string> = {
+  txt: '.timestamps.txt',
+  cue: '.cue',
+  vtt: '.chapters.vtt',
+  srt: '.chapters.srt',
+  json: '.tracks.json'
+}
+
+const CUE_FRAMES_PER_SECOND = 75
+
+export function isTimestampExportFormat(value: unknown): value is TimestampExportFormat {
+  return typeof value === 'string' && (TIMESTAMP_EXPORT_FORMATS as string[]).includes(value)
+}
+
+/**
+ * Path of the export file next to the output (video.mp4 -> video.cue)
+ */
+export function getTimestampExportPath(outputPath: string, format: TimestampExportFormat): string {
+  const extension = path.extname(outputPath)
+  return path.join(path.dirname(outputPath), path.basename(outputPath, extension) + EXPORT_SUFFIXES[format])
+}
+
+/**
+ * Build tracks from the chapters embedded in the output
+ * @returns Empty list when the output has fewer than 2 chapters
+ */
+export function tracksFromChapters(chapters: ProbedChapter[] | undefined, sources: string[] = []): ExportTrack[] {
+  if (!chapters || chapters.length < 2) {
+    return []
+  }
+  return chapters.map((chapter, i) => ({
+    title: chapter.tags?.title?.trim() || `Track ${i + 1}`,
+    start: Number(chapter.start_time) || 0,
+    end: Number(chapter.end_time) || 0,
+    source: sources[i]
+  }))
+}
+
+/**
+ * Build tracks from timestamp text (one line per track)
+ * The title is the line without its time and the separators around it;
+ * the last track ends at the output duration.
+ */
+export function tracksFromTimestampText(timestampText: string, totalDuration: number, sources: string[] = []): ExportTrack[] {
+  const entries: Array<{ title: string; start: number }> = []
+  for (const line of timestampText.split('\n')) {
+    // The time with brackets around it, as in '[{time}] {title}'
+    const match = line.match(/[[(]?(?:(\d{1,2}):)?(\d{1,2}):(\d{2})[\])]?/)
+    if (!match || match.index === undefined) continue
+    const [time, hours, minutes, seconds] = match
+    const title = (line.slice(0, match.index) + ' ' + line.slice(match.index + time.length))
+      .trim()
+      .replace(/^[\s\-–—|:]+|[\s\-–—|:]+$/g, '')
+    entries.push({
+      title: title || `Track ${entries.length + 1}`,
+      start: Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds)
+    })
+  }
+
+  return entries.map((entry, i) => ({
+    ...entry,
+    end: i < entries.length - 1 ? entries[i + 1].start : Math.max(entry.start, totalDuration),
+    source: sources[i]
+  }))
+}
+
+/**
+ * HH:MM:SS.mmm (WebVTT) or HH:MM:SS,mmm (SRT)
+ */
+function formatCueTime(seconds: number, separator: '.' | ','): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000))
+  const hours = Math.floor(totalMs / 3600000)
+  const minutes = Math.floor((totalMs % 3600000) / 60000)
+  const secs = Math.floor((totalMs % 60000) / 1000)
+  const ms = totalMs % 1000
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0')
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`
+}
+
+/**
+ * MM:SS:FF for CUE INDEX (minutes go past 99 for long outputs)
+ */
+function formatCueIndex(seconds: number): string {
+  const totalFrames = Math.max(0, Math.round(seconds * CUE_FRAMES_PER_SECOND))
+  const minutes = Math.floor(totalFrames / (60 * CUE_FRAMES_PER_SECOND))
+  const secs = Math.floor(totalFrames / CUE_FRAMES_PER_SECOND) % 60
+  const frames = totalFrames % CUE_FRAMES_PER_SECOND
+  return `${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}:${frames.toString().padStart(2, '0')}`
+}
+
+// CUE strings are double-quoted with no escape sequence
+function quoteCue(value: string): string {
+  return `"${value.replace(/"/g, "'")}"`
+}
+
+// Cue text must not contain blank lines or '-->'
+function cueText(value: string): string {
+  return value.replace(/\s*\n\s*/g, ' ').replace(/-->/g, '->')
+}
+
+const roundSeconds = (seconds: number) => Math.round(seconds * 1000) / 1000
+
+/**
+ * Format the track list as an export file
+ *
+ * @param outputPath - Output video the tracks belong to (CUE FILE / JSON output)
+ * @param timestampText - Written as-is for 'txt'
+ */
+export function formatTimestampExport(
+  format: TimestampExportFormat,
+  tracks: ExportTrack[],
+  outputPath: string,
+  timestampText: string
+): string {
+  const outputName = path.basename(outputPath)
+
+  switch (format) {
+    case 'txt':
+      return timestampText.trim() + '\n'
+
+    case 'cue': {
+      // WAVE is the generic type players accept for any decodable file
+      const lines = [
+        `TITLE ${quoteCue(path.basename(outputPath, path.extname(outputPath)))}`,
+        `FILE ${quoteCue(outputName)} WAVE`
+      ]
+      tracks.forEach((track, i) => {
+        lines.push(
+          `  TRACK ${(i + 1).toString().padStart(2, '0')} AUDIO`,
+          `    TITLE ${quoteCue(track.title)}`,
+          `    INDEX 01 ${formatCueIndex(track.start)}`
+        )
+      })
+      return lines.join('\n') + '\n'
+    }
+
+    case 'vtt':
+      return ['WEBVTT', ...tracks.map((track, i) =>
+        `${i + 1}\n${formatCueTime(track.start, '.')} --> ${formatCueTime(track.end, '.')}\n${cueText(track.title)}`
+      )].join('\n\n') + '\n'
+
+    case 'srt':
+      return tracks.map((track, i) =>
+        `${i + 1}\n${formatCueTime(track.start, ',')} --> ${formatCueTime(track.end, ',')}\n${cueText(track.title)}`
+      ).join('\n\n') + '\n'
+
+    case 'json':
+      return JSON.stringify({
+        output: outputPath,
+        tracks: tracks.map((track, i) => ({
+          index: i + 1,
+          title: track.title,
+          start: roundSeconds(track.start),
+          end: roundSeconds(track.end),
+          duration: roundSeconds(Math.max(0, track.end - track.start)),
+          source: track.source ?? null
+        }))
+      }, null, 2) + '\n'
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Timestamp line templates for the YouTube timestamp text
+ *
+ * Each track becomes one line built from a template such as
+ * '{time} - {title}' (default) or '[{time}] {artist} - {title}'.
+ * Shared by the main process (playlist timestamps) and src/lib/timestampUtils.ts
+ * (concat timestamps are built in the renderer).
+ * Keep this module free of imports - the renderer bundles it too.
+ */
+
+export const DEFAULT_TIMESTAMP_TEMPLATE = '{time} - {title}'
+
+export const TIMESTAMP_TEMPLATE_TOKENS = ['time', 'index', 'title', 'artist'] as const
+
+export interface TimestampLineValues {
+  time: string     // MM:SS or HH:MM:SS
+  index: number    // 1-based track number
+  title: string
+  artist?: string  // From the tags ('' when missing)
+}
+
+const MAX_TEMPLATE_LENGTH = 200
+
+/**
+ * Validate a timestamp template coming from the renderer or store (untrusted)
+ * YouTube only detects lines that contain a time, so {time} is required.
+ */
+export function normalizeTimestampTemplate(raw: unknown): string {
+  if (raw === undefined || raw === null || raw === '') {
+    return DEFAULT_TIMESTAMP_TEMPLATE
+  }
+  if (typeof raw !== 'string' || raw.trim() === '' || raw.length > MAX_TEMPLATE_LENGTH || /[\r\n]/.test(raw)) {
+    throw new Error(`Invalid timestamp template: must be a single line of 1-${MAX_TEMPLATE_LENGTH} characters`)
+  }
+  const unknownToken = [...raw.matchAll(/\{(\w+)\}/g)]
+    .map((match) => match[1])
+    .find((token) => !(TIMESTAMP_TEMPLATE_TOKENS as readonly string[]).includes(token))
+  if (unknownToken) {
+    throw new Error(`Unknown timestamp template token: {${unknownToken}}`)
+  }
+  if (!raw.includes('{time}')) {
+    throw new Error('Timestamp template must contain {time}')
+  }
+  return raw.trim()
+}
+
+/**
+ * Render one timestamp line (missing values render as '')
+ */
+export function formatTimestampLine(template: string, values: TimestampLineValues): string {
+  const tokens: Record<string, string> = {
+    time: values.time,
+    index: String(values.index),
+    title: values.title,
+    artist: values.artist ?? ''
+  }
+  return template
+    .replace(/\{(\w+)\}/g, (match, token: string) => tokens[token] ?? match)
+    .replace(/\s{2,}/g, ' ')
+    .trim()
+}
@@ -0,0 +1,80 @@
+/**
+ * Track titles for timestamps, chapters and "Now playing" overlays
+ *
+ * Titles come from one of:
+ * - filename: file name without extension (previous behavior)
+ * - tag: the title tag (ID3, Vorbis comment, MP4 atom)
+ * - artist-title: "Artist - Title" from the tags
+ *
+ * Files without the needed tags always fall back to the file name.
+ */
+
+import path from 'node:path'
+
+export type TrackTitleSource = 'filename' | 'tag' | 'artist-title'
+
+export const TRACK_TITLE_SOURCES: TrackTitleSource[] = ['filename', 'tag', 'artist-title']
+
+export const DEFAULT_TRACK_TITLE_SOURCE: TrackTitleSource = 'filename'
+
+export interface MediaTags {
+  title?: string
+  artist?: string
+  album?: string
+  year?: string   // YYYY from the date/year tag
+  genre?: string
+}
+
+// Shape of the ffprobe result this module reads (subset of FfprobeData)
+interface ProbedTags {
+  format?: { tags?: Record<string, string | number> }
+  streams?: Array<{ codec_type?: string; tags?: Record<string, string | number> }>
+}
+
+export function isTrackTitleSource(value: unknown): value is TrackTitleSource {
+  return typeof value === 'string' && (TRACK_TITLE_SOURCES as string[]).includes(value)
+}
+
+/**
+ * Read title/artist/album/year/genre from ffprobe output
+ * Tag keys differ in case between formats (ID3 'title', Vorbis 'TITLE'), and
+ * Ogg/Opus keep them on the audio stream instead of the container.
+ */
+export function extractMediaTags(metadata: ProbedTags): MediaTags {
+  const sources = [
+    metadata.format?.tags,
+    metadata.streams?.find((stream) => stream.codec_type === 'audio')?.tags
+  ]
+  const lookup = (...keys: string[]): string | undefined => {
+    for (const tags of sources) {
+      if (!tags) continue
+      for (const [key, value] of Object.entries(tags)) {
+        const text = String(value).trim()
+        if (keys.includes(key.toLowerCase()) && text) return text
+      }
+    }
+    return undefined
+  }
+
+  return {
+    title: lookup('title'),
+    artist: lookup('artist', 'album_artist'),
+    album: lookup('album'),
+    year: lookup('date', 'year')?.match(/\d{4}/)?.[0],
+    genre: lookup('genre')
+  }
+}
+
+/**
+ * Title of a track for the chosen source, falling back to the file name
+ */
+export function formatTrackTitle(filePath: string, tags: MediaTags | undefined, source: TrackTitleSource): string {
+  const fileTitle = path.basename(filePath).replace(/\.[^/.]+$/, '')
+  if (source === 'filename' || !tags?.title) {
+    return fileTitle
+  }
+  if (source === 'artist-title' && tags.artist) {
+    return `${tags.artist} - ${tags.title}`
+  }
+  return tags.title
+}
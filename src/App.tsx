@@ -1,10 +1,10 @@
-import { useState, useEffect, useCallback } from 'react'
+import { Fragment, useState, useEffect, useCallback, useRef } from 'react'
 import { useTranslation } from 'react-i18next'
 import i18n from './i18n'
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
-import { FileVideo, Music, Image as ImageIcon, Plus, CheckCircle2, Settings, Coffee, ChevronDown, ChevronUp, Eye, Video, Loader2, Download, Repeat, FileVideo as VideoIcon, Files, Copy } from "lucide-react"
+import { FileVideo, Music, Image as ImageIcon, Plus, CheckCircle2, Settings, Coffee, ChevronDown, ChevronUp, Eye, Video, Loader2, Download, Repeat, FileVideo as VideoIcon, Files, Copy, FileText, Scissors, Volume2, VolumeX } from "lucide-react"
 import { FileDropZone } from "@/components/FileDropZone"
 import { TermsModal } from "@/components/TermsModal"
 import { OnboardingModal } from "@/components/OnboardingModal"
@@ -12,15 +12,36 @@ import { SettingsTab } from "@/components/tabs/SettingsTab"
 import { UpdateNotification } from "@/components/UpdateNotification"
 import { ErrorModal } from "@/components/ErrorModal"
 import { RightPanel } from "@/components/RightPanel"
+import { OutputFolderPicker } from "@/components/OutputFolderPicker"
+import { OutputMetadataEditor } from "@/components/OutputMetadataEditor"
+import { LoudnessOption } from "@/components/LoudnessOption"
+import { SilenceTrimOption, SilenceTrimBadge } from "@/components/SilenceTrimOption"
+import { TrackTrimEditor } from "@/components/TrackTrimEditor"
+import { TrackVolumeEditor, TrackVolumeBadge } from "@/components/TrackVolumeEditor"
 import { ToastContainer, Toast } from "@/components/Toast"
-import { calculateTimestamps } from "@/lib/timestampUtils"
+import { calculateTimestamps, loadTimestampLineOptions, removeExtension } from "@/lib/timestampUtils"
+import { matchTrackImagesByName, formatTrimPoint } from "@/lib/playlistUtils"
+import { parseDurationInput, formatDurationInput, calculateLoopPlan } from "@/lib/loopUtils"
+import { buildMetadataPrefill } from "@/lib/metadataUtils"
 import confetti from 'canvas-confetti'
-import { useSettingsStore } from "@/store/useSettingsStore"
+import { useSettingsStore, OUTPUT_RESOLUTION_PRESETS } from "@/store/useSettingsStore"
 import { useHistory } from "@/hooks/useHistory"
-import { Job, JobType, JobStatus } from "@/types"
+import { useSilenceTrim } from "@/hooks/useSilenceTrim"
+import { Job, JobType, JobStatus, LoopMode, PingPongAudioMode, VisualizerStyle, VisualizerPosition, KenBurnsMode, OutputResolution, ImageFillMode, OutputMetadata, LyricsMode, LoudnessTarget, CrossfadeCurve, TrackTrim, TrackVolume } from "@/types"
 import { shouldHideDonation, initPlatformInfo } from "@/constants/env"
 // Note: window.electronAPI is typed globally in src/types/electronAPI.d.ts
 
+// Playlist/concat responses are JSON with the output path and timestamps (plain path for backward compatibility)
+function parseJobResponse(response: string): { outputPath: string; timestamps?: string } {
+  try {
+    const parsed = JSON.parse(response)
+    // Fallback to response if outputPath is missing
+    return { outputPath: String(parsed.outputPath || response), timestamps: parsed.timestamps }
+  } catch {
+    return { outputPath: String(response) }
+  }
+}
+
 
 export default function App() {
   const { t } = useTranslation()
@@ -32,23 +53,95 @@ export default function App() {
   const [loopFile, setLoopFile] = useState<string | null>(null)
   const [loopVideoDuration, setLoopVideoDuration] = useState<number>(0) // Video duration (seconds)
   const [iterations, setIterations] = useState(10)
+  const [loopMode, setLoopMode] = useState<LoopMode>('iterations') // Iteration count or exact target duration
+  const [targetDurationInput, setTargetDurationInput] = useState('01:00:00') // Target duration (HH:MM:SS)
+  const [enableSeamCrossfade, setEnableSeamCrossfade] = useState(false) // Crossfade the loop seam (end blended into start)
+  const [seamCrossfadeDuration, setSeamCrossfadeDuration] = useState(1) // Seam crossfade duration (seconds)
+  const [enablePingPong, setEnablePingPong] = useState(false) // Play the clip forward, then reversed (boomerang)
+  const [pingPongAudio, setPingPongAudio] = useState<PingPongAudioMode>('keep') // Ping-pong audio handling
+  const [enableLoopFadeIn, setEnableLoopFadeIn] = useState(false) // Fade from black at the start of the loop
+  const [enableLoopFadeOut, setEnableLoopFadeOut] = useState(false) // Fade to black at the end of the loop
+  const [loopFadeDuration, setLoopFadeDuration] = useState(2) // Loop fade duration (seconds)
   const [bgImage, setBgImage] = useState<string | null>(null)
   const [bgImageDataUrl, setBgImageDataUrl] = useState<string | null>(null) // Base64 data URL for preview
+  const [musicBackgroundType, setMusicBackgroundType] = useState<'image' | 'video'>('image') // Still image or looped video clip
+  const [bgVideo, setBgVideo] = useState<string | null>(null)
   const [audioFiles, setAudioFiles] = useState<string[]>([]) // Multiple audio files (playlist)
+  const [trackImages, setTrackImages] = useState<Record<string, string>>({}) // Per-track background images (audio path -> image path)
+  const [enableLyrics, setEnableLyrics] = useState(false) // Lyrics from .lrc/.txt files as subtitles or burned-in text
+  const [lyricsMode, setLyricsMode] = useState<LyricsMode>('soft')
+  const [enableMusicLoudness, setEnableMusicLoudness] = useState(false) // Two-pass EBU R128 normalization per track
+  const [musicLoudnessTarget, setMusicLoudnessTarget] = useState<LoudnessTarget>(-14)
+  const [trackLyrics, setTrackLyrics] = useState<Record<string, string>>({}) // Attached lyrics files (audio path -> lyrics path)
+  const [trackTrims, setTrackTrims] = useState<Record<string, TrackTrim>>({}) // In/out points (audio path -> trim)
+  const [trimEditorIndex, setTrimEditorIndex] = useState<number | null>(null) // Playlist entry whose trim editor is open
+  const [trackVolumes, setTrackVolumes] = useState<Record<string, TrackVolume>>({}) // Manual gain/mute (audio path -> volume)
+  const [volumeEditorIndex, setVolumeEditorIndex] = useState<number | null>(null) // Playlist entry whose gain editor is open
+  const [enableMusicSilenceTrim, setEnableMusicSilenceTrim] = useState(false) // Detect and remove head/tail silence of each track
+  const [musicSilenceThreshold, setMusicSilenceThreshold] = useState(-50) // dB
+  const [musicSilenceMinDuration, setMusicSilenceMinDuration] = useState(0.5) // Seconds
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null)
   const [enableMusicPadding, setEnableMusicPadding] = useState(false) // Black screen padding between audio (default false = fast merge)
   const [musicPaddingDuration, setMusicPaddingDuration] = useState(3) // Audio padding duration (seconds)
   const [enableMusicFadeOut, setEnableMusicFadeOut] = useState(false) // Audio fade out (default false = fast merge)
+  const [enableCrossfade, setEnableCrossfade] = useState(false) // Overlapping crossfade between tracks (replaces fade out + padding)
+  const [crossfadeDuration, setCrossfadeDuration] = useState(5) // Crossfade overlap (seconds)
+  const [crossfadeCurve, setCrossfadeCurve] = useState<CrossfadeCurve>('qsin')
+  const [enableVisualizer, setEnableVisualizer] = useState(false) // Audio visualizer overlay (forces re-encode)
+  const [visualizerStyle, setVisualizerStyle] = useState<VisualizerStyle>('waveform')
+  const [visualizerPosition, setVisualizerPosition] = useState<VisualizerPosition>('bottom')
+  const [visualizerSize, setVisualizerSize] = useState(25) // Percentage of the frame height
+  const [visualizerColor, setVisualizerColor] = useState('#ffffff')
+  const [visualizerOpacity, setVisualizerOpacity] = useState(0.8)
+  const [enableNowPlaying, setEnableNowPlaying] = useState(false) // "Now playing" track titles (playlists)
+  const [nowPlayingArtist, setNowPlayingArtist] = useState('')
+  const [nowPlayingDuration, setNowPlayingDuration] = useState(5) // Seconds shown at the start of each track
+  const [enableMotion, setEnableMotion] = useState(false) // Ken Burns zoom/pan on the background image
+  const [motionMode, setMotionMode] = useState<KenBurnsMode>('zoom')
+  const [motionCycleDuration, setMotionCycleDuration] = useState(20) // Seconds per zoom/pan cycle
+  const [musicResolution, setMusicResolution] = useState<OutputResolution | 'default'>('default') // 'default' = saved setting
+  const [fillMode, setFillMode] = useState<ImageFillMode>('black') // What fills the frame around mismatched images
+  const [focalX, setFocalX] = useState(50) // Crop focal point (%)
+  const [focalY, setFocalY] = useState(50)
   const [musicFadeOutDuration, setMusicFadeOutDuration] = useState(2) // Audio fade out duration (seconds)
   
   // {t('tabs.concat.title')}
   const [videoFiles, setVideoFiles] = useState<string[]>([]) // Multiple video files
   const [draggedVideoIndex, setDraggedVideoIndex] = useState<number | null>(null)
+  const [clipVolumes, setClipVolumes] = useState<Record<string, TrackVolume>>({}) // Manual gain/mute (video path -> volume)
+  const [clipVolumeEditorIndex, setClipVolumeEditorIndex] = useState<number | null>(null) // Concat entry whose gain editor is open
   const [enablePadding, setEnablePadding] = useState(false) // Black screen padding between videos (default false = Fast Mode!)
   const [paddingDuration, setPaddingDuration] = useState(3) // Padding duration (seconds)
   const [enableFadeOut, setEnableFadeOut] = useState(false) // Fade out (end of each video, default false = Fast Mode!)
   const [fadeOutDuration, setFadeOutDuration] = useState(2) // Fade out duration (seconds)
   const [enableFadeIn, setEnableFadeIn] = useState(false) // Fade in (start of each video)
+  const [concatResolution, setConcatResolution] = useState<OutputResolution | 'default'>('default') // 'default' = keep first video's size
+  const [enableConcatLoudness, setEnableConcatLoudness] = useState(false) // Two-pass EBU R128 normalization per clip
+  const [concatLoudnessTarget, setConcatLoudnessTarget] = useState<LoudnessTarget>(-14)
+  const [enableConcatSilenceTrim, setEnableConcatSilenceTrim] = useState(false) // Detect and remove head/tail silence of each clip
+  const [concatSilenceThreshold, setConcatSilenceThreshold] = useState(-50) // dB
+  const [concatSilenceMinDuration, setConcatSilenceMinDuration] = useState(0.5) // Seconds
+
+  // Head/tail silence found per file (shown in the lists before the job is queued)
+  const musicSilence = useSilenceTrim(audioFiles, enableMusicSilenceTrim, { threshold: musicSilenceThreshold, minDuration: musicSilenceMinDuration })
+  const concatSilence = useSilenceTrim(videoFiles, enableConcatSilenceTrim, { threshold: concatSilenceThreshold, minDuration: concatSilenceMinDuration })
+  
+  // Per-job output folder ('' = output folder from Settings)
+  const [jobOutputDir, setJobOutputDir] = useState('')
+  
+  // Output tags per tab (pre-filled from the first input's tags)
+  const [writeMetadata, setWriteMetadata] = useState(false)
+  const [jobMetadata, setJobMetadata] = useState<Record<JobType, OutputMetadata>>({
+    'music-video': {},
+    'video-loop': {},
+    'video-concat': {}
+  })
+  // What each tab was last pre-filled from (edited tags are never overwritten)
+  const metadataPrefillRef = useRef<Record<JobType, { key: string; request: number; dirty: boolean }>>({
+    'music-video': { key: '', request: 0, dirty: false },
+    'video-loop': { key: '', request: 0, dirty: false },
+    'video-concat': { key: '', request: 0, dirty: false }
+  })
   
   // Job queue management
   const [jobs, setJobs] = useState<Job[]>([])
@@ -196,6 +289,32 @@ export default function App() {
           setMusicFadeOutDuration(Number(prefs.imageMusic.fadeOutDuration))
           setEnableMusicPadding(!!prefs.imageMusic.enablePadding)
           setMusicPaddingDuration(Number(prefs.imageMusic.paddingDuration))
+          setEnableVisualizer(!!prefs.imageMusic.enableVisualizer)
+          setVisualizerStyle(prefs.imageMusic.visualizerStyle)
+          setVisualizerPosition(prefs.imageMusic.visualizerPosition)
+          setVisualizerSize(Number(prefs.imageMusic.visualizerSize))
+          setVisualizerColor(prefs.imageMusic.visualizerColor)
+          setVisualizerOpacity(Number(prefs.imageMusic.visualizerOpacity))
+          setEnableNowPlaying(!!prefs.imageMusic.enableNowPlaying)
+          setNowPlayingArtist(String(prefs.imageMusic.nowPlayingArtist ?? ''))
+          setNowPlayingDuration(Number(prefs.imageMusic.nowPlayingDuration))
+          setEnableMotion(!!prefs.imageMusic.enableMotion)
+          setMotionMode(prefs.imageMusic.motionMode)
+          setMotionCycleDuration(Number(prefs.imageMusic.motionCycleDuration))
+          setMusicResolution(prefs.imageMusic.resolution ?? 'default')
+          setFillMode(prefs.imageMusic.fillMode ?? 'black')
+          setFocalX(Number(prefs.imageMusic.focalX ?? 50))
+          setFocalY(Number(prefs.imageMusic.focalY ?? 50))
+          setEnableLyrics(!!prefs.imageMusic.enableLyrics)
+          setLyricsMode(prefs.imageMusic.lyricsMode ?? 'soft')
+          setEnableMusicLoudness(!!prefs.imageMusic.enableLoudness)
+          setMusicLoudnessTarget(prefs.imageMusic.loudnessTarget ?? -14)
+          setEnableCrossfade(!!prefs.imageMusic.enableCrossfade)
+          setCrossfadeDuration(Number(prefs.imageMusic.crossfadeDuration ?? 5))
+          setCrossfadeCurve(prefs.imageMusic.crossfadeCurve ?? 'qsin')
+          setEnableMusicSilenceTrim(!!prefs.imageMusic.enableSilenceTrim)
+          setMusicSilenceThreshold(Number(prefs.imageMusic.silenceThreshold ?? -50))
+          setMusicSilenceMinDuration(Number(prefs.imageMusic.silenceMinDuration ?? 0.5))
 
           setShowAdvancedVideoOptions(!!prefs.concat.advancedOpen)
           setEnableFadeOut(!!prefs.concat.enableFadeOut)
@@ -203,8 +322,21 @@ export default function App() {
           setEnablePadding(!!prefs.concat.enablePadding)
           setPaddingDuration(Number(prefs.concat.paddingDuration))
           setEnableFadeIn(!!prefs.concat.enableFadeIn)
+          setConcatResolution(prefs.concat.resolution ?? 'default')
+          setEnableConcatLoudness(!!prefs.concat.enableLoudness)
+          setConcatLoudnessTarget(prefs.concat.loudnessTarget ?? -14)
+          setEnableConcatSilenceTrim(!!prefs.concat.enableSilenceTrim)
+          setConcatSilenceThreshold(Number(prefs.concat.silenceThreshold ?? -50))
+          setConcatSilenceMinDuration(Number(prefs.concat.silenceMinDuration ?? 0.5))
 
           setShowAdvancedLoopOptions(!!prefs.loop.advancedOpen)
+          setEnableSeamCrossfade(!!prefs.loop.enableSeamCrossfade)
+          setSeamCrossfadeDuration(Number(prefs.loop.seamCrossfadeDuration))
+          setEnableLoopFadeIn(!!prefs.loop.enableFadeIn)
+          setEnableLoopFadeOut(!!prefs.loop.enableFadeOut)
+          setLoopFadeDuration(Number(prefs.loop.fadeOutDuration))
+          setEnablePingPong(!!prefs.loop.enablePingPong)
+          setPingPongAudio(prefs.loop.pingPongAudio)
           return
         } catch (e) {
           console.error('Failed to load UI preferences:', e)
@@ -257,7 +389,33 @@ export default function App() {
             enableFadeOut: enableMusicFadeOut,
             fadeOutDuration: musicFadeOutDuration,
             enablePadding: enableMusicPadding,
-            paddingDuration: musicPaddingDuration
+            paddingDuration: musicPaddingDuration,
+            enableVisualizer,
+            visualizerStyle,
+            visualizerPosition,
+            visualizerSize,
+            visualizerColor,
+            visualizerOpacity,
+            enableNowPlaying,
+            nowPlayingArtist,
+            nowPlayingDuration,
+            enableMotion,
+            motionMode,
+            motionCycleDuration,
+            resolution: musicResolution,
+            fillMode,
+            focalX,
+            focalY,
+            enableLyrics,
+            lyricsMode,
+            enableLoudness: enableMusicLoudness,
+            loudnessTarget: musicLoudnessTarget,
+            enableCrossfade,
+            crossfadeDuration,
+            crossfadeCurve,
+            enableSilenceTrim: enableMusicSilenceTrim,
+            silenceThreshold: musicSilenceThreshold,
+            silenceMinDuration: musicSilenceMinDuration
           },
           concat: {
             advancedOpen: showAdvancedVideoOptions,
@@ -265,10 +423,23 @@ export default function App() {
             fadeOutDuration,
             enablePadding,
             paddingDuration,
-            enableFadeIn
+            enableFadeIn,
+            resolution: concatResolution,
+            enableLoudness: enableConcatLoudness,
+            loudnessTarget: concatLoudnessTarget,
+            enableSilenceTrim: enableConcatSilenceTrim,
+            silenceThreshold: concatSilenceThreshold,
+            silenceMinDuration: concatSilenceMinDuration
           },
           loop: {
-            advancedOpen: showAdvancedLoopOptions
+            advancedOpen: showAdvancedLoopOptions,
+            enableSeamCrossfade,
+            seamCrossfadeDuration,
+            enableFadeIn: enableLoopFadeIn,
+            enableFadeOut: enableLoopFadeOut,
+            fadeOutDuration: loopFadeDuration,
+            enablePingPong,
+            pingPongAudio
           }
         }).catch((e) => console.error('Failed to save UI preferences:', e))
       } else {
@@ -299,11 +470,50 @@ export default function App() {
     musicFadeOutDuration,
     enableMusicPadding,
     musicPaddingDuration,
+    enableVisualizer,
+    visualizerStyle,
+    visualizerPosition,
+    visualizerSize,
+    visualizerColor,
+    visualizerOpacity,
+    enableNowPlaying,
+    nowPlayingArtist,
+    nowPlayingDuration,
+    enableMotion,
+    motionMode,
+    motionCycleDuration,
+    musicResolution,
+    fillMode,
+    focalX,
+    focalY,
+    enableLyrics,
+    lyricsMode,
+    enableMusicLoudness,
+    musicLoudnessTarget,
+    enableCrossfade,
+    crossfadeDuration,
+    crossfadeCurve,
+    enableMusicSilenceTrim,
+    musicSilenceThreshold,
+    musicSilenceMinDuration,
     enableFadeOut,
     fadeOutDuration,
     enablePadding,
     paddingDuration,
-    enableFadeIn
+    enableFadeIn,
+    concatResolution,
+    enableConcatLoudness,
+    concatLoudnessTarget,
+    enableConcatSilenceTrim,
+    concatSilenceThreshold,
+    concatSilenceMinDuration,
+    enableSeamCrossfade,
+    seamCrossfadeDuration,
+    enableLoopFadeIn,
+    enableLoopFadeOut,
+    loopFadeDuration,
+    enablePingPong,
+    pingPongAudio
   ])
   
   // Handler to clear all data
@@ -329,6 +539,9 @@ export default function App() {
     
     if (job.type === 'music-video') {
       if (job.params.imagePath) inputFiles.push(job.params.imagePath)
+      if (job.params.backgroundVideoPath) inputFiles.push(job.params.backgroundVideoPath)
+      if (job.params.trackImagePaths) inputFiles.push(...job.params.trackImagePaths.filter(Boolean))
+      if (job.params.lyrics) inputFiles.push(...job.params.lyrics.paths.filter(Boolean))
       const audioPath = job.params.audioPath
       if (Array.isArray(audioPath)) {
         inputFiles.push(...audioPath)
@@ -423,7 +636,18 @@ export default function App() {
   // Calculate estimated video time (minutes:seconds format)
   const getEstimatedTime = () => {
     if (!loopVideoDuration || loopVideoDuration === 0) return null
-    const totalSeconds = Math.round(loopVideoDuration * iterations)
+    if (loopMode === 'duration') {
+      const targetDuration = parseDurationInput(targetDurationInput)
+      return targetDuration ? formatDurationInput(targetDuration) : null
+    }
+    // Ping-pong iterations play the clip twice (forward + reversed).
+    // With seam crossfade, each seam overlaps the end of one iteration with the start of the next
+    let totalSeconds = Math.round(loopVideoDuration * iterations)
+    if (enablePingPong) {
+      totalSeconds = Math.round(loopVideoDuration * 2 * iterations)
+    } else if (enableSeamCrossfade) {
+      totalSeconds = Math.round(iterations * (loopVideoDuration - seamCrossfadeDuration) + seamCrossfadeDuration)
+    }
     const minutes = Math.floor(totalSeconds / 60)
     const seconds = totalSeconds % 60
     return `${minutes}${t('time.minutes')} ${seconds}${t('time.seconds')}`
@@ -466,6 +690,8 @@ export default function App() {
   // Remove audio file
   const removeAudioFile = (index: number) => {
     setAudioFiles(audioFiles.filter((_, i) => i !== index))
+    setTrimEditorIndex(null)
+    setVolumeEditorIndex(null)
   }
 
   // Duplicate audio file (copy the file at the given index to the next position)
@@ -476,9 +702,94 @@ export default function App() {
     setAudioFiles(newFiles)
   }
 
+  // Set the background image of one track (playlist)
+  const selectTrackImage = async (file: string) => {
+    const result = await window.electronAPI?.openFileDialog('image')
+    if (!result) return
+    const selectedPath = Array.isArray(result) ? result[0] : result
+    if (selectedPath) setTrackImages({ ...trackImages, [file]: selectedPath })
+  }
+
+  // Clear the background image of one track (falls back to the shared image)
+  const removeTrackImage = (file: string) => {
+    const newTrackImages = { ...trackImages }
+    delete newTrackImages[file]
+    setTrackImages(newTrackImages)
+  }
+
+  // Attach a lyrics file to one track (otherwise <audio>.lrc / <audio>.txt is used when present)
+  const selectTrackLyrics = async (file: string) => {
+    const result = await window.electronAPI?.openFileDialog('lyrics')
+    if (!result) return
+    const selectedPath = Array.isArray(result) ? result[0] : result
+    if (selectedPath) setTrackLyrics({ ...trackLyrics, [file]: selectedPath })
+  }
+
+  const removeTrackLyrics = (file: string) => {
+    const newTrackLyrics = { ...trackLyrics }
+    delete newTrackLyrics[file]
+    setTrackLyrics(newTrackLyrics)
+  }
+
+  // Set or clear the in/out points of one track (null = play the full track)
+  // A manual trim replaces the detected silence trim; clearing it keeps the silence too
+  const setTrackTrim = (file: string, trim: TrackTrim | null) => {
+    const newTrackTrims = { ...trackTrims }
+    if (trim) {
+      newTrackTrims[file] = trim
+    } else {
+      delete newTrackTrims[file]
+      musicSilence.dismiss(file)
+    }
+    setTrackTrims(newTrackTrims)
+  }
+
+  // Set or clear the gain/mute of one track (null = unchanged)
+  const setTrackVolume = (file: string, volume: TrackVolume | null) => {
+    const newTrackVolumes = { ...trackVolumes }
+    if (volume) {
+      newTrackVolumes[file] = volume
+    } else {
+      delete newTrackVolumes[file]
+    }
+    setTrackVolumes(newTrackVolumes)
+  }
+
+  // Set or clear the gain/mute of one concat clip (null = unchanged)
+  const setClipVolume = (file: string, volume: TrackVolume | null) => {
+    const newClipVolumes = { ...clipVolumes }
+    if (volume) {
+      newClipVolumes[file] = volume
+    } else {
+      delete newClipVolumes[file]
+    }
+    setClipVolumes(newClipVolumes)
+  }
+
+  // Trim used for a track: the manual one, else the detected head/tail silence
+  const getTrackTrim = (file: string): TrackTrim | undefined =>
+    trackTrims[file] ?? musicSilence.detections[file]?.trim ?? undefined
+
+  // Assign images to tracks automatically by file name (song.mp3 ↔ song.jpg)
+  const matchTrackImages = async () => {
+    const result = await window.electronAPI?.openFileDialog('image', true)
+    if (!result) return
+    const imagePaths = Array.isArray(result) ? result : [result]
+    const matches = matchTrackImagesByName(audioFiles, imagePaths)
+    const matchedCount = Object.keys(matches).length
+    setTrackImages({ ...trackImages, ...matches })
+    showToast({
+      type: matchedCount > 0 ? 'success' : 'info',
+      title: t('toast.trackImagesMatched', { count: matchedCount }),
+      duration: 3000
+    })
+  }
+
   // Change order via drag and drop
   const handleDragStart = (index: number) => {
     setDraggedIndex(index)
+    setTrimEditorIndex(null)  // The open editors belong to a position in the list
+    setVolumeEditorIndex(null)
   }
 
   const handleDragOver = (e: React.DragEvent, index: number) => {
@@ -520,6 +831,7 @@ export default function App() {
   // Remove video file
   const removeVideoFile = (index: number) => {
     setVideoFiles(videoFiles.filter((_, i) => i !== index))
+    setClipVolumeEditorIndex(null)
   }
 
   // Duplicate video file (copy the file at the given index to the next position)
@@ -533,6 +845,7 @@ export default function App() {
   // Change video order via drag and drop
   const handleVideoDragStart = (index: number) => {
     setDraggedVideoIndex(index)
+    setClipVolumeEditorIndex(null)  // The open editor belongs to a position in the list
   }
 
   const handleVideoDragOver = (e: React.DragEvent, index: number) => {
@@ -552,6 +865,46 @@ export default function App() {
     setDraggedVideoIndex(null)
   }
 
+  // Pre-fill output tags from the first input (title falls back to the job name)
+  // Only runs again when the first input (or the fallback title) changes, and never once the tags were edited
+  const prefillJobMetadata = useCallback(async (type: JobType, inputPaths: string[], collectionName: string) => {
+    const prefill = metadataPrefillRef.current[type]
+    if (inputPaths.length === 0) {
+      // Empty list: the next inputs start a fresh set of tags
+      metadataPrefillRef.current[type] = { key: '', request: prefill.request + 1, dirty: false }
+      return
+    }
+    const isCollection = inputPaths.length > 1
+    const fallbackTitle = isCollection ? collectionName : removeExtension(inputPaths[0].split(/[/\\]/).pop() || '')
+    const key = `${inputPaths[0]}\n${fallbackTitle}`
+    if (prefill.dirty || prefill.key === key) return
+
+    prefill.key = key
+    const request = ++prefill.request
+    const tags = await window.electronAPI?.getMediaTags?.(inputPaths[0]).catch(() => undefined)
+    // Ignore responses of superseded calls and tags edited while reading
+    const current = metadataPrefillRef.current[type]
+    if (current.request !== request || current.dirty) return
+    setJobMetadata(prev => ({ ...prev, [type]: buildMetadataPrefill(tags, fallbackTitle, isCollection) }))
+  }, [])
+
+  const handleJobMetadataChange = useCallback((type: JobType, metadata: OutputMetadata) => {
+    metadataPrefillRef.current[type].dirty = true
+    setJobMetadata(prev => ({ ...prev, [type]: metadata }))
+  }, [])
+
+  useEffect(() => {
+    prefillJobMetadata('music-video', audioFiles, t('job.playlist', { count: audioFiles.length }))
+  }, [audioFiles, prefillJobMetadata, t])
+
+  useEffect(() => {
+    prefillJobMetadata('video-loop', loopFile ? [loopFile] : [], '')
+  }, [loopFile, prefillJobMetadata])
+
+  useEffect(() => {
+    prefillJobMetadata('video-concat', videoFiles, t('job.concatMultiple', { count: videoFiles.length }))
+  }, [videoFiles, prefillJobMetadata, t])
+
   // Add concat job
   const handleConcatVideos = async () => {
     if (videoFiles.length === 0) return
@@ -572,6 +925,16 @@ export default function App() {
         enableFadeOut, // Fade out option
         fadeOutDuration, // Fade out duration
         enableFadeIn, // Fade in option
+        resolution: concatResolution === 'default' ? undefined : concatResolution,
+        loudness: enableConcatLoudness ? { target: concatLoudnessTarget } : undefined,
+        clipTrims: videoFiles.some(file => concatSilence.detections[file])
+          ? videoFiles.map(file => concatSilence.detections[file]?.trim ?? null)
+          : undefined,
+        clipVolumes: videoFiles.some(file => clipVolumes[file])
+          ? videoFiles.map(file => clipVolumes[file] || null)
+          : undefined,
+        outputDir: jobOutputDir || undefined,
+        metadata: writeMetadata ? jobMetadata['video-concat'] : undefined
       },
       timestampText: undefined // Will be calculated in background
     })
@@ -593,12 +956,14 @@ export default function App() {
           const getVideoDuration = window.electronAPI?.getVideoDuration
           if (!getVideoDuration) return
           
+          const lineOptions = await loadTimestampLineOptions(videoFiles)
           const timestampText = await calculateTimestamps(
             videoFiles,
             (path) => getVideoDuration(path),
             {
               enablePadding,
-              paddingDuration
+              paddingDuration,
+              ...lineOptions
             }
           )
           
@@ -673,48 +1038,71 @@ export default function App() {
         }
         const response = await window.electronAPI.createFromImage({
           imagePath: nextJob.params.imagePath || '',
+          backgroundVideoPath: nextJob.params.backgroundVideoPath,
           audioPath: nextJob.params.audioPath!,
           enablePadding: nextJob.params.enablePadding ?? false,
           paddingDuration: nextJob.params.paddingDuration ?? 3,
           enableFadeOut: nextJob.params.enableFadeOut ?? true,
-          fadeOutDuration: nextJob.params.fadeOutDuration ?? 2
+          fadeOutDuration: nextJob.params.fadeOutDuration ?? 2,
+          visualizer: nextJob.params.visualizer,
+          nowPlaying: nextJob.params.nowPlaying,
+          motion: nextJob.params.motion,
+          trackImagePaths: nextJob.params.trackImagePaths,
+          resolution: nextJob.params.resolution,
+          imageFill: nextJob.params.imageFill,
+          lyrics: nextJob.params.lyrics,
+          loudness: nextJob.params.loudness,
+          crossfade: nextJob.params.crossfade,
+          trackTrims: nextJob.params.trackTrims,
+          trackVolumes: nextJob.params.trackVolumes,
+          outputDir: nextJob.params.outputDir,
+          metadata: nextJob.params.metadata
         })
         
-        // Parse response (may be JSON with timestamps or plain string for backward compatibility)
-        try {
-          const parsed = JSON.parse(response)
-          result = parsed.outputPath || response // Fallback to response if outputPath is missing
-          generatedTimestamps = parsed.timestamps
-        } catch {
-          // Backward compatibility: if not JSON, treat as plain output path
-          result = response
-        }
-        
-        // Final validation: ensure result is a string
-        if (typeof result !== 'string') {
-          console.error('Invalid result type:', typeof result, result)
-          result = String(result) // Convert to string as fallback
-        }
+        const parsed = parseJobResponse(response)
+        result = parsed.outputPath
+        generatedTimestamps = parsed.timestamps
       } else if (nextJob.type === 'video-loop') {
         if (!window.electronAPI?.processVideo) {
           throw new Error('Electron API not available')
         }
         result = await window.electronAPI.processVideo({
           inputPath: nextJob.params.videoPath as string,
-          iterations: nextJob.params.iterations!
+          iterations: nextJob.params.iterations!,
+          targetDuration: nextJob.params.loopMode === 'duration' ? nextJob.params.targetDuration : undefined,
+          enableSeamCrossfade: nextJob.params.enableSeamCrossfade ?? false,
+          seamCrossfadeDuration: nextJob.params.seamCrossfadeDuration ?? 1,
+          enableFadeIn: nextJob.params.enableFadeIn ?? false,
+          enableFadeOut: nextJob.params.enableFadeOut ?? false,
+          fadeOutDuration: nextJob.params.fadeOutDuration ?? 2,
+          enablePingPong: nextJob.params.enablePingPong ?? false,
+          pingPongAudio: nextJob.params.pingPongAudio ?? 'keep',
+          clipDuration: nextJob.params.clipDuration,
+          outputDir: nextJob.params.outputDir,
+          metadata: nextJob.params.metadata
         })
       } else if (nextJob.type === 'video-concat') {
         if (!window.electronAPI?.concatVideos) {
           throw new Error('Electron API not available')
         }
-        result = await window.electronAPI.concatVideos({
+        const response = await window.electronAPI.concatVideos({
           videoPaths: nextJob.params.videoPath as string[],
           enablePadding: nextJob.params.enablePadding ?? false,
           paddingDuration: nextJob.params.paddingDuration ?? 3,
           enableFadeOut: nextJob.params.enableFadeOut ?? true,
           fadeOutDuration: nextJob.params.fadeOutDuration ?? 2,
           enableFadeIn: nextJob.params.enableFadeIn ?? false,
+          resolution: nextJob.params.resolution,
+          loudness: nextJob.params.loudness,
+          clipTrims: nextJob.params.clipTrims,
+          clipVolumes: nextJob.params.clipVolumes,
+          outputDir: nextJob.params.outputDir,
+          metadata: nextJob.params.metadata
         })
+        // Timestamps from the encoded output replace the estimate calculated when the job was added
+        const parsed = parseJobResponse(response)
+        result = parsed.outputPath
+        generatedTimestamps = parsed.timestamps
       } else {
         throw new Error('Unknown job type')
       }
@@ -919,12 +1307,29 @@ export default function App() {
     if (!loopFile) return
     
     const fileName = loopFile.split(/[/\\]/).pop() || t('common.video')
+    const targetDuration = loopMode === 'duration' ? parseDurationInput(targetDurationInput) : null
+    if (loopMode === 'duration' && !targetDuration) return
+
     addJob({
       type: 'video-loop',
-      name: t('job.loopIterations', { name: fileName, iterations }),
+      name: targetDuration
+        ? t('job.loopDuration', { name: fileName, duration: formatDurationInput(targetDuration) })
+        : t('job.loopIterations', { name: fileName, iterations }),
       params: {
         videoPath: loopFile,
-        iterations
+        iterations,
+        loopMode,
+        targetDuration: targetDuration ?? undefined,
+        clipDuration: loopVideoDuration || undefined,
+        enableSeamCrossfade: enableSeamCrossfade && !enablePingPong,
+        seamCrossfadeDuration,
+        enableFadeIn: enableLoopFadeIn,
+        enableFadeOut: enableLoopFadeOut,
+        fadeOutDuration: loopFadeDuration,
+        enablePingPong,
+        pingPongAudio,
+        outputDir: jobOutputDir || undefined,
+        metadata: writeMetadata ? jobMetadata['video-loop'] : undefined
       }
     })
     showToast({
@@ -935,6 +1340,13 @@ export default function App() {
     })
   }
 
+  // Ken Burns motion needs a still background image
+  const motionAvailable = musicBackgroundType === 'image' && !!bgImage
+  const motionActive = enableMotion && motionAvailable
+
+  // Per-track images are built into playlist segments (still image/black background only)
+  const trackImagesAvailable = musicBackgroundType === 'image' && audioFiles.length > 1 && !enableVisualizer && !motionActive
+
   const handleCreateMusicVideo = () => {
     if (audioFiles.length === 0) return
     
@@ -947,12 +1359,45 @@ export default function App() {
       type: 'music-video',
       name: jobName,
       params: {
-        imagePath: bgImage || '',
+        imagePath: musicBackgroundType === 'image' ? bgImage || '' : '',
+        backgroundVideoPath: musicBackgroundType === 'video' ? bgVideo || undefined : undefined,
         audioPath: audioFiles,
-        enablePadding: enableMusicPadding && audioFiles.length > 1, // Apply padding only when multiple audio files
+        enablePadding: enableMusicPadding && !enableCrossfade && audioFiles.length > 1, // Apply padding only when multiple audio files
         paddingDuration: musicPaddingDuration, // Padding duration
-        enableFadeOut: enableMusicFadeOut && audioFiles.length > 1, // Apply fade out only when multiple audio files
+        enableFadeOut: enableMusicFadeOut && !enableCrossfade && audioFiles.length > 1, // Apply fade out only when multiple audio files
         fadeOutDuration: musicFadeOutDuration, // Fade out duration
+        trackTrims: audioFiles.some(file => getTrackTrim(file))
+          ? audioFiles.map(file => getTrackTrim(file) || null)
+          : undefined,
+        trackVolumes: audioFiles.some(file => trackVolumes[file])
+          ? audioFiles.map(file => trackVolumes[file] || null)
+          : undefined,
+        crossfade: enableCrossfade && audioFiles.length > 1
+          ? { duration: Math.min(12, Math.max(2, crossfadeDuration)), curve: crossfadeCurve }
+          : undefined,
+        visualizer: enableVisualizer
+          ? { style: visualizerStyle, position: visualizerPosition, size: visualizerSize, color: visualizerColor, opacity: visualizerOpacity }
+          : undefined,
+        // Title overlays need the per-track segmented path (still image/black background only)
+        nowPlaying: enableNowPlaying && audioFiles.length > 1 && !enableVisualizer && !motionActive && musicBackgroundType === 'image'
+          ? { artist: nowPlayingArtist.trim() || undefined, duration: nowPlayingDuration }
+          : undefined,
+        motion: motionActive
+          ? { mode: motionMode, cycleDuration: motionCycleDuration }
+          : undefined,
+        trackImagePaths: trackImagesAvailable && audioFiles.some(file => trackImages[file])
+          ? audioFiles.map(file => trackImages[file] || '')
+          : undefined,
+        resolution: musicResolution === 'default' ? undefined : musicResolution,
+        imageFill: musicBackgroundType === 'image' && fillMode !== 'black'
+          ? { mode: fillMode, focalX, focalY }
+          : undefined,
+        lyrics: enableLyrics
+          ? { mode: lyricsMode, paths: audioFiles.map(file => trackLyrics[file] || '') }
+          : undefined,
+        loudness: enableMusicLoudness ? { target: musicLoudnessTarget } : undefined,
+        outputDir: jobOutputDir || undefined,
+        metadata: writeMetadata ? jobMetadata['music-video'] : undefined
       }
     })
     showToast({
@@ -1163,28 +1608,84 @@ export default function App() {
                 <CardDescription className="text-slate-400">{t('tabs.imageMusic.description')}</CardDescription>
               </CardHeader>
               <CardContent className="space-y-6">
-                {/* Image selection - drag and drop supported (optional) */}
-                <div className="space-y-3">
-                  <FileDropZone
-                    label={t('labels.selectImage')}
-                    subLabel={t('labels.selectImageSub')}
-                    acceptedExtensions={fileExtensions.image}
-                    currentFile={bgImage}
-                    onFileSelect={setBgImage}
-                    onManualClick={() => selectFile(setBgImage, 'image')}
-                    icon={<ImageIcon className="w-10 h-10" />}
-                    colorClass="border-emerald-500"
-                    showImagePreview={true}
-                    imageDataUrl={bgImageDataUrl}
-                    onRemove={() => setBgImage(null)}
-                  />
+                {/* Background type: still image or looped video clip */}
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-slate-400">{t('labels.background')}</label>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className={musicBackgroundType === 'image'
+                        ? 'bg-emerald-600 hover:bg-emerald-500 border-emerald-500 text-white hover:text-white'
+                        : 'bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300 hover:text-white'}
+                      onClick={() => setMusicBackgroundType('image')}
+                    >
+                      {t('labels.backgroundImage')}
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className={musicBackgroundType === 'video'
+                        ? 'bg-emerald-600 hover:bg-emerald-500 border-emerald-500 text-white hover:text-white'
+                        : 'bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300 hover:text-white'}
+                      onClick={() => setMusicBackgroundType('video')}
+                    >
+                      {t('labels.backgroundVideo')}
+                    </Button>
+                  </div>
                 </div>
 
+                {musicBackgroundType === 'image' ? (
+                  /* Image selection - drag and drop supported (optional) */
+                  <div className="space-y-3">
+                    <FileDropZone
+                      label={t('labels.selectImage')}
+                      subLabel={t('labels.selectImageSub')}
+                      acceptedExtensions={fileExtensions.image}
+                      currentFile={bgImage}
+                      onFileSelect={setBgImage}
+                      onManualClick={() => selectFile(setBgImage, 'image')}
+                      icon={<ImageIcon className="w-10 h-10" />}
+                      colorClass="border-emerald-500"
+                      showImagePreview={true}
+                      imageDataUrl={bgImageDataUrl}
+                      onRemove={() => setBgImage(null)}
+                    />
+                  </div>
+                ) : (
+                  /* Background video selection - looped to the playlist length */
+                  <div className="space-y-3">
+                    <FileDropZone
+                      label={t('labels.selectBackgroundVideo')}
+                      subLabel={t('labels.selectBackgroundVideoSub')}
+                      acceptedExtensions={fileExtensions.video}
+                      currentFile={bgVideo}
+                      onFileSelect={setBgVideo}
+                      onManualClick={() => selectFile(setBgVideo, 'video')}
+                      icon={<Video className="w-10 h-10" />}
+                      colorClass="border-emerald-500"
+                      onRemove={() => setBgVideo(null)}
+                    />
+                  </div>
+                )}
+
                 {/* Audio file list */}
                 <div className="space-y-3">
                   <div className="flex items-center justify-between">
                     <label className="text-sm font-medium text-slate-400">{t('labels.musicPlaylist')}</label>
-                    <span className="text-xs text-slate-500">{t('labels.itemsAdded', { count: audioFiles.length })}</span>
+                    <div className="flex items-center gap-3">
+                      {trackImagesAvailable && (
+                        <button
+                          onClick={matchTrackImages}
+                          className="flex items-center gap-1 text-xs text-emerald-400 hover:text-emerald-300 transition-colors"
+                          title={t('buttons.matchTrackImagesDesc')}
+                        >
+                          <ImageIcon className="w-3 h-3" />
+                          {t('buttons.matchTrackImages')}
+                        </button>
+                      )}
+                      <span className="text-xs text-slate-500">{t('labels.itemsAdded', { count: audioFiles.length })}</span>
+                    </div>
                     </div>
 
                   {/* Add audio button */}
@@ -1203,8 +1704,8 @@ export default function App() {
                   {audioFiles.length > 0 && (
                     <div className="space-y-2 max-h-64 overflow-y-auto p-2 bg-slate-950/50 rounded-lg border border-slate-800">
                       {audioFiles.map((file, index) => (
+                        <Fragment key={`${file}-${index}`}>
                         <div
-                          key={`${file}-${index}`}
                           draggable
                           onDragStart={() => handleDragStart(index)}
                           onDragOver={(e) => handleDragOver(e, index)}
@@ -1218,6 +1719,122 @@ export default function App() {
                             {index + 1}. {file.split(/[/\\]/).pop()}
                       </span>
                           <div className="flex items-center gap-1 flex-shrink-0">
+                            {trackImagesAvailable && trackImages[file] && (
+                              <span className="flex items-center gap-1 max-w-[10rem] px-2 py-0.5 text-xs text-emerald-300 bg-emerald-900/30 border border-emerald-700/50 rounded">
+                                <span className="truncate">{trackImages[file].split(/[/\\]/).pop()}</span>
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation()
+                                    removeTrackImage(file)
+                                  }}
+                                  className="text-emerald-400 hover:text-emerald-200 transition-colors"
+                                  title={t('buttons.removeTrackImage')}
+                                  aria-label={t('buttons.removeTrackImage')}
+                                >
+                                  ✕
+                                </button>
+                              </span>
+                            )}
+                            {trackTrims[file] && (
+                              <span className="flex items-center gap-1 px-2 py-0.5 text-xs text-amber-300 bg-amber-900/30 border border-amber-700/50 rounded whitespace-nowrap">
+                                <Scissors className="w-3 h-3" />
+                                {formatTrimPoint(trackTrims[file].start)}–{trackTrims[file].end !== undefined ? formatTrimPoint(trackTrims[file].end) : t('labels.trimOutPlaceholder')}
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation()
+                                    setTrackTrim(file, null)
+                                    setTrimEditorIndex(null)
+                                  }}
+                                  className="text-amber-400 hover:text-amber-200 transition-colors"
+                                  title={t('buttons.removeTrackTrim')}
+                                  aria-label={t('buttons.removeTrackTrim')}
+                                >
+                                  ✕
+                                </button>
+                              </span>
+                            )}
+                            {!trackTrims[file] && musicSilence.detections[file] && (
+                              <SilenceTrimBadge
+                                detection={musicSilence.detections[file]}
+                                onDismiss={() => {
+                                  musicSilence.dismiss(file)
+                                  setTrimEditorIndex(null)
+                                }}
+                              />
+                            )}
+                            {trackVolumes[file] && (
+                              <TrackVolumeBadge
+                                volume={trackVolumes[file]}
+                                onReset={() => {
+                                  setTrackVolume(file, null)
+                                  setVolumeEditorIndex(null)
+                                }}
+                              />
+                            )}
+                            {enableLyrics && trackLyrics[file] && (
+                              <span className="flex items-center gap-1 max-w-[10rem] px-2 py-0.5 text-xs text-sky-300 bg-sky-900/30 border border-sky-700/50 rounded">
+                                <span className="truncate">{trackLyrics[file].split(/[/\\]/).pop()}</span>
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation()
+                                    removeTrackLyrics(file)
+                                  }}
+                                  className="text-sky-400 hover:text-sky-200 transition-colors"
+                                  title={t('buttons.removeTrackLyrics')}
+                                  aria-label={t('buttons.removeTrackLyrics')}
+                                >
+                                  ✕
+                                </button>
+                              </span>
+                            )}
+                            {enableLyrics && (
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation()
+                                  selectTrackLyrics(file)
+                                }}
+                                className="text-sky-400 hover:text-sky-300 transition-colors px-2"
+                                title={t('buttons.setTrackLyrics')}
+                                aria-label={t('buttons.setTrackLyrics')}
+                              >
+                                <FileText className="w-4 h-4" />
+                              </button>
+                            )}
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation()
+                                setTrimEditorIndex(trimEditorIndex === index ? null : index)
+                              }}
+                              className={`transition-colors px-2 ${trimEditorIndex === index ? 'text-amber-300' : 'text-amber-400 hover:text-amber-300'}`}
+                              title={t('buttons.trimTrack')}
+                              aria-label={t('buttons.trimTrack')}
+                            >
+                              <Scissors className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation()
+                                setVolumeEditorIndex(volumeEditorIndex === index ? null : index)
+                              }}
+                              className={`transition-colors px-2 ${volumeEditorIndex === index ? 'text-cyan-300' : 'text-cyan-400 hover:text-cyan-300'}`}
+                              title={t('buttons.trackVolume')}
+                              aria-label={t('buttons.trackVolume')}
+                            >
+                              {trackVolumes[file]?.muted ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+                            </button>
+                            {trackImagesAvailable && (
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation()
+                                  selectTrackImage(file)
+                                }}
+                                className="text-emerald-400 hover:text-emerald-300 transition-colors px-2"
+                                title={t('buttons.setTrackImage')}
+                                aria-label={t('buttons.setTrackImage')}
+                              >
+                                <ImageIcon className="w-4 h-4" />
+                              </button>
+                            )}
                             <button
                               onClick={(e) => {
                                 e.stopPropagation()
@@ -1239,6 +1856,20 @@ export default function App() {
                             </button>
                           </div>
                         </div>
+                        {trimEditorIndex === index && (
+                          <TrackTrimEditor
+                            value={getTrackTrim(file)}
+                            onChange={(trim) => setTrackTrim(file, trim)}
+                          />
+                        )}
+                        {volumeEditorIndex === index && (
+                          <TrackVolumeEditor
+                            value={trackVolumes[file]}
+                            onChange={(volume) => setTrackVolume(file, volume)}
+                            accent="emerald"
+                          />
+                        )}
+                        </Fragment>
                       ))}
                     </div>
                   )}
@@ -1261,14 +1892,41 @@ export default function App() {
                     </button>
                     
                     {/* Show active options summary when collapsed */}
-                    {!showAdvancedMusicOptions && audioFiles.length > 1 && (() => {
+                    {!showAdvancedMusicOptions && (audioFiles.length > 1 || enableVisualizer || enableLyrics || enableMusicLoudness || enableMusicSilenceTrim || motionActive || musicResolution !== 'default' || (musicBackgroundType === 'image' && fillMode !== 'black')) && (() => {
                       const activeOptions: string[] = []
-                      if (enableMusicFadeOut) {
+                      if (enableCrossfade && audioFiles.length > 1) {
+                        activeOptions.push(t('options.crossfadeShort', { duration: crossfadeDuration }))
+                      }
+                      if (enableMusicFadeOut && !enableCrossfade && audioFiles.length > 1) {
                         activeOptions.push(t('options.fadeOutShort', { defaultValue: 'Fade Out' }))
                       }
-                      if (enableMusicPadding) {
+                      if (enableMusicPadding && !enableCrossfade && audioFiles.length > 1) {
                         activeOptions.push(t('options.paddingShort', { defaultValue: 'Padding' }))
                       }
+                      if (enableVisualizer) {
+                        activeOptions.push(t('options.visualizerShort'))
+                      }
+                      if (motionActive) {
+                        activeOptions.push(t('options.motionShort'))
+                      }
+                      if (musicResolution !== 'default') {
+                        activeOptions.push(t(`resolution.${musicResolution}`))
+                      }
+                      if (musicBackgroundType === 'image' && fillMode !== 'black') {
+                        activeOptions.push(t(`options.imageFill_${fillMode}`))
+                      }
+                      if (enableNowPlaying && audioFiles.length > 1 && !enableVisualizer && !motionActive && musicBackgroundType === 'image') {
+                        activeOptions.push(t('options.nowPlayingShort'))
+                      }
+                      if (enableLyrics) {
+                        activeOptions.push(t('options.lyricsShort'))
+                      }
+                      if (enableMusicLoudness) {
+                        activeOptions.push(t('options.loudnessShort', { target: musicLoudnessTarget }))
+                      }
+                      if (enableMusicSilenceTrim) {
+                        activeOptions.push(t('options.silenceTrimShort'))
+                      }
                       
                       return activeOptions.length > 0 ? (
                         <div className="px-3 py-2 bg-slate-800/30 border border-slate-700/50 rounded-lg">
@@ -1292,28 +1950,162 @@ export default function App() {
                       <div className="space-y-4 p-4 bg-slate-800/50 border border-slate-700 rounded-lg">
                         
                         <div className="space-y-4">
-                          {/* Fade out option */}
+                          {/* Output resolution */}
+                          <div className="space-y-2">
+                            <div className="text-sm font-medium text-slate-200">{t('options.resolution')}</div>
+                            <div className="flex flex-wrap gap-2">
+                              {(['default', ...Object.keys(OUTPUT_RESOLUTION_PRESETS)] as (OutputResolution | 'default')[]).map((preset) => (
+                                <Button
+                                  key={preset}
+                                  type="button"
+                                  variant="outline"
+                                  size="sm"
+                                  className={musicResolution === preset
+                                    ? 'h-8 text-xs bg-emerald-600 hover:bg-emerald-500 border-emerald-500 text-white hover:text-white'
+                                    : 'h-8 text-xs bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300 hover:text-white'}
+                                  onClick={() => setMusicResolution(preset)}
+                                >
+                                  {preset === 'default' ? t('options.resolutionDefault') : t(`resolution.${preset}`)}
+                                </Button>
+                              ))}
+                            </div>
+                            <div className="text-xs text-slate-400">
+                              {musicResolution === 'default'
+                                ? t('options.resolutionDefaultDesc')
+                                : `${OUTPUT_RESOLUTION_PRESETS[musicResolution].width}×${OUTPUT_RESOLUTION_PRESETS[musicResolution].height}`}
+                            </div>
+                          </div>
+
+                          {/* Image fill (what fills the frame around mismatched images) */}
+                          {musicBackgroundType === 'image' && (
+                            <div className="space-y-2">
+                              <div className="text-sm font-medium text-slate-200">{t('options.imageFill')}</div>
+                              <div className="flex flex-wrap gap-2">
+                                {(['black', 'color', 'blur', 'crop'] as ImageFillMode[]).map((mode) => (
+                                  <Button
+                                    key={mode}
+                                    type="button"
+                                    variant="outline"
+                                    size="sm"
+                                    className={fillMode === mode
+                                      ? 'h-8 text-xs bg-emerald-600 hover:bg-emerald-500 border-emerald-500 text-white hover:text-white'
+                                      : 'h-8 text-xs bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300 hover:text-white'}
+                                    onClick={() => setFillMode(mode)}
+                                  >
+                                    {t(`options.imageFill_${mode}`)}
+                                  </Button>
+                                ))}
+                              </div>
+                              <div className="text-xs text-slate-400">{t(`options.imageFillDesc_${fillMode}`)}</div>
+                              {fillMode === 'crop' && (
+                                <div className="pl-7 flex items-center gap-3">
+                                  <span className="text-xs text-slate-400">{t('options.focalPoint')}</span>
+                                  <div className="grid grid-cols-3 gap-1" role="radiogroup" aria-label={t('options.focalPoint')}>
+                                    {[0, 50, 100].flatMap((y) => [0, 50, 100].map((x) => (
+                                      <button
+                                        key={`${x}-${y}`}
+                                        type="button"
+                                        role="radio"
+                                        aria-checked={focalX === x && focalY === y}
+                                        aria-label={`${x}%, ${y}%`}
+                                        onClick={() => {
+                                          setFocalX(x)
+                                          setFocalY(y)
+                                        }}
+                                        className={`w-5 h-5 rounded-sm border transition-colors ${focalX === x && focalY === y
+                                          ? 'bg-emerald-500 border-emerald-400'
+                                          : 'bg-slate-700 border-slate-600 hover:bg-slate-600'}`}
+                                      />
+                                    )))}
+                                  </div>
+                                </div>
+                              )}
+                            </div>
+                          )}
+
+                          {/* Crossfade option (tracks overlap, replaces fade out + padding) */}
                           <div className="space-y-2">
                             <label className={`flex items-start gap-3 ${audioFiles.length > 1 ? 'cursor-pointer group' : 'cursor-not-allowed opacity-60'}`}>
                               <input
                                 type="checkbox"
-                                checked={enableMusicFadeOut}
-                                onChange={(e) => setEnableMusicFadeOut(e.target.checked)}
+                                checked={enableCrossfade}
+                                onChange={(e) => setEnableCrossfade(e.target.checked)}
                                 disabled={audioFiles.length <= 1}
                                 className="mt-1 w-4 h-4 rounded border-slate-600 bg-slate-700 text-emerald-600 focus:ring-emerald-500 focus:ring-2 disabled:cursor-not-allowed disabled:opacity-50"
                               />
                               <div className="flex-1">
                                 <div className={`text-sm font-medium ${audioFiles.length > 1 ? 'text-slate-200' : 'text-slate-500'}`}>
-                                  {t('options.fadeOut')}
+                                  {t('options.crossfade')}
                                 </div>
                                 <div className="text-xs text-slate-400 mt-1">
-                                  {audioFiles.length > 1 
-                                    ? t('options.fadeOutDesc')
+                                  {audioFiles.length > 1
+                                    ? t('options.crossfadeDesc')
                                     : t('options.requiresMultipleTracks', { defaultValue: 'Multiple tracks required' })}
                                 </div>
                               </div>
                             </label>
-                            {enableMusicFadeOut && audioFiles.length > 1 && (
+                            {enableCrossfade && audioFiles.length > 1 && (
+                              <div className="pl-7 space-y-2">
+                                <div className="flex items-center gap-2">
+                                  <span className="text-xs text-slate-400 w-16">{t('options.crossfadeDuration')}</span>
+                                  <Input
+                                    type="number"
+                                    min="2"
+                                    max="12"
+                                    step="0.5"
+                                    value={crossfadeDuration}
+                                    onChange={(e) => setCrossfadeDuration(Number(e.target.value))}
+                                    className="w-20 h-8 bg-slate-700 border-slate-600 text-white text-xs"
+                                  />
+                                  <span className="text-xs text-slate-400">{t('options.seconds')}</span>
+                                </div>
+                                <div className="flex flex-wrap items-center gap-2">
+                                  <span className="text-xs text-slate-400 w-16">{t('options.crossfadeCurve')}</span>
+                                  {(['tri', 'qsin', 'hsin', 'log', 'exp'] as const).map((curve) => (
+                                    <Button
+                                      key={curve}
+                                      type="button"
+                                      variant="outline"
+                                      size="sm"
+                                      className={crossfadeCurve === curve
+                                        ? 'h-8 text-xs bg-emerald-600 hover:bg-emerald-500 border-emerald-500 text-white hover:text-white'
+                                        : 'h-8 text-xs bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300 hover:text-white'}
+                                      onClick={() => setCrossfadeCurve(curve)}
+                                    >
+                                      {t(`options.crossfadeCurve_${curve}`)}
+                                    </Button>
+                                  ))}
+                                </div>
+                              </div>
+                            )}
+                          </div>
+
+                          <div className="border-t border-slate-700 my-2"></div>
+
+                          {/* Fade out option */}
+                          <div className="space-y-2">
+                            <label className={`flex items-start gap-3 ${audioFiles.length > 1 && !enableCrossfade ? 'cursor-pointer group' : 'cursor-not-allowed opacity-60'}`}>
+                              <input
+                                type="checkbox"
+                                checked={enableMusicFadeOut}
+                                onChange={(e) => setEnableMusicFadeOut(e.target.checked)}
+                                disabled={audioFiles.length <= 1 || enableCrossfade}
+                                className="mt-1 w-4 h-4 rounded border-slate-600 bg-slate-700 text-emerald-600 focus:ring-emerald-500 focus:ring-2 disabled:cursor-not-allowed disabled:opacity-50"
+                              />
+                              <div className="flex-1">
+                                <div className={`text-sm font-medium ${audioFiles.length > 1 && !enableCrossfade ? 'text-slate-200' : 'text-slate-500'}`}>
+                                  {t('options.fadeOut')}
+                                </div>
+                                <div className="text-xs text-slate-400 mt-1">
+                                  {audioFiles.length <= 1
+                                    ? t('options.requiresMultipleTracks', { defaultValue: 'Multiple tracks required' })
+                                    : enableCrossfade
+                                    ? t('options.replacedByCrossfade')
+                                    : t('options.fadeOutDesc')}
+                                </div>
+                              </div>
+                            </label>
+                            {enableMusicFadeOut && !enableCrossfade && audioFiles.length > 1 && (
                               <div className="pl-7 flex items-center gap-2">
                                 <span className="text-xs text-slate-400">{t('options.fadeOutDuration')}</span>
                                 <Input
@@ -1334,26 +2126,28 @@ export default function App() {
 
                           {/* Padding option */}
                           <div className="space-y-2">
-                            <label className={`flex items-start gap-3 ${audioFiles.length > 1 ? 'cursor-pointer group' : 'cursor-not-allowed opacity-60'}`}>
+                            <label className={`flex items-start gap-3 ${audioFiles.length > 1 && !enableCrossfade ? 'cursor-pointer group' : 'cursor-not-allowed opacity-60'}`}>
                               <input
                                 type="checkbox"
                                 checked={enableMusicPadding}
                                 onChange={(e) => setEnableMusicPadding(e.target.checked)}
-                                disabled={audioFiles.length <= 1}
+                                disabled={audioFiles.length <= 1 || enableCrossfade}
                                 className="mt-1 w-4 h-4 rounded border-slate-600 bg-slate-700 text-emerald-600 focus:ring-emerald-500 focus:ring-2 disabled:cursor-not-allowed disabled:opacity-50"
                               />
                               <div className="flex-1">
-                                <div className={`text-sm font-medium ${audioFiles.length > 1 ? 'text-slate-200' : 'text-slate-500'}`}>
+                                <div className={`text-sm font-medium ${audioFiles.length > 1 && !enableCrossfade ? 'text-slate-200' : 'text-slate-500'}`}>
                                   {t('options.padding')}
                                 </div>
                                 <div className="text-xs text-slate-400 mt-1">
-                                  {audioFiles.length > 1 
-                                    ? t('options.paddingDesc')
-                                    : t('options.requiresMultipleTracks', { defaultValue: 'Multiple tracks required' })}
+                                  {audioFiles.length <= 1
+                                    ? t('options.requiresMultipleTracks', { defaultValue: 'Multiple tracks required' })
+                                    : enableCrossfade
+                                    ? t('options.replacedByCrossfade')
+                                    : t('options.paddingDesc')}
                                 </div>
                               </div>
                             </label>
-                            {enableMusicPadding && audioFiles.length > 1 && (
+                            {enableMusicPadding && !enableCrossfade && audioFiles.length > 1 && (
                               <div className="pl-7 flex items-center gap-2">
                                 <span className="text-xs text-slate-400">{t('options.paddingDuration')}</span>
                                 <Input
@@ -1369,6 +2163,279 @@ export default function App() {
                               </div>
                             )}
                           </div>
+
+                          <div className="border-t border-slate-700 my-2"></div>
+
+                          {/* Audio visualizer option */}
+                          <div className="space-y-2">
+                            <label className="flex items-start gap-3 cursor-pointer group">
+                              <input
+                                type="checkbox"
+                                checked={enableVisualizer}
+                                onChange={(e) => setEnableVisualizer(e.target.checked)}
+                                className="mt-1 w-4 h-4 rounded border-slate-600 bg-slate-700 text-emerald-600 focus:ring-emerald-500 focus:ring-2"
+                              />
+                              <div className="flex-1">
+                                <div className="text-sm font-medium text-slate-200">
+                                  {t('options.visualizer')}
+                                </div>
+                                <div className="text-xs text-slate-400 mt-1">
+                                  {t('options.visualizerDesc')}
+                                </div>
+                              </div>
+                            </label>
+                            {enableVisualizer && (
+                              <div className="pl-7 space-y-2">
+                                <div className="flex items-center gap-2">
+                                  <span className="text-xs text-slate-400 w-16">{t('options.visualizerStyle')}</span>
+                                  {(['waveform', 'spectrum', 'vu'] as const).map((style) => (
+                                    <Button
+                                      key={style}
+                                      type="button"
+                                      variant="outline"
+                                      size="sm"
+                                      className={visualizerStyle === style
+                                        ? 'h-8 text-xs bg-emerald-600 hover:bg-emerald-500 border-emerald-500 text-white hover:text-white'
+                                        : 'h-8 text-xs bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300 hover:text-white'}
+                                      onClick={() => setVisualizerStyle(style)}
+                                    >
+                                      {t(`options.visualizerStyle_${style}`)}
+                                    </Button>
+                                  ))}
+                                </div>
+                                <div className="flex items-center gap-2">
+                                  <span className="text-xs text-slate-400 w-16">{t('options.visualizerPosition')}</span>
+                                  {(['top', 'center', 'bottom'] as const).map((position) => (
+                                    <Button
+                                      key={position}
+                                      type="button"
+                                      variant="outline"
+                                      size="sm"
+                                      className={visualizerPosition === position
+                                        ? 'h-8 text-xs bg-emerald-600 hover:bg-emerald-500 border-emerald-500 text-white hover:text-white'
+                                        : 'h-8 text-xs bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300 hover:text-white'}
+                                      onClick={() => setVisualizerPosition(position)}
+                                    >
+                                      {t(`options.visualizerPosition_${position}`)}
+                                    </Button>
+                                  ))}
+                                </div>
+                                <div className="flex items-center gap-2">
+                                  <span className="text-xs text-slate-400 w-16">{t('options.visualizerSize')}</span>
+                                  <Input
+                                    type="number"
+                                    min="10"
+                                    max="100"
+                                    step="5"
+                                    value={visualizerSize}
+                                    onChange={(e) => setVisualizerSize(Number(e.target.value))}
+                                    className="w-20 h-8 bg-slate-700 border-slate-600 text-white text-xs"
+                                  />
+                                  <span className="text-xs text-slate-400">{t('options.visualizerSizeUnit')}</span>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                  <span className="text-xs text-slate-400 w-16">{t('options.visualizerColor')}</span>
+                                  <input
+                                    type="color"
+                                    value={visualizerColor}
+                                    onChange={(e) => setVisualizerColor(e.target.value)}
+                                    className="w-10 h-8 rounded border border-slate-600 bg-slate-700 cursor-pointer"
+                                  />
+                                  <span className="text-xs text-slate-400 w-16 ml-4">{t('options.visualizerOpacity')}</span>
+                                  <Input
+                                    type="number"
+                                    min="0.1"
+                                    max="1"
+                                    step="0.1"
+                                    value={visualizerOpacity}
+                                    onChange={(e) => setVisualizerOpacity(Number(e.target.value))}
+                                    className="w-20 h-8 bg-slate-700 border-slate-600 text-white text-xs"
+                                  />
+                                </div>
+                              </div>
+                            )}
+                          </div>
+
+                          <div className="border-t border-slate-700 my-2"></div>
+
+                          {/* Ken Burns motion option (background image only) */}
+                          <div className="space-y-2">
+                            <label className={`flex items-start gap-3 ${motionAvailable ? 'cursor-pointer group' : 'cursor-not-allowed opacity-60'}`}>
+                              <input
+                                type="checkbox"
+                                checked={enableMotion}
+                                onChange={(e) => setEnableMotion(e.target.checked)}
+                                disabled={!motionAvailable}
+                                className="mt-1 w-4 h-4 rounded border-slate-600 bg-slate-700 text-emerald-600 focus:ring-emerald-500 focus:ring-2 disabled:cursor-not-allowed disabled:opacity-50"
+                              />
+                              <div className="flex-1">
+                                <div className={`text-sm font-medium ${motionAvailable ? 'text-slate-200' : 'text-slate-500'}`}>
+                                  {t('options.motion')}
+                                </div>
+                                <div className="text-xs text-slate-400 mt-1">
+                                  {motionAvailable ? t('options.motionDesc') : t('options.motionUnavailable')}
+                                </div>
+                              </div>
+                            </label>
+                            {motionActive && (
+                              <div className="pl-7 space-y-2">
+                                <div className="flex items-center gap-2">
+                                  <span className="text-xs text-slate-400 w-16">{t('options.motionMode')}</span>
+                                  {(['zoom', 'pan'] as const).map((mode) => (
+                                    <Button
+                                      key={mode}
+                                      type="button"
+                                      variant="outline"
+                                      size="sm"
+                                      className={motionMode === mode
+                                        ? 'h-8 text-xs bg-emerald-600 hover:bg-emerald-500 border-emerald-500 text-white hover:text-white'
+                                        : 'h-8 text-xs bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300 hover:text-white'}
+                                      onClick={() => setMotionMode(mode)}
+                                    >
+                                      {t(`options.motionMode_${mode}`)}
+                                    </Button>
+                                  ))}
+                                </div>
+                                <div className="flex items-center gap-2">
+                                  <span className="text-xs text-slate-400 w-16">{t('options.motionCycle')}</span>
+                                  <Input
+                                    type="number"
+                                    min="5"
+                                    max="120"
+                                    step="1"
+                                    value={motionCycleDuration}
+                                    onChange={(e) => setMotionCycleDuration(Number(e.target.value))}
+                                    className="w-20 h-8 bg-slate-700 border-slate-600 text-white text-xs"
+                                  />
+                                  <span className="text-xs text-slate-400">{t('options.seconds')}</span>
+                                </div>
+                              </div>
+                            )}
+                          </div>
+
+                          <div className="border-t border-slate-700 my-2"></div>
+
+                          {/* "Now playing" title overlay option (segmented playlists only) */}
+                          {(() => {
+                            const nowPlayingAvailable = audioFiles.length > 1 && !enableVisualizer && !motionActive && musicBackgroundType === 'image'
+                            return (
+                              <div className="space-y-2">
+                                <label className={`flex items-start gap-3 ${nowPlayingAvailable ? 'cursor-pointer group' : 'cursor-not-allowed opacity-60'}`}>
+                                  <input
+                                    type="checkbox"
+                                    checked={enableNowPlaying}
+                                    onChange={(e) => setEnableNowPlaying(e.target.checked)}
+                                    disabled={!nowPlayingAvailable}
+                                    className="mt-1 w-4 h-4 rounded border-slate-600 bg-slate-700 text-emerald-600 focus:ring-emerald-500 focus:ring-2 disabled:cursor-not-allowed disabled:opacity-50"
+                                  />
+                                  <div className="flex-1">
+                                    <div className={`text-sm font-medium ${nowPlayingAvailable ? 'text-slate-200' : 'text-slate-500'}`}>
+                                      {t('options.nowPlaying')}
+                                    </div>
+                                    <div className="text-xs text-slate-400 mt-1">
+                                      {audioFiles.length <= 1
+                                        ? t('options.requiresMultipleTracks', { defaultValue: 'Multiple tracks required' })
+                                        : nowPlayingAvailable
+                                          ? t('options.nowPlayingDesc')
+                                          : t('options.nowPlayingUnavailable')}
+                                    </div>
+                                  </div>
+                                </label>
+                                {enableNowPlaying && nowPlayingAvailable && (
+                                  <div className="pl-7 space-y-2">
+                                    <div className="flex items-center gap-2">
+                                      <span className="text-xs text-slate-400 w-16">{t('options.nowPlayingArtist')}</span>
+                                      <Input
+                                        type="text"
+                                        maxLength={200}
+                                        placeholder={t('options.nowPlayingArtistPlaceholder')}
+                                        value={nowPlayingArtist}
+                                        onChange={(e) => setNowPlayingArtist(e.target.value)}
+                                        className="flex-1 h-8 bg-slate-700 border-slate-600 text-white text-xs"
+                                      />
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                      <span className="text-xs text-slate-400 w-16">{t('options.nowPlayingDuration')}</span>
+                                      <Input
+                                        type="number"
+                                        min="2"
+                                        max="15"
+                                        step="1"
+                                        value={nowPlayingDuration}
+                                        onChange={(e) => setNowPlayingDuration(Number(e.target.value))}
+                                        className="w-20 h-8 bg-slate-700 border-slate-600 text-white text-xs"
+                                      />
+                                      <span className="text-xs text-slate-400">{t('options.seconds')}</span>
+                                    </div>
+                                  </div>
+                                )}
+                              </div>
+                            )
+                          })()}
+
+                          <div className="border-t border-slate-700 my-2"></div>
+
+                          {/* Lyrics (.lrc/.txt next to each track or attached in the list above) */}
+                          <div className="space-y-2">
+                            <label className="flex items-start gap-3 cursor-pointer group">
+                              <input
+                                type="checkbox"
+                                checked={enableLyrics}
+                                onChange={(e) => setEnableLyrics(e.target.checked)}
+                                className="mt-1 w-4 h-4 rounded border-slate-600 bg-slate-700 text-emerald-600 focus:ring-emerald-500 focus:ring-2"
+                              />
+                              <div className="flex-1">
+                                <div className="text-sm font-medium text-slate-200">{t('options.lyrics')}</div>
+                                <div className="text-xs text-slate-400 mt-1">{t('options.lyricsDesc')}</div>
+                              </div>
+                            </label>
+                            {enableLyrics && (
+                              <div className="pl-7 space-y-2">
+                                <div className="flex items-center gap-2">
+                                  <span className="text-xs text-slate-400 w-16">{t('options.lyricsMode')}</span>
+                                  {(['soft', 'burn'] as const).map((mode) => (
+                                    <Button
+                                      key={mode}
+                                      type="button"
+                                      variant="outline"
+                                      size="sm"
+                                      className={lyricsMode === mode
+                                        ? 'h-8 text-xs bg-emerald-600 hover:bg-emerald-500 border-emerald-500 text-white hover:text-white'
+                                        : 'h-8 text-xs bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300 hover:text-white'}
+                                      onClick={() => setLyricsMode(mode)}
+                                    >
+                                      {t(`options.lyricsMode_${mode}`)}
+                                    </Button>
+                                  ))}
+                                </div>
+                                <div className="text-xs text-slate-500">{t(`options.lyricsModeDesc_${lyricsMode}`)}</div>
+                              </div>
+                            )}
+                          </div>
+
+                          <div className="border-t border-slate-700 my-2"></div>
+
+                          {/* Loudness normalization (measured per track, one gain each) */}
+                          <LoudnessOption
+                            enabled={enableMusicLoudness}
+                            onEnabledChange={setEnableMusicLoudness}
+                            target={musicLoudnessTarget}
+                            onTargetChange={setMusicLoudnessTarget}
+                            accent="emerald"
+                          />
+
+                          {/* Head/tail silence removal (detected per track, shown in the list above) */}
+                          <SilenceTrimOption
+                            enabled={enableMusicSilenceTrim}
+                            onEnabledChange={setEnableMusicSilenceTrim}
+                            threshold={musicSilenceThreshold}
+                            onThresholdChange={setMusicSilenceThreshold}
+                            minDuration={musicSilenceMinDuration}
+                            onMinDurationChange={setMusicSilenceMinDuration}
+                            isDetecting={musicSilence.isDetecting}
+                            trimmedCount={Object.keys(musicSilence.detections).length}
+                            accent="emerald"
+                          />
                         </div>
                       </div>
                     )}
@@ -1376,7 +2443,7 @@ export default function App() {
                 )}
 
                 {/* Real-time preview card */}
-                {bgImage && audioFiles.length > 0 && (
+                {musicBackgroundType === 'image' && bgImage && audioFiles.length > 0 && (
                   <div className="p-6 bg-gradient-to-br from-slate-800 to-slate-900 rounded-xl border border-emerald-500/30">
                     <div className="flex items-center gap-2 mb-4">
                       <Eye className="w-5 h-5 text-emerald-400" />
@@ -1448,9 +2515,17 @@ export default function App() {
                     </p>
                 </div>
 
+                <OutputFolderPicker value={jobOutputDir} onChange={setJobOutputDir} />
+                <OutputMetadataEditor
+                  enabled={writeMetadata}
+                  onEnabledChange={setWriteMetadata}
+                  value={jobMetadata['music-video']}
+                  onChange={(metadata) => handleJobMetadataChange('music-video', metadata)}
+                />
+
                 <Button
                     className="w-full bg-emerald-600 hover:bg-emerald-500 text-white font-bold h-14 text-lg shadow-lg shadow-emerald-900/20"
-                    disabled={audioFiles.length === 0}
+                    disabled={audioFiles.length === 0 || musicSilence.isDetecting}
                     onClick={handleCreateMusicVideo}
                 >
                   {audioFiles.length > 0 
@@ -1483,24 +2558,119 @@ export default function App() {
                   colorClass="border-blue-500"
                 />
 
+                {/* Loop mode: iteration count or exact target duration */}
                 <div className="space-y-2">
-                  <label className="text-sm font-medium text-slate-400">{t('labels.iterations')}</label>
-                  <Input
-                    type="number"
-                    className="bg-slate-800 border-slate-700 text-white h-12"
-                    value={iterations}
-                    onChange={(e) => setIterations(Number(e.target.value))}
-                    min={1}
-                  />
+                  <label className="text-sm font-medium text-slate-400">{t('labels.loopMode')}</label>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className={loopMode === 'iterations'
+                        ? 'bg-blue-600 hover:bg-blue-500 border-blue-500 text-white hover:text-white'
+                        : 'bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300 hover:text-white'}
+                      onClick={() => setLoopMode('iterations')}
+                    >
+                      {t('labels.loopModeIterations')}
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className={loopMode === 'duration'
+                        ? 'bg-blue-600 hover:bg-blue-500 border-blue-500 text-white hover:text-white'
+                        : 'bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300 hover:text-white'}
+                      onClick={() => setLoopMode('duration')}
+                    >
+                      {t('labels.loopModeDuration')}
+                    </Button>
+                  </div>
+                </div>
+
+                {loopMode === 'iterations' ? (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-slate-400">{t('labels.iterations')}</label>
+                    <Input
+                      type="number"
+                      className="bg-slate-800 border-slate-700 text-white h-12"
+                      value={iterations}
+                      onChange={(e) => setIterations(Number(e.target.value))}
+                      min={1}
+                    />
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-slate-400">{t('labels.targetDuration')}</label>
+                    <Input
+                      type="text"
+                      inputMode="numeric"
+                      placeholder="01:00:00"
+                      className="bg-slate-800 border-slate-700 text-white h-12 font-mono"
+                      value={targetDurationInput}
+                      onChange={(e) => setTargetDurationInput(e.target.value)}
+                    />
+                    {!parseDurationInput(targetDurationInput) && (
+                      <p className="text-xs text-red-400">{t('messages.invalidDuration')}</p>
+                    )}
+                  </div>
+                )}
+
+                {/* Ping-pong (boomerang) loop */}
+                <div className="space-y-2">
+                  <label className="flex items-start gap-3 cursor-pointer group">
+                    <input
+                      type="checkbox"
+                      checked={enablePingPong}
+                      onChange={(e) => setEnablePingPong(e.target.checked)}
+                      className="mt-1 w-4 h-4 rounded border-slate-600 bg-slate-700 text-blue-600 focus:ring-blue-500 focus:ring-2"
+                    />
+                    <div className="flex-1">
+                      <div className="text-sm font-medium text-slate-200">
+                        {t('options.pingPong')}
+                      </div>
+                      <div className="text-xs text-slate-400 mt-1">
+                        {t('options.pingPongDesc')}
+                      </div>
+                    </div>
+                  </label>
+                  {enablePingPong && (
+                    <div className="pl-7 flex items-center gap-2">
+                      <span className="text-xs text-slate-400">{t('options.pingPongAudio')}</span>
+                      {(['keep', 'reverse', 'drop'] as const).map((mode) => (
+                        <Button
+                          key={mode}
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          className={pingPongAudio === mode
+                            ? 'h-8 text-xs bg-blue-600 hover:bg-blue-500 border-blue-500 text-white hover:text-white'
+                            : 'h-8 text-xs bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300 hover:text-white'}
+                          onClick={() => setPingPongAudio(mode)}
+                        >
+                          {t(`options.pingPongAudio_${mode}`)}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
                 </div>
 
                 {/* Show estimated video time */}
                 {loopFile && getEstimatedTime() && (
-                  <div className="p-4 bg-blue-950/30 border border-blue-900/50 rounded-lg">
+                  <div className="p-4 bg-blue-950/30 border border-blue-900/50 rounded-lg space-y-1">
                     <p className="text-sm text-blue-400 flex items-center gap-2">
                       <CheckCircle2 className="w-4 h-4"/>
                       {t('messages.estimatedTime')} <span className="font-bold">{getEstimatedTime()}</span>
                     </p>
+                    {loopMode === 'duration' && (enablePingPong || !enableSeamCrossfade) && (() => {
+                      const unitDuration = enablePingPong ? loopVideoDuration * 2 : loopVideoDuration
+                      const plan = calculateLoopPlan(unitDuration, parseDurationInput(targetDurationInput) ?? 0)
+                      return plan && (
+                        <p className="text-xs text-blue-300/80 pl-6">
+                          {t('messages.loopPlan', {
+                            iterations: plan.fullIterations,
+                            partial: plan.partialDuration.toFixed(2)
+                          })}
+                        </p>
+                      )
+                    })()}
                   </div>
                 )}
 
@@ -1520,18 +2690,114 @@ export default function App() {
                     </button>
                     
                     {showAdvancedLoopOptions && (
-                      <div className="space-y-2 p-4 bg-slate-800/50 border border-slate-700 rounded-lg">
-                        <div className="text-sm text-slate-400">
-                          {t('options.noAdvancedOptions', 'No advanced options available for this feature')}
-                        </div>
+                      <div className="space-y-4 p-4 bg-slate-800/50 border border-slate-700 rounded-lg">
+                        {!enablePingPong && (
+                          <>
+                            {/* Seam crossfade option (ping-pong loops have no seam) */}
+                            <div className="space-y-2">
+                              <label className="flex items-start gap-3 cursor-pointer group">
+                                <input
+                                  type="checkbox"
+                                  checked={enableSeamCrossfade}
+                                  onChange={(e) => setEnableSeamCrossfade(e.target.checked)}
+                                  className="mt-1 w-4 h-4 rounded border-slate-600 bg-slate-700 text-blue-600 focus:ring-blue-500 focus:ring-2"
+                                />
+                                <div className="flex-1">
+                                  <div className="text-sm font-medium text-slate-200">
+                                    {t('options.seamCrossfade')}
+                                  </div>
+                                  <div className="text-xs text-slate-400 mt-1">
+                                    {t('options.seamCrossfadeDesc')}
+                                  </div>
+                                </div>
+                              </label>
+                              {enableSeamCrossfade && (
+                                <div className="pl-7 flex items-center gap-2">
+                                  <span className="text-xs text-slate-400">{t('options.seamCrossfadeDuration')}</span>
+                                  <Input
+                                    type="number"
+                                    min="0.1"
+                                    max="5"
+                                    step="0.1"
+                                    value={seamCrossfadeDuration}
+                                    onChange={(e) => setSeamCrossfadeDuration(Number(e.target.value))}
+                                    className="w-20 h-8 bg-slate-700 border-slate-600 text-white text-xs"
+                                  />
+                                  <span className="text-xs text-slate-400">{t('options.seconds')}</span>
+                                </div>
+                              )}
+                            </div>
+
+                            <div className="border-t border-slate-700 my-2"></div>
+                          </>
+                        )}
+
+                        {/* Fade in option */}
+                        <label className="flex items-start gap-3 cursor-pointer group">
+                          <input
+                            type="checkbox"
+                            checked={enableLoopFadeIn}
+                            onChange={(e) => setEnableLoopFadeIn(e.target.checked)}
+                            className="mt-1 w-4 h-4 rounded border-slate-600 bg-slate-700 text-blue-600 focus:ring-blue-500 focus:ring-2"
+                          />
+                          <div className="flex-1">
+                            <div className="text-sm font-medium text-slate-200">
+                              {t('options.loopFadeIn')}
+                            </div>
+                            <div className="text-xs text-slate-400 mt-1">
+                              {t('options.loopFadeInDesc')}
+                            </div>
+                          </div>
+                        </label>
+
+                        {/* Fade out option */}
+                        <label className="flex items-start gap-3 cursor-pointer group">
+                          <input
+                            type="checkbox"
+                            checked={enableLoopFadeOut}
+                            onChange={(e) => setEnableLoopFadeOut(e.target.checked)}
+                            className="mt-1 w-4 h-4 rounded border-slate-600 bg-slate-700 text-blue-600 focus:ring-blue-500 focus:ring-2"
+                          />
+                          <div className="flex-1">
+                            <div className="text-sm font-medium text-slate-200">
+                              {t('options.loopFadeOut')}
+                            </div>
+                            <div className="text-xs text-slate-400 mt-1">
+                              {t('options.loopFadeOutDesc')}
+                            </div>
+                          </div>
+                        </label>
+                        {(enableLoopFadeIn || enableLoopFadeOut) && (
+                          <div className="pl-7 flex items-center gap-2">
+                            <span className="text-xs text-slate-400">{t('options.fadeOutDuration')}</span>
+                            <Input
+                              type="number"
+                              min="0.5"
+                              max="10"
+                              step="0.5"
+                              value={loopFadeDuration}
+                              onChange={(e) => setLoopFadeDuration(Number(e.target.value))}
+                              className="w-20 h-8 bg-slate-700 border-slate-600 text-white text-xs"
+                            />
+                            <span className="text-xs text-slate-400">{t('options.seconds')}</span>
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
                 )}
 
+                <OutputFolderPicker value={jobOutputDir} onChange={setJobOutputDir} />
+                <OutputMetadataEditor
+                  enabled={writeMetadata}
+                  onEnabledChange={setWriteMetadata}
+                  value={jobMetadata['video-loop']}
+                  onChange={(metadata) => handleJobMetadataChange('video-loop', metadata)}
+                />
+
                 <Button
                   className="w-full bg-blue-600 hover:bg-blue-500 text-white font-bold h-14 text-lg"
-                  disabled={!loopFile}
+                  disabled={!loopFile || (loopMode === 'duration' && !parseDurationInput(targetDurationInput))}
                   onClick={handleLoopProcess}
                 >
                   {t('buttons.addToQueue')}
@@ -1579,8 +2845,8 @@ export default function App() {
                   {videoFiles.length > 0 && (
                     <div className="space-y-2 max-h-64 overflow-y-auto p-2 bg-slate-950/50 rounded-lg border border-slate-800">
                       {videoFiles.map((file, index) => (
+                        <Fragment key={`${file}-${index}`}>
                         <div
-                          key={`${file}-${index}`}
                           draggable
                           onDragStart={() => handleVideoDragStart(index)}
                           onDragOver={(e) => handleVideoDragOver(e, index)}
@@ -1594,6 +2860,32 @@ export default function App() {
                             {index + 1}. {file.split(/[/\\]/).pop()}
                           </span>
                           <div className="flex items-center gap-1 flex-shrink-0">
+                            {concatSilence.detections[file] && (
+                              <SilenceTrimBadge
+                                detection={concatSilence.detections[file]}
+                                onDismiss={() => concatSilence.dismiss(file)}
+                              />
+                            )}
+                            {clipVolumes[file] && (
+                              <TrackVolumeBadge
+                                volume={clipVolumes[file]}
+                                onReset={() => {
+                                  setClipVolume(file, null)
+                                  setClipVolumeEditorIndex(null)
+                                }}
+                              />
+                            )}
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation()
+                                setClipVolumeEditorIndex(clipVolumeEditorIndex === index ? null : index)
+                              }}
+                              className={`transition-colors px-2 ${clipVolumeEditorIndex === index ? 'text-cyan-300' : 'text-cyan-400 hover:text-cyan-300'}`}
+                              title={t('buttons.trackVolume')}
+                              aria-label={t('buttons.trackVolume')}
+                            >
+                              {clipVolumes[file]?.muted ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+                            </button>
                             <button
                               onClick={(e) => {
                                 e.stopPropagation()
@@ -1615,6 +2907,14 @@ export default function App() {
                             </button>
                           </div>
                         </div>
+                        {clipVolumeEditorIndex === index && (
+                          <TrackVolumeEditor
+                            value={clipVolumes[file]}
+                            onChange={(volume) => setClipVolume(file, volume)}
+                            accent="purple"
+                          />
+                        )}
+                        </Fragment>
                       ))}
                     </div>
                   )}
@@ -1647,6 +2947,15 @@ export default function App() {
                     if (enablePadding) {
                       activeOptions.push(t('options.paddingShort', { defaultValue: 'Padding' }))
                     }
+                    if (concatResolution !== 'default') {
+                      activeOptions.push(t(`resolution.${concatResolution}`))
+                    }
+                    if (enableConcatLoudness) {
+                      activeOptions.push(t('options.loudnessShort', { target: concatLoudnessTarget }))
+                    }
+                    if (enableConcatSilenceTrim) {
+                      activeOptions.push(t('options.silenceTrimShort'))
+                    }
                     
                     return activeOptions.length > 0 ? (
                       <div className="px-3 py-2 bg-slate-800/30 border border-slate-700/50 rounded-lg">
@@ -1670,6 +2979,32 @@ export default function App() {
                     <div className="space-y-4 p-4 bg-slate-800/50 border border-slate-700 rounded-lg">
                       
                       <div className="space-y-4">
+                        {/* Output resolution */}
+                        <div className="space-y-2">
+                          <div className="text-sm font-medium text-slate-200">{t('options.resolution')}</div>
+                          <div className="flex flex-wrap gap-2">
+                            {(['default', ...Object.keys(OUTPUT_RESOLUTION_PRESETS)] as (OutputResolution | 'default')[]).map((preset) => (
+                              <Button
+                                key={preset}
+                                type="button"
+                                variant="outline"
+                                size="sm"
+                                className={concatResolution === preset
+                                  ? 'h-8 text-xs bg-purple-600 hover:bg-purple-500 border-purple-500 text-white hover:text-white'
+                                  : 'h-8 text-xs bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300 hover:text-white'}
+                                onClick={() => setConcatResolution(preset)}
+                              >
+                                {preset === 'default' ? t('options.resolutionMatchFirst') : t(`resolution.${preset}`)}
+                              </Button>
+                            ))}
+                          </div>
+                          <div className="text-xs text-slate-400">
+                            {concatResolution === 'default'
+                              ? t('options.resolutionMatchFirstDesc')
+                              : `${OUTPUT_RESOLUTION_PRESETS[concatResolution].width}×${OUTPUT_RESOLUTION_PRESETS[concatResolution].height}`}
+                          </div>
+                        </div>
+
                         {/* Fade out option */}
                         <div className="space-y-2">
                           <label className={`flex items-start gap-3 ${videoFiles.length >= 2 ? 'cursor-pointer group' : 'cursor-not-allowed opacity-60'}`}>
@@ -1768,14 +3103,44 @@ export default function App() {
                             </div>
                           )}
                         </div>
+
+                        {/* Loudness normalization (measured per clip, one gain each) */}
+                        <LoudnessOption
+                          enabled={enableConcatLoudness}
+                          onEnabledChange={setEnableConcatLoudness}
+                          target={concatLoudnessTarget}
+                          onTargetChange={setConcatLoudnessTarget}
+                          accent="purple"
+                        />
+
+                        {/* Head/tail silence removal (detected per clip, shown in the list above) */}
+                        <SilenceTrimOption
+                          enabled={enableConcatSilenceTrim}
+                          onEnabledChange={setEnableConcatSilenceTrim}
+                          threshold={concatSilenceThreshold}
+                          onThresholdChange={setConcatSilenceThreshold}
+                          minDuration={concatSilenceMinDuration}
+                          onMinDurationChange={setConcatSilenceMinDuration}
+                          isDetecting={concatSilence.isDetecting}
+                          trimmedCount={Object.keys(concatSilence.detections).length}
+                          accent="purple"
+                        />
                       </div>
                     </div>
                   )}
                 </div>
 
+                <OutputFolderPicker value={jobOutputDir} onChange={setJobOutputDir} />
+                <OutputMetadataEditor
+                  enabled={writeMetadata}
+                  onEnabledChange={setWriteMetadata}
+                  value={jobMetadata['video-concat']}
+                  onChange={(metadata) => handleJobMetadataChange('video-concat', metadata)}
+                />
+
                 <Button
                   className="w-full bg-purple-600 hover:bg-purple-500 text-white font-bold h-14 text-lg shadow-lg shadow-purple-900/20"
-                  disabled={videoFiles.length < 2}
+                  disabled={videoFiles.length < 2 || concatSilence.isDetecting}
                   onClick={handleConcatVideos}
                 >
                   {videoFiles.length === 0
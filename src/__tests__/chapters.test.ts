@@ -0,0 +1,33 @@
+/**
+ * Unit tests for embedded chapter markers
+ */
+
+import { buildChapters, fitChaptersToDuration, formatChapterMetadata } from '../../electron/utils/ffmpeg/chapters'
+
+describe('chapters', () => {
+  it('builds one chapter per track with padding belonging to the preceding track', () => {
+    expect(buildChapters(['Intro', 'Song'], [60, 120.5], 3)).toEqual([
+      { title: 'Intro', start: 0, end: 63 },
+      { title: 'Song', start: 63, end: 183.5 }
+    ])
+    expect(buildChapters(['Only'], [60])).toEqual([])
+  })
+
+  it('fits chapters to the real output length', () => {
+    const chapters = buildChapters(['A', 'B', 'C'], [60, 60, 60])
+    expect(fitChaptersToDuration(chapters, 179.96)).toEqual([
+      { title: 'A', start: 0, end: 60 },
+      { title: 'B', start: 60, end: 120 },
+      { title: 'C', start: 120, end: 179.96 }
+    ])
+    expect(fitChaptersToDuration(chapters, 110).map((chapter) => chapter.title)).toEqual(['A', 'B'])
+    expect(fitChaptersToDuration(chapters, 0)).toBe(chapters)
+  })
+
+  it('formats ffmetadata with millisecond timebase and escaped titles', () => {
+    const metadata = formatChapterMetadata([{ title: 'A=B; #1 \\ mix', start: 0, end: 61.25 }])
+    expect(metadata).toBe(
+      ';FFMETADATA1\n\n[CHAPTER]\nTIMEBASE=1/1000\nSTART=0\nEND=61250\ntitle=A\\=B\\; \\#1 \\\\ mix\n'
+    )
+  })
+})
@@ -0,0 +1,33 @@
+/**
+ * Unit tests for crossfades between playlist tracks
+ */
+
+import {
+  applyCrossfadeOverlaps,
+  buildCrossfadeFilter,
+  normalizeCrossfadeOptions,
+  resolveCrossfadeOverlaps
+} from '../../electron/utils/ffmpeg/crossfade'
+
+describe('crossfade', () => {
+  it('validates renderer options', () => {
+    expect(normalizeCrossfadeOptions(undefined)).toBeUndefined()
+    expect(normalizeCrossfadeOptions({ duration: 6, curve: 'hsin' })).toEqual({ duration: 6, curve: 'hsin' })
+    expect(() => normalizeCrossfadeOptions({ duration: 1, curve: 'tri' })).toThrow('Invalid crossfade duration')
+    expect(() => normalizeCrossfadeOptions({ duration: 13, curve: 'tri' })).toThrow('Invalid crossfade duration')
+    expect(() => normalizeCrossfadeOptions({ duration: 4, curve: 'nofade' })).toThrow('Invalid crossfade curve')
+  })
+
+  it('limits each overlap to half of the shorter neighbouring track', () => {
+    expect(resolveCrossfadeOverlaps([180, 200, 7, 240], 6)).toEqual([6, 3.5, 3.5])
+    expect(resolveCrossfadeOverlaps([180], 6)).toEqual([])
+  })
+
+  it('shortens each track by the crossfade into the next one', () => {
+    expect(applyCrossfadeOverlaps([180, 200, 240], [6, 6])).toEqual([174, 194, 240])
+  })
+
+  it('builds the acrossfade filter', () => {
+    expect(buildCrossfadeFilter(6, 'qsin')).toBe('acrossfade=d=6.000:c1=qsin:c2=qsin')
+  })
+})
@@ -0,0 +1,45 @@
+/**
+ * Unit tests for image fill modes (letterbox replacement)
+ */
+
+import { normalizeImageFillOptions, buildImageFillFilters, pickDominantColor } from '../../electron/utils/ffmpeg/imageFill'
+
+describe('imageFill', () => {
+  it('defaults to the black letterbox', () => {
+    const options = normalizeImageFillOptions(undefined)
+    expect(options).toEqual({ mode: 'black', focalX: 50, focalY: 50 })
+    expect(buildImageFillFilters(options, 1920, 1080)).toEqual([
+      'scale=1920:1080:force_original_aspect_ratio=decrease',
+      'pad=1920:1080:(ow-iw)/2:(oh-ih)/2:black'
+    ])
+  })
+
+  it('rejects invalid modes and focal points', () => {
+    expect(() => normalizeImageFillOptions({ mode: 'stretch' as never })).toThrow()
+    expect(() => normalizeImageFillOptions({ mode: 'crop', focalX: 120 })).toThrow()
+  })
+
+  it('pads with the given color in color mode', () => {
+    const filters = buildImageFillFilters({ mode: 'color', focalX: 50, focalY: 50 }, 1080, 1920, '#1a2b3c')
+    expect(filters[1]).toBe('pad=1080:1920:(ow-iw)/2:(oh-ih)/2:0x1a2b3c')
+  })
+
+  it('crops around the focal point in crop mode', () => {
+    const filters = buildImageFillFilters({ mode: 'crop', focalX: 0, focalY: 25 }, 1080, 1080)
+    expect(filters).toEqual([
+      'scale=1080:1080:force_original_aspect_ratio=increase',
+      'crop=1080:1080:(iw-ow)*0.00:(ih-oh)*0.25'
+    ])
+  })
+
+  it('picks the most common color bucket', () => {
+    const pixels = new Uint8Array([
+      200, 10, 10,
+      202, 12, 14,
+      204, 14, 18,
+      0, 0, 255
+    ])
+    expect(pickDominantColor(pixels)).toBe('#ca0c0e')
+    expect(pickDominantColor(new Uint8Array())).toBe('#000000')
+  })
+})
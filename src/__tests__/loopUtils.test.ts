@@ -0,0 +1,55 @@
+import { describe, it, expect } from '@jest/globals'
+import { parseDurationInput, formatDurationInput, calculateLoopPlan } from '@/lib/loopUtils'
+
+describe('loopUtils', () => {
+  describe('parseDurationInput', () => {
+    it('should parse HH:MM:SS, MM:SS and SS formats', () => {
+      expect(parseDurationInput('01:00:00')).toBe(3600)
+      expect(parseDurationInput('10:00:00')).toBe(36000)
+      expect(parseDurationInput('02:30')).toBe(150)
+      expect(parseDurationInput('45')).toBe(45)
+      expect(parseDurationInput(' 00:01:30.5 ')).toBe(90.5)
+    })
+
+    it('should reject invalid or empty durations', () => {
+      expect(parseDurationInput('')).toBeNull()
+      expect(parseDurationInput('abc')).toBeNull()
+      expect(parseDurationInput('1:2:3:4')).toBeNull()
+      expect(parseDurationInput('00:75:00')).toBeNull()
+      expect(parseDurationInput('00:00:00')).toBeNull()
+      expect(parseDurationInput('-10')).toBeNull()
+    })
+  })
+
+  describe('formatDurationInput', () => {
+    it('should format seconds as HH:MM:SS', () => {
+      expect(formatDurationInput(3600)).toBe('01:00:00')
+      expect(formatDurationInput(150)).toBe('00:02:30')
+      expect(formatDurationInput(36000)).toBe('10:00:00')
+    })
+  })
+
+  describe('calculateLoopPlan', () => {
+    it('should split target duration into full iterations and a partial iteration', () => {
+      const plan = calculateLoopPlan(37, 3600)
+      expect(plan?.fullIterations).toBe(97)
+      expect(plan?.partialDuration).toBeCloseTo(11)
+    })
+
+    it('should not add a partial iteration for exact multiples', () => {
+      expect(calculateLoopPlan(20, 60)).toEqual({ fullIterations: 3, partialDuration: 0 })
+      expect(calculateLoopPlan(0.1, 0.3)).toEqual({ fullIterations: 3, partialDuration: 0 })
+    })
+
+    it('should handle targets shorter than the clip', () => {
+      expect(calculateLoopPlan(30, 10)).toEqual({ fullIterations: 0, partialDuration: 10 })
+    })
+
+    it('should return null for invalid durations', () => {
+      expect(calculateLoopPlan(0, 60)).toBeNull()
+      expect(calculateLoopPlan(30, 0)).toBeNull()
+      expect(calculateLoopPlan(NaN, 60)).toBeNull()
+      expect(calculateLoopPlan(30, Infinity)).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,60 @@
+/**
+ * Unit tests for EBU R128 loudness normalization
+ */
+
+import {
+  buildGainFilter,
+  buildLoudnessMeasureFilter,
+  computeLoudnessGain,
+  normalizeLoudnessOptions,
+  parseLoudnormStats
+} from '../../electron/utils/ffmpeg/loudness'
+
+const STATS = `[Parsed_loudnorm_0 @ 0x7f] 
+{
+	"input_i" : "-20.35",
+	"input_tp" : "-4.20",
+	"input_lra" : "6.10",
+	"input_thresh" : "-30.51",
+	"output_i" : "-14.02",
+	"target_offset" : "0.02"
+}
+`
+
+describe('loudness', () => {
+  it('validates renderer options', () => {
+    expect(normalizeLoudnessOptions(undefined)).toBeUndefined()
+    expect(normalizeLoudnessOptions({ target: -16 })).toEqual({ target: -16, truePeak: -1 })
+    expect(() => normalizeLoudnessOptions({ target: -10 })).toThrow('Invalid loudness target')
+    expect(buildLoudnessMeasureFilter({ target: -14, truePeak: -1 })).toBe('loudnorm=I=-14:TP=-1:LRA=11:print_format=json')
+  })
+
+  it('parses the loudnorm measurement from stderr', () => {
+    expect(parseLoudnormStats(`size=N/A time=00:03:00.00\n${STATS}`)).toEqual({
+      integrated: -20.35,
+      truePeak: -4.2,
+      range: 6.1,
+      threshold: -30.51
+    })
+    expect(parseLoudnormStats(STATS.replace('"-20.35"', '"-inf"'))?.integrated).toBe(-Infinity)
+    expect(parseLoudnormStats('no stats here')).toBeNull()
+  })
+
+  it('computes a gain capped by the true-peak limit', () => {
+    const options = { target: -14 as const, truePeak: -1 }
+    expect(computeLoudnessGain({ integrated: -20, truePeak: -8, range: 5, threshold: -30 }, options))
+      .toEqual({ gain: 6, peakLimited: false })
+    expect(computeLoudnessGain({ integrated: -20, truePeak: -3.5, range: 5, threshold: -30 }, options))
+      .toEqual({ gain: 2.5, peakLimited: true })
+    expect(computeLoudnessGain({ integrated: -9.2, truePeak: 0.3, range: 5, threshold: -19 }, options))
+      .toEqual({ gain: -4.8, peakLimited: false })
+    expect(computeLoudnessGain({ integrated: -Infinity, truePeak: -Infinity, range: 0, threshold: -70 }, options))
+      .toEqual({ gain: 0, peakLimited: false })
+  })
+
+  it('builds the gain filter', () => {
+    expect(buildGainFilter(0)).toBeNull()
+    expect(buildGainFilter(2.5)).toBe('volume=2.50dB')
+    expect(buildGainFilter(-4.8)).toBe('volume=-4.80dB')
+  })
+})
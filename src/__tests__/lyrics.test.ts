@@ -0,0 +1,65 @@
+/**
+ * Unit tests for LRC/plain text lyrics
+ */
+
+import {
+  buildLyricsCues,
+  formatLyricsAss,
+  formatLyricsSrt,
+  getLyricsCandidatePaths,
+  parseLyrics
+} from '../../electron/utils/lyrics'
+
+describe('lyrics', () => {
+  it('parses LRC with ID tags, repeated time tags and an offset', () => {
+    const lrc = '[ar:Artist]\n[offset:+500]\n[00:10.00][00:40.50]Chorus\n[00:20.00]<00:20.00>Verse <00:21.00>one\n[00:30.00]\n'
+    expect(parseLyrics(lrc)).toEqual({
+      timed: true,
+      lines: [
+        { time: 9.5, text: 'Chorus' },
+        { time: 19.5, text: 'Verse one' },
+        { time: 29.5, text: '' },
+        { time: 40, text: 'Chorus' }
+      ]
+    })
+  })
+
+  it('treats text without time tags as plain lines and ignores empty files', () => {
+    expect(parseLyrics('\uFEFFFirst line\n\nSecond line\r\n')).toEqual({ timed: false, lines: ['First line', 'Second line'] })
+    expect(parseLyrics('[ti:Title]\n\n')).toBeNull()
+  })
+
+  it('offsets each track by its start and ends lines at the next line or the track end', () => {
+    const cues = buildLyricsCues([
+      { lyrics: { timed: true, lines: [{ time: 1, text: 'A' }, { time: 3, text: '' }, { time: 5, text: 'B' }] }, start: 0, end: 8 },
+      { lyrics: null, start: 8, end: 20 },
+      { lyrics: { timed: false, lines: ['C', 'D'] }, start: 20, end: 30 }
+    ])
+    expect(cues).toEqual([
+      { start: 1, end: 3, text: 'A' },
+      { start: 5, end: 8, text: 'B' },
+      { start: 20, end: 25, text: 'C' },
+      { start: 25, end: 30, text: 'D' }
+    ])
+  })
+
+  it('drops lines past the end of the track', () => {
+    const cues = buildLyricsCues([{ lyrics: { timed: true, lines: [{ time: 2, text: 'A' }, { time: 90, text: 'B' }] }, start: 0, end: 60 }])
+    expect(cues).toEqual([{ start: 2, end: 60, text: 'A' }])
+  })
+
+  it('formats SRT and ASS', () => {
+    const cues = [{ start: 1, end: 3.25, text: 'Hello {world}' }, { start: 3.25, end: 3725, text: 'Next' }]
+    expect(formatLyricsSrt(cues)).toBe('1\n00:00:01,000 --> 00:00:03,250\nHello {world}\n\n2\n00:00:03,250 --> 01:02:05,000\nNext\n')
+
+    const ass = formatLyricsAss(cues, 1920, 1080)
+    expect(ass).toContain('PlayResY: 1080')
+    expect(ass).toContain('Dialogue: 0,0:00:01.00,0:00:03.25,Current,,0,0,0,,Hello (world)')
+    expect(ass).toContain('Dialogue: 0,0:00:01.00,0:00:03.25,Next,,0,0,0,,Next')
+    expect(ass).toContain('Dialogue: 0,0:00:03.25,1:02:05.00,Current,,0,0,0,,Next')
+  })
+
+  it('looks for .lrc before .txt next to the audio file', () => {
+    expect(getLyricsCandidatePaths('/music/song.mp3')).toEqual(['/music/song.lrc', '/music/song.txt'])
+  })
+})
@@ -0,0 +1,33 @@
+/**
+ * Unit tests for output metadata tags and the editor pre-fill
+ */
+
+import { normalizeOutputMetadata, buildMetadataOptions } from '../../electron/utils/ffmpeg/outputMetadata'
+import { buildMetadataPrefill } from '@/lib/metadataUtils'
+
+describe('outputMetadata', () => {
+  it('keeps only non-empty fields and validates the year', () => {
+    expect(normalizeOutputMetadata({ title: ' Night Drive ', artist: '', genre: 'AI Music' }))
+      .toEqual({ title: 'Night Drive', genre: 'AI Music' })
+    expect(normalizeOutputMetadata(undefined)).toEqual({})
+    expect(() => normalizeOutputMetadata({ year: '24' })).toThrow('YYYY')
+    expect(() => normalizeOutputMetadata({ title: 42 })).toThrow()
+  })
+
+  it('builds -metadata options with the comment also as description and year as date', () => {
+    expect(buildMetadataOptions({ title: 'Night Drive', comment: 'Made with love', year: '2024' })).toEqual([
+      '-metadata', 'title=Night Drive',
+      '-metadata', 'comment=Made with love',
+      '-metadata', 'description=Made with love',
+      '-metadata', 'date=2024'
+    ])
+    expect(buildMetadataOptions({})).toEqual([])
+  })
+
+  it('pre-fills from input tags, falling back to the job name', () => {
+    const tags = { title: 'Track 1', artist: 'Neon', album: 'Nights', year: '2024' }
+    expect(buildMetadataPrefill(tags, 'track1', false)).toMatchObject({ title: 'Track 1', artist: 'Neon', album: 'Nights' })
+    expect(buildMetadataPrefill(tags, 'Playlist', true).title).toBe('Nights')
+    expect(buildMetadataPrefill(undefined, 'Playlist', true)).toMatchObject({ title: 'Playlist', artist: '' })
+  })
+})
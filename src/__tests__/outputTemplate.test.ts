@@ -0,0 +1,55 @@
+/**
+ * Unit tests for output folder and filename templates
+ */
+
+import path from 'node:path'
+import {
+  formatDurationForFilename,
+  normalizeOutputSettings,
+  renderOutputFilename,
+  resolveOutputDirectory,
+  sanitizeFilename,
+  DEFAULT_OUTPUT_SETTINGS
+} from '../../electron/utils/outputTemplate'
+
+const DATE = new Date(2024, 2, 5)
+const { templates } = DEFAULT_OUTPUT_SETTINGS
+
+describe('outputTemplate', () => {
+  it('default templates reproduce the previous file names', () => {
+    expect(renderOutputFilename(templates['video-loop'], { name: 'song', type: 'video-loop', length: '10x', date: DATE }))
+      .toBe('song_looped_10x')
+    expect(renderOutputFilename(templates['video-loop'], { name: 'song', type: 'video-loop', length: '1h', mode: 'pingpong', date: DATE }))
+      .toBe('song_looped_1h_pingpong')
+    expect(renderOutputFilename(templates['video-concat'], { name: 'clip', type: 'video-concat', mode: 'merged', date: DATE }))
+      .toBe('clip_merged')
+  })
+
+  it('renders tokens and replaces characters that are invalid in file names', () => {
+    expect(renderOutputFilename('{date} {name} ({trackCount} tracks)', { name: 'Artist - Song', type: 'music-video', trackCount: 3, date: DATE }))
+      .toBe('2024-03-05 Artist - Song (3 tracks)')
+    expect(sanitizeFilename('a/b:c')).toBe('a_b_c')
+    expect(renderOutputFilename('{mode}', { name: '', type: 'music-video', date: DATE })).toBe('output')
+  })
+
+  it('formats durations for the {length} and {duration} tokens', () => {
+    expect(formatDurationForFilename(3600)).toBe('1h00m00s')
+    expect(formatDurationForFilename(95)).toBe('1m35s')
+    expect(formatDurationForFilename(4.6)).toBe('5s')
+  })
+
+  it('rejects unknown tokens and relative folders', () => {
+    expect(() => normalizeOutputSettings({ templates: { ...templates, 'music-video': '{title}' } })).toThrow('{title}')
+    expect(() => normalizeOutputSettings({ directory: 'relative/dir' })).toThrow()
+    expect(normalizeOutputSettings(undefined)).toEqual(DEFAULT_OUTPUT_SETTINGS)
+  })
+
+  it('prefers the per-job folder and appends the dated subfolder', () => {
+    const source = path.join(path.sep, 'input', 'song.mp3')
+    const settings = { ...DEFAULT_OUTPUT_SETTINGS, directory: path.join(path.sep, 'out') }
+    expect(resolveOutputDirectory(DEFAULT_OUTPUT_SETTINGS, source, DATE)).toBe(path.dirname(source))
+    expect(resolveOutputDirectory(settings, source, DATE)).toBe(settings.directory)
+    expect(resolveOutputDirectory({ ...settings, datedSubfolder: true }, source, DATE, path.join(path.sep, 'job')))
+      .toBe(path.join(path.sep, 'job', '2024-03-05'))
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, it, expect } from '@jest/globals'
+import { formatTrackGain, formatTrimPoint, matchTrackImagesByName, parseTrackTrim, toTrackVolume } from '@/lib/playlistUtils'
+
+describe('playlistUtils', () => {
+  describe('matchTrackImagesByName', () => {
+    it('should match images to tracks with the same base name', () => {
+      const matches = matchTrackImagesByName(
+        ['/music/song.mp3', 'C:\\music\\Intro.flac', '/music/outro.wav'],
+        ['/covers/song.jpg', 'D:\\covers\\intro.PNG', '/covers/other.jpg']
+      )
+
+      expect(matches).toEqual({
+        '/music/song.mp3': '/covers/song.jpg',
+        'C:\\music\\Intro.flac': 'D:\\covers\\intro.PNG'
+      })
+    })
+
+    it('should keep the first image when several share a base name', () => {
+      const matches = matchTrackImagesByName(['/music/song.mp3'], ['/a/song.jpg', '/b/song.png'])
+
+      expect(matches).toEqual({ '/music/song.mp3': '/a/song.jpg' })
+    })
+
+    it('should only strip the last extension', () => {
+      const matches = matchTrackImagesByName(['/music/live.set.mp3'], ['/covers/live.jpg', '/covers/live.set.jpg'])
+
+      expect(matches).toEqual({ '/music/live.set.mp3': '/covers/live.set.jpg' })
+    })
+  })
+
+  describe('track trim', () => {
+    it('should format trim points as M:SS', () => {
+      expect(formatTrimPoint(4)).toBe('0:04')
+      expect(formatTrimPoint(65.5)).toBe('1:05.5')
+      expect(formatTrimPoint(3725)).toBe('62:05')
+    })
+
+    it('should parse the in/out fields', () => {
+      expect(parseTrackTrim('', '')).toBeNull()
+      expect(parseTrackTrim('0:00', '')).toBeNull()
+      expect(parseTrackTrim('0:04', '')).toEqual({ start: 4 })
+      expect(parseTrackTrim('', '3:12')).toEqual({ start: 0, end: 192 })
+      expect(parseTrackTrim('1:05.5', '3:12')).toEqual({ start: 65.5, end: 192 })
+    })
+
+    it('should reject invalid points and out points before the in point', () => {
+      expect(parseTrackTrim('abc', '')).toBeUndefined()
+      expect(parseTrackTrim('0:10', '0:10.5')).toBeUndefined()
+      expect(parseTrackTrim('', '1:75')).toBeUndefined()
+    })
+  })
+  describe('track volume', () => {
+    it('should format gains as signed dB', () => {
+      expect(formatTrackGain(3)).toBe('+3.0 dB')
+      expect(formatTrackGain(-6.5)).toBe('-6.5 dB')
+      expect(formatTrackGain(0)).toBe('0.0 dB')
+    })
+
+    it('should build the volume of a track', () => {
+      expect(toTrackVolume(0, false)).toBeNull()
+      expect(toTrackVolume(3, false)).toEqual({ gain: 3 })
+      expect(toTrackVolume(0, true)).toEqual({ gain: 0, muted: true })
+      expect(toTrackVolume(-45, false)).toEqual({ gain: -30 })
+      expect(toTrackVolume(20, false)).toEqual({ gain: 12 })
+    })
+  })
+})
@@ -0,0 +1,93 @@
+/**
+ * Unit tests for automatic head/tail silence trimming
+ */
+
+import {
+  buildSilenceDetectFilter,
+  computeSilenceTrim,
+  isSilenceDetectLine,
+  normalizeSilenceOptions,
+  parseSilenceDetect
+} from '../../electron/utils/ffmpeg/silence'
+
+const STDERR = `
+[silencedetect @ 0x600003] silence_start: 0
+[silencedetect @ 0x600003] silence_end: 1.2345 | silence_duration: 1.2345
+size=N/A time=00:01:30.00 bitrate=N/A speed= 512x
+[silencedetect @ 0x600003] silence_start: 61.5
+[silencedetect @ 0x600003] silence_end: 62.4 | silence_duration: 0.9
+[silencedetect @ 0x600003] silence_start: 175.8
+size=N/A time=00:03:00.00 bitrate=N/A speed= 520x
+`
+
+describe('silence', () => {
+  it('validates renderer options', () => {
+    expect(normalizeSilenceOptions(undefined)).toEqual({ threshold: -50, minDuration: 0.5 })
+    expect(normalizeSilenceOptions({ threshold: -40, minDuration: 2 })).toEqual({ threshold: -40, minDuration: 2 })
+    expect(() => normalizeSilenceOptions({ threshold: 0 })).toThrow('Invalid silence threshold')
+    expect(() => normalizeSilenceOptions({ minDuration: 'x' })).toThrow('Invalid silence minimum duration')
+  })
+
+  it('builds the silencedetect filter', () => {
+    expect(buildSilenceDetectFilter({ threshold: -50, minDuration: 0.5 })).toBe('silencedetect=noise=-50dB:d=0.5')
+  })
+
+  it('parses silence intervals, including silence that runs to the end', () => {
+    expect(parseSilenceDetect(STDERR)).toEqual([
+      { start: 0, end: 1.2345 },
+      { start: 61.5, end: 62.4 },
+      { start: 175.8 }
+    ])
+    expect(parseSilenceDetect('no silence here')).toEqual([])
+  })
+
+  it('keeps head events that scrolled out of the last 100 stderr lines', () => {
+    // fluent-ffmpeg hands only the last 100 stderr lines to 'end'; long files print far more progress lines
+    const progress = Array.from({ length: 150 }, (_, i) => `size=N/A time=00:00:${String(i % 60).padStart(2, '0')}.00 bitrate=N/A speed= 500x`)
+    const lines = [
+      '[silencedetect @ 0x600003] silence_start: 0',
+      '[silencedetect @ 0x600003] silence_end: 2.5 | silence_duration: 2.5',
+      ...progress,
+      '[silencedetect @ 0x600003] silence_start: 175.8',
+      'size=N/A time=00:03:00.00 bitrate=N/A speed= 520x'
+    ]
+
+    expect(parseSilenceDetect(lines.slice(-100).join('\n'))).toEqual([{ start: 175.8 }])
+    const collected = lines.filter(isSilenceDetectLine)
+    expect(collected).toHaveLength(3)
+    expect(computeSilenceTrim(parseSilenceDetect(collected.join('\n')), 180)).toEqual({
+      trim: { start: 2.5, end: 175.8 },
+      head: 2.5,
+      tail: 4.2
+    })
+  })
+
+  it('removes only the head and tail silence', () => {
+    expect(computeSilenceTrim(parseSilenceDetect(STDERR), 180)).toEqual({
+      trim: { start: 1.234, end: 175.8 },
+      head: 1.234,
+      tail: 4.2
+    })
+    // Tail reported with a silence_end at the end of the file
+    expect(computeSilenceTrim([{ start: 200, end: 204 }], 204)).toEqual({
+      trim: { start: 0, end: 200 },
+      head: 0,
+      tail: 4
+    })
+    // Head only
+    expect(computeSilenceTrim([{ start: 0, end: 2.5 }, { start: 90, end: 91 }], 180)).toEqual({
+      trim: { start: 2.5 },
+      head: 2.5,
+      tail: 0
+    })
+  })
+
+  it('leaves files without edge silence or with only silence alone', () => {
+    const none = { trim: null, head: 0, tail: 0 }
+    expect(computeSilenceTrim([], 180)).toEqual(none)
+    expect(computeSilenceTrim([{ start: 61.5, end: 62.4 }], 180)).toEqual(none)
+    expect(computeSilenceTrim([{ start: 0 }], 30)).toEqual(none)
+    expect(computeSilenceTrim([{ start: 0, end: 29.5 }], 30)).toEqual(none)
+    expect(computeSilenceTrim([{ start: 0, end: 2 }], 0)).toEqual(none)
+  })
+})
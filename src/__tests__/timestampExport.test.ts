@@ -0,0 +1,55 @@
+/**
+ * Unit tests for timestamp export files
+ */
+
+import {
+  formatTimestampExport,
+  getTimestampExportPath,
+  tracksFromChapters,
+  tracksFromTimestampText
+} from '../../electron/utils/timestampExport'
+
+describe('timestampExport', () => {
+  const tracks = [
+    { title: 'Intro', start: 0, end: 62.5, source: '/music/intro.mp3' },
+    { title: 'Song "Live"', start: 62.5, end: 3725 }
+  ]
+
+  it('parses tracks from timestamp text with custom templates', () => {
+    expect(tracksFromTimestampText('[00:00] Intro\n01:02 2. Song (Live)\n', 200, ['/a.mp3'])).toEqual([
+      { title: 'Intro', start: 0, end: 62, source: '/a.mp3' },
+      { title: '2. Song (Live)', start: 62, end: 200, source: undefined }
+    ])
+  })
+
+  it('reads tracks from embedded chapters when there are at least two', () => {
+    expect(tracksFromChapters([{ start_time: 0, end_time: 10, tags: { title: 'A' } }])).toEqual([])
+    expect(tracksFromChapters([
+      { start_time: '0.000', end_time: '10.5', tags: { title: 'A' } },
+      { start_time: '10.5', end_time: '20' }
+    ])).toEqual([
+      { title: 'A', start: 0, end: 10.5, source: undefined },
+      { title: 'Track 2', start: 10.5, end: 20, source: undefined }
+    ])
+  })
+
+  it('names export files after the output', () => {
+    expect(getTimestampExportPath('/out/mix.mp4', 'cue')).toBe('/out/mix.cue')
+    expect(getTimestampExportPath('/out/mix.mp4', 'vtt')).toBe('/out/mix.chapters.vtt')
+  })
+
+  it('formats CUE, WebVTT, SRT and JSON', () => {
+    expect(formatTimestampExport('cue', tracks, '/out/mix.mp4', '')).toBe(
+      'TITLE "mix"\nFILE "mix.mp4" WAVE\n' +
+      '  TRACK 01 AUDIO\n    TITLE "Intro"\n    INDEX 01 00:00:00\n' +
+      '  TRACK 02 AUDIO\n    TITLE "Song \'Live\'"\n    INDEX 01 01:02:38\n'
+    )
+    expect(formatTimestampExport('vtt', tracks, '/out/mix.mp4', '')).toBe(
+      'WEBVTT\n\n1\n00:00:00.000 --> 00:01:02.500\nIntro\n\n2\n00:01:02.500 --> 01:02:05.000\nSong "Live"\n'
+    )
+    expect(formatTimestampExport('srt', tracks, '/out/mix.mp4', '')).toContain('00:00:00,000 --> 00:01:02,500')
+
+    const manifest = JSON.parse(formatTimestampExport('json', tracks, '/out/mix.mp4', ''))
+    expect(manifest.tracks[1]).toEqual({ index: 2, title: 'Song "Live"', start: 62.5, end: 3725, duration: 3662.5, source: null })
+  })
+})
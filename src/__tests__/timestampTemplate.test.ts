@@ -0,0 +1,23 @@
+/**
+ * Unit tests for timestamp line templates
+ */
+
+import { normalizeTimestampTemplate, formatTimestampLine, DEFAULT_TIMESTAMP_TEMPLATE } from '../../electron/utils/timestampTemplate'
+
+describe('timestampTemplate', () => {
+  it('falls back to the default template and trims input', () => {
+    expect(normalizeTimestampTemplate('')).toBe(DEFAULT_TIMESTAMP_TEMPLATE)
+    expect(normalizeTimestampTemplate('  [{time}] {title}  ')).toBe('[{time}] {title}')
+  })
+
+  it('rejects templates without {time}, with unknown tokens or on several lines', () => {
+    expect(() => normalizeTimestampTemplate('{title}')).toThrow('{time}')
+    expect(() => normalizeTimestampTemplate('{time} {album}')).toThrow('{album}')
+    expect(() => normalizeTimestampTemplate('{time}\n{title}')).toThrow()
+  })
+
+  it('renders tokens', () => {
+    expect(formatTimestampLine('{time} {index}. {artist} - {title}', { time: '01:00', index: 2, title: 'Song', artist: 'Neon' }))
+      .toBe('01:00 2. Neon - Song')
+  })
+})
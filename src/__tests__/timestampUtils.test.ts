@@ -1,5 +1,5 @@
 import { describe, it, expect } from '@jest/globals'
-import { formatTimestamp, removeExtension, calculateTimestamps } from '@/lib/timestampUtils'
+import { formatTimestamp, removeExtension, calculateTimestamps, validateYouTubeChapters } from '@/lib/timestampUtils'
 
 describe('timestampUtils', () => {
   describe('formatTimestamp', () => {
@@ -96,6 +96,31 @@ describe('timestampUtils', () => {
       expect(result).not.toContain('.mov')
     })
 
+    it('should prefer provided track titles and fall back to file names', async () => {
+      const getDuration = jest.fn().mockResolvedValue(60)
+
+      const result = await calculateTimestamps(
+        ['a1b2c3.mp4', 'video2.mp4'],
+        getDuration,
+        { titles: ['Artist - Midnight Drive', ''] }
+      )
+
+      expect(result).toBe('00:00 - Artist - Midnight Drive\n01:00 - video2')
+    })
+
+    it('should render lines with a custom template', async () => {
+      const getDuration = jest.fn().mockResolvedValue(60)
+
+      const result = await calculateTimestamps(
+        ['intro.mp4', 'song.mp4'],
+        getDuration,
+        { template: '{time} {index}. {artist} - {title}', artists: ['Neon'] }
+      )
+
+      // Missing artist leaves no double space behind
+      expect(result).toBe('00:00 1. Neon - intro\n01:00 2. - song')
+    })
+
     it('should handle duration fetch errors gracefully', async () => {
       const getDuration = jest.fn()
         .mockResolvedValueOnce(60)
@@ -243,5 +268,18 @@ describe('timestampUtils', () => {
       expect(lines[1]).toBe('00:30 - video2')
     })
   })
+
+  describe('validateYouTubeChapters', () => {
+    it('should accept timestamps that follow YouTube chapter rules', () => {
+      expect(validateYouTubeChapters('00:00 - A\n03:00 - B\n1:02:03 - C')).toEqual([])
+    })
+
+    it('should report each rule YouTube enforces', () => {
+      expect(validateYouTubeChapters('00:05 - A\n03:00 - B\n06:00 - C')).toEqual(['firstNotZero'])
+      expect(validateYouTubeChapters('00:00 - A\n03:00 - B')).toEqual(['tooFew'])
+      expect(validateYouTubeChapters('00:00 - A\n00:05 - B\n06:00 - C')).toEqual(['tooShort'])
+      expect(validateYouTubeChapters('00:00 - A\n06:00 - B\n03:00 - C')).toEqual(['notAscending'])
+    })
+  })
 })
 
@@ -0,0 +1,22 @@
+/**
+ * Unit tests for measured track lengths
+ */
+
+import { parseLastTimemark, sumTrackSegments } from '../../electron/utils/ffmpeg/trackTimeline'
+
+describe('trackTimeline', () => {
+  it('reads the final time of a null encode', () => {
+    const stderr = 'size=N/A time=00:01:10.50 bitrate=N/A speed=500x\rsize=N/A time=01:02:03.26 bitrate=N/A speed=512x\n'
+    expect(parseLastTimemark(stderr)).toBeCloseTo(3723.26)
+    expect(parseLastTimemark('Invalid data found when processing input')).toBeNull()
+  })
+
+  it('adds up segment lengths per track', () => {
+    expect(sumTrackSegments([
+      { track: 0, duration: 2.02 },
+      { track: 0, duration: 177.98 },
+      { track: 0, duration: 3.04 },  // Padding
+      { track: 1, duration: 240.01 }
+    ], 2)).toEqual([183.04, 240.01])
+  })
+})
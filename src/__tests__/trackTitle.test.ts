@@ -0,0 +1,26 @@
+/**
+ * Unit tests for tag-based track titles
+ */
+
+import { extractMediaTags, formatTrackTitle } from '../../electron/utils/trackTitle'
+
+describe('trackTitle', () => {
+  it('reads tags case-insensitively from the container or the audio stream', () => {
+    expect(extractMediaTags({ format: { tags: { TITLE: 'Midnight Drive', ARTIST: 'Neon', album: 'Nights' } } }))
+      .toEqual({ title: 'Midnight Drive', artist: 'Neon', album: 'Nights' })
+    // Ogg/Opus keep Vorbis comments on the stream
+    expect(extractMediaTags({
+      format: { tags: { encoder: 'Lavf' } },
+      streams: [{ codec_type: 'audio', tags: { title: 'Opus Song', album_artist: 'Band' } }]
+    })).toEqual({ title: 'Opus Song', artist: 'Band', album: undefined })
+  })
+
+  it('formats the chosen source and falls back to the file name', () => {
+    const tags = { title: 'Midnight Drive', artist: 'Neon' }
+    expect(formatTrackTitle('/music/Midnight Drive (2).mp3', tags, 'filename')).toBe('Midnight Drive (2)')
+    expect(formatTrackTitle('/music/Midnight Drive (2).mp3', tags, 'tag')).toBe('Midnight Drive')
+    expect(formatTrackTitle('/music/track.mp3', tags, 'artist-title')).toBe('Neon - Midnight Drive')
+    expect(formatTrackTitle('/music/track.mp3', { title: 'Solo' }, 'artist-title')).toBe('Solo')
+    expect(formatTrackTitle('/music/3f2a-uuid.mp3', {}, 'tag')).toBe('3f2a-uuid')
+  })
+})
@@ -0,0 +1,48 @@
+/**
+ * Unit tests for per-track trim (in/out points)
+ */
+
+import {
+  buildTrimInputOptions,
+  getTrimmedDuration,
+  normalizeTrackTrims
+} from '../../electron/utils/ffmpeg/trackTrim'
+import { trimLyrics } from '../../electron/utils/lyrics'
+
+describe('trackTrim', () => {
+  it('validates renderer trims', () => {
+    expect(normalizeTrackTrims(undefined, 2)).toBeUndefined()
+    expect(normalizeTrackTrims([null, { start: 0 }], 2)).toBeUndefined()
+    expect(normalizeTrackTrims([{ start: 4 }, null], 2)).toEqual([{ start: 4 }, { start: 0 }])
+    expect(normalizeTrackTrims([{ start: 0, end: 192 }], 1)).toEqual([{ start: 0, end: 192 }])
+    expect(() => normalizeTrackTrims([null], 2)).toThrow('Expected 2 track trims')
+    expect(() => normalizeTrackTrims([{ start: -1 }], 1)).toThrow('Invalid trim start')
+    expect(() => normalizeTrackTrims([{ start: 10, end: 10.5 }], 1)).toThrow('Invalid trim end')
+  })
+
+  it('computes the trimmed length without running past the file', () => {
+    expect(getTrimmedDuration(200, undefined)).toBe(200)
+    expect(getTrimmedDuration(200, { start: 4, end: 192 })).toBe(188)
+    expect(getTrimmedDuration(180, { start: 4, end: 192 })).toBe(176)
+  })
+
+  it('reads only the trimmed part', () => {
+    expect(buildTrimInputOptions(undefined)).toEqual([])
+    expect(buildTrimInputOptions({ start: 0 })).toEqual([])
+    expect(buildTrimInputOptions({ start: 4 })).toEqual(['-ss', '4'])
+    expect(buildTrimInputOptions({ start: 4, end: 192 })).toEqual(['-ss', '4', '-t', '188'])
+  })
+
+  it('moves timed lyrics to the in point', () => {
+    const lyrics = {
+      timed: true as const,
+      lines: [{ time: 2, text: 'Intro' }, { time: 8, text: 'Verse' }, { time: 20, text: 'Chorus' }]
+    }
+    expect(trimLyrics(lyrics, 10)).toEqual({
+      timed: true,
+      lines: [{ time: 0, text: 'Verse' }, { time: 10, text: 'Chorus' }]
+    })
+    expect(trimLyrics(lyrics, 0)).toBe(lyrics)
+    expect(trimLyrics({ timed: false, lines: ['a'] }, 10)).toEqual({ timed: false, lines: ['a'] })
+  })
+})
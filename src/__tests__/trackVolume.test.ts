@@ -0,0 +1,42 @@
+/**
+ * Unit tests for per-track gain and mute
+ */
+
+import {
+  applyTrackVolumes,
+  formatTrackVolume,
+  normalizeTrackVolumes
+} from '../../electron/utils/ffmpeg/trackVolume'
+import { buildGainFilter } from '../../electron/utils/ffmpeg/loudness'
+
+describe('trackVolume', () => {
+  it('validates renderer volumes', () => {
+    expect(normalizeTrackVolumes(undefined, 2)).toBeUndefined()
+    expect(normalizeTrackVolumes([null, { gain: 0 }], 2)).toBeUndefined()
+    expect(normalizeTrackVolumes([{ gain: 3 }, null], 2)).toEqual([{ gain: 3 }, { gain: 0 }])
+    expect(normalizeTrackVolumes([{ gain: 0, muted: true }], 1)).toEqual([{ gain: 0, muted: true }])
+    expect(() => normalizeTrackVolumes([null], 2)).toThrow('Expected 2 track volumes')
+    expect(() => normalizeTrackVolumes([{ gain: 40 }], 1)).toThrow('Invalid gain for track 1')
+    expect(() => normalizeTrackVolumes([{ gain: '3' }], 1)).toThrow('Invalid gain for track 1')
+  })
+
+  it('adds the volumes to the loudness gains', () => {
+    const volumes = [{ gain: 3 }, { gain: 0 }, { gain: -2, muted: true }]
+    expect(applyTrackVolumes(undefined, undefined, 3)).toBeUndefined()
+    expect(applyTrackVolumes([1.5, -2, 0], undefined, 3)).toEqual([1.5, -2, 0])
+    expect(applyTrackVolumes(undefined, volumes, 3)).toEqual([3, 0, -Infinity])
+    expect(applyTrackVolumes([-4.25, 2.1], volumes, 3)).toEqual([-1.25, 2.1, -Infinity])
+  })
+
+  it('builds the gain filter of a muted track', () => {
+    expect(buildGainFilter(-Infinity)).toBe('volume=0')
+    expect(buildGainFilter(3)).toBe('volume=3.00dB')
+    expect(buildGainFilter(0)).toBeNull()
+  })
+
+  it('formats volumes for the log', () => {
+    expect(formatTrackVolume({ gain: 3 })).toBe('+3.0 dB')
+    expect(formatTrackVolume({ gain: -6.5 })).toBe('-6.5 dB')
+    expect(formatTrackVolume({ gain: 3, muted: true })).toBe('muted')
+  })
+})
@@ -0,0 +1,56 @@
+/**
+ * Unit tests for the selectable video encoder (codec, container, CRF/preset)
+ */
+
+import {
+  normalizeVideoEncoderSettings,
+  resolveVideoEncoder,
+  getSupportedVideoCodecs,
+  buildVideoEncoderOptions,
+  buildAudioCodecOptions,
+  buildContainerOptions,
+  DEFAULT_VIDEO_ENCODER_SETTINGS
+} from '../../electron/utils/ffmpeg/videoEncoder'
+
+const H264 = { ...DEFAULT_VIDEO_ENCODER_SETTINGS, encoderName: 'libx264' }
+
+describe('videoEncoder', () => {
+  it('defaults to H.264 in MP4 and keeps the previous still segment options', () => {
+    expect(normalizeVideoEncoderSettings(undefined)).toEqual(DEFAULT_VIDEO_ENCODER_SETTINGS)
+    expect(buildVideoEncoderOptions(H264, { stillImage: true, defaultPreset: 'ultrafast' })).toEqual([
+      '-c:v', 'libx264', '-preset', 'ultrafast', '-tune', 'stillimage', '-profile:v', 'main', '-level', '4.0'
+    ])
+  })
+
+  it('rejects codecs the container cannot hold and out-of-range CRF', () => {
+    expect(() => normalizeVideoEncoderSettings({ codec: 'vp9', container: 'mp4' })).toThrow()
+    expect(() => normalizeVideoEncoderSettings({ codec: 'h264', crf: 60 })).toThrow()
+    expect(normalizeVideoEncoderSettings({ codec: 'av1', container: 'webm' }).crf).toBe(32)
+  })
+
+  it('only offers codecs with an encoder in the bundled ffmpeg', () => {
+    const available = ['libx264', 'libaom-av1', 'mpeg4']
+    expect(getSupportedVideoCodecs(available)).toEqual(['h264', 'av1'])
+    const settings = normalizeVideoEncoderSettings({ codec: 'av1', container: 'webm' })
+    expect(resolveVideoEncoder(settings, available)?.encoderName).toBe('libaom-av1')
+    expect(resolveVideoEncoder(normalizeVideoEncoderSettings({ codec: 'h265' }), available)).toBeNull()
+  })
+
+  it('uses constant quality for VP9 and tags HEVC for Apple players', () => {
+    const vp9 = { ...normalizeVideoEncoderSettings({ codec: 'vp9', container: 'webm', preset: 'medium' }), encoderName: 'libvpx-vp9' }
+    expect(buildVideoEncoderOptions(vp9)).toEqual([
+      '-c:v', 'libvpx-vp9', '-deadline', 'good', '-cpu-used', '2', '-row-mt', '1', '-crf', '32', '-b:v', '0'
+    ])
+    const hevc = { ...normalizeVideoEncoderSettings({ codec: 'h265', container: 'mov' }), encoderName: 'libx265' }
+    expect(buildVideoEncoderOptions(hevc)).toContain('hvc1')
+  })
+
+  it('switches WebM audio to Opus and skips faststart outside MP4/MOV', () => {
+    expect(buildAudioCodecOptions('webm', { bitrate: '192k', sampleRate: '44100' })).toEqual([
+      '-c:a', 'libopus', '-b:a', '192k', '-ar', '48000'
+    ])
+    expect(buildAudioCodecOptions('mp4', { sampleRate: 44100 })).toEqual(['-c:a', 'aac', '-ar', '44100'])
+    expect(buildContainerOptions('mkv')).toEqual([])
+    expect(buildContainerOptions('mov')).toEqual(['-movflags', '+faststart'])
+  })
+})
@@ -2,6 +2,7 @@ import { useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { Button } from "@/components/ui/button"
 import { Copy, Check } from "lucide-react"
+import { YouTubeChapterWarning } from "./YouTubeChapterWarning"
 
 interface CopyTimestampsButtonProps {
   timestampText: string
@@ -37,25 +38,27 @@ export function CopyTimestampsButton({ timestampText }: CopyTimestampsButtonProp
   }
 
   return (
-    <Button
-      size="sm"
-      variant="ghost"
-      className="w-full text-purple-400 hover:text-purple-300 hover:bg-purple-950 h-8 text-xs"
-      onClick={handleCopy}
-      title={t('timestamps.copyTooltip')}
-    >
-      {copied ? (
-        <>
-          <Check className="w-3 h-3 mr-1" />
-          {t('timestamps.copied')}
-        </>
-      ) : (
-        <>
-          <Copy className="w-3 h-3 mr-1" />
-          {t('timestamps.copyHistory')}
-        </>
-      )}
-    </Button>
+    <div className="space-y-2">
+      <Button
+        size="sm"
+        variant="ghost"
+        className="w-full text-purple-400 hover:text-purple-300 hover:bg-purple-950 h-8 text-xs"
+        onClick={handleCopy}
+        title={t('timestamps.copyTooltip')}
+      >
+        {copied ? (
+          <>
+            <Check className="w-3 h-3 mr-1" />
+            {t('timestamps.copied')}
+          </>
+        ) : (
+          <>
+            <Copy className="w-3 h-3 mr-1" />
+            {t('timestamps.copyHistory')}
+          </>
+        )}
+      </Button>
+      <YouTubeChapterWarning timestampText={timestampText} compact />
+    </div>
   )
 }
-
@@ -3,6 +3,8 @@ import { HistoryItem } from '@/types'
 import { Button } from "@/components/ui/button"
 import { History, Music, FileVideo, Plus, Trash2, X, ExternalLink } from "lucide-react"
 import { CopyTimestampsButton } from "./CopyTimestampsButton"
+import { TimestampExportMenu } from "./TimestampExportMenu"
+import { useFileExtensions } from "@/store/useSettingsStore"
 
 interface HistoryPanelProps {
   history: HistoryItem[]
@@ -12,6 +14,16 @@ interface HistoryPanelProps {
 
 export function HistoryPanel({ history, onDeleteItem, onClearHistory }: HistoryPanelProps) {
   const { t, i18n } = useTranslation()
+  const fileExtensions = useFileExtensions()
+
+  // History keeps all inputs; playlist tracks are the audio files among them
+  const getTrackSourceFiles = (item: HistoryItem): string[] => {
+    if (item.type !== 'music-video') return item.inputFiles
+    return item.inputFiles.filter((file) => {
+      const extension = file.slice(file.lastIndexOf('.')).toLowerCase()
+      return fileExtensions.audio.includes(extension)
+    })
+  }
 
   // Format duration in milliseconds to human-readable string
   const formatDuration = (ms: number | undefined): string => {
@@ -153,7 +165,14 @@ export function HistoryPanel({ history, onDeleteItem, onClearHistory }: HistoryP
                     
                     {/* Copy Timestamps Button for Concat and Playlist Jobs */}
                     {(item.type === 'video-concat' || item.type === 'music-video') && item.timestampText && (
-                      <CopyTimestampsButton timestampText={item.timestampText} />
+                      <>
+                        <CopyTimestampsButton timestampText={item.timestampText} />
+                        <TimestampExportMenu
+                          outputFile={item.outputFile}
+                          timestampText={item.timestampText}
+                          sourceFiles={getTrackSourceFiles(item)}
+                        />
+                      </>
                     )}
                   </div>
                 )}
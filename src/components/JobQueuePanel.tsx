@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react'
 import { useTranslation } from 'react-i18next'
 import { Job } from '@/types'
+import { formatDurationInput } from '@/lib/loopUtils'
+import { TimestampExportMenu } from './TimestampExportMenu'
 
 type TFunction = ReturnType<typeof useTranslation>['t']
 import { Button } from "@/components/ui/button"
@@ -118,6 +120,10 @@ function JobDetails({ job, t }: { job: Job; t: TFunction }) {
       return count > 1 ? `${count} ${t('common.tracks')}` : t('common.singleTrack')
     }
 
+    if (job.type === 'video-loop' && job.params.loopMode === 'duration' && job.params.targetDuration) {
+      return formatDurationInput(job.params.targetDuration)
+    }
+
     if (job.type === 'video-loop' && job.params.iterations) {
       return `${job.params.iterations} ${t('common.iterations')}`
     }
@@ -197,7 +203,12 @@ function JobActions({ job, onCancelJob, onRemoveJob, t }: {
 }
 
 // Timestamp Snippet component
-function TimestampSnippet({ timestampText, t }: { timestampText: string; t: TFunction }) {
+function TimestampSnippet({ timestampText, outputFile, sourceFiles, t }: {
+  timestampText: string
+  outputFile?: string
+  sourceFiles?: string[]
+  t: TFunction
+}) {
   const [copied, setCopied] = useState(false)
 
   const handleCopy = async () => {
@@ -260,6 +271,9 @@ function TimestampSnippet({ timestampText, t }: { timestampText: string; t: TFun
         style={{ fontFamily: 'monospace' }}
         aria-label={t('timestamps.title')}
       />
+      {outputFile && (
+        <TimestampExportMenu outputFile={outputFile} timestampText={timestampText} sourceFiles={sourceFiles} />
+      )}
     </div>
   )
 }
@@ -309,7 +323,12 @@ function JobCard({ job, onCancelJob, onRemoveJob, t }: {
       )}
 
       {job.status === 'completed' && (job.type === 'video-concat' || job.type === 'music-video') && job.timestampText && (
-        <TimestampSnippet timestampText={job.timestampText} t={t} />
+        <TimestampSnippet
+          timestampText={job.timestampText}
+          outputFile={job.result}
+          sourceFiles={[job.type === 'music-video' ? job.params.audioPath : job.params.videoPath].flat().filter((file): file is string => !!file)}
+          t={t}
+        />
       )}
     </div>
   )
@@ -0,0 +1,69 @@
+import { useTranslation } from 'react-i18next'
+import { Button } from "@/components/ui/button"
+import { LoudnessTarget } from '@/types'
+
+const LOUDNESS_TARGETS: LoudnessTarget[] = [-14, -16, -23]
+
+// Tab accent colors (image+music: emerald, concat: purple)
+const ACCENT_CLASSES = {
+  emerald: {
+    checkbox: 'text-emerald-600 focus:ring-emerald-500',
+    selected: 'bg-emerald-600 hover:bg-emerald-500 border-emerald-500'
+  },
+  purple: {
+    checkbox: 'text-purple-600 focus:ring-purple-500',
+    selected: 'bg-purple-600 hover:bg-purple-500 border-purple-500'
+  }
+}
+
+interface LoudnessOptionProps {
+  enabled: boolean
+  onEnabledChange: (enabled: boolean) => void
+  target: LoudnessTarget
+  onTargetChange: (target: LoudnessTarget) => void
+  accent: keyof typeof ACCENT_CLASSES
+}
+
+/**
+ * Loudness normalization toggle and target (advanced options of the image+music and concat tabs)
+ */
+export function LoudnessOption({ enabled, onEnabledChange, target, onTargetChange, accent }: LoudnessOptionProps) {
+  const { t } = useTranslation()
+  const classes = ACCENT_CLASSES[accent]
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-start gap-3 cursor-pointer group">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className={`mt-1 w-4 h-4 rounded border-slate-600 bg-slate-700 focus:ring-2 ${classes.checkbox}`}
+        />
+        <div className="flex-1">
+          <div className="text-sm font-medium text-slate-200">{t('options.loudness')}</div>
+          <div className="text-xs text-slate-400 mt-1">{t('options.loudnessDesc')}</div>
+        </div>
+      </label>
+      {enabled && (
+        <div className="pl-7 flex flex-wrap items-center gap-2">
+          <span className="text-xs text-slate-400 w-16">{t('options.loudnessTarget')}</span>
+          {LOUDNESS_TARGETS.map((value) => (
+            <Button
+              key={value}
+              type="button"
+              variant="outline"
+              size="sm"
+              className={target === value
+                ? `h-8 text-xs text-white hover:text-white ${classes.selected}`
+                : 'h-8 text-xs bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300 hover:text-white'}
+              onClick={() => onTargetChange(value)}
+            >
+              {t(`options.loudnessTarget_${Math.abs(value)}`)}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
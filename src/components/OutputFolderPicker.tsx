@@ -0,0 +1,51 @@
+import { useTranslation } from 'react-i18next'
+import { Button } from "@/components/ui/button"
+import { FolderOutput, X } from "lucide-react"
+
+interface OutputFolderPickerProps {
+  value: string // '' = use the output folder from Settings
+  onChange: (directory: string) => void
+}
+
+/**
+ * Per-job output folder override shown above the "Add to queue" buttons
+ */
+export function OutputFolderPicker({ value, onChange }: OutputFolderPickerProps) {
+  const { t } = useTranslation()
+
+  const handleChoose = async () => {
+    const directory = await window.electronAPI?.openDirectoryDialog()
+    if (directory) onChange(directory)
+  }
+
+  return (
+    <div className="flex items-center gap-2 p-2 bg-slate-800/50 border border-slate-700 rounded-lg">
+      <FolderOutput className="w-4 h-4 text-slate-400 shrink-0" />
+      <div className="flex-1 min-w-0">
+        <div className="text-xs text-slate-400">{t('options.outputFolder')}</div>
+        <div className="text-xs text-slate-200 truncate" title={value || undefined}>
+          {value || t('options.outputFolderDefault')}
+        </div>
+      </div>
+      <Button
+        size="sm"
+        variant="ghost"
+        className="h-8 text-xs text-slate-300 hover:text-white hover:bg-slate-700"
+        onClick={handleChoose}
+      >
+        {t('options.outputFolderChoose')}
+      </Button>
+      {value && (
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-8 w-8 p-0 text-slate-400 hover:text-white hover:bg-slate-700"
+          onClick={() => onChange('')}
+          title={t('options.outputFolderClear')}
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      )}
+    </div>
+  )
+}
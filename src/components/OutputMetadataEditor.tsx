@@ -0,0 +1,71 @@
+import { useTranslation } from 'react-i18next'
+import { Input } from "@/components/ui/input"
+import { Tags } from "lucide-react"
+import type { OutputMetadata } from "@/types"
+
+interface OutputMetadataEditorProps {
+  enabled: boolean
+  onEnabledChange: (enabled: boolean) => void
+  value: OutputMetadata
+  onChange: (metadata: OutputMetadata) => void
+}
+
+const GENRE_SUGGESTIONS = ['AI Music', 'Lo-fi', 'Ambient', 'Chill', 'Jazz', 'Piano', 'Sleep', 'Study']
+
+const SINGLE_LINE_FIELDS: Array<keyof OutputMetadata> = ['title', 'artist', 'album', 'year', 'genre']
+
+/**
+ * Output tags (title, artist, ...) shown above the "Add to queue" buttons
+ */
+export function OutputMetadataEditor({ enabled, onEnabledChange, value, onChange }: OutputMetadataEditorProps) {
+  const { t } = useTranslation()
+
+  const updateField = (field: keyof OutputMetadata, text: string) => {
+    onChange({ ...value, [field]: text })
+  }
+
+  return (
+    <div className="p-2 bg-slate-800/50 border border-slate-700 rounded-lg space-y-2">
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className="w-4 h-4 rounded border-slate-600 bg-slate-700 focus:ring-2"
+        />
+        <Tags className="w-4 h-4 text-slate-400" />
+        <span className="text-xs text-slate-300">{t('options.metadata')}</span>
+      </label>
+      {enabled && (
+        <div className="grid grid-cols-2 gap-2">
+          {SINGLE_LINE_FIELDS.map((field) => (
+            <div key={field} className={field === 'title' ? 'col-span-2' : ''}>
+              <div className="text-xs text-slate-400 mb-1">{t(`options.metadata_${field}`)}</div>
+              <Input
+                value={value[field] ?? ''}
+                onChange={(e) => updateField(field, e.target.value)}
+                placeholder={field === 'year' ? 'YYYY' : undefined}
+                maxLength={field === 'year' ? 4 : 200}
+                list={field === 'genre' ? 'output-metadata-genres' : undefined}
+                className="h-8 bg-slate-700 border-slate-600 text-white text-xs"
+              />
+            </div>
+          ))}
+          <datalist id="output-metadata-genres">
+            {GENRE_SUGGESTIONS.map((genre) => <option key={genre} value={genre} />)}
+          </datalist>
+          <div className="col-span-2">
+            <div className="text-xs text-slate-400 mb-1">{t('options.metadata_comment')}</div>
+            <textarea
+              value={value.comment ?? ''}
+              onChange={(e) => updateField('comment', e.target.value)}
+              maxLength={2000}
+              rows={2}
+              className="w-full rounded-md px-3 py-2 bg-slate-700 border border-slate-600 text-white text-xs"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
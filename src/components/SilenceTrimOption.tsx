@@ -0,0 +1,147 @@
+import { useTranslation } from 'react-i18next'
+import { Scissors } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { SilenceDetection } from '@/types'
+
+const SILENCE_THRESHOLDS = [-60, -50, -40, -30]
+const SILENCE_MIN_DURATIONS = [0.2, 0.5, 1, 2]
+
+// Tab accent colors (image+music: emerald, concat: purple)
+const ACCENT_CLASSES = {
+  emerald: {
+    checkbox: 'text-emerald-600 focus:ring-emerald-500',
+    selected: 'bg-emerald-600 hover:bg-emerald-500 border-emerald-500'
+  },
+  purple: {
+    checkbox: 'text-purple-600 focus:ring-purple-500',
+    selected: 'bg-purple-600 hover:bg-purple-500 border-purple-500'
+  }
+}
+
+interface SilenceTrimOptionProps {
+  enabled: boolean
+  onEnabledChange: (enabled: boolean) => void
+  threshold: number
+  onThresholdChange: (threshold: number) => void
+  minDuration: number
+  onMinDurationChange: (minDuration: number) => void
+  isDetecting: boolean
+  trimmedCount: number  // Files with silence found (shown in the track list)
+  accent: keyof typeof ACCENT_CLASSES
+}
+
+/**
+ * Automatic head/tail silence trimming toggle, threshold and minimum duration
+ * (advanced options of the image+music and concat tabs)
+ */
+export function SilenceTrimOption({
+  enabled,
+  onEnabledChange,
+  threshold,
+  onThresholdChange,
+  minDuration,
+  onMinDurationChange,
+  isDetecting,
+  trimmedCount,
+  accent
+}: SilenceTrimOptionProps) {
+  const { t } = useTranslation()
+  const classes = ACCENT_CLASSES[accent]
+
+  const presetClass = (selected: boolean) => selected
+    ? `h-8 text-xs text-white hover:text-white ${classes.selected}`
+    : 'h-8 text-xs bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300 hover:text-white'
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-start gap-3 cursor-pointer group">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className={`mt-1 w-4 h-4 rounded border-slate-600 bg-slate-700 focus:ring-2 ${classes.checkbox}`}
+        />
+        <div className="flex-1">
+          <div className="text-sm font-medium text-slate-200">{t('options.silenceTrim')}</div>
+          <div className="text-xs text-slate-400 mt-1">{t('options.silenceTrimDesc')}</div>
+        </div>
+      </label>
+      {enabled && (
+        <div className="pl-7 space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-slate-400 w-20">{t('options.silenceThreshold')}</span>
+            {SILENCE_THRESHOLDS.map((value) => (
+              <Button
+                key={value}
+                type="button"
+                variant="outline"
+                size="sm"
+                className={presetClass(threshold === value)}
+                onClick={() => onThresholdChange(value)}
+              >
+                {t('options.silenceThresholdValue', { value })}
+              </Button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-slate-400 w-20">{t('options.silenceMinDuration')}</span>
+            {SILENCE_MIN_DURATIONS.map((value) => (
+              <Button
+                key={value}
+                type="button"
+                variant="outline"
+                size="sm"
+                className={presetClass(minDuration === value)}
+                onClick={() => onMinDurationChange(value)}
+              >
+                {t('options.silenceMinDurationValue', { value })}
+              </Button>
+            ))}
+          </div>
+          <div className="text-xs text-slate-500">
+            {isDetecting
+              ? t('options.silenceDetecting')
+              : t('options.silenceDetected', { count: trimmedCount })}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface SilenceTrimBadgeProps {
+  detection: SilenceDetection
+  onDismiss: () => void
+}
+
+/**
+ * Detected head/tail silence of one file in the track/clip list ("−4.2 s tail")
+ */
+export function SilenceTrimBadge({ detection, onDismiss }: SilenceTrimBadgeProps) {
+  const { t } = useTranslation()
+  const parts: string[] = []
+  if (detection.head > 0) {
+    parts.push(t('labels.silenceHead', { seconds: detection.head.toFixed(1) }))
+  }
+  if (detection.tail > 0) {
+    parts.push(t('labels.silenceTail', { seconds: detection.tail.toFixed(1) }))
+  }
+
+  return (
+    <span className="flex items-center gap-1 px-2 py-0.5 text-xs text-amber-300 bg-amber-900/30 border border-amber-700/50 rounded whitespace-nowrap">
+      <Scissors className="w-3 h-3" />
+      {parts.join(' · ')}
+      <button
+        onClick={(e) => {
+          e.stopPropagation()
+          onDismiss()
+        }}
+        className="text-amber-400 hover:text-amber-200 transition-colors"
+        title={t('buttons.keepSilence')}
+        aria-label={t('buttons.keepSilence')}
+      >
+        ✕
+      </button>
+    </span>
+  )
+}
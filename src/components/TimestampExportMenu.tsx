@@ -0,0 +1,81 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Button } from "@/components/ui/button"
+import { FileDown, Check, AlertCircle } from "lucide-react"
+import { TimestampExportFormat } from '@/types'
+
+const EXPORT_FORMATS: TimestampExportFormat[] = ['txt', 'cue', 'vtt', 'srt', 'json']
+
+interface TimestampExportMenuProps {
+  outputFile: string
+  timestampText: string
+  sourceFiles?: string[]  // Input file per track (JSON manifest)
+}
+
+/**
+ * Saves the track list next to the output as txt/cue/vtt/srt/json
+ */
+export function TimestampExportMenu({ outputFile, timestampText, sourceFiles }: TimestampExportMenuProps) {
+  const { t } = useTranslation()
+  const [exporting, setExporting] = useState<TimestampExportFormat | null>(null)
+  const [savedPath, setSavedPath] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleExport = async (format: TimestampExportFormat) => {
+    if (!window.electronAPI?.exportTimestamps) return
+
+    setExporting(format)
+    setError(null)
+    try {
+      const result = await window.electronAPI.exportTimestamps({ outputFile, timestampText, sourceFiles, format })
+      setSavedPath(result.path)
+    } catch (err) {
+      console.error('Failed to export timestamps:', err)
+      setSavedPath(null)
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-1">
+        <span className="flex items-center gap-1 text-xs text-slate-400 mr-1">
+          <FileDown className="w-3 h-3" />
+          {t('timestamps.export')}
+        </span>
+        {EXPORT_FORMATS.map((format) => (
+          <Button
+            key={format}
+            size="sm"
+            variant="ghost"
+            className="h-6 px-2 text-xs text-slate-400 hover:text-purple-300 hover:bg-purple-950/50"
+            onClick={() => handleExport(format)}
+            disabled={exporting !== null}
+            title={t(`timestamps.exportFormat.${format}`)}
+          >
+            {format.toUpperCase()}
+          </Button>
+        ))}
+      </div>
+      {savedPath && !error && (
+        <button
+          type="button"
+          className="flex items-center gap-1 text-xs text-emerald-400 hover:underline truncate max-w-full"
+          onClick={() => window.electronAPI?.openFile?.(savedPath)}
+          title={savedPath}
+        >
+          <Check className="w-3 h-3 flex-shrink-0" />
+          <span className="truncate">{t('timestamps.exported', { file: savedPath.split(/[/\\]/).pop() })}</span>
+        </button>
+      )}
+      {error && (
+        <div className="flex items-center gap-1 text-xs text-red-400">
+          <AlertCircle className="w-3 h-3 flex-shrink-0" />
+          <span className="break-words">{error}</span>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,58 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Input } from "@/components/ui/input"
+import { TrackTrim } from '@/types'
+import { formatTrimPoint, parseTrackTrim } from '@/lib/playlistUtils'
+
+interface TrackTrimEditorProps {
+  value?: TrackTrim
+  onChange: (trim: TrackTrim | null) => void
+}
+
+/**
+ * In/out points of one playlist track (shown under the track in the image+music list)
+ * Invalid input is highlighted and not applied, so the last valid trim is kept.
+ */
+export function TrackTrimEditor({ value, onChange }: TrackTrimEditorProps) {
+  const { t } = useTranslation()
+  const [startText, setStartText] = useState(value && value.start > 0 ? formatTrimPoint(value.start) : '')
+  const [endText, setEndText] = useState(value?.end !== undefined ? formatTrimPoint(value.end) : '')
+  const isValid = parseTrackTrim(startText, endText) !== undefined
+
+  const update = (nextStartText: string, nextEndText: string) => {
+    setStartText(nextStartText)
+    setEndText(nextEndText)
+    const trim = parseTrackTrim(nextStartText, nextEndText)
+    if (trim !== undefined) {
+      onChange(trim)
+    }
+  }
+
+  const inputClass = `w-20 h-8 bg-slate-700 text-white text-xs ${isValid ? 'border-slate-600' : 'border-red-500'}`
+
+  return (
+    <div className="ml-7 px-3 py-2 space-y-1 bg-slate-800/50 border border-slate-700 rounded-lg">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-slate-400">{t('labels.trimIn')}</span>
+        <Input
+          type="text"
+          value={startText}
+          onChange={(e) => update(e.target.value, endText)}
+          placeholder="0:00"
+          className={inputClass}
+        />
+        <span className="text-xs text-slate-400">{t('labels.trimOut')}</span>
+        <Input
+          type="text"
+          value={endText}
+          onChange={(e) => update(startText, e.target.value)}
+          placeholder={t('labels.trimOutPlaceholder')}
+          className={inputClass}
+        />
+      </div>
+      <div className={`text-xs ${isValid ? 'text-slate-500' : 'text-red-400'}`}>
+        {isValid ? t('labels.trimHint') : t('labels.trimInvalid')}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,98 @@
+import { useTranslation } from 'react-i18next'
+import { Volume2, VolumeX } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { TrackVolume } from '@/types'
+import { MAX_TRACK_VOLUME_DB, MIN_TRACK_VOLUME_DB, formatTrackGain, toTrackVolume } from '@/lib/playlistUtils'
+
+// Tab accent colors (image+music: emerald, concat: purple)
+const ACCENT_CLASSES = {
+  emerald: 'accent-emerald-500 text-emerald-600 focus:ring-emerald-500',
+  purple: 'accent-purple-500 text-purple-600 focus:ring-purple-500'
+}
+
+interface TrackVolumeEditorProps {
+  value?: TrackVolume
+  onChange: (volume: TrackVolume | null) => void
+  accent: keyof typeof ACCENT_CLASSES
+}
+
+/**
+ * Gain slider and mute toggle of one track/clip (shown under the entry in the image+music and concat lists)
+ */
+export function TrackVolumeEditor({ value, onChange, accent }: TrackVolumeEditorProps) {
+  const { t } = useTranslation()
+  const gain = value?.gain ?? 0
+  const muted = !!value?.muted
+
+  return (
+    <div className="ml-7 px-3 py-2 space-y-1 bg-slate-800/50 border border-slate-700 rounded-lg">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-slate-400">{t('labels.trackGain')}</span>
+        <input
+          type="range"
+          min={MIN_TRACK_VOLUME_DB}
+          max={MAX_TRACK_VOLUME_DB}
+          step={0.5}
+          value={gain}
+          disabled={muted}
+          onChange={(e) => onChange(toTrackVolume(Number(e.target.value), muted))}
+          className={`flex-1 min-w-[8rem] disabled:opacity-50 ${ACCENT_CLASSES[accent]}`}
+          aria-label={t('labels.trackGain')}
+        />
+        <span className={`w-16 text-right text-xs tabular-nums ${muted ? 'text-slate-500' : 'text-slate-300'}`}>
+          {formatTrackGain(gain)}
+        </span>
+        <label className="flex items-center gap-1 text-xs text-slate-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={muted}
+            onChange={(e) => onChange(toTrackVolume(gain, e.target.checked))}
+            className={`w-4 h-4 rounded border-slate-600 bg-slate-700 focus:ring-2 ${ACCENT_CLASSES[accent]}`}
+          />
+          {t('labels.trackMute')}
+        </label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300 hover:text-white"
+          disabled={!value}
+          onClick={() => onChange(null)}
+        >
+          {t('buttons.resetTrackVolume')}
+        </Button>
+      </div>
+      <div className="text-xs text-slate-500">{t('labels.trackVolumeHint')}</div>
+    </div>
+  )
+}
+
+interface TrackVolumeBadgeProps {
+  volume: TrackVolume
+  onReset: () => void
+}
+
+/**
+ * Gain or mute of one entry in the track/clip list ("+3.0 dB", "Muted")
+ */
+export function TrackVolumeBadge({ volume, onReset }: TrackVolumeBadgeProps) {
+  const { t } = useTranslation()
+
+  return (
+    <span className="flex items-center gap-1 px-2 py-0.5 text-xs text-cyan-300 bg-cyan-900/30 border border-cyan-700/50 rounded whitespace-nowrap">
+      {volume.muted ? <VolumeX className="w-3 h-3" /> : <Volume2 className="w-3 h-3" />}
+      {volume.muted ? t('labels.trackMuted') : formatTrackGain(volume.gain)}
+      <button
+        onClick={(e) => {
+          e.stopPropagation()
+          onReset()
+        }}
+        className="text-cyan-400 hover:text-cyan-200 transition-colors"
+        title={t('buttons.removeTrackVolume')}
+        aria-label={t('buttons.removeTrackVolume')}
+      >
+        ✕
+      </button>
+    </span>
+  )
+}
@@ -0,0 +1,38 @@
+import { useTranslation } from 'react-i18next'
+import { AlertTriangle } from "lucide-react"
+import { validateYouTubeChapters } from "@/lib/timestampUtils"
+
+interface YouTubeChapterWarningProps {
+  timestampText: string
+  compact?: boolean  // Smaller text for the history panel
+}
+
+/**
+ * Warns when the timestamp text won't become YouTube chapters
+ * (renders nothing when the text follows YouTube's rules)
+ */
+export function YouTubeChapterWarning({ timestampText, compact = false }: YouTubeChapterWarningProps) {
+  const { t } = useTranslation()
+  const issues = validateYouTubeChapters(timestampText)
+
+  if (!timestampText || issues.length === 0) {
+    return null
+  }
+
+  return (
+    <div
+      role="status"
+      className={`flex items-start gap-2 bg-amber-900/20 border border-amber-800 rounded-lg text-amber-400 ${compact ? 'p-2 text-xs' : 'p-3 text-sm'}`}
+    >
+      <AlertTriangle className={`${compact ? 'w-3 h-3' : 'w-4 h-4'} flex-shrink-0 mt-0.5`} />
+      <div>
+        <div className="font-medium">{t('timestamps.chapterWarning')}</div>
+        <ul className="list-disc pl-4">
+          {issues.map((issue) => (
+            <li key={issue}>{t(`timestamps.chapterIssue.${issue}`)}</li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  )
+}
@@ -2,7 +2,8 @@ import { useState, useEffect } from 'react'
 import { useTranslation } from 'react-i18next'
 import { Button } from "@/components/ui/button"
 import { Copy, Check, AlertCircle } from "lucide-react"
-import { calculateTimestamps } from "@/lib/timestampUtils"
+import { calculateTimestamps, loadTimestampLineOptions } from "@/lib/timestampUtils"
+import { YouTubeChapterWarning } from "@/components/YouTubeChapterWarning"
 
 interface YouTubeTimestampGeneratorProps {
   videoFiles: string[]
@@ -38,12 +39,14 @@ export function YouTubeTimestampGenerator({
           throw new Error('Video duration API not available')
         }
 
+        const lineOptions = await loadTimestampLineOptions(videoFiles)
         const text = await calculateTimestamps(
           videoFiles,
           (path) => window.electronAPI.getVideoDuration!(path),
           {
             enablePadding,
-            paddingDuration
+            paddingDuration,
+            ...lineOptions
           }
         )
         setTimestampText(text)
@@ -138,6 +141,7 @@ export function YouTubeTimestampGenerator({
               Generated YouTube chapter timestamps for your videos
             </span>
           </div>
+          <YouTubeChapterWarning timestampText={timestampText} />
           <Button
             onClick={handleCopy}
             className="w-full bg-purple-600 hover:bg-purple-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
@@ -4,11 +4,14 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Button } from "@/components/ui/button"
 import { Switch } from "@/components/ui/switch"
-import { Settings, Info, FolderOpen, Image, Music, Video, AlertTriangle, Volume2, Zap, CheckCircle2 } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Settings, Info, FolderOpen, Image, Music, Video, AlertTriangle, Volume2, Zap, CheckCircle2, Monitor, Film, FolderOutput, Tag, ListOrdered } from "lucide-react"
 import { AboutDialog } from "@/components/AboutDialog"
-import { useSettingsStore, AudioQualityPreset, AUDIO_QUALITY_PRESETS } from "@/store/useSettingsStore"
+import { useSettingsStore, AudioQualityPreset, AUDIO_QUALITY_PRESETS, OUTPUT_RESOLUTION_PRESETS, CONTAINER_CODECS, DEFAULT_VIDEO_CRF, MAX_VIDEO_CRF, DEFAULT_OUTPUT_SETTINGS } from "@/store/useSettingsStore"
+import { OutputResolution, VideoCodec, OutputContainer, EncoderPreset, EncoderTune, VideoEncoderSettings, JobType, OutputSettings, TrackTitleSource } from "@/types"
 import { TagInput } from "@/components/ui/tag-input"
 import i18n from '../../i18n'
+import { formatTimestampLine, DEFAULT_TIMESTAMP_TEMPLATE } from "@/lib/timestampUtils"
 import {
   AlertDialog,
   AlertDialogAction,
@@ -20,6 +23,45 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog"
 
+const VIDEO_CODEC_LABELS: Record<VideoCodec, string> = {
+  h264: 'H.264 (libx264)',
+  h265: 'H.265 / HEVC (libx265)',
+  vp9: 'VP9 (libvpx)',
+  av1: 'AV1'
+}
+
+const CONTAINER_LABELS: Record<OutputContainer, string> = {
+  mp4: 'MP4',
+  mkv: 'MKV',
+  mov: 'MOV',
+  webm: 'WebM'
+}
+
+// Container picked when the selected codec doesn't fit the current one
+const CODEC_DEFAULT_CONTAINER: Record<VideoCodec, OutputContainer> = {
+  h264: 'mp4',
+  h265: 'mp4',
+  vp9: 'webm',
+  av1: 'webm'
+}
+
+// Filename template rows (label key per job type)
+const OUTPUT_TEMPLATE_LABELS: Record<JobType, string> = {
+  'video-loop': 'tabs.loop.title',
+  'music-video': 'tabs.imageMusic.title',
+  'video-concat': 'tabs.concat.title'
+}
+
+const ENCODER_PRESETS: EncoderPreset[] = ['auto', 'ultrafast', 'superfast', 'veryfast', 'faster', 'fast', 'medium', 'slow', 'slower', 'veryslow']
+const ENCODER_TUNES: EncoderTune[] = ['auto', 'none', 'film', 'animation', 'grain']
+const TRACK_TITLE_SOURCES: TrackTitleSource[] = ['filename', 'tag', 'artist-title']
+
+// Sample tracks for the timestamp template preview
+const TIMESTAMP_PREVIEW_TRACKS = [
+  { time: '00:00', title: 'Midnight Drive', artist: 'Neon' },
+  { time: '03:25', title: 'City Lights', artist: 'Neon' }
+]
+
 interface SettingsTabProps {
   onDataCleared?: () => void
 }
@@ -40,21 +82,125 @@ export function SettingsTab({
     saveAudioQuality,
     fastMode,
     loadFastMode,
-    saveFastMode
+    saveFastMode,
+    outputResolution,
+    loadOutputResolution,
+    saveOutputResolution,
+    outputSettings,
+    loadOutputSettings,
+    saveOutputSettings,
+    trackTitleSource,
+    loadTrackTitleSource,
+    saveTrackTitleSource,
+    timestampTemplate,
+    loadTimestampTemplate,
+    saveTimestampTemplate,
+    videoEncoder,
+    availableVideoCodecs,
+    loadVideoEncoder,
+    saveVideoEncoder
   } = useSettingsStore()
   const [localExtensions, setLocalExtensions] = useState(fileExtensions)
   const [isSaving, setIsSaving] = useState(false)
+  const [crfInput, setCrfInput] = useState(String(videoEncoder.crf))
+  const [templateInputs, setTemplateInputs] = useState(outputSettings.templates)
+  const [timestampTemplateInput, setTimestampTemplateInput] = useState(timestampTemplate)
 
   useEffect(() => {
     loadFileExtensions()
     loadAudioQuality()
     loadFastMode()
-  }, [loadFileExtensions, loadAudioQuality, loadFastMode])
+    loadOutputResolution()
+    loadOutputSettings()
+    loadTrackTitleSource()
+    loadTimestampTemplate()
+    loadVideoEncoder()
+  }, [loadFileExtensions, loadAudioQuality, loadFastMode, loadOutputResolution, loadOutputSettings, loadTrackTitleSource, loadTimestampTemplate, loadVideoEncoder])
 
   useEffect(() => {
     setLocalExtensions(fileExtensions)
   }, [fileExtensions])
 
+  useEffect(() => {
+    setCrfInput(String(videoEncoder.crf))
+  }, [videoEncoder.crf])
+
+  useEffect(() => {
+    setTemplateInputs(outputSettings.templates)
+  }, [outputSettings.templates])
+
+  useEffect(() => {
+    setTimestampTemplateInput(timestampTemplate)
+  }, [timestampTemplate])
+
+  const handleOutputSettingsChange = async (changes: Partial<OutputSettings>) => {
+    try {
+      await saveOutputSettings({ ...outputSettings, ...changes })
+    } catch (e) {
+      console.error('Failed to save output settings:', e)
+      // Invalid template (e.g. unknown token): show the saved one again
+      setTemplateInputs(outputSettings.templates)
+    }
+  }
+
+  const handleChooseOutputFolder = async () => {
+    const directory = await window.electronAPI?.openDirectoryDialog()
+    if (directory) {
+      handleOutputSettingsChange({ directory })
+    }
+  }
+
+  const handleTemplateCommit = (jobType: JobType) => {
+    const template = templateInputs[jobType].trim() || DEFAULT_OUTPUT_SETTINGS.templates[jobType]
+    if (template !== outputSettings.templates[jobType]) {
+      handleOutputSettingsChange({ templates: { ...outputSettings.templates, [jobType]: template } })
+    } else {
+      setTemplateInputs(outputSettings.templates)
+    }
+  }
+
+  const handleTimestampTemplateCommit = async () => {
+    const template = timestampTemplateInput.trim() || DEFAULT_TIMESTAMP_TEMPLATE
+    if (template === timestampTemplate) {
+      setTimestampTemplateInput(timestampTemplate)
+      return
+    }
+    try {
+      await saveTimestampTemplate(template)
+    } catch (e) {
+      console.error('Failed to save timestamp template:', e)
+      // Invalid template (e.g. missing {time}): show the saved one again
+      setTimestampTemplateInput(timestampTemplate)
+    }
+  }
+
+  const handleVideoEncoderChange = async (changes: Partial<VideoEncoderSettings>) => {
+    try {
+      await saveVideoEncoder({ ...videoEncoder, ...changes })
+    } catch (e) {
+      console.error('Failed to save video encoder:', e)
+    }
+  }
+
+  const handleVideoCodecChange = (codec: VideoCodec) => {
+    // Keep the container if it can hold the new codec; CRF scales differ per codec
+    const container = CONTAINER_CODECS[videoEncoder.container].includes(codec)
+      ? videoEncoder.container
+      : CODEC_DEFAULT_CONTAINER[codec]
+    handleVideoEncoderChange({ codec, container, crf: DEFAULT_VIDEO_CRF[codec] })
+  }
+
+  const handleCrfCommit = () => {
+    const crf = Math.round(Number(crfInput))
+    if (!Number.isFinite(crf) || crf < 0 || crf > MAX_VIDEO_CRF[videoEncoder.codec]) {
+      setCrfInput(String(videoEncoder.crf))
+      return
+    }
+    if (crf !== videoEncoder.crf) {
+      handleVideoEncoderChange({ crf })
+    }
+  }
+
   const handleTagChange = (type: 'image' | 'video' | 'audio', tags: string[]) => {
     setLocalExtensions(prev => ({
       ...prev,
@@ -284,6 +430,254 @@ export function SettingsTab({
           </div>
         </div>
 
+        {/* Video Encoder Settings */}
+        <div className="pt-4 border-t border-slate-800 space-y-3">
+          <label className="text-sm font-medium text-slate-400 flex items-center gap-2">
+            <Film className="w-4 h-4" />
+            {t('settings.videoEncoder.title')}
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <div className="text-xs text-slate-500">{t('settings.videoEncoder.codec')}</div>
+              <Select value={videoEncoder.codec} onValueChange={(value: VideoCodec) => handleVideoCodecChange(value)}>
+                <SelectTrigger className="bg-slate-800 border-slate-700 text-slate-200">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  {availableVideoCodecs.map((codec) => (
+                    <SelectItem key={codec} value={codec}>
+                      {VIDEO_CODEC_LABELS[codec]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <div className="text-xs text-slate-500">{t('settings.videoEncoder.container')}</div>
+              <Select
+                value={videoEncoder.container}
+                onValueChange={(value: OutputContainer) => handleVideoEncoderChange({ container: value })}
+              >
+                <SelectTrigger className="bg-slate-800 border-slate-700 text-slate-200">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  {(Object.keys(CONTAINER_CODECS) as OutputContainer[])
+                    .filter((container) => CONTAINER_CODECS[container].includes(videoEncoder.codec))
+                    .map((container) => (
+                      <SelectItem key={container} value={container}>
+                        {CONTAINER_LABELS[container]}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <div className="text-xs text-slate-500">{t('settings.videoEncoder.preset')}</div>
+              <Select
+                value={videoEncoder.preset}
+                onValueChange={(value: EncoderPreset) => handleVideoEncoderChange({ preset: value })}
+              >
+                <SelectTrigger className="bg-slate-800 border-slate-700 text-slate-200">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  {ENCODER_PRESETS.map((preset) => (
+                    <SelectItem key={preset} value={preset}>
+                      {preset === 'auto' ? t('settings.videoEncoder.presetAuto') : preset}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <div className="text-xs text-slate-500">{t('settings.videoEncoder.tune')}</div>
+              <Select
+                value={videoEncoder.tune}
+                disabled={videoEncoder.codec === 'vp9' || videoEncoder.codec === 'av1'}
+                onValueChange={(value: EncoderTune) => handleVideoEncoderChange({ tune: value })}
+              >
+                <SelectTrigger className="bg-slate-800 border-slate-700 text-slate-200 disabled:opacity-50">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  {ENCODER_TUNES.map((tune) => (
+                    <SelectItem key={tune} value={tune}>
+                      {t(`settings.videoEncoder.tune_${tune}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-slate-500">{t('settings.videoEncoder.crf')}</span>
+            <Input
+              type="number"
+              min="0"
+              max={MAX_VIDEO_CRF[videoEncoder.codec]}
+              step="1"
+              value={crfInput}
+              onChange={(e) => setCrfInput(e.target.value)}
+              onBlur={handleCrfCommit}
+              className="w-20 h-8 bg-slate-800 border-slate-700 text-slate-200 text-xs"
+            />
+            <span className="text-xs text-slate-500">
+              {t('settings.videoEncoder.crfHint', { max: MAX_VIDEO_CRF[videoEncoder.codec], default: DEFAULT_VIDEO_CRF[videoEncoder.codec] })}
+            </span>
+          </div>
+          <p className="text-xs text-slate-500">
+            {t('settings.videoEncoder.description')}
+          </p>
+        </div>
+
+        {/* Output Resolution Settings */}
+        <div className="pt-4 border-t border-slate-800 space-y-3">
+          <label className="text-sm font-medium text-slate-400 flex items-center gap-2">
+            <Monitor className="w-4 h-4" />
+            {t('settings.outputResolution.title')}
+          </label>
+          <Select
+            value={outputResolution}
+            onValueChange={async (value: OutputResolution) => {
+              try {
+                await saveOutputResolution(value)
+              } catch (e) {
+                console.error('Failed to save output resolution:', e)
+              }
+            }}
+          >
+            <SelectTrigger className="bg-slate-800 border-slate-700 text-slate-200">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-700">
+              {(Object.keys(OUTPUT_RESOLUTION_PRESETS) as OutputResolution[]).map((preset) => (
+                <SelectItem key={preset} value={preset}>
+                  {t(`resolution.${preset}`)} ({OUTPUT_RESOLUTION_PRESETS[preset].width}×{OUTPUT_RESOLUTION_PRESETS[preset].height})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-slate-500">
+            {t('settings.outputResolution.description')}
+          </p>
+        </div>
+
+        {/* Output Folder & Filename Templates */}
+        <div className="pt-4 border-t border-slate-800 space-y-3">
+          <label className="text-sm font-medium text-slate-400 flex items-center gap-2">
+            <FolderOutput className="w-4 h-4" />
+            {t('settings.output.title')}
+          </label>
+          <div className="flex items-center gap-2">
+            <div className="flex-1 min-w-0 px-3 py-2 bg-slate-800 border border-slate-700 rounded-md text-xs text-slate-300 truncate" title={outputSettings.directory}>
+              {outputSettings.directory || t('settings.output.nextToInput')}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleChooseOutputFolder}
+              className="text-xs bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-200 hover:text-white"
+            >
+              {t('settings.output.choose')}
+            </Button>
+            {outputSettings.directory && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleOutputSettingsChange({ directory: '' })}
+                className="text-xs bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-200 hover:text-white"
+              >
+                {t('settings.output.reset')}
+              </Button>
+            )}
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-slate-400">{t('settings.output.datedSubfolder')}</span>
+            <Switch
+              checked={outputSettings.datedSubfolder}
+              onCheckedChange={(checked) => handleOutputSettingsChange({ datedSubfolder: checked })}
+            />
+          </div>
+          <div className="space-y-2">
+            <div className="text-xs text-slate-500">{t('settings.output.templates')}</div>
+            {(Object.keys(OUTPUT_TEMPLATE_LABELS) as JobType[]).map((jobType) => (
+              <div key={jobType} className="flex items-center gap-2">
+                <span className="w-40 shrink-0 text-xs text-slate-400 truncate">{t(OUTPUT_TEMPLATE_LABELS[jobType])}</span>
+                <Input
+                  value={templateInputs[jobType]}
+                  onChange={(e) => setTemplateInputs(prev => ({ ...prev, [jobType]: e.target.value }))}
+                  onBlur={() => handleTemplateCommit(jobType)}
+                  className="h-8 bg-slate-800 border-slate-700 text-slate-200 text-xs font-mono"
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500">
+            {t('settings.output.description')}
+          </p>
+          <p className="text-xs text-slate-500 font-mono">
+            {'{name} {type} {mode} {length} {iterations} {duration} {trackCount} {date}'}
+          </p>
+        </div>
+
+        {/* Track Title Source */}
+        <div className="pt-4 border-t border-slate-800 space-y-3">
+          <label className="text-sm font-medium text-slate-400 flex items-center gap-2">
+            <Tag className="w-4 h-4" />
+            {t('settings.trackTitles.title')}
+          </label>
+          <Select
+            value={trackTitleSource}
+            onValueChange={async (value: TrackTitleSource) => {
+              try {
+                await saveTrackTitleSource(value)
+              } catch (e) {
+                console.error('Failed to save track title source:', e)
+              }
+            }}
+          >
+            <SelectTrigger className="bg-slate-800 border-slate-700 text-slate-200">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-700">
+              {TRACK_TITLE_SOURCES.map((source) => (
+                <SelectItem key={source} value={source}>
+                  {t(`settings.trackTitles.${source}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-slate-500">
+            {t('settings.trackTitles.description')}
+          </p>
+        </div>
+
+        {/* Timestamp Template */}
+        <div className="pt-4 border-t border-slate-800 space-y-3">
+          <label className="text-sm font-medium text-slate-400 flex items-center gap-2">
+            <ListOrdered className="w-4 h-4" />
+            {t('settings.timestampTemplate.title')}
+          </label>
+          <Input
+            value={timestampTemplateInput}
+            onChange={(e) => setTimestampTemplateInput(e.target.value)}
+            onBlur={handleTimestampTemplateCommit}
+            className="h-8 bg-slate-800 border-slate-700 text-slate-200 text-xs font-mono"
+          />
+          <div className="px-3 py-2 bg-slate-800/50 border border-slate-700 rounded-md text-xs text-slate-300 font-mono whitespace-pre">
+            {TIMESTAMP_PREVIEW_TRACKS.map((track, i) =>
+              formatTimestampLine(timestampTemplateInput || DEFAULT_TIMESTAMP_TEMPLATE, { ...track, index: i + 1 })
+            ).join('\n')}
+          </div>
+          <p className="text-xs text-slate-500">
+            {t('settings.timestampTemplate.description')}
+          </p>
+          <p className="text-xs text-slate-500 font-mono">
+            {'{time} {index} {title} {artist}'}
+          </p>
+        </div>
+
         <div className="pt-4 border-t border-slate-800 space-y-4">
           <div className="flex items-center justify-between">
             <h3 className="text-sm font-semibold text-slate-300">{t('settings.fileExtensions.title')}</h3>
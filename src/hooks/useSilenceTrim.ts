@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { SilenceDetection, SilenceSettings } from '@/types'
+
+interface UseSilenceTrimReturn {
+  detections: Record<string, SilenceDetection>  // Files with head/tail silence to remove (dismissed ones left out)
+  isDetecting: boolean
+  dismiss: (file: string) => void
+}
+
+/**
+ * Custom hook for automatic head/tail silence trimming
+ * Runs silence detection on every file added while the option is on, so the
+ * trims are known (and shown per track) before the job is queued.
+ * Changing the threshold or minimum duration detects everything again.
+ */
+export function useSilenceTrim(files: string[], enabled: boolean, { threshold, minDuration }: SilenceSettings): UseSilenceTrimReturn {
+  // null = detection failed (not retried until the settings change)
+  const [results, setResults] = useState<Record<string, SilenceDetection | null>>({})
+  const [dismissed, setDismissed] = useState<Record<string, boolean>>({})
+  const [inFlightCount, setInFlightCount] = useState(0)
+  // Files already sent for the current settings (in flight or done), and which settings those are
+  const requestedRef = useRef<Set<string>>(new Set())
+  const generationRef = useRef(0)
+
+  useEffect(() => {
+    requestedRef.current = new Set()
+    generationRef.current++
+    setResults({})
+    setDismissed({})
+  }, [threshold, minDuration])
+
+  // Reordering the list doesn't change the key, so only added files start a detection
+  const filesKey = useMemo(() => Array.from(new Set(files)).sort().join('\n'), [files])
+
+  useEffect(() => {
+    if (!enabled || !window.electronAPI?.detectSilence) return
+    const pending = filesKey.split('\n').filter(file => file && !requestedRef.current.has(file))
+    if (pending.length === 0) return
+
+    pending.forEach(file => requestedRef.current.add(file))
+    const generation = generationRef.current
+    setInFlightCount(count => count + 1)
+    window.electronAPI.detectSilence({ paths: pending, threshold, minDuration })
+      .then(detected => pending.map((file, i) => [file, detected[i] ?? null] as const))
+      .catch((e) => {
+        console.error('Silence detection failed:', e)
+        return pending.map(file => [file, null] as const)
+      })
+      .then(entries => {
+        setInFlightCount(count => count - 1)
+        // Results of a newer batch don't replace these; only a settings change makes them stale
+        if (generation !== generationRef.current) return
+        setResults(prev => ({ ...prev, ...Object.fromEntries(entries) }))
+      })
+  }, [enabled, filesKey, threshold, minDuration])
+
+  const detections = useMemo(() => {
+    const found: Record<string, SilenceDetection> = {}
+    for (const [file, detection] of Object.entries(results)) {
+      if (detection?.trim && !dismissed[file]) {
+        found[file] = detection
+      }
+    }
+    return found
+  }, [results, dismissed])
+
+  // Keep one file untrimmed (the user's override)
+  const dismiss = useCallback((file: string) => {
+    setDismissed(prev => ({ ...prev, [file]: true }))
+  }, [])
+
+  return {
+    detections: enabled ? detections : {},
+    isDetecting: enabled && inFlightCount > 0,
+    dismiss
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Utility functions for the video loop tab
+ */
+
+// Same plan the main process encodes (shared, not mirrored)
+export { calculateLoopPlan } from '../../electron/utils/loopPlan'
+
+/**
+ * Parse a duration typed as HH:MM:SS, MM:SS or SS into seconds
+ * @returns Seconds, or null if the input is not a valid positive duration
+ */
+export function parseDurationInput(value: string): number | null {
+  const parts = value.trim().split(':')
+  if (parts.length === 0 || parts.length > 3) {
+    return null
+  }
+
+  let seconds = 0
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i].trim()
+    // Only the seconds field may have a fractional part
+    const pattern = i === parts.length - 1 ? /^\d+(\.\d+)?$/ : /^\d+$/
+    if (!pattern.test(part)) {
+      return null
+    }
+    const amount = parseFloat(part)
+    // Minutes and seconds must stay below 60 when a larger unit is given
+    if (i > 0 && amount >= 60) {
+      return null
+    }
+    seconds = seconds * 60 + amount
+  }
+
+  return seconds > 0 ? seconds : null
+}
+
+/**
+ * Format seconds as HH:MM:SS for the target duration input
+ */
+export function formatDurationInput(seconds: number): string {
+  const totalSeconds = Math.round(seconds)
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const secs = totalSeconds % 60
+
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
+}
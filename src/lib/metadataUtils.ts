@@ -0,0 +1,25 @@
+/**
+ * Utility functions for the output metadata editor
+ */
+
+import type { MediaTags, OutputMetadata } from '@/types'
+
+/**
+ * Pre-fill output tags from the first input's tags
+ * @param fallbackTitle Used when the input has no title (album for playlists/concats)
+ * @param isCollection Several inputs: the album tag names the output, not the first track's title
+ */
+export function buildMetadataPrefill(
+  tags: MediaTags | undefined,
+  fallbackTitle: string,
+  isCollection: boolean
+): OutputMetadata {
+  return {
+    title: (isCollection ? tags?.album : tags?.title) || fallbackTitle,
+    artist: tags?.artist ?? '',
+    album: tags?.album ?? '',
+    comment: '',
+    year: tags?.year ?? '',
+    genre: tags?.genre ?? ''
+  }
+}
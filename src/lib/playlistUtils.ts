@@ -0,0 +1,94 @@
+/**
+ * Utility functions for the image + music playlist
+ */
+
+import type { TrackTrim, TrackVolume } from '@/types'
+import { parseDurationInput } from './loopUtils'
+
+// Mirrors MIN_TRIMMED_SECONDS in electron/utils/ffmpeg/trackTrim.ts
+const MIN_TRIMMED_SECONDS = 1
+
+// Mirrors MIN_TRACK_VOLUME_DB/MAX_TRACK_VOLUME_DB in electron/utils/ffmpeg/trackVolume.ts
+export const MIN_TRACK_VOLUME_DB = -30
+export const MAX_TRACK_VOLUME_DB = 12
+
+/**
+ * File name without directory and extension, lowercased for matching
+ */
+function getBaseName(filePath: string): string {
+  const fileName = filePath.split(/[/\\]/).pop() || filePath
+  const dotIndex = fileName.lastIndexOf('.')
+  return (dotIndex > 0 ? fileName.slice(0, dotIndex) : fileName).toLowerCase()
+}
+
+/**
+ * Match images to audio files by base name (song.mp3 ↔ song.jpg)
+ * @returns Audio path -> image path for every track that has a matching image
+ */
+export function matchTrackImagesByName(audioPaths: string[], imagePaths: string[]): Record<string, string> {
+  const imagesByName = new Map<string, string>()
+  for (const imagePath of imagePaths) {
+    const baseName = getBaseName(imagePath)
+    // First image wins if several share a base name (e.g. song.jpg and song.png)
+    if (!imagesByName.has(baseName)) {
+      imagesByName.set(baseName, imagePath)
+    }
+  }
+
+  const matches: Record<string, string> = {}
+  for (const audioPath of audioPaths) {
+    const imagePath = imagesByName.get(getBaseName(audioPath))
+    if (imagePath) {
+      matches[audioPath] = imagePath
+    }
+  }
+  return matches
+}
+
+/**
+ * Format a trim point as M:SS (tenths only when set, e.g. 1:05.5)
+ */
+export function formatTrimPoint(seconds: number): string {
+  const tenths = Math.round(seconds * 10)
+  const minutes = Math.floor(tenths / 600)
+  const secs = (tenths % 600) / 10
+  const secsText = tenths % 10 === 0 ? String(secs).padStart(2, '0') : secs.toFixed(1).padStart(4, '0')
+  return `${minutes}:${secsText}`
+}
+
+/**
+ * Parse the In/Out fields of a track ('' = not trimmed on that side)
+ * @returns The trim, null when nothing is trimmed, or undefined when the input is invalid
+ */
+export function parseTrackTrim(startText: string, endText: string): TrackTrim | null | undefined {
+  const parsePoint = (text: string): number | null => {
+    const trimmed = text.trim()
+    return /^[0:.]+$/.test(trimmed) ? 0 : parseDurationInput(trimmed)
+  }
+
+  const start = startText.trim() === '' ? 0 : parsePoint(startText)
+  if (start === null) return undefined
+  if (endText.trim() === '') {
+    return start > 0 ? { start } : null
+  }
+  const end = parsePoint(endText)
+  if (end === null || end < start + MIN_TRIMMED_SECONDS) return undefined
+  return { start, end }
+}
+
+/**
+ * Format a track gain as signed dB (+3.0 dB, -6.5 dB)
+ */
+export function formatTrackGain(gain: number): string {
+  return `${gain > 0 ? '+' : ''}${gain.toFixed(1)} dB`
+}
+
+/**
+ * Volume of a track from the gain slider and mute toggle (gain clamped to the allowed range)
+ * @returns null when the track is left unchanged (0 dB, not muted)
+ */
+export function toTrackVolume(gain: number, muted: boolean): TrackVolume | null {
+  const clamped = Math.min(MAX_TRACK_VOLUME_DB, Math.max(MIN_TRACK_VOLUME_DB, Math.round(gain * 10) / 10))
+  if (muted) return { gain: clamped, muted: true }
+  return clamped === 0 ? null : { gain: clamped }
+}
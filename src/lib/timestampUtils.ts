@@ -2,6 +2,11 @@
  * Utility functions for YouTube timestamp generation
  */
 
+import { DEFAULT_TIMESTAMP_TEMPLATE, formatTimestampLine } from '../../electron/utils/timestampTemplate'
+
+// Same line template the main process renders playlist timestamps with (shared, not mirrored)
+export { DEFAULT_TIMESTAMP_TEMPLATE, TIMESTAMP_TEMPLATE_TOKENS, formatTimestampLine } from '../../electron/utils/timestampTemplate'
+
 /**
  * Format seconds to YouTube timestamp format (MM:SS or HH:MM:SS)
  */
@@ -16,6 +21,55 @@ export function formatTimestamp(seconds: number): string {
   return `${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
 }
 
+// YouTube only turns the timestamp list into chapters when all of these hold
+export const YOUTUBE_MIN_CHAPTERS = 3
+export const YOUTUBE_MIN_CHAPTER_SECONDS = 10
+
+export type YouTubeChapterIssue = 'firstNotZero' | 'tooFew' | 'tooShort' | 'notAscending'
+
+/**
+ * Parse the first time (MM:SS or HH:MM:SS) in a line
+ * @returns Seconds, or null if the line has no time
+ */
+export function parseTimestampSeconds(line: string): number | null {
+  const match = line.match(/(?:^|[^\d:])(?:(\d{1,2}):)?(\d{1,2}):(\d{2})(?![\d:])/)
+  if (!match) return null
+  const [, hours, minutes, seconds] = match
+  if (Number(seconds) >= 60 || (hours !== undefined && Number(minutes) >= 60)) return null
+  return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds)
+}
+
+/**
+ * Check timestamp text against YouTube's chapter rules:
+ * first entry at 00:00, at least 3 chapters, each at least 10 seconds long
+ * @returns Problems that stop YouTube from creating chapters (empty = OK)
+ */
+export function validateYouTubeChapters(timestampText: string): YouTubeChapterIssue[] {
+  const starts = timestampText
+    .split('\n')
+    .map(parseTimestampSeconds)
+    .filter((seconds): seconds is number => seconds !== null)
+
+  const issues: YouTubeChapterIssue[] = []
+  if (starts.length > 0 && starts[0] !== 0) {
+    issues.push('firstNotZero')
+  }
+  if (starts.length < YOUTUBE_MIN_CHAPTERS) {
+    issues.push('tooFew')
+  }
+  for (let i = 1; i < starts.length; i++) {
+    if (starts[i] <= starts[i - 1]) {
+      issues.push('notAscending')
+      break
+    }
+    if (starts[i] - starts[i - 1] < YOUTUBE_MIN_CHAPTER_SECONDS) {
+      issues.push('tooShort')
+      break
+    }
+  }
+  return issues
+}
+
 /**
  * Remove file extension from filename
  */
@@ -23,11 +77,33 @@ export function removeExtension(fileName: string): string {
   return fileName.replace(/\.[^/.]+$/, '')
 }
 
+/**
+ * Load the track titles, artists and line template for calculateTimestamps
+ * Titles follow the track title setting; anything that can't be read falls back
+ * to the defaults (file names, default template).
+ */
+export async function loadTimestampLineOptions(
+  videoFiles: string[]
+): Promise<{ titles?: string[]; artists?: string[]; template: string }> {
+  const api = window.electronAPI
+  const titles = await api?.getTrackTitles?.(videoFiles).catch(() => undefined)
+  const template = (await api?.getTimestampTemplate?.().catch(() => undefined))?.template || DEFAULT_TIMESTAMP_TEMPLATE
+
+  // Artist tags are only probed when the template shows them
+  let artists: string[] | undefined
+  if (template.includes('{artist}') && api?.getMediaTags) {
+    artists = await Promise.all(
+      videoFiles.map((filePath) => api.getMediaTags(filePath).then((tags) => tags.artist ?? '').catch(() => ''))
+    )
+  }
+  return { titles, artists, template }
+}
+
 /**
  * Calculate YouTube timestamps for a list of video files
  * @param videoFiles Array of video file paths
  * @param getDuration Function to get video duration (async)
- * @param options Optional padding settings
+ * @param options Optional padding settings, track titles/artists (file names are used when missing) and line template
  * @returns Promise<string> Formatted timestamp text
  */
 export async function calculateTimestamps(
@@ -36,13 +112,16 @@ export async function calculateTimestamps(
   options?: {
     enablePadding?: boolean
     paddingDuration?: number
+    titles?: string[]
+    artists?: string[]
+    template?: string
   }
 ): Promise<string> {
   if (videoFiles.length < 2) {
     return ''
   }
 
-  const { enablePadding = false, paddingDuration = 0 } = options || {}
+  const { enablePadding = false, paddingDuration = 0, titles = [], artists = [], template = DEFAULT_TIMESTAMP_TEMPLATE } = options || {}
   const timestamps: string[] = []
   let cumulativeTime = 0
 
@@ -53,10 +132,10 @@ export async function calculateTimestamps(
     try {
       const duration = await getDuration(filePath)
       const fileName = filePath.split(/[/\\]/).pop() || 'Unknown'
-      const fileNameWithoutExt = removeExtension(fileName)
+      const title = titles[i] || removeExtension(fileName)
       const timeString = formatTimestamp(cumulativeTime)
 
-      timestamps.push(`${timeString} - ${fileNameWithoutExt}`)
+      timestamps.push(formatTimestampLine(template, { time: timeString, index: i + 1, title, artist: artists[i] }))
       
       // Add duration + padding (except for the last file)
       cumulativeTime += duration
@@ -67,9 +146,9 @@ export async function calculateTimestamps(
       console.error(`Failed to get duration for ${filePath}:`, error)
       // Continue with 0 duration if failed
       const fileName = filePath.split(/[/\\]/).pop() || 'Unknown'
-      const fileNameWithoutExt = removeExtension(fileName)
+      const title = titles[i] || removeExtension(fileName)
       const timeString = formatTimestamp(cumulativeTime)
-      timestamps.push(`${timeString} - ${fileNameWithoutExt}`)
+      timestamps.push(formatTimestampLine(template, { time: timeString, index: i + 1, title, artist: artists[i] }))
       // Still add padding if enabled (except for last file)
       if (enablePadding && !isLastFile) {
         cumulativeTime += paddingDuration
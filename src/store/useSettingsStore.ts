@@ -1,4 +1,6 @@
 import { create } from 'zustand'
+import { OutputResolution, VideoCodec, OutputContainer, VideoEncoderSettings, OutputSettings, TrackTitleSource } from '@/types'
+import { DEFAULT_TIMESTAMP_TEMPLATE } from '@/lib/timestampUtils'
 
 /**
  * Settings Store for managing user preferences
@@ -49,11 +51,67 @@ export const AUDIO_QUALITY_PRESETS: Record<AudioQualityPreset, AudioQualityConfi
   }
 }
 
+export interface OutputResolutionConfig {
+  width: number
+  height: number
+}
+
+export const OUTPUT_RESOLUTION_PRESETS: Record<OutputResolution, OutputResolutionConfig> = {
+  '720p': { width: 1280, height: 720 },
+  '1080p': { width: 1920, height: 1080 },
+  '1440p': { width: 2560, height: 1440 },
+  '4k': { width: 3840, height: 2160 },
+  vertical: { width: 1080, height: 1920 },
+  square: { width: 1080, height: 1080 }
+}
+
+// Codecs each output container can hold (mirrors electron/utils/ffmpeg/videoEncoder.ts)
+export const CONTAINER_CODECS: Record<OutputContainer, VideoCodec[]> = {
+  mp4: ['h264', 'h265', 'av1'],
+  mkv: ['h264', 'h265', 'vp9', 'av1'],
+  mov: ['h264', 'h265'],
+  webm: ['vp9', 'av1']
+}
+
+// Sensible CRF per codec (scales differ between x264/x265 and vp9/av1)
+export const DEFAULT_VIDEO_CRF: Record<VideoCodec, number> = {
+  h264: 20,
+  h265: 24,
+  vp9: 32,
+  av1: 32
+}
+
+export const MAX_VIDEO_CRF: Record<VideoCodec, number> = {
+  h264: 51,
+  h265: 51,
+  vp9: 63,
+  av1: 63
+}
+
 // Default settings constants
 const DEFAULT_IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp', '.bmp', '.gif']
 const DEFAULT_VIDEO_EXTENSIONS = ['.mp4', '.mkv', '.mov', '.avi', '.webm', '.flv', '.wmv']
 const DEFAULT_AUDIO_EXTENSIONS = ['.mp3', '.wav', '.aac', '.ogg', '.flac', '.m4a', '.wma', '.opus', '.aiff', '.aif', '.alac']
 const DEFAULT_AUDIO_QUALITY: AudioQualityPreset = 'high'
+const DEFAULT_OUTPUT_RESOLUTION: OutputResolution = '1080p'
+const DEFAULT_TRACK_TITLE_SOURCE: TrackTitleSource = 'filename'
+// Mirrors electron/utils/outputTemplate.ts (defaults keep the previous file names)
+export const DEFAULT_OUTPUT_SETTINGS: OutputSettings = {
+  directory: '',
+  datedSubfolder: false,
+  templates: {
+    'video-loop': '{name}_looped_{length}_{mode}',
+    'music-video': '{name}',
+    'video-concat': '{name}_{mode}'
+  }
+}
+const DEFAULT_VIDEO_ENCODER: VideoEncoderSettings = {
+  codec: 'h264',
+  container: 'mp4',
+  crf: DEFAULT_VIDEO_CRF.h264,
+  preset: 'auto',
+  tune: 'auto'
+}
 
 const DEFAULT_FILE_EXTENSIONS: FileExtensions = {
   image: DEFAULT_IMAGE_EXTENSIONS,
@@ -66,6 +124,12 @@ export interface SettingsState {
   fileExtensions: FileExtensions
   audioQuality: AudioQualityPreset
   fastMode: boolean
+  outputResolution: OutputResolution
+  outputSettings: OutputSettings
+  trackTitleSource: TrackTitleSource
+  timestampTemplate: string  // Line template for the YouTube timestamp text
+  videoEncoder: VideoEncoderSettings
+  availableVideoCodecs: VideoCodec[]  // Codecs the bundled ffmpeg can encode
   error: string | null
   isLoading: boolean
 
@@ -77,6 +141,16 @@ export interface SettingsState {
   saveAudioQuality: (quality: AudioQualityPreset) => Promise<void>
   loadFastMode: () => Promise<void>
   saveFastMode: (fastMode: boolean) => Promise<void>
+  loadOutputResolution: () => Promise<void>
+  saveOutputResolution: (resolution: OutputResolution) => Promise<void>
+  loadOutputSettings: () => Promise<void>
+  saveOutputSettings: (output: OutputSettings) => Promise<void>
+  loadTrackTitleSource: () => Promise<void>
+  saveTrackTitleSource: (source: TrackTitleSource) => Promise<void>
+  loadTimestampTemplate: () => Promise<void>
+  saveTimestampTemplate: (template: string) => Promise<void>
+  loadVideoEncoder: () => Promise<void>
+  saveVideoEncoder: (encoder: VideoEncoderSettings) => Promise<void>
 
   // Helpers
   getAudioQualityConfig: () => AudioQualityConfig
@@ -89,6 +163,12 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
   fileExtensions: DEFAULT_FILE_EXTENSIONS,
   audioQuality: DEFAULT_AUDIO_QUALITY,
   fastMode: true, // Default to Fast Mode for best performance
+  outputResolution: DEFAULT_OUTPUT_RESOLUTION,
+  outputSettings: DEFAULT_OUTPUT_SETTINGS,
+  trackTitleSource: DEFAULT_TRACK_TITLE_SOURCE,
+  timestampTemplate: DEFAULT_TIMESTAMP_TEMPLATE,
+  videoEncoder: DEFAULT_VIDEO_ENCODER,
+  availableVideoCodecs: ['h264'],
   error: null,
   isLoading: false,
 
@@ -101,7 +181,12 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
       await Promise.all([
         get().loadFileExtensions(),
         get().loadAudioQuality(),
-        get().loadFastMode()
+        get().loadFastMode(),
+        get().loadOutputResolution(),
+        get().loadOutputSettings(),
+        get().loadTrackTitleSource(),
+        get().loadTimestampTemplate(),
+        get().loadVideoEncoder()
       ])
       set({ isLoading: false })
     } catch (error) {
@@ -228,6 +313,201 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
     }
   },
 
+  /**
+   * Load default output resolution from electron-store
+   */
+  loadOutputResolution: async (): Promise<void> => {
+    try {
+      if (window.electronAPI?.getOutputResolution) {
+        const result = await window.electronAPI.getOutputResolution()
+        set({ outputResolution: result.resolution })
+      } else {
+        console.warn('Electron API not available, using default output resolution')
+      }
+    } catch (error) {
+      console.error('Failed to load output resolution:', error)
+      // Fallback to default on error
+      set({ outputResolution: DEFAULT_OUTPUT_RESOLUTION })
+      throw error
+    }
+  },
+
+  /**
+   * Save default output resolution to electron-store
+   */
+  saveOutputResolution: async (resolution: OutputResolution): Promise<void> => {
+    set({ isLoading: true, error: null })
+    try {
+      if (window.electronAPI?.setOutputResolution) {
+        await window.electronAPI.setOutputResolution({ resolution })
+        set({ outputResolution: resolution, isLoading: false })
+      } else {
+        throw new Error('Electron API not available')
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to save output resolution'
+      set({ error: errorMessage, isLoading: false })
+      console.error('Failed to save output resolution:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Load track title source from electron-store
+   */
+  loadTrackTitleSource: async (): Promise<void> => {
+    try {
+      if (window.electronAPI?.getTrackTitleSource) {
+        const result = await window.electronAPI.getTrackTitleSource()
+        set({ trackTitleSource: result.source })
+      } else {
+        console.warn('Electron API not available, using default track title source')
+      }
+    } catch (error) {
+      console.error('Failed to load track title source:', error)
+      // Fallback to default on error
+      set({ trackTitleSource: DEFAULT_TRACK_TITLE_SOURCE })
+      throw error
+    }
+  },
+
+  /**
+   * Save track title source to electron-store
+   */
+  saveTrackTitleSource: async (source: TrackTitleSource): Promise<void> => {
+    set({ isLoading: true, error: null })
+    try {
+      if (window.electronAPI?.setTrackTitleSource) {
+        await window.electronAPI.setTrackTitleSource({ source })
+        set({ trackTitleSource: source, isLoading: false })
+      } else {
+        throw new Error('Electron API not available')
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to save track title source'
+      set({ error: errorMessage, isLoading: false })
+      console.error('Failed to save track title source:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Load timestamp line template from electron-store
+   */
+  loadTimestampTemplate: async (): Promise<void> => {
+    try {
+      if (window.electronAPI?.getTimestampTemplate) {
+        const result = await window.electronAPI.getTimestampTemplate()
+        set({ timestampTemplate: result.template })
+      } else {
+        console.warn('Electron API not available, using default timestamp template')
+      }
+    } catch (error) {
+      console.error('Failed to load timestamp template:', error)
+      // Fallback to default on error
+      set({ timestampTemplate: DEFAULT_TIMESTAMP_TEMPLATE })
+      throw error
+    }
+  },
+
+  /**
+   * Save timestamp line template to electron-store
+   */
+  saveTimestampTemplate: async (template: string): Promise<void> => {
+    set({ isLoading: true, error: null })
+    try {
+      if (window.electronAPI?.setTimestampTemplate) {
+        await window.electronAPI.setTimestampTemplate({ template })
+        set({ timestampTemplate: template, isLoading: false })
+      } else {
+        throw new Error('Electron API not available')
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to save timestamp template'
+      set({ error: errorMessage, isLoading: false })
+      console.error('Failed to save timestamp template:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Load output folder and filename templates from electron-store
+   */
+  loadOutputSettings: async (): Promise<void> => {
+    try {
+      if (window.electronAPI?.getOutputSettings) {
+        const result = await window.electronAPI.getOutputSettings()
+        set({ outputSettings: result.output })
+      } else {
+        console.warn('Electron API not available, using default output settings')
+      }
+    } catch (error) {
+      console.error('Failed to load output settings:', error)
+      // Fallback to default on error
+      set({ outputSettings: DEFAULT_OUTPUT_SETTINGS })
+      throw error
+    }
+  },
+
+  /**
+   * Save output folder and filename templates to electron-store
+   */
+  saveOutputSettings: async (output: OutputSettings): Promise<void> => {
+    set({ isLoading: true, error: null })
+    try {
+      if (window.electronAPI?.setOutputSettings) {
+        await window.electronAPI.setOutputSettings({ output })
+        set({ outputSettings: output, isLoading: false })
+      } else {
+        throw new Error('Electron API not available')
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to save output settings'
+      set({ error: errorMessage, isLoading: false })
+      console.error('Failed to save output settings:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Load video encoder settings and the codecs the bundled ffmpeg supports
+   */
+  loadVideoEncoder: async (): Promise<void> => {
+    try {
+      if (window.electronAPI?.getVideoEncoder) {
+        const result = await window.electronAPI.getVideoEncoder()
+        set({ videoEncoder: result.encoder, availableVideoCodecs: result.availableCodecs })
+      } else {
+        console.warn('Electron API not available, using default video encoder')
+      }
+    } catch (error) {
+      console.error('Failed to load video encoder:', error)
+      // Fallback to default on error
+      set({ videoEncoder: DEFAULT_VIDEO_ENCODER, availableVideoCodecs: ['h264'] })
+      throw error
+    }
+  },
+
+  /**
+   * Save video encoder settings to electron-store
+   */
+  saveVideoEncoder: async (encoder: VideoEncoderSettings): Promise<void> => {
+    set({ isLoading: true, error: null })
+    try {
+      if (window.electronAPI?.setVideoEncoder) {
+        await window.electronAPI.setVideoEncoder({ encoder })
+        set({ videoEncoder: encoder, isLoading: false })
+      } else {
+        throw new Error('Electron API not available')
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to save video encoder'
+      set({ error: errorMessage, isLoading: false })
+      console.error('Failed to save video encoder:', error)
+      throw error
+    }
+  },
+
   /**
    * Get the current audio quality configuration
    */
@@ -244,7 +524,12 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
       await Promise.all([
         get().saveFileExtensions(DEFAULT_FILE_EXTENSIONS),
         get().saveAudioQuality(DEFAULT_AUDIO_QUALITY),
-        get().saveFastMode(true)
+        get().saveFastMode(true),
+        get().saveOutputResolution(DEFAULT_OUTPUT_RESOLUTION),
+        get().saveOutputSettings(DEFAULT_OUTPUT_SETTINGS),
+        get().saveTrackTitleSource(DEFAULT_TRACK_TITLE_SOURCE),
+        get().saveTimestampTemplate(DEFAULT_TIMESTAMP_TEMPLATE),
+        get().saveVideoEncoder(DEFAULT_VIDEO_ENCODER)
       ])
       set({ isLoading: false })
     } catch (error) {
@@ -268,5 +553,6 @@ export const useFileExtensions = () => useSettingsStore(state => state.fileExten
 export const useAudioQuality = () => useSettingsStore(state => state.audioQuality)
 export const useAudioQualityConfig = () => useSettingsStore(state => state.getAudioQualityConfig())
 export const useFastMode = () => useSettingsStore(state => state.fastMode)
+export const useOutputResolution = () => useSettingsStore(state => state.outputResolution)
 export const useSettingsError = () => useSettingsStore(state => state.error)
 export const useSettingsLoading = () => useSettingsStore(state => state.isLoading)
\ No newline at end of file
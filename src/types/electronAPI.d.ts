@@ -1,4 +1,4 @@
-import type { Job } from './index.js'
+import type { Job, PingPongAudioMode, VisualizerStyle, VisualizerPosition, VisualizerSettings, NowPlayingSettings, KenBurnsMode, MotionSettings, OutputResolution, ImageFillMode, ImageFillSettings, VideoCodec, VideoEncoderSettings, OutputSettings, TrackTitleSource, OutputMetadata, MediaTags, TimestampExportFormat, LyricsMode, LyricsSettings, LoudnessTarget, LoudnessSettings, CrossfadeCurve, CrossfadeSettings, TrackTrim, TrackVolume, SilenceSettings, SilenceDetection } from './index.js'
 
 export {}
 
@@ -6,7 +6,8 @@ declare global {
   interface Window {
     electronAPI?: {
       // Dialogs / file ops
-      openFileDialog: (type?: 'video' | 'image' | 'audio', multiSelect?: boolean) => Promise<string | string[] | null>
+      openFileDialog: (type?: 'video' | 'image' | 'audio' | 'lyrics', multiSelect?: boolean) => Promise<string | string[] | null>
+      openDirectoryDialog: () => Promise<string | null>
       openFile: (filePath: string) => Promise<void>
       fileExists: (filePath: string) => Promise<boolean>
       getAppPath: () => Promise<string>
@@ -16,15 +17,52 @@ declare global {
 
       // Video / Audio
       getVideoDuration: (videoPath: string) => Promise<number>
+      getTrackTitles: (videoPaths: string[]) => Promise<string[]>
+      getMediaTags: (filePath: string) => Promise<MediaTags>
+      exportTimestamps: (data: {
+        outputFile: string
+        timestampText: string
+        sourceFiles?: string[]
+        format: TimestampExportFormat
+      }) => Promise<{ success: boolean; path: string }>
       getAudioDuration: (audioPath: string) => Promise<number>
-      processVideo: (data: { inputPath: string; iterations: number }) => Promise<string>
+      detectSilence: (data: { paths: string[] } & SilenceSettings) => Promise<Array<SilenceDetection | null>>
+      processVideo: (data: {
+        inputPath: string
+        iterations: number
+        targetDuration?: number
+        enableSeamCrossfade?: boolean
+        seamCrossfadeDuration?: number
+        enableFadeIn?: boolean
+        enableFadeOut?: boolean
+        fadeOutDuration?: number
+        enablePingPong?: boolean
+        pingPongAudio?: PingPongAudioMode
+        clipDuration?: number  // Known source duration (skips the probe for the {duration} filename token)
+        outputDir?: string
+        metadata?: OutputMetadata
+      }) => Promise<string>
       createFromImage: (data: {
         imagePath: string
+        backgroundVideoPath?: string
         audioPath: string | string[]
         enablePadding?: boolean
         paddingDuration?: number
         enableFadeOut?: boolean
         fadeOutDuration?: number
+        visualizer?: VisualizerSettings
+        nowPlaying?: NowPlayingSettings
+        motion?: MotionSettings
+        trackImagePaths?: string[]
+        resolution?: OutputResolution
+        imageFill?: ImageFillSettings
+        lyrics?: LyricsSettings
+        loudness?: LoudnessSettings
+        crossfade?: CrossfadeSettings
+        trackTrims?: Array<TrackTrim | null>
+        trackVolumes?: Array<TrackVolume | null>
+        outputDir?: string
+        metadata?: OutputMetadata
       }) => Promise<string>
       concatVideos: (data: {
         videoPaths: string[]
@@ -34,6 +72,12 @@ declare global {
         fadeOutDuration?: number
         enableFadeIn?: boolean
         useIntroOutro?: boolean
+        resolution?: OutputResolution
+        loudness?: LoudnessSettings
+        clipTrims?: Array<TrackTrim | null>
+        clipVolumes?: Array<TrackVolume | null>
+        outputDir?: string
+        metadata?: OutputMetadata
       }) => Promise<string>
 
       // Progress / cancel
@@ -51,6 +95,16 @@ declare global {
       setAudioQuality: (data: { quality: string }) => Promise<{ success: boolean }>
       getFastMode: () => Promise<{ fastMode: boolean }>
       setFastMode: (data: { fastMode: boolean }) => Promise<{ success: boolean }>
+      getOutputResolution: () => Promise<{ resolution: OutputResolution }>
+      setOutputResolution: (data: { resolution: OutputResolution }) => Promise<{ success: boolean }>
+      getOutputSettings: () => Promise<{ output: OutputSettings }>
+      setOutputSettings: (data: { output: OutputSettings }) => Promise<{ success: boolean }>
+      getVideoEncoder: () => Promise<{ encoder: VideoEncoderSettings; availableCodecs: VideoCodec[] }>
+      setVideoEncoder: (data: { encoder: VideoEncoderSettings }) => Promise<{ success: boolean }>
+      getTrackTitleSource: () => Promise<{ source: TrackTitleSource }>
+      setTrackTitleSource: (data: { source: TrackTitleSource }) => Promise<{ success: boolean }>
+      getTimestampTemplate: () => Promise<{ template: string }>
+      setTimestampTemplate: (data: { template: string }) => Promise<{ success: boolean }>
 
       // UI prefs (NEW)
       getUIPreferences: () => Promise<{
@@ -60,6 +114,32 @@ declare global {
           fadeOutDuration: number
           enablePadding: boolean
           paddingDuration: number
+          enableVisualizer: boolean
+          visualizerStyle: VisualizerStyle
+          visualizerPosition: VisualizerPosition
+          visualizerSize: number
+          visualizerColor: string
+          visualizerOpacity: number
+          enableNowPlaying: boolean
+          nowPlayingArtist: string
+          nowPlayingDuration: number
+          enableMotion: boolean
+          motionMode: KenBurnsMode
+          motionCycleDuration: number
+          resolution: OutputResolution | 'default'
+          fillMode: ImageFillMode
+          focalX: number
+          focalY: number
+          enableLyrics: boolean
+          lyricsMode: LyricsMode
+          enableLoudness: boolean
+          loudnessTarget: LoudnessTarget
+          enableCrossfade: boolean
+          crossfadeDuration: number
+          crossfadeCurve: CrossfadeCurve
+          enableSilenceTrim: boolean
+          silenceThreshold: number
+          silenceMinDuration: number
         }
         concat: {
           advancedOpen: boolean
@@ -68,9 +148,22 @@ declare global {
           enablePadding: boolean
           paddingDuration: number
           enableFadeIn: boolean
+          resolution: OutputResolution | 'default'
+          enableLoudness: boolean
+          loudnessTarget: LoudnessTarget
+          enableSilenceTrim: boolean
+          silenceThreshold: number
+          silenceMinDuration: number
         }
         loop: {
           advancedOpen: boolean
+          enableSeamCrossfade: boolean
+          seamCrossfadeDuration: number
+          enableFadeIn: boolean
+          enableFadeOut: boolean
+          fadeOutDuration: number
+          enablePingPong: boolean
+          pingPongAudio: PingPongAudioMode
         }
       }>
       setUIPreferences: (data: {
@@ -80,6 +173,32 @@ declare global {
           fadeOutDuration: number
           enablePadding: boolean
           paddingDuration: number
+          enableVisualizer: boolean
+          visualizerStyle: VisualizerStyle
+          visualizerPosition: VisualizerPosition
+          visualizerSize: number
+          visualizerColor: string
+          visualizerOpacity: number
+          enableNowPlaying: boolean
+          nowPlayingArtist: string
+          nowPlayingDuration: number
+          enableMotion: boolean
+          motionMode: KenBurnsMode
+          motionCycleDuration: number
+          resolution: OutputResolution | 'default'
+          fillMode: ImageFillMode
+          focalX: number
+          focalY: number
+          enableLyrics: boolean
+          lyricsMode: LyricsMode
+          enableLoudness: boolean
+          loudnessTarget: LoudnessTarget
+          enableCrossfade: boolean
+          crossfadeDuration: number
+          crossfadeCurve: CrossfadeCurve
+          enableSilenceTrim: boolean
+          silenceThreshold: number
+          silenceMinDuration: number
         }
         concat: {
           advancedOpen: boolean
@@ -88,9 +207,22 @@ declare global {
           enablePadding: boolean
           paddingDuration: number
           enableFadeIn: boolean
+          resolution: OutputResolution | 'default'
+          enableLoudness: boolean
+          loudnessTarget: LoudnessTarget
+          enableSilenceTrim: boolean
+          silenceThreshold: number
+          silenceMinDuration: number
         }
         loop: {
           advancedOpen: boolean
+          enableSeamCrossfade: boolean
+          seamCrossfadeDuration: number
+          enableFadeIn: boolean
+          enableFadeOut: boolean
+          fadeOutDuration: number
+          enablePingPong: boolean
+          pingPongAudio: PingPongAudioMode
         }
       }) => Promise<{ success: boolean }>
 
@@ -1,5 +1,138 @@
 // Job type definitions
 export type JobType = 'music-video' | 'video-loop' | 'video-concat'
+export type LoopMode = 'iterations' | 'duration'
+export type PingPongAudioMode = 'keep' | 'reverse' | 'drop'
+export type VisualizerStyle = 'waveform' | 'spectrum' | 'vu'
+export type VisualizerPosition = 'top' | 'center' | 'bottom'
+export type OutputResolution = '720p' | '1080p' | '1440p' | '4k' | 'vertical' | 'square'
+
+// Audio visualizer overlay for music videos
+export interface VisualizerSettings {
+  style: VisualizerStyle
+  position: VisualizerPosition
+  size: number     // Percentage of the frame height (10-100)
+  color: string    // Hex color (#RRGGBB)
+  opacity: number  // 0.1-1
+}
+
+// "Now playing" lower-third for playlist music videos (titles follow the track title source)
+export interface NowPlayingSettings {
+  artist?: string   // Optional second line under every title
+  duration: number  // Seconds shown at the start of each track
+}
+
+// Ken Burns motion on the still background image (music-video)
+export type KenBurnsMode = 'zoom' | 'pan'
+
+export interface MotionSettings {
+  mode: KenBurnsMode
+  cycleDuration: number  // Seconds per zoom/pan cycle (5-120)
+}
+
+// What fills the frame around images that don't match the output aspect ratio (music-video)
+export type ImageFillMode = 'black' | 'color' | 'blur' | 'crop'
+
+export interface ImageFillSettings {
+  mode: ImageFillMode
+  focalX: number  // Crop focal point, % from the left (0-100)
+  focalY: number  // Crop focal point, % from the top (0-100)
+}
+
+// Where track titles for timestamps, chapters and overlays come from (Settings)
+// Tag-based sources fall back to the file name when the tags are missing
+export type TrackTitleSource = 'filename' | 'tag' | 'artist-title'
+
+// Output folder and filename templates (Settings)
+// Template tokens: {name} {type} {mode} {length} {iterations} {duration} {trackCount} {date}
+export interface OutputSettings {
+  directory: string         // '' = next to the first input
+  datedSubfolder: boolean   // Write into a YYYY-MM-DD subfolder
+  templates: Record<JobType, string>
+}
+
+// Video encoder used for re-encodes (Settings)
+export type VideoCodec = 'h264' | 'h265' | 'vp9' | 'av1'
+export type OutputContainer = 'mp4' | 'mkv' | 'mov' | 'webm'
+export type EncoderPreset = 'auto' | 'ultrafast' | 'superfast' | 'veryfast' | 'faster' | 'fast' | 'medium' | 'slow' | 'slower' | 'veryslow'
+export type EncoderTune = 'auto' | 'none' | 'film' | 'animation' | 'grain'
+
+export interface VideoEncoderSettings {
+  codec: VideoCodec
+  container: OutputContainer
+  crf: number            // Constant quality (h264/h265: 0-51, vp9/av1: 0-63)
+  preset: EncoderPreset  // 'auto' keeps each path's own speed
+  tune: EncoderTune      // 'auto' uses stillimage for still segments (h264)
+}
+// Tags written into the finished video (empty fields are left out)
+export interface OutputMetadata {
+  title?: string
+  artist?: string
+  album?: string
+  comment?: string   // Also written as the description
+  year?: string      // YYYY
+  genre?: string
+}
+
+// Track list file formats (saved next to the output)
+export type TimestampExportFormat = 'txt' | 'cue' | 'vtt' | 'srt' | 'json'
+
+// In/out points of one playlist track (seconds in the audio file)
+export interface TrackTrim {
+  start: number  // 0 = from the start
+  end?: number   // Unset = to the end of the file
+}
+
+// Manual gain of one playlist track/concat clip (added to the loudness normalization gain)
+export interface TrackVolume {
+  gain: number     // dB (-30 to +12, 0 = unchanged)
+  muted?: boolean  // Silenced, length kept
+}
+
+// Automatic head/tail silence trimming (silencedetect)
+export interface SilenceSettings {
+  threshold: number    // dB; quieter audio counts as silence (-90 to -10)
+  minDuration: number  // Seconds; shorter gaps are ignored (0.1-10)
+}
+
+// Silence found at the head and tail of one input (trim = null: nothing to remove)
+export interface SilenceDetection {
+  trim: TrackTrim | null
+  head: number  // Seconds removed at the start
+  tail: number  // Seconds removed at the end
+}
+
+// Crossfade between playlist tracks (acrossfade curve: linear, constant power, S-curve, log, exp)
+export type CrossfadeCurve = 'tri' | 'qsin' | 'hsin' | 'log' | 'exp'
+
+export interface CrossfadeSettings {
+  duration: number  // Seconds of overlap (2-12)
+  curve: CrossfadeCurve
+}
+
+// EBU R128 loudness normalization target in LUFS (-14 YouTube, -16 podcasts, -23 broadcast)
+export type LoudnessTarget = -14 | -16 | -23
+
+export interface LoudnessSettings {
+  target: LoudnessTarget  // Each track/clip gets one gain to reach it (true peak stays under -1 dBTP)
+}
+
+// Lyrics for image+music jobs: soft subtitle stream or burned-in karaoke text
+export type LyricsMode = 'soft' | 'burn'
+
+export interface LyricsSettings {
+  mode: LyricsMode
+  paths: string[]   // One .lrc/.txt per audio file ('' = <audio>.lrc / <audio>.txt next to it)
+}
+
+// Tags read from an input file (pre-fills OutputMetadata)
+export interface MediaTags {
+  title?: string
+  artist?: string
+  album?: string
+  year?: string
+  genre?: string
+}
+
 export type JobStatus = 'waiting' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'interrupted'
 
 export interface Job {
@@ -10,14 +143,37 @@ export interface Job {
   name: string
   params: {
     imagePath?: string
+    backgroundVideoPath?: string  // Looped under the audio instead of imagePath (music-video)
     audioPath?: string | string[]
     videoPath?: string | string[]
     iterations?: number
+    loopMode?: LoopMode
+    targetDuration?: number  // Seconds (loopMode === 'duration')
+    clipDuration?: number    // Seconds of the loop source, already known to the loop tab (video-loop)
+    enableSeamCrossfade?: boolean
+    seamCrossfadeDuration?: number
+    enablePingPong?: boolean       // Play forward, then reversed (boomerang)
+    pingPongAudio?: PingPongAudioMode
     enablePadding?: boolean
     paddingDuration?: number
     enableFadeOut?: boolean
     fadeOutDuration?: number
     enableFadeIn?: boolean
+    visualizer?: VisualizerSettings  // music-video only; forces a video re-encode
+    nowPlaying?: NowPlayingSettings  // music-video playlists only
+    motion?: MotionSettings          // music-video with a background image only
+    trackImagePaths?: string[]       // music-video playlists: one image per audio file ('' = imagePath)
+    resolution?: OutputResolution    // music-video/concat; unset = saved default (concat: first video's size)
+    outputDir?: string               // Output folder for this job; unset = Settings default
+    metadata?: OutputMetadata        // Output tags; unset = none written
+    imageFill?: ImageFillSettings    // music-video with background images; unset = black letterbox
+    lyrics?: LyricsSettings          // music-video only; unset = no lyrics
+    loudness?: LoudnessSettings      // music-video/concat; unset = levels unchanged
+    crossfade?: CrossfadeSettings    // music-video only; replaces fade-out/padding between tracks
+    trackTrims?: Array<TrackTrim | null>  // music-video only; same order as audioPath, null = full track
+    clipTrims?: Array<TrackTrim | null>   // video-concat only; same order as videoPath, null = full clip
+    trackVolumes?: Array<TrackVolume | null>  // music-video only; same order as audioPath, null = unchanged
+    clipVolumes?: Array<TrackVolume | null>   // video-concat only; same order as videoPath, null = unchanged
   }
   result?: string
   error?: string